@@ -118,7 +118,7 @@ export default [
       'jest/valid-expect': 'error',
       'jest/valid-describe-callback': 'error',
       'jest/no-done-callback': 'error',
-      'jest/expect-expect': 'warn',
+      'jest/expect-expect': ['warn', { assertFunctionNames: ['expect', 'testUtils.assert*'] }],
       'jest/no-commented-out-tests': 'warn',
       'jest/no-duplicate-hooks': 'error',
       'jest/no-test-return-statement': 'error',
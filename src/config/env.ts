@@ -9,14 +9,29 @@ const envSchema = z.object({
   PORT: z.coerce.number().default(5000),
   APP_URL: z.string().url().default('http://localhost:5000'),
 
-  API_KEY: z.string().min(1, 'API key is required'),
-
   // Database
   MONGODB_URI: z.string().min(1, 'MongoDB URI is required'),
 
   // Authentication
   JWT_SECRET: z.string().min(32, 'JWT secret must be at least 32 characters'),
-  JWT_EXPIRES_IN: z.string().default('7d'),
+  JWT_EXPIRES_IN: z.string().default('15m'),
+  REFRESH_TOKEN_EXPIRES_IN_DAYS: z.coerce.number().min(1).default(7),
+  // Signs public invoice share links; defaults to a key derived from JWT_SECRET
+  SHARE_LINK_SECRET: z
+    .string()
+    .min(32, 'Share link secret must be at least 32 characters')
+    .optional(),
+
+  // Per-account brute-force protection
+  LOGIN_MAX_FAILED_ATTEMPTS: z.coerce.number().min(1).default(5),
+  LOGIN_LOCK_MINUTES: z.coerce.number().min(1).default(15),
+  // Encrypts two-factor secrets at rest; defaults to a key derived from JWT_SECRET
+  TWO_FACTOR_ENCRYPTION_KEY: z
+    .string()
+    .min(32, 'Two-factor encryption key must be at least 32 characters')
+    .optional(),
+  // Name shown next to the account in authenticator apps
+  TWO_FACTOR_ISSUER: z.string().min(1).default('InvoLuck'),
 
   // CORS
   CORS_ORIGIN: z.string().default('http://localhost:3000'),
@@ -42,6 +57,52 @@ const envSchema = z.object({
   // Security
   SECURITY_HEADERS: z.coerce.boolean().default(true),
 
+  // Money
+  MONEY_ROUNDING_STRATEGY: z.enum(['line', 'invoice']).default('line'),
+  MONEY_ROUNDING_MODE: z.enum(['half_up', 'half_even']).default('half_up'),
+
+  // Background jobs
+  SCHEDULER_ENABLED: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform(value => value === 'true'),
+  OVERDUE_JOB_INTERVAL_MS: z.coerce.number().min(1000).default(900000), // 15 minutes
+  REMINDER_JOB_INTERVAL_MS: z.coerce.number().min(1000).default(3600000), // 1 hour
+  REMINDER_DAYS_BEFORE_DUE: z.coerce.number().min(0).max(60).default(3),
+  REMINDER_ON_DUE_DATE: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform(value => value === 'true'),
+  REMINDER_DAYS_AFTER_DUE: z
+    .string()
+    .default('3,7,14')
+    .transform(value =>
+      value
+        .split(',')
+        .map(day => Number(day.trim()))
+        .filter(day => Number.isInteger(day) && day > 0)
+    ),
+  REMINDER_MAX_PER_INVOICE: z.coerce.number().min(1).max(50).default(6),
+  RECURRING_JOB_INTERVAL_MS: z.coerce.number().min(1000).default(3600000), // 1 hour
+
+  // Online payments
+  PAYMENT_PROVIDER: z.enum(['stripe', 'fake']).default('stripe'),
+  STRIPE_SECRET_KEY: z.string().optional(),
+  STRIPE_WEBHOOK_SECRET: z.string().optional(),
+  STRIPE_API_URL: z.string().url().default('https://api.stripe.com'),
+  PAYMENT_WEBHOOK_TOLERANCE_SECONDS: z.coerce.number().min(1).default(300), // 5 minutes
+  PAYMENT_FAKE_PROVIDER_ENABLED: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform(value => value === 'true'),
+
+  // Outbound webhooks
+  WEBHOOK_JOB_INTERVAL_MS: z.coerce.number().min(1000).default(30000), // 30 seconds
+  WEBHOOK_TIMEOUT_MS: z.coerce.number().min(1000).max(60000).default(10000), // 10 seconds
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().min(1).max(20).default(8),
+  WEBHOOK_RETRY_BASE_SECONDS: z.coerce.number().min(1).default(60), // doubles after each attempt
+  WEBHOOK_DISABLE_AFTER_FAILURES: z.coerce.number().min(1).default(5),
+
   // Development
   DEV_MODE: z.coerce.boolean().default(false),
   ENABLE_API_DOCS: z.coerce.boolean().default(false)
@@ -70,10 +131,15 @@ export const {
   NODE_ENV,
   PORT,
   APP_URL,
-  API_KEY,
   MONGODB_URI,
   JWT_SECRET,
   JWT_EXPIRES_IN,
+  REFRESH_TOKEN_EXPIRES_IN_DAYS,
+  SHARE_LINK_SECRET,
+  LOGIN_MAX_FAILED_ATTEMPTS,
+  LOGIN_LOCK_MINUTES,
+  TWO_FACTOR_ENCRYPTION_KEY,
+  TWO_FACTOR_ISSUER,
   CORS_ORIGIN,
   SMTP_HOST,
   SMTP_PORT,
@@ -86,6 +152,27 @@ export const {
   ALLOWED_FILE_EXTENSIONS,
   LOG_LEVEL,
   SECURITY_HEADERS,
+  MONEY_ROUNDING_STRATEGY,
+  MONEY_ROUNDING_MODE,
+  SCHEDULER_ENABLED,
+  OVERDUE_JOB_INTERVAL_MS,
+  REMINDER_JOB_INTERVAL_MS,
+  REMINDER_DAYS_BEFORE_DUE,
+  REMINDER_ON_DUE_DATE,
+  REMINDER_DAYS_AFTER_DUE,
+  REMINDER_MAX_PER_INVOICE,
+  RECURRING_JOB_INTERVAL_MS,
+  PAYMENT_PROVIDER,
+  STRIPE_SECRET_KEY,
+  STRIPE_WEBHOOK_SECRET,
+  STRIPE_API_URL,
+  PAYMENT_WEBHOOK_TOLERANCE_SECONDS,
+  PAYMENT_FAKE_PROVIDER_ENABLED,
+  WEBHOOK_JOB_INTERVAL_MS,
+  WEBHOOK_TIMEOUT_MS,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_SECONDS,
+  WEBHOOK_DISABLE_AFTER_FAILURES,
   DEV_MODE,
   ENABLE_API_DOCS
 } = env;
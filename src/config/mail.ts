@@ -47,8 +47,8 @@ export interface EmailOptions {
   }>;
 }
 
-// Send email using configured transporter
-export const sendMail = async (options: EmailOptions): Promise<void> => {
+// Send email using configured transporter, resolving with the transport message id
+export const sendMail = async (options: EmailOptions): Promise<string> => {
   try {
     const mailOptions = {
       from: options.from || SMTP_FROM,
@@ -74,6 +74,8 @@ export const sendMail = async (options: EmailOptions): Promise<void> => {
       subject: options.subject,
       preview: isDevelopment() ? nodemailer.getTestMessageUrl(info) : undefined
     });
+
+    return info.messageId;
   } catch (error) {
     logger.error({
       msg: 'Failed to send email',
@@ -0,0 +1,33 @@
+import logger from '../config/logger.js';
+import accountLockoutService from '../services/accountLockout.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { getAuditContext } from '../utils/auditContext.js';
+import { ok } from '../utils/http.js';
+
+import type { AccountLockQueryInput } from '../validators/admin.schema.js';
+import type { Request, Response } from 'express';
+
+class AccountLocksController {
+  getAccountLocks = asyncHandler<AccountLockQueryInput>(async (req, res) => {
+    const result = await accountLockoutService.listAccountLocks(req.query);
+
+    return ok(res, result.data, 200, result.pagination);
+  });
+
+  clearAccountLock = asyncHandler(async (req: Request, res: Response) => {
+    const adminId = req.user!.id;
+    const userId = req.params.id;
+    const status = await accountLockoutService.clearLock(userId, getAuditContext(req));
+
+    logger.info({
+      msg: 'Account lock cleared via API',
+      userId,
+      adminId,
+      requestId: req.id
+    });
+
+    return ok(res, status);
+  });
+}
+
+export default new AccountLocksController();
@@ -0,0 +1,116 @@
+import logger from '../config/logger.js';
+import adminUsersService from '../services/adminUsers.service.js';
+import auditLogService from '../services/auditLog.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { getAuditContext } from '../utils/auditContext.js';
+import { ok, noContent } from '../utils/http.js';
+
+import type { AdminUserQueryInput, AuditLogQueryInput } from '../validators/admin.schema.js';
+import type { Request, Response } from 'express';
+
+class AdminUsersController {
+  getUsers = asyncHandler<AdminUserQueryInput>(async (req, res) => {
+    const result = await adminUsersService.listUsers(req.query);
+
+    return ok(res, result.data, 200, result.pagination);
+  });
+
+  getUserById = asyncHandler(async (req: Request, res: Response) => {
+    const user = await adminUsersService.getUser(req.params.id);
+
+    return ok(res, user);
+  });
+
+  updateUserRole = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.params.id;
+    const user = await adminUsersService.updateRole(userId, req.body, getAuditContext(req));
+
+    logger.info({
+      msg: 'User role updated via API',
+      userId,
+      adminId: req.user!.id,
+      role: user.role,
+      requestId: req.id
+    });
+
+    return ok(res, user);
+  });
+
+  logoutUser = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.params.id;
+    await adminUsersService.forceLogout(userId, getAuditContext(req));
+
+    logger.info({
+      msg: 'User logged out via API',
+      userId,
+      adminId: req.user!.id,
+      requestId: req.id
+    });
+
+    return noContent(res);
+  });
+
+  deactivateUser = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.params.id;
+    const user = await adminUsersService.deactivate(userId, getAuditContext(req));
+
+    logger.info({
+      msg: 'User deactivated via API',
+      userId,
+      adminId: req.user!.id,
+      requestId: req.id
+    });
+
+    return ok(res, user);
+  });
+
+  reactivateUser = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.params.id;
+    const user = await adminUsersService.reactivate(userId, getAuditContext(req));
+
+    logger.info({
+      msg: 'User reactivated via API',
+      userId,
+      adminId: req.user!.id,
+      requestId: req.id
+    });
+
+    return ok(res, user);
+  });
+
+  verifyUserEmail = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.params.id;
+    const user = await adminUsersService.verifyEmail(userId, getAuditContext(req));
+
+    logger.info({
+      msg: 'User email verified via API',
+      userId,
+      adminId: req.user!.id,
+      requestId: req.id
+    });
+
+    return ok(res, user);
+  });
+
+  deleteUser = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.params.id;
+    await adminUsersService.deleteUser(userId, getAuditContext(req));
+
+    logger.info({
+      msg: 'User deleted via API',
+      userId,
+      adminId: req.user!.id,
+      requestId: req.id
+    });
+
+    return noContent(res);
+  });
+
+  getAuditLogs = asyncHandler<AuditLogQueryInput>(async (req, res) => {
+    const result = await auditLogService.listAuditLogs(req.query);
+
+    return ok(res, result.data, 200, result.pagination);
+  });
+}
+
+export default new AdminUsersController();
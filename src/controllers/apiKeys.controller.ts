@@ -0,0 +1,45 @@
+import logger from '../config/logger.js';
+import apiKeysService from '../services/apiKeys.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok, created, noContent } from '../utils/http.js';
+
+import type { Request, Response } from 'express';
+
+class ApiKeysController {
+  getApiKeys = asyncHandler(async (req: Request, res: Response) => {
+    const apiKeys = await apiKeysService.listApiKeys(req.user!.id);
+
+    return ok(res, apiKeys);
+  });
+
+  createApiKey = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const result = await apiKeysService.createApiKey(userId, req.body);
+
+    logger.info({
+      msg: 'API key created via API',
+      userId,
+      apiKeyId: result.apiKey._id,
+      requestId: req.id
+    });
+
+    return created(res, result);
+  });
+
+  revokeApiKey = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const apiKeyId = req.params.id;
+    await apiKeysService.revokeApiKey(userId, apiKeyId);
+
+    logger.info({
+      msg: 'API key revoked via API',
+      userId,
+      apiKeyId,
+      requestId: req.id
+    });
+
+    return noContent(res);
+  });
+}
+
+export default new ApiKeysController();
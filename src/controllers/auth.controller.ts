@@ -1,19 +1,57 @@
-import crypto from 'crypto';
-
-import mongoose from 'mongoose';
-
+import { REFRESH_TOKEN_EXPIRES_IN_DAYS } from '../config/env.js';
 import logger from '../config/logger.js';
-import RefreshToken from '../models/refreshTokenModel.js';
+import accountLockoutService from '../services/accountLockout.service.js';
 import authService from '../services/auth.service.js';
+import { ApiErrors } from '../utils/ApiError.js';
 import { asyncHandler } from '../utils/asyncHandler.js';
-import { ok, created } from '../utils/http.js';
+import { ok, created, noContent } from '../utils/http.js';
 
+import type { ClientContext } from '../services/auth.service.js';
 import type { Request, Response } from 'express';
 
+const REFRESH_TOKEN_COOKIE = 'refreshToken';
+
+// Refresh tokens are only sent back to the auth routes
+const refreshTokenCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  path: '/api/v1/auth'
+};
+
+// IP address and user agent the refresh token is bound to
+const getClientContext = (req: Request): ClientContext => ({
+  ip: req.ip,
+  userAgent: req.get('User-Agent') || ''
+});
+
+// Refresh token from the request body, falling back to the cookie
+const getRefreshToken = (req: Request): string | undefined => {
+  if (req.body?.refreshToken) {
+    return req.body.refreshToken;
+  }
+
+  const cookie = (req.headers.cookie || '')
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${REFRESH_TOKEN_COOKIE}=`));
+
+  return cookie ? decodeURIComponent(cookie.slice(REFRESH_TOKEN_COOKIE.length + 1)) : undefined;
+};
+
+const setRefreshTokenCookie = (res: Response, refreshToken: string): void => {
+  res.cookie(REFRESH_TOKEN_COOKIE, refreshToken, {
+    ...refreshTokenCookieOptions,
+    maxAge: REFRESH_TOKEN_EXPIRES_IN_DAYS * 24 * 60 * 60 * 1000
+  });
+};
+
 class AuthController {
   // ================== REGISTER ==================
   register = asyncHandler(async (req: Request, res: Response) => {
-    const authResponse = await authService.register(req.body);
+    const authResponse = await authService.register(req.body, getClientContext(req));
+
+    setRefreshTokenCookie(res, authResponse.refreshToken);
 
     logger.info({
       msg: 'User registration successful',
@@ -27,16 +65,14 @@ class AuthController {
 
   // ================== LOGIN ==================
   login = asyncHandler(async (req: Request, res: Response) => {
-    const authResponse = await authService.login(req.body);
+    const authResponse = await authService.login(req.body, getClientContext(req));
 
-    const refreshToken = await this.createRefreshToken(authResponse.user.id.toString(), req);
+    // The password was right, but a second factor is still needed
+    if ('twoFactorRequired' in authResponse) {
+      return ok(res, authResponse);
+    }
 
-    res.cookie('refreshToken', refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      sameSite: 'strict'
-    });
+    setRefreshTokenCookie(res, authResponse.refreshToken);
 
     logger.info({
       msg: 'User login successful',
@@ -48,73 +84,57 @@ class AuthController {
     return ok(res, authResponse);
   });
 
-  // ================== CREATE REFRESH TOKEN ==================
-  private readonly createRefreshToken = async (userId: string, req: Request): Promise<string> => {
-    const refreshToken = crypto.randomBytes(32).toString('hex');
-    const hashedToken = crypto.createHash('sha256').update(refreshToken).digest('hex');
+  // ================== TWO-FACTOR LOGIN ==================
+  loginTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+    const { challengeToken, code } = req.body;
+    const authResponse = await authService.completeTwoFactorLogin(
+      challengeToken,
+      code,
+      getClientContext(req)
+    );
 
-    await RefreshToken.create({
-      user: new mongoose.Types.ObjectId(userId),
-      token: hashedToken,
-      ip: req.ip,
-      userAgent: req.get('User-Agent') || '',
-      expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
+    setRefreshTokenCookie(res, authResponse.refreshToken);
+
+    logger.info({
+      msg: 'User two-factor login successful',
+      userId: authResponse.user.id,
+      email: authResponse.user.email,
+      requestId: req.id
     });
 
-    return refreshToken;
-  };
+    return ok(res, authResponse);
+  });
 
   // ================== REFRESH TOKEN ==================
   refreshToken = asyncHandler(async (req: Request, res: Response) => {
-    const token = req.cookies.refreshToken || req.body.refreshToken;
+    const token = getRefreshToken(req);
     if (!token) {
-      return res.status(401).json({
-        success: false,
-        error: {
-          code: 'REFRESH_TOKEN_REQUIRED',
-          message: 'Refresh token is required'
-        },
-        requestId: req.id
+      throw ApiErrors.unauthorized('Refresh token is required', {
+        code: 'REFRESH_TOKEN_REQUIRED'
       });
     }
 
-    const hashedToken = crypto.createHash('sha256').update(token).digest('hex');
-    const tokenDoc = await RefreshToken.findOne({
-      token: hashedToken
-    }).populate('user');
-
-    if (!tokenDoc || tokenDoc.expiresAt < new Date()) {
-      return res.status(401).json({
-        success: false,
-        error: {
-          code: 'INVALID_REFRESH_TOKEN',
-          message: 'Invalid or expired refresh token'
-        },
-        requestId: req.id
-      });
-    }
+    const authResponse = await authService.refreshAccessToken(token, getClientContext(req));
 
-    const user = tokenDoc.user as any;
-    const newAccessToken = authService.issueAccessToken(user._id.toString(), user.email, user.tokenVersion);
+    setRefreshTokenCookie(res, authResponse.refreshToken);
 
     logger.info({
       msg: 'Access token refreshed',
-      userId: user._id.toString(),
+      userId: authResponse.user.id,
       requestId: req.id
     });
 
-    return ok(res, { token: newAccessToken });
+    return ok(res, authResponse);
   });
 
   // ================== LOGOUT ==================
   logout = asyncHandler(async (req: Request, res: Response) => {
-    const token = req.cookies.refreshToken || req.body.refreshToken;
+    const token = getRefreshToken(req);
     if (token) {
-      const hashedToken = crypto.createHash('sha256').update(token).digest('hex');
-      await RefreshToken.findOneAndDelete({ token: hashedToken });
+      await authService.revokeRefreshToken(token);
     }
 
-    res.clearCookie('refreshToken');
+    res.clearCookie(REFRESH_TOKEN_COOKIE, refreshTokenCookieOptions);
 
     logger.info({
       msg: 'User logout',
@@ -125,6 +145,26 @@ class AuthController {
     return ok(res, { message: 'Logout successful' });
   });
 
+  // ================== SESSIONS ==================
+  getSessions = asyncHandler(async (req: Request, res: Response) => {
+    const sessions = await authService.listSessions(req.user!.id, req.user!.sessionId);
+    return ok(res, sessions);
+  });
+
+  revokeSession = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    await authService.revokeSession(userId, req.params.id);
+
+    logger.info({
+      msg: 'Session revoked via API',
+      userId,
+      sessionId: req.params.id,
+      requestId: req.id
+    });
+
+    return noContent(res);
+  });
+
   // ================== FORGOT PASSWORD ==================
   forgotPassword = asyncHandler(async (req: Request, res: Response) => {
     const { email } = req.body;
@@ -159,6 +199,13 @@ resendVerificationEmail = asyncHandler(async (req: Request, res: Response) => {
   return ok(res, { message: 'Verification email resent' });
 });
 
+// ================== UNLOCK ACCOUNT ==================
+unlockAccount = asyncHandler(async (req: Request, res: Response) => {
+  const { token } = req.params;
+  await accountLockoutService.unlockWithToken(token);
+  return ok(res, { message: 'Account unlocked successfully' });
+});
+
 
   // ================== PROFILE ==================
   getProfile = asyncHandler(async (req: Request, res: Response) => {
@@ -0,0 +1,95 @@
+import logger from '../config/logger.js';
+import bankStatementsService from '../services/bankStatements.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok, created } from '../utils/http.js';
+import { getOrganizationScope } from '../utils/organizationScope.js';
+
+import type { BankTransactionQueryInput } from '../validators/bankStatement.schema.js';
+import type { Request, Response } from 'express';
+
+class BankStatementsController {
+  importStatement = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const summary = await bankStatementsService.importStatement(scope, req.body);
+
+    logger.info({
+      msg: 'Bank statement imported via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      importId: summary.importId,
+      imported: summary.imported,
+      requestId: req.id
+    });
+
+    return created(res, summary);
+  });
+
+  getTransactions = asyncHandler<BankTransactionQueryInput>(async (req, res) => {
+    const scope = getOrganizationScope(req);
+    const result = await bankStatementsService.getTransactions(scope, req.query);
+
+    return ok(res, result.data, 200, result.pagination);
+  });
+
+  getTransaction = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const transaction = await bankStatementsService.getTransactionById(scope, req.params.id);
+
+    return ok(res, transaction);
+  });
+
+  confirmMatch = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const transactionId = req.params.id;
+    const transaction = await bankStatementsService.confirmMatch(scope, transactionId, req.body);
+
+    logger.info({
+      msg: 'Bank transaction matched via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      transactionId,
+      invoiceId: transaction.match?.invoiceId,
+      requestId: req.id
+    });
+
+    return ok(res, transaction);
+  });
+
+  ignoreTransaction = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const transactionId = req.params.id;
+    const transaction = await bankStatementsService.ignoreTransaction(
+      scope,
+      transactionId,
+      req.body
+    );
+
+    logger.info({
+      msg: 'Bank transaction ignored via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      transactionId,
+      requestId: req.id
+    });
+
+    return ok(res, transaction);
+  });
+
+  reopenTransaction = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const transactionId = req.params.id;
+    const transaction = await bankStatementsService.reopenTransaction(scope, transactionId);
+
+    logger.info({
+      msg: 'Bank transaction reopened via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      transactionId,
+      requestId: req.id
+    });
+
+    return ok(res, transaction);
+  });
+}
+
+export default new BankStatementsController();
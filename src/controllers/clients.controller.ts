@@ -2,48 +2,52 @@ import logger from '../config/logger.js';
 import clientsService from '../services/clients.service.js';
 import { asyncHandler } from '../utils/asyncHandler.js';
 import { ok, created, noContent } from '../utils/http.js';
+import { getOrganizationScope } from '../utils/organizationScope.js';
 
+import type { ClientQueryInput } from '../validators/client.schema.js';
 import type { Request, Response } from 'express';
 
 class ClientsController {
   createClient = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
-    const client = await clientsService.createClient(userId, req.body);
+    const scope = getOrganizationScope(req);
+    const client = await clientsService.createClient(scope, req.body);
 
     logger.info({
       msg: 'Client created via API',
       clientId: (client as any)._id.toString(),
-      userId,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
       requestId: req.id
     });
 
     return created(res, client);
   });
 
-  getClients = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
-    const result = await clientsService.getClients(userId, req.query as any);
+  getClients = asyncHandler<ClientQueryInput>(async (req, res) => {
+    const scope = getOrganizationScope(req);
+    const result = await clientsService.getClients(scope, req.query);
 
     return ok(res, result.data, 200, result.pagination);
   });
 
   getClientById = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+    const scope = getOrganizationScope(req);
     const clientId = req.params.id;
-    const client = await clientsService.getClientById(userId, clientId);
+    const client = await clientsService.getClientById(scope, clientId);
 
     return ok(res, client);
   });
 
   updateClient = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+    const scope = getOrganizationScope(req);
     const clientId = req.params.id;
-    const client = await clientsService.updateClient(userId, clientId, req.body);
+    const client = await clientsService.updateClient(scope, clientId, req.body);
 
     logger.info({
       msg: 'Client updated via API',
       clientId: (client as any)._id.toString(),
-      userId,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
       updatedFields: Object.keys(req.body),
       requestId: req.id
     });
@@ -52,14 +56,15 @@ class ClientsController {
   });
 
   deleteClient = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+    const scope = getOrganizationScope(req);
     const clientId = req.params.id;
-    await clientsService.deleteClient(userId, clientId);
+    await clientsService.deleteClient(scope, clientId);
 
     logger.info({
       msg: 'Client deleted via API',
       clientId,
-      userId,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
       requestId: req.id
     });
 
@@ -67,22 +72,22 @@ class ClientsController {
   });
 
   getClientStats = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
-    const stats = await clientsService.getClientStats(userId);
+    const scope = getOrganizationScope(req);
+    const stats = await clientsService.getClientStats(scope);
 
     return ok(res, stats);
   });
 
   getClientStatsByid = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+    const scope = getOrganizationScope(req);
     const clientId = req.params.id;
-    const stats = await clientsService.getClientStats(userId, clientId);
+    const stats = await clientsService.getClientStats(scope, clientId);
 
     return ok(res, stats);
   });
 
   searchClients = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+    const scope = getOrganizationScope(req);
     const searchTerm = req.query.q as string;
     const limit = parseInt(req.query.limit as string) || 10;
 
@@ -90,17 +95,17 @@ class ClientsController {
       return ok(res, []);
     }
 
-    const clients = await clientsService.searchClients(userId, searchTerm, limit);
+    const clients = await clientsService.searchClients(scope, searchTerm, limit);
 
     return ok(res, clients);
   });
 
   updateClientFinancials = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+    const scope = getOrganizationScope(req);
     const clientId = req.params.id;
 
     // Verify client belongs to user
-    await clientsService.getClientById(userId, clientId);
+    await clientsService.getClientById(scope, clientId);
 
     // Update financials
     await clientsService.updateClientFinancials(clientId);
@@ -108,7 +113,8 @@ class ClientsController {
     logger.info({
       msg: 'Client financials updated via API',
       clientId,
-      userId,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
       requestId: req.id
     });
 
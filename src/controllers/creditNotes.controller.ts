@@ -0,0 +1,77 @@
+import logger from '../config/logger.js';
+import creditNotesService from '../services/creditNotes.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok, created } from '../utils/http.js';
+import { getOrganizationScope } from '../utils/organizationScope.js';
+
+import type {
+  CreditNotePdfQueryInput,
+  CreditNoteQueryInput
+} from '../validators/creditNote.schema.js';
+import type { Request, Response } from 'express';
+
+class CreditNotesController {
+  createCreditNote = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const creditNote = await creditNotesService.createCreditNote(scope, req.body);
+
+    logger.info({
+      msg: 'Credit note issued via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      creditNoteId: creditNote._id,
+      invoiceId: req.body.invoiceId,
+      requestId: req.id
+    });
+
+    return created(res, creditNote);
+  });
+
+  getCreditNotes = asyncHandler<CreditNoteQueryInput>(async (req, res) => {
+    const scope = getOrganizationScope(req);
+    const result = await creditNotesService.getCreditNotes(scope, req.query);
+
+    return ok(res, result.data, 200, result.pagination);
+  });
+
+  getCreditNote = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const creditNote = await creditNotesService.getCreditNoteById(scope, req.params.id);
+
+    return ok(res, creditNote);
+  });
+
+  getCreditNotePdf = asyncHandler<CreditNotePdfQueryInput>(async (req, res) => {
+    const scope = getOrganizationScope(req);
+    const creditNoteId = req.params.id;
+    const { download, ...options } = req.query;
+    const pdf = await creditNotesService.renderCreditNotePdf(scope, creditNoteId, options);
+
+    res.setHeader('Content-Type', pdf.mimeType);
+    res.setHeader('Content-Length', pdf.size);
+    res.setHeader(
+      'Content-Disposition',
+      `${download ? 'attachment' : 'inline'}; filename="${pdf.filename}"`
+    );
+
+    return res.status(200).send(pdf.buffer);
+  });
+
+  voidCreditNote = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const creditNoteId = req.params.id;
+    const creditNote = await creditNotesService.voidCreditNote(scope, creditNoteId, req.body);
+
+    logger.info({
+      msg: 'Credit note voided via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      creditNoteId,
+      requestId: req.id
+    });
+
+    return ok(res, creditNote);
+  });
+}
+
+export default new CreditNotesController();
@@ -0,0 +1,108 @@
+import logger from '../config/logger.js';
+import estimatesService from '../services/estimates.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok, created, noContent } from '../utils/http.js';
+import { getOrganizationScope } from '../utils/organizationScope.js';
+
+import type { EstimateQueryInput } from '../validators/estimate.schema.js';
+import type { Request, Response } from 'express';
+
+class EstimatesController {
+  createEstimate = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const estimate = await estimatesService.createEstimate(scope, req.body);
+
+    logger.info({
+      msg: 'Estimate created via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      estimateId: estimate._id,
+      clientId: req.body.clientId,
+      requestId: req.id
+    });
+
+    return created(res, estimate);
+  });
+
+  getEstimates = asyncHandler<EstimateQueryInput>(async (req, res) => {
+    const scope = getOrganizationScope(req);
+    const result = await estimatesService.getEstimates(scope, req.query);
+
+    return ok(res, result.data, 200, result.pagination);
+  });
+
+  getEstimate = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const estimate = await estimatesService.getEstimateById(scope, req.params.id);
+
+    return ok(res, estimate);
+  });
+
+  updateEstimate = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const estimateId = req.params.id;
+    const estimate = await estimatesService.updateEstimate(scope, estimateId, req.body);
+
+    logger.info({
+      msg: 'Estimate updated via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      estimateId,
+      requestId: req.id
+    });
+
+    return ok(res, estimate);
+  });
+
+  deleteEstimate = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const estimateId = req.params.id;
+    await estimatesService.deleteEstimate(scope, estimateId);
+
+    logger.info({
+      msg: 'Estimate deleted via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      estimateId,
+      requestId: req.id
+    });
+
+    return noContent(res);
+  });
+
+  updateEstimateStatus = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const estimateId = req.params.id;
+    const estimate = await estimatesService.updateEstimateStatus(scope, estimateId, req.body);
+
+    logger.info({
+      msg: 'Estimate status updated via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      estimateId,
+      status: req.body.status,
+      requestId: req.id
+    });
+
+    return ok(res, estimate);
+  });
+
+  convertEstimate = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const estimateId = req.params.id;
+    const invoice = await estimatesService.convertEstimate(scope, estimateId, req.body);
+
+    logger.info({
+      msg: 'Estimate converted via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      estimateId,
+      invoiceId: invoice._id,
+      requestId: req.id
+    });
+
+    return created(res, invoice);
+  });
+}
+
+export default new EstimatesController();
@@ -0,0 +1,73 @@
+import logger from '../config/logger.js';
+import exchangeRatesService from '../services/exchangeRates.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok, noContent } from '../utils/http.js';
+
+import type {
+  ConvertCurrencyQueryInput,
+  ExchangeRateQueryInput
+} from '../validators/exchangeRate.schema.js';
+import type { Request, Response } from 'express';
+
+class ExchangeRatesController {
+  getRates = asyncHandler<ExchangeRateQueryInput>(async (req, res) => {
+    const userId = req.user!.id;
+    const result = await exchangeRatesService.getRates(userId, req.query);
+
+    return ok(res, result.data, 200, result.pagination);
+  });
+
+  setRate = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const rate = await exchangeRatesService.setRate(userId, req.body);
+
+    logger.info({
+      msg: 'Exchange rate set via API',
+      userId,
+      base: req.body.base,
+      quote: req.body.quote,
+      requestId: req.id
+    });
+
+    return ok(res, rate);
+  });
+
+  importRates = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const summary = await exchangeRatesService.importRates(userId, req.body);
+
+    logger.info({
+      msg: 'Exchange rates imported via API',
+      userId,
+      format: req.body.format,
+      imported: summary.imported,
+      requestId: req.id
+    });
+
+    return ok(res, summary);
+  });
+
+  deleteRate = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const rateId = req.params.id;
+    await exchangeRatesService.deleteRate(userId, rateId);
+
+    logger.info({
+      msg: 'Exchange rate deleted via API',
+      userId,
+      rateId,
+      requestId: req.id
+    });
+
+    return noContent(res);
+  });
+
+  convert = asyncHandler<ConvertCurrencyQueryInput>(async (req, res) => {
+    const userId = req.user!.id;
+    const conversion = await exchangeRatesService.convert(userId, req.query);
+
+    return ok(res, conversion);
+  });
+}
+
+export default new ExchangeRatesController();
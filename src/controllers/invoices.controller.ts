@@ -1,236 +1,224 @@
 import logger from '../config/logger.js';
+import invoicesService from '../services/invoices.service.js';
 import { asyncHandler } from '../utils/asyncHandler.js';
 import { ok, created, noContent } from '../utils/http.js';
+import { getOrganizationScope } from '../utils/organizationScope.js';
 
+import type { InvoicePdfQueryInput, InvoiceQueryInput } from '../validators/invoice.schema.js';
 import type { Request, Response } from 'express';
+import type { Types } from 'mongoose';
 
 class InvoicesController {
   createInvoice = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+    const scope = getOrganizationScope(req);
+    const invoice = await invoicesService.createInvoice(scope, req.body);
 
     logger.info({
-      msg: 'Invoice creation requested',
-      userId,
+      msg: 'Invoice created via API',
+      invoiceId: (invoice._id as Types.ObjectId).toString(),
+      organizationId: scope.organizationId,
+      userId: scope.userId,
       requestId: req.id
     });
 
-    // Placeholder response
-    const invoice = {
-      id: 'placeholder-id',
-      number: 'INV-2024-0001',
-      status: 'draft',
-      message: 'Invoice creation will be implemented with invoice service'
-    };
-
     return created(res, invoice);
   });
 
-  getInvoices = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
-
-    logger.info({
-      msg: 'Invoices list requested',
-      userId,
-      query: req.query,
-      requestId: req.id
-    });
-
-    // Placeholder response
-    const result = {
-      data: [],
-      pagination: {
-        page: 1,
-        limit: 10,
-        total: 0,
-        totalPages: 0,
-        hasNext: false,
-        hasPrev: false
-      }
-    };
+  getInvoices = asyncHandler<InvoiceQueryInput>(async (req, res) => {
+    const scope = getOrganizationScope(req);
+    const result = await invoicesService.getInvoices(scope, req.query);
 
     return ok(res, result.data, 200, result.pagination);
   });
 
   getInvoiceById = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+    const scope = getOrganizationScope(req);
     const invoiceId = req.params.id;
-
-    logger.info({
-      msg: 'Invoice details requested',
-      userId,
-      invoiceId,
-      requestId: req.id
-    });
-
-    // Placeholder response
-    const invoice = {
-      id: invoiceId,
-      number: 'INV-2024-0001',
-      status: 'draft',
-      message: 'Invoice details will be implemented with invoice service'
-    };
+    const invoice = await invoicesService.getInvoiceById(scope, invoiceId);
 
     return ok(res, invoice);
   });
 
   updateInvoice = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+    const scope = getOrganizationScope(req);
     const invoiceId = req.params.id;
+    const invoice = await invoicesService.updateInvoice(scope, invoiceId, req.body);
 
     logger.info({
-      msg: 'Invoice update requested',
-      userId,
+      msg: 'Invoice updated via API',
       invoiceId,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
       updatedFields: Object.keys(req.body),
       requestId: req.id
     });
 
-    // Placeholder response
-    const invoice = {
-      id: invoiceId,
-      number: 'INV-2024-0001',
-      status: 'draft',
-      message: 'Invoice update will be implemented with invoice service'
-    };
-
     return ok(res, invoice);
   });
 
   deleteInvoice = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+    const scope = getOrganizationScope(req);
     const invoiceId = req.params.id;
+    await invoicesService.deleteInvoice(scope, invoiceId);
 
     logger.info({
-      msg: 'Invoice deletion requested',
-      userId,
+      msg: 'Invoice deleted via API',
       invoiceId,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
       requestId: req.id
     });
 
     return noContent(res);
   });
 
+  getInvoicePdf = asyncHandler<InvoicePdfQueryInput>(async (req, res) => {
+    const scope = getOrganizationScope(req);
+    const invoiceId = req.params.id;
+    const { download, ...options } = req.query;
+    const pdf = await invoicesService.renderInvoicePdf(scope, invoiceId, options);
+
+    res.setHeader('Content-Type', pdf.mimeType);
+    res.setHeader('Content-Length', pdf.size);
+    res.setHeader(
+      'Content-Disposition',
+      `${download ? 'attachment' : 'inline'}; filename="${pdf.filename}"`
+    );
+
+    return res.status(200).send(pdf.buffer);
+  });
+
   sendInvoice = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+    const scope = getOrganizationScope(req);
     const invoiceId = req.params.id;
+    const invoice = await invoicesService.sendInvoice(scope, invoiceId, req.body);
 
     logger.info({
-      msg: 'Invoice send requested',
-      userId,
+      msg: 'Invoice sent via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
       invoiceId,
       recipients: req.body.to,
       requestId: req.id
     });
 
-    const result = {
-      message: 'Invoice will be sent via email when mail service is implemented',
-      invoiceId,
-      recipients: req.body.to
-    };
-
-    return ok(res, result);
+    return ok(res, invoice);
   });
 
-  updateInvoiceStatus = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+  addPayment = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
     const invoiceId = req.params.id;
+    const invoice = await invoicesService.addPayment(scope, invoiceId, req.body);
 
     logger.info({
-      msg: 'Invoice status update requested',
-      userId,
+      msg: 'Invoice payment recorded via API',
       invoiceId,
-      newStatus: req.body.status,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      amount: req.body.amount,
       requestId: req.id
     });
 
-    const invoice = {
-      id: invoiceId,
-      status: req.body.status,
-      message: 'Invoice status update will be implemented with invoice service'
-    };
-
-    return ok(res, invoice);
+    return created(res, invoice);
   });
 
-  markInvoiceAsViewed = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+  getPayments = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
     const invoiceId = req.params.id;
+    const payments = await invoicesService.getPayments(scope, invoiceId);
+
+    return ok(res, payments);
+  });
+
+  voidPayment = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const { id: invoiceId, paymentId } = req.params;
+    const invoice = await invoicesService.voidPayment(scope, invoiceId, paymentId, req.body);
 
     logger.info({
-      msg: 'Mark invoice as viewed requested',
-      userId,
+      msg: 'Invoice payment voided via API',
       invoiceId,
+      paymentId,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
       requestId: req.id
     });
 
-    const result = {
-      message: 'Invoice marked as viewed',
+    return ok(res, invoice);
+  });
+
+  refundPayment = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const { id: invoiceId, paymentId } = req.params;
+    const invoice = await invoicesService.refundPayment(scope, invoiceId, paymentId, req.body);
+
+    logger.info({
+      msg: 'Invoice payment refunded via API',
       invoiceId,
-      viewedAt: new Date().toISOString()
-    };
+      paymentId,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      amount: req.body.amount,
+      requestId: req.id
+    });
 
-    return ok(res, result);
+    return created(res, invoice);
   });
 
-  duplicateInvoice = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+  updateInvoiceStatus = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
     const invoiceId = req.params.id;
+    const invoice = await invoicesService.updateInvoiceStatus(scope, invoiceId, req.body);
 
     logger.info({
-      msg: 'Invoice duplication requested',
-      userId,
-      originalInvoiceId: invoiceId,
+      msg: 'Invoice status updated via API',
+      invoiceId,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      newStatus: invoice.status,
       requestId: req.id
     });
 
-    const duplicatedInvoice = {
-      id: 'new-duplicate-id',
-      originalId: invoiceId,
-      number: 'INV-2024-0002',
-      status: 'draft',
-      message: 'Invoice duplication will be implemented with invoice service'
-    };
+    return ok(res, invoice);
+  });
+
+  markInvoiceAsViewed = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const invoiceId = req.params.id;
+    const invoice = await invoicesService.markInvoiceAsViewed(scope, invoiceId);
 
-    return created(res, duplicatedInvoice);
+    return ok(res, invoice);
   });
 
-  getInvoiceStats = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
+  duplicateInvoice = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const invoiceId = req.params.id;
+    const invoice = await invoicesService.duplicateInvoice(scope, invoiceId);
 
     logger.info({
-      msg: 'Invoice statistics requested',
-      userId,
+      msg: 'Invoice duplicated via API',
+      originalInvoiceId: invoiceId,
+      invoiceId: (invoice._id as Types.ObjectId).toString(),
+      organizationId: scope.organizationId,
+      userId: scope.userId,
       requestId: req.id
     });
 
-    // Placeholder stats
-    const stats = {
-      totalInvoices: 0,
-      draftInvoices: 0,
-      sentInvoices: 0,
-      paidInvoices: 0,
-      overdueInvoices: 0,
-      totalRevenue: 0,
-      pendingRevenue: 0,
-      averageInvoiceValue: 0
-    };
+    return created(res, invoice);
+  });
+
+  getInvoiceStats = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const stats = await invoicesService.getInvoiceStats(scope);
 
     return ok(res, stats);
   });
 
   getOverdueInvoices = asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
-
-    logger.info({
-      msg: 'Overdue invoices requested',
-      userId,
-      requestId: req.id
-    });
-
-    // Placeholder response
-    const overdueInvoices: any[] = [];
+    const scope = getOrganizationScope(req);
+    const invoices = await invoicesService.getOverdueInvoices(scope);
 
-    return ok(res, overdueInvoices);
+    return ok(res, invoices);
   });
 }
 
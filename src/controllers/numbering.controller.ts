@@ -0,0 +1,42 @@
+import logger from '../config/logger.js';
+import numberingService from '../services/numbering.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok } from '../utils/http.js';
+
+import type { NumberSeries } from '../models/NumberSequence.js';
+import type { Request, Response } from 'express';
+
+class NumberingController {
+  getSequences = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const sequences = await numberingService.getSequences(userId);
+
+    return ok(res, sequences);
+  });
+
+  updateSequence = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const series = req.params.series as NumberSeries;
+    const sequence = await numberingService.updateSequence(userId, series, req.body);
+
+    logger.info({
+      msg: 'Number sequence updated via API',
+      userId,
+      series,
+      updatedFields: Object.keys(req.body),
+      requestId: req.id
+    });
+
+    return ok(res, sequence);
+  });
+
+  previewNextNumber = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const series = req.params.series as NumberSeries;
+    const nextNumber = await numberingService.previewNextNumber(userId, series);
+
+    return ok(res, { series, nextNumber });
+  });
+}
+
+export default new NumberingController();
@@ -0,0 +1,121 @@
+import logger from '../config/logger.js';
+import authService from '../services/auth.service.js';
+import organizationsService from '../services/organizations.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok, created, noContent } from '../utils/http.js';
+
+import type { Request, Response } from 'express';
+import type { Types } from 'mongoose';
+
+class OrganizationsController {
+  getOrganizations = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const organizations = await organizationsService.listOrganizations(
+      userId,
+      req.user!.organizationId
+    );
+
+    return ok(res, organizations);
+  });
+
+  createOrganization = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const organization = await organizationsService.createOrganization(userId, req.body);
+
+    logger.info({
+      msg: 'Organization created via API',
+      organizationId: organization.id,
+      userId,
+      requestId: req.id
+    });
+
+    return created(res, organization);
+  });
+
+  switchOrganization = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const result = await authService.switchOrganization(userId, req.params.id, req.user!.sessionId);
+
+    logger.info({
+      msg: 'Organization switched via API',
+      organizationId: req.params.id,
+      userId,
+      requestId: req.id
+    });
+
+    return ok(res, result);
+  });
+
+  getMembers = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const members = await organizationsService.listMembers(userId, req.params.id);
+
+    return ok(res, members);
+  });
+
+  inviteMember = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const membership = await organizationsService.inviteMember(userId, req.params.id, req.body);
+
+    logger.info({
+      msg: 'Organization member invited via API',
+      organizationId: req.params.id,
+      membershipId: (membership._id as Types.ObjectId).toString(),
+      userId,
+      requestId: req.id
+    });
+
+    return created(res, membership);
+  });
+
+  updateMember = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const membership = await organizationsService.updateMember(
+      userId,
+      req.params.id,
+      req.params.memberId,
+      req.body
+    );
+
+    logger.info({
+      msg: 'Organization member updated via API',
+      organizationId: req.params.id,
+      membershipId: req.params.memberId,
+      userId,
+      requestId: req.id
+    });
+
+    return ok(res, membership);
+  });
+
+  revokeMember = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    await organizationsService.revokeMember(userId, req.params.id, req.params.memberId);
+
+    logger.info({
+      msg: 'Organization member revoked via API',
+      organizationId: req.params.id,
+      membershipId: req.params.memberId,
+      userId,
+      requestId: req.id
+    });
+
+    return noContent(res);
+  });
+
+  acceptInvitation = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const organization = await organizationsService.acceptInvitation(userId, req.body.token);
+
+    logger.info({
+      msg: 'Organization invitation accepted via API',
+      organizationId: organization.id,
+      userId,
+      requestId: req.id
+    });
+
+    return ok(res, organization);
+  });
+}
+
+export default new OrganizationsController();
@@ -0,0 +1,46 @@
+import logger from '../config/logger.js';
+import paymentsService from '../services/payments.service.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok, created } from '../utils/http.js';
+import { getOrganizationScope } from '../utils/organizationScope.js';
+
+import type { PaymentProviderName } from '../services/paymentProviders/index.js';
+import type { Request, Response } from 'express';
+
+class PaymentsController {
+  createCheckoutLink = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const invoiceId = req.params.id;
+    const checkout = await paymentsService.createCheckoutLink(scope, invoiceId, req.body);
+
+    logger.info({
+      msg: 'Checkout link created via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      invoiceId,
+      provider: checkout.provider,
+      requestId: req.id
+    });
+
+    return created(res, checkout);
+  });
+
+  handleWebhook = asyncHandler(async (req: Request, res: Response) => {
+    // Signatures cover the exact bytes received, captured before JSON parsing
+    const rawBody = (req as any).rawBody as Buffer | undefined;
+    if (!rawBody) {
+      throw ApiErrors.badRequest('Webhook body is required', { code: 'INVALID_WEBHOOK_PAYLOAD' });
+    }
+
+    const result = await paymentsService.handleWebhook(
+      req.params.provider as PaymentProviderName,
+      rawBody,
+      req.headers
+    );
+
+    return ok(res, result);
+  });
+}
+
+export default new PaymentsController();
@@ -0,0 +1,102 @@
+import logger from '../config/logger.js';
+import recurringInvoicesService from '../services/recurringInvoices.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok, created, noContent } from '../utils/http.js';
+import { getOrganizationScope } from '../utils/organizationScope.js';
+
+import type { RecurringInvoiceQueryInput } from '../validators/recurringInvoice.schema.js';
+import type { Request, Response } from 'express';
+
+class RecurringInvoicesController {
+  createRecurringInvoice = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const recurringInvoice = await recurringInvoicesService.createRecurringInvoice(scope, req.body);
+
+    logger.info({
+      msg: 'Recurring invoice created via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      recurringInvoiceId: recurringInvoice._id,
+      clientId: req.body.clientId,
+      requestId: req.id
+    });
+
+    return created(res, recurringInvoice);
+  });
+
+  getRecurringInvoices = asyncHandler<RecurringInvoiceQueryInput>(async (req, res) => {
+    const scope = getOrganizationScope(req);
+    const result = await recurringInvoicesService.getRecurringInvoices(scope, req.query);
+
+    return ok(res, result.data, 200, result.pagination);
+  });
+
+  getRecurringInvoice = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const recurringInvoice = await recurringInvoicesService.getRecurringInvoiceById(
+      scope,
+      req.params.id
+    );
+
+    return ok(res, recurringInvoice);
+  });
+
+  updateRecurringInvoice = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const recurringInvoiceId = req.params.id;
+    const recurringInvoice = await recurringInvoicesService.updateRecurringInvoice(
+      scope,
+      recurringInvoiceId,
+      req.body
+    );
+
+    logger.info({
+      msg: 'Recurring invoice updated via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      recurringInvoiceId,
+      requestId: req.id
+    });
+
+    return ok(res, recurringInvoice);
+  });
+
+  deleteRecurringInvoice = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const recurringInvoiceId = req.params.id;
+    await recurringInvoicesService.deleteRecurringInvoice(scope, recurringInvoiceId);
+
+    logger.info({
+      msg: 'Recurring invoice deleted via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      recurringInvoiceId,
+      requestId: req.id
+    });
+
+    return noContent(res);
+  });
+
+  updateRecurringInvoiceStatus = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const recurringInvoiceId = req.params.id;
+    const recurringInvoice = await recurringInvoicesService.updateRecurringInvoiceStatus(
+      scope,
+      recurringInvoiceId,
+      req.body
+    );
+
+    logger.info({
+      msg: 'Recurring invoice status updated via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      recurringInvoiceId,
+      status: req.body.status,
+      requestId: req.id
+    });
+
+    return ok(res, recurringInvoice);
+  });
+}
+
+export default new RecurringInvoicesController();
@@ -0,0 +1,69 @@
+import logger from '../config/logger.js';
+import organizationsService from '../services/organizations.service.js';
+import rolesService from '../services/roles.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok, created, noContent } from '../utils/http.js';
+
+import type { Request, Response } from 'express';
+
+class RolesController {
+  getRoles = asyncHandler(async (req: Request, res: Response) => {
+    const organization = await organizationsService.getActiveOrganization(
+      req.user!.id,
+      req.params.id
+    );
+    const roles = await rolesService.listRoles(organization);
+
+    return ok(res, roles);
+  });
+
+  createRole = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const organization = await organizationsService.getActiveOrganization(userId, req.params.id);
+    const role = await rolesService.createRole(organization, userId, req.body);
+
+    logger.info({
+      msg: 'Organization role created via API',
+      organizationId: organization.id,
+      role: role.key,
+      userId,
+      requestId: req.id
+    });
+
+    return created(res, role);
+  });
+
+  updateRole = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const organization = await organizationsService.getActiveOrganization(userId, req.params.id);
+    const role = await rolesService.updateRole(organization, userId, req.params.key, req.body);
+
+    logger.info({
+      msg: 'Organization role updated via API',
+      organizationId: organization.id,
+      role: role.key,
+      userId,
+      requestId: req.id
+    });
+
+    return ok(res, role);
+  });
+
+  deleteRole = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const organization = await organizationsService.getActiveOrganization(userId, req.params.id);
+    await rolesService.deleteRole(organization, userId, req.params.key);
+
+    logger.info({
+      msg: 'Organization role deleted via API',
+      organizationId: organization.id,
+      role: req.params.key,
+      userId,
+      requestId: req.id
+    });
+
+    return noContent(res);
+  });
+}
+
+export default new RolesController();
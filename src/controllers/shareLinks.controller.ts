@@ -0,0 +1,95 @@
+import logger from '../config/logger.js';
+import shareLinksService from '../services/shareLinks.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok, created, noContent } from '../utils/http.js';
+import { getOrganizationScope } from '../utils/organizationScope.js';
+
+import type { ShareLinkVisitor } from '../services/shareLinks.service.js';
+import type { SharedInvoicePdfQueryInput } from '../validators/shareLink.schema.js';
+import type { Request, Response } from 'express';
+
+// Visitor details recorded on every open of a public link
+const getVisitor = (req: Pick<Request, 'ip' | 'get'>): ShareLinkVisitor => ({
+  ip: req.ip,
+  userAgent: req.get('user-agent')
+});
+
+class ShareLinksController {
+  createShareLink = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const invoiceId = req.params.id;
+    const result = await shareLinksService.createShareLink(scope, invoiceId, req.body);
+
+    logger.info({
+      msg: 'Share link created via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      invoiceId,
+      shareLinkId: result.shareLink._id,
+      requestId: req.id
+    });
+
+    return created(res, result);
+  });
+
+  getShareLinks = asyncHandler(async (req: Request, res: Response) => {
+    const shareLinks = await shareLinksService.getShareLinks(
+      getOrganizationScope(req),
+      req.params.id
+    );
+
+    return ok(res, shareLinks);
+  });
+
+  revokeShareLink = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const { id: invoiceId, linkId } = req.params;
+    await shareLinksService.revokeShareLink(scope, invoiceId, linkId);
+
+    logger.info({
+      msg: 'Share link revoked via API',
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      invoiceId,
+      shareLinkId: linkId,
+      requestId: req.id
+    });
+
+    return noContent(res);
+  });
+
+  getSharedInvoice = asyncHandler(async (req: Request, res: Response) => {
+    const view = await shareLinksService.getSharedInvoice(req.params.token, getVisitor(req));
+    const format = (req.query.format as string) || req.accepts(['json', 'html']);
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('X-Robots-Tag', 'noindex');
+
+    if (format === 'html') {
+      return res.status(200).type('html').send(shareLinksService.renderSharedInvoiceHtml(view));
+    }
+
+    return ok(res, view);
+  });
+
+  getSharedInvoicePdf = asyncHandler<SharedInvoicePdfQueryInput>(async (req, res) => {
+    const { download, ...options } = req.query;
+    const pdf = await shareLinksService.renderSharedInvoicePdf(
+      req.params.token,
+      getVisitor(req),
+      options
+    );
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Content-Type', pdf.mimeType);
+    res.setHeader('Content-Length', pdf.size);
+    res.setHeader(
+      'Content-Disposition',
+      `${download ? 'attachment' : 'inline'}; filename="${pdf.filename}"`
+    );
+
+    return res.status(200).send(pdf.buffer);
+  });
+}
+
+export default new ShareLinksController();
@@ -0,0 +1,69 @@
+import logger from '../config/logger.js';
+import taxRatesService from '../services/taxRates.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok, created, noContent } from '../utils/http.js';
+
+import type { TaxRateQueryInput } from '../validators/taxRate.schema.js';
+import type { Request, Response } from 'express';
+
+class TaxRatesController {
+  createTaxRate = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const taxRate = await taxRatesService.createTaxRate(userId, req.body);
+
+    logger.info({
+      msg: 'Tax rate created via API',
+      userId,
+      taxRateId: taxRate._id,
+      requestId: req.id
+    });
+
+    return created(res, taxRate);
+  });
+
+  getTaxRates = asyncHandler<TaxRateQueryInput>(async (req, res) => {
+    const userId = req.user!.id;
+    const taxRates = await taxRatesService.getTaxRates(userId, req.query);
+
+    return ok(res, taxRates);
+  });
+
+  getTaxRate = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const taxRate = await taxRatesService.getTaxRateById(userId, req.params.id);
+
+    return ok(res, taxRate);
+  });
+
+  updateTaxRate = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const taxRateId = req.params.id;
+    const taxRate = await taxRatesService.updateTaxRate(userId, taxRateId, req.body);
+
+    logger.info({
+      msg: 'Tax rate updated via API',
+      userId,
+      taxRateId,
+      requestId: req.id
+    });
+
+    return ok(res, taxRate);
+  });
+
+  deleteTaxRate = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const taxRateId = req.params.id;
+    await taxRatesService.deleteTaxRate(userId, taxRateId);
+
+    logger.info({
+      msg: 'Tax rate deleted via API',
+      userId,
+      taxRateId,
+      requestId: req.id
+    });
+
+    return noContent(res);
+  });
+}
+
+export default new TaxRatesController();
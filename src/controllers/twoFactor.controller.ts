@@ -0,0 +1,48 @@
+import logger from '../config/logger.js';
+import twoFactorService from '../services/twoFactor.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok } from '../utils/http.js';
+
+import type { Request, Response } from 'express';
+
+class TwoFactorController {
+  // Start enrolment and return the secret and otpauth URI
+  setup = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const enrolment = await twoFactorService.startEnrolment(userId);
+
+    logger.info({ msg: 'Two-factor enrolment started via API', userId, requestId: req.id });
+
+    return ok(res, enrolment);
+  });
+
+  // Confirm the first code and return the recovery codes
+  enable = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const result = await twoFactorService.enable(userId, req.body.code);
+
+    logger.info({ msg: 'Two-factor authentication enabled via API', userId, requestId: req.id });
+
+    return ok(res, result);
+  });
+
+  disable = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    await twoFactorService.disable(userId, req.body.password, req.body.code);
+
+    logger.info({ msg: 'Two-factor authentication disabled via API', userId, requestId: req.id });
+
+    return ok(res, { message: 'Two-factor authentication disabled' });
+  });
+
+  regenerateRecoveryCodes = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const result = await twoFactorService.regenerateRecoveryCodes(userId, req.body.code);
+
+    logger.info({ msg: 'Recovery codes regenerated via API', userId, requestId: req.id });
+
+    return ok(res, result);
+  });
+}
+
+export default new TwoFactorController();
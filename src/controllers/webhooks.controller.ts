@@ -0,0 +1,115 @@
+import logger from '../config/logger.js';
+import webhooksService from '../services/webhooks.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { ok, created, noContent } from '../utils/http.js';
+import { getOrganizationScope } from '../utils/organizationScope.js';
+
+import type { WebhookDeliveryQueryInput } from '../validators/webhook.schema.js';
+import type { Request, Response } from 'express';
+
+class WebhooksController {
+  createWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const result = await webhooksService.createWebhook(scope, req.body);
+
+    logger.info({
+      msg: 'Webhook created via API',
+      webhookId: result.webhook._id,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      requestId: req.id
+    });
+
+    return created(res, result);
+  });
+
+  getWebhooks = asyncHandler(async (req: Request, res: Response) => {
+    const webhooks = await webhooksService.getWebhooks(getOrganizationScope(req));
+
+    return ok(res, webhooks);
+  });
+
+  getWebhookById = asyncHandler(async (req: Request, res: Response) => {
+    const webhook = await webhooksService.getWebhookById(getOrganizationScope(req), req.params.id);
+
+    return ok(res, webhook);
+  });
+
+  updateWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const webhookId = req.params.id;
+    const webhook = await webhooksService.updateWebhook(scope, webhookId, req.body);
+
+    logger.info({
+      msg: 'Webhook updated via API',
+      webhookId,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      requestId: req.id
+    });
+
+    return ok(res, webhook);
+  });
+
+  rotateSecret = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const webhookId = req.params.id;
+    const result = await webhooksService.rotateSecret(scope, webhookId);
+
+    logger.info({
+      msg: 'Webhook secret rotated via API',
+      webhookId,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      requestId: req.id
+    });
+
+    return ok(res, result);
+  });
+
+  deleteWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const webhookId = req.params.id;
+    await webhooksService.deleteWebhook(scope, webhookId);
+
+    logger.info({
+      msg: 'Webhook deleted via API',
+      webhookId,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      requestId: req.id
+    });
+
+    return noContent(res);
+  });
+
+  getDeliveries = asyncHandler<WebhookDeliveryQueryInput>(async (req, res) => {
+    const result = await webhooksService.getDeliveries(
+      getOrganizationScope(req),
+      req.params.id,
+      req.query
+    );
+
+    return ok(res, result.data, 200, result.pagination);
+  });
+
+  redeliver = asyncHandler(async (req: Request, res: Response) => {
+    const scope = getOrganizationScope(req);
+    const { id: webhookId, deliveryId } = req.params;
+    const delivery = await webhooksService.redeliver(scope, webhookId, deliveryId);
+
+    logger.info({
+      msg: 'Webhook delivery redelivered via API',
+      webhookId,
+      deliveryId,
+      redeliveryId: delivery._id,
+      organizationId: scope.organizationId,
+      userId: scope.userId,
+      requestId: req.id
+    });
+
+    return created(res, delivery);
+  });
+}
+
+export default new WebhooksController();
@@ -2,7 +2,9 @@ import jwt from 'jsonwebtoken';
 
 import { JWT_EXPIRES_IN, JWT_SECRET } from '../config/env.js';
 import logger from '../config/logger.js';
+import RefreshToken from '../models/refreshTokenModel.js';
 import { User } from '../models/User.js';
+import apiKeysService from '../services/apiKeys.service.js';
 import { ApiErrors } from '../utils/ApiError.js';
 import { asyncHandler } from '../utils/asyncHandler.js';
 
@@ -13,6 +15,8 @@ interface JwtPayload {
   id: string;
   email: string;
   tokenVersion: number; 
+  sid?: string;
+  org?: string;
   iat: number;
   exp: number;
 }
@@ -52,9 +56,40 @@ const verifyToken = (token: string): JwtPayload => {
   }
 };
 
+// Authenticate a request as the owner of an API key, within the key's scopes
+const authenticateApiKey = async (req: Request, key: string): Promise<void> => {
+  const { apiKey, user } = await apiKeysService.authenticate(key, req.ip);
+  apiKeysService.assertScope(apiKey, req.baseUrl, req.method);
+
+  req.user = {
+    id: user._id.toString(),
+    _id: user._id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    organizationId: apiKey.organizationId?.toString(),
+    apiKeyId: (apiKey._id as Types.ObjectId).toString()
+  };
+
+  logger.debug({
+    msg: 'User authenticated with API key',
+    userId: req.user.id,
+    apiKeyId: req.user.apiKeyId,
+    requestId: req.id
+  });
+};
+
 // Authentication middleware
 const authMiddleware = asyncHandler(async (req: Request, _res: Response, next: NextFunction) => {
   const token = extractToken(req);
+  const apiKey = req.get('x-api-key');
+
+  // Headless integrations authenticate with an API key instead of a token
+  if (!token && apiKey) {
+    await authenticateApiKey(req, apiKey);
+    next();
+    return;
+  }
 
   if (!token) {
     throw ApiErrors.unauthorized('No token provided', { code: 'NO_TOKEN' });
@@ -78,16 +113,18 @@ const authMiddleware = asyncHandler(async (req: Request, _res: Response, next: N
   }
 
   req.user = {
-    id: (user as any)._id.toString(),
-    _id: user._id as Types.ObjectId,
+    id: user._id.toString(),
+    _id: user._id,
     email: user.email,
     name: user.name,
-    role: user.role
+    role: user.role,
+    sessionId: decoded.sid,
+    organizationId: decoded.org
   };
 
   logger.debug({
     msg: 'User authenticated',
-    userId: (user as any)._id.toString(),
+    userId: user._id.toString(),
     email: user.email,
     requestId: req.id
   });
@@ -108,6 +145,15 @@ const authMiddleware = asyncHandler(async (req: Request, _res: Response, next: N
 if (decoded.tokenVersion !== user.tokenVersion) {
   throw ApiErrors.unauthorized('Token has been revoked', { code: 'TOKEN_REVOKED' });
 }
+
+  // Access tokens stop working as soon as their session is signed out
+  if (
+    decoded.sid &&
+    (await RefreshToken.exists({ family: decoded.sid, revokedAt: { $exists: true } }))
+  ) {
+    throw ApiErrors.unauthorized('Session has been revoked', { code: 'SESSION_REVOKED' });
+  }
+
   next();
 });
 
@@ -129,8 +175,8 @@ export const optionalAuthMiddleware = asyncHandler(
 
       if (user) {
         req.user = {
-          id: (user as any)._id.toString(),
-          _id: user._id as Types.ObjectId,
+          id: user._id.toString(),
+          _id: user._id,
           email: user.email,
           name: user.name,
           role: user.role
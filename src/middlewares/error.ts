@@ -132,6 +132,10 @@ const errorHandler = (error: any, req: Request, res: Response, _next: NextFuncti
   // Log error
   logError(apiError, req);
 
+  if (apiError.retryAfter !== undefined) {
+    res.set('Retry-After', String(apiError.retryAfter));
+  }
+
   // Send error response
   res.status(apiError.statusCode).json({
     success: false,
@@ -139,6 +143,7 @@ const errorHandler = (error: any, req: Request, res: Response, _next: NextFuncti
       code: apiError.code,
       message: apiError.message,
       details: apiError.details,
+      ...(apiError.retryAfter !== undefined && { retryAfter: apiError.retryAfter }),
       ...(isProduction() ? {} : { stack: apiError.stack })
     },
     requestId: req.id,
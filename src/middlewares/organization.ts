@@ -0,0 +1,50 @@
+import logger from '../config/logger.js';
+import organizationsService from '../services/organizations.service.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+
+import type { Permission } from '../models/Role.js';
+import type { Request, Response, NextFunction } from 'express';
+
+// Resolve the organization on the access token; fails once the user is no longer a member
+export const loadOrganization = asyncHandler(
+  async (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.user) {
+      throw ApiErrors.unauthorized('Authentication required', { code: 'AUTH_REQUIRED' });
+    }
+
+    req.user.organization = await organizationsService.getActiveOrganization(
+      req.user.id,
+      req.user.organizationId
+    );
+
+    next();
+  }
+);
+
+// Require a permission in the active organization; use after loadOrganization
+export const requirePermission = (permission: Permission) => {
+  return asyncHandler(async (req: Request, _res: Response, next: NextFunction) => {
+    const organization = req.user?.organization;
+
+    if (!req.user || !organization) {
+      throw ApiErrors.unauthorized('Authentication required', { code: 'AUTH_REQUIRED' });
+    }
+
+    if (!organization.permissions.includes(permission)) {
+      logger.warn({
+        msg: 'Access denied - missing permission',
+        userId: req.user.id,
+        organizationId: organization.id,
+        role: organization.role,
+        permission,
+        requestId: req.id
+      });
+      throw ApiErrors.forbidden(`Missing permission: ${permission}`, {
+        code: 'PERMISSION_DENIED'
+      });
+    }
+
+    next();
+  });
+};
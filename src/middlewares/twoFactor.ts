@@ -0,0 +1,15 @@
+import twoFactorService from '../services/twoFactor.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+
+import type { Request, Response, NextFunction } from 'express';
+
+// Require a fresh TOTP or recovery code (`twoFactorCode` in the body) for sensitive actions
+// when the user has two-factor authentication enabled
+export const requireTwoFactor = asyncHandler(
+  async (req: Request, _res: Response, next: NextFunction) => {
+    await twoFactorService.verifyCode(req.user!.id, req.body?.twoFactorCode);
+    next();
+  }
+);
+
+export default requireTwoFactor;
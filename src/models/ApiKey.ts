@@ -0,0 +1,123 @@
+import mongoose, { Schema } from 'mongoose';
+
+import type { Document, Types } from 'mongoose';
+
+// API route groups an API key can be given access to
+export const API_KEY_RESOURCES = [
+  'clients',
+  'invoices',
+  'estimates',
+  'credit-notes',
+  'recurring-invoices',
+  'tax-rates',
+  'exchange-rates',
+  'numbering',
+  'bank-statements',
+  'organizations',
+  'webhooks'
+] as const;
+export type ApiKeyResource = (typeof API_KEY_RESOURCES)[number];
+
+// `read` allows GET requests; `write` allows every method
+export const API_KEY_ACCESS_LEVELS = ['read', 'write'] as const;
+export type ApiKeyAccess = (typeof API_KEY_ACCESS_LEVELS)[number];
+
+// Scopes are `<resource>:<access>`, where `*` stands for every resource
+export type ApiKeyScope = `${ApiKeyResource | '*'}:${ApiKeyAccess}`;
+export const API_KEY_SCOPES = (['*', ...API_KEY_RESOURCES] as const).flatMap(resource =>
+  API_KEY_ACCESS_LEVELS.map(access => `${resource}:${access}` as ApiKeyScope)
+);
+
+// API key interface extending Mongoose Document. Only a hash of the key is stored; the
+// prefix is kept so the owner can tell their keys apart.
+export interface IApiKey extends Document {
+  userId: Types.ObjectId;
+  organizationId?: Types.ObjectId;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  allowedIps: string[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  toJSON: () => any;
+}
+
+// API key schema definition
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+
+    // Organization requests work in; the personal organization when unset
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization'
+    },
+
+    name: {
+      type: String,
+      required: [true, 'API key name is required'],
+      trim: true,
+      maxlength: [100, 'API key name cannot exceed 100 characters']
+    },
+
+    prefix: {
+      type: String,
+      required: [true, 'API key prefix is required']
+    },
+
+    keyHash: {
+      type: String,
+      required: [true, 'API key hash is required'],
+      select: false
+    },
+
+    scopes: {
+      type: [{ type: String, enum: API_KEY_SCOPES }],
+      validate: {
+        validator: (scopes: string[]) => scopes.length > 0,
+        message: 'At least one scope is required'
+      }
+    },
+
+    // IP addresses and CIDR ranges the key may be used from; any address when empty
+    allowedIps: {
+      type: [String],
+      default: []
+    },
+
+    expiresAt: Date,
+    lastUsedAt: Date,
+    lastUsedIp: String,
+    revokedAt: Date
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+apiKeySchema.index({ keyHash: 1 }, { unique: true });
+apiKeySchema.index({ userId: 1, createdAt: -1 });
+
+// Override toJSON to exclude the key hash
+apiKeySchema.methods.toJSON = function () {
+  const apiKeyObject = this.toObject();
+  delete apiKeyObject.__v;
+  delete apiKeyObject.keyHash;
+  return apiKeyObject;
+};
+
+// Create and export the ApiKey model
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
+export default ApiKey;
@@ -0,0 +1,83 @@
+import mongoose, { Schema } from 'mongoose';
+
+import type { Document, Types } from 'mongoose';
+
+// Admin actions recorded in the audit trail
+export const AUDIT_ACTIONS = [
+  'user.role_changed',
+  'user.logged_out',
+  'user.deactivated',
+  'user.reactivated',
+  'user.email_verified',
+  'user.deleted',
+  'account_lock.cleared'
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+// Audit log interface extending Mongoose Document. Entries are written once and never
+// changed; the target's email is kept so entries stay readable after the user is deleted.
+export interface IAuditLog extends Document {
+  actorId: Types.ObjectId;
+  action: AuditAction;
+  targetUserId?: Types.ObjectId;
+  targetEmail?: string;
+  details?: Record<string, unknown>;
+  ip?: string;
+  userAgent?: string;
+  requestId?: string;
+  createdAt: Date;
+
+  // Instance methods
+  toJSON: () => any;
+}
+
+// Audit log schema definition
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Actor ID is required']
+    },
+
+    action: {
+      type: String,
+      enum: AUDIT_ACTIONS,
+      required: [true, 'Action is required']
+    },
+
+    targetUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+
+    targetEmail: String,
+
+    // Action specific values, such as the previous and new role
+    details: Schema.Types.Mixed,
+
+    ip: String,
+    userAgent: String,
+    requestId: String
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+// Indexes
+auditLogSchema.index({ createdAt: -1 });
+auditLogSchema.index({ targetUserId: 1, createdAt: -1 });
+auditLogSchema.index({ actorId: 1, createdAt: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+
+// Override toJSON to format output
+auditLogSchema.methods.toJSON = function () {
+  const auditLogObject = this.toObject();
+  delete auditLogObject.__v;
+  return auditLogObject;
+};
+
+// Create and export the AuditLog model
+export const AuditLog = mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
+export default AuditLog;
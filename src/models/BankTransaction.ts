@@ -0,0 +1,289 @@
+import mongoose, { Schema } from 'mongoose';
+
+import { Organization } from './Organization.js';
+
+import type { Document, Types } from 'mongoose';
+
+// Reconciliation state of a statement transaction
+export type BankTransactionStatus = 'unmatched' | 'suggested' | 'matched' | 'ignored';
+
+// Audit trail actions
+export type BankTransactionAction = 'imported' | 'suggested' | 'confirmed' | 'ignored' | 'reopened';
+
+// Open invoice that may have been paid by the transaction
+export interface IBankMatchSuggestion {
+  invoiceId: Types.ObjectId;
+  number: string;
+  clientName?: string;
+  remainingBalance: number;
+  confidence: number;
+  reasons: string[];
+}
+
+// Confirmed match and the payment it recorded
+export interface IBankMatch {
+  invoiceId: Types.ObjectId;
+  number: string;
+  paymentId?: Types.ObjectId;
+  confidence?: number;
+  confirmedBy: Types.ObjectId;
+  confirmedAt: Date;
+}
+
+// One entry of the audit trail
+export interface IBankTransactionEvent {
+  action: BankTransactionAction;
+  actor?: Types.ObjectId;
+  invoiceId?: Types.ObjectId;
+  notes?: string;
+  at: Date;
+}
+
+// Bank transaction interface extending Mongoose Document
+export interface IBankTransaction extends Document {
+  userId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  importId: string;
+  format: string;
+  fingerprint: string;
+  externalId?: string;
+  date: Date;
+  amount: number;
+  currency: string;
+  counterparty?: string;
+  reference?: string;
+  description?: string;
+  status: BankTransactionStatus;
+  suggestions: IBankMatchSuggestion[];
+  match?: IBankMatch;
+  history: IBankTransactionEvent[];
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  recordEvent: (
+    action: BankTransactionAction,
+    actor?: Types.ObjectId | string,
+    details?: { invoiceId?: Types.ObjectId | string; notes?: string }
+  ) => void;
+  toJSON: () => any;
+}
+
+// Match suggestion schema
+const suggestionSchema = new Schema<IBankMatchSuggestion>(
+  {
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice',
+      required: [true, 'Invoice ID is required']
+    },
+    number: {
+      type: String,
+      required: [true, 'Invoice number is required']
+    },
+    clientName: String,
+    remainingBalance: {
+      type: Number,
+      required: [true, 'Remaining balance is required']
+    },
+    confidence: {
+      type: Number,
+      required: [true, 'Confidence is required'],
+      min: [0, 'Confidence must be between 0 and 1'],
+      max: [1, 'Confidence must be between 0 and 1']
+    },
+    reasons: {
+      type: [String],
+      default: []
+    }
+  },
+  { _id: false }
+);
+
+// Confirmed match schema
+const matchSchema = new Schema<IBankMatch>(
+  {
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice',
+      required: [true, 'Invoice ID is required']
+    },
+    number: {
+      type: String,
+      required: [true, 'Invoice number is required']
+    },
+    paymentId: Schema.Types.ObjectId,
+    confidence: Number,
+    confirmedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Confirming user is required']
+    },
+    confirmedAt: {
+      type: Date,
+      required: [true, 'Confirmation date is required']
+    }
+  },
+  { _id: false }
+);
+
+// Audit trail entry schema
+const historySchema = new Schema<IBankTransactionEvent>(
+  {
+    action: {
+      type: String,
+      enum: ['imported', 'suggested', 'confirmed', 'ignored', 'reopened'],
+      required: [true, 'Action is required']
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice'
+    },
+    notes: {
+      type: String,
+      maxlength: [500, 'Notes cannot exceed 500 characters']
+    },
+    at: {
+      type: Date,
+      required: [true, 'Event date is required'],
+      default: Date.now
+    }
+  },
+  { _id: false }
+);
+
+// Bank transaction schema definition
+const bankTransactionSchema = new Schema<IBankTransaction>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: [true, 'Organization ID is required']
+    },
+
+    importId: {
+      type: String,
+      required: [true, 'Import ID is required']
+    },
+
+    format: {
+      type: String,
+      enum: ['csv', 'ofx', 'camt053'],
+      required: [true, 'Statement format is required']
+    },
+
+    // Identifies the transaction across imports of overlapping statements
+    fingerprint: {
+      type: String,
+      required: [true, 'Fingerprint is required']
+    },
+
+    externalId: String,
+
+    date: {
+      type: Date,
+      required: [true, 'Transaction date is required']
+    },
+
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required']
+    },
+
+    currency: {
+      type: String,
+      required: [true, 'Currency is required'],
+      uppercase: true,
+      minlength: 3,
+      maxlength: 3
+    },
+
+    counterparty: {
+      type: String,
+      maxlength: [200, 'Counterparty cannot exceed 200 characters']
+    },
+
+    reference: {
+      type: String,
+      maxlength: [200, 'Reference cannot exceed 200 characters']
+    },
+
+    description: {
+      type: String,
+      maxlength: [1000, 'Description cannot exceed 1000 characters']
+    },
+
+    status: {
+      type: String,
+      enum: {
+        values: ['unmatched', 'suggested', 'matched', 'ignored'],
+        message: 'Status must be one of: unmatched, suggested, matched, ignored'
+      },
+      default: 'unmatched'
+    },
+
+    suggestions: {
+      type: [suggestionSchema],
+      default: []
+    },
+
+    match: matchSchema,
+
+    history: {
+      type: [historySchema],
+      default: []
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+bankTransactionSchema.index({ organizationId: 1, fingerprint: 1 }, { unique: true });
+bankTransactionSchema.index({ organizationId: 1, status: 1, date: -1 });
+bankTransactionSchema.index({ organizationId: 1, importId: 1 });
+
+// Pre-validate middleware to place transactions imported outside an organization in the
+// owner's personal one
+bankTransactionSchema.pre('validate', async function (next) {
+  if (!this.organizationId) {
+    this.organizationId = (await Organization.findOrCreatePersonal(this.userId))
+      ._id as Types.ObjectId;
+  }
+  next();
+});
+
+// Instance method to append to the audit trail
+bankTransactionSchema.methods.recordEvent = function (
+  action: BankTransactionAction,
+  actor?: Types.ObjectId | string,
+  details: { invoiceId?: Types.ObjectId | string; notes?: string } = {}
+): void {
+  this.history.push({ action, actor, ...details, at: new Date() });
+};
+
+// Override toJSON to format output
+bankTransactionSchema.methods.toJSON = function () {
+  const bankTransactionObject = this.toObject();
+  delete bankTransactionObject.__v;
+  delete bankTransactionObject.fingerprint;
+  return bankTransactionObject;
+};
+
+// Create and export the BankTransaction model
+export const BankTransaction = mongoose.model<IBankTransaction>(
+  'BankTransaction',
+  bankTransactionSchema
+);
+export default BankTransaction;
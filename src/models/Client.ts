@@ -1,5 +1,10 @@
 import mongoose, { Schema } from 'mongoose';
 
+import { roundMoney } from '../utils/money.js';
+
+import { ExchangeRate } from './ExchangeRate.js';
+import { Organization } from './Organization.js';
+
 import type { Document, Types } from 'mongoose';
 
 // Address interface
@@ -19,9 +24,20 @@ export interface IContactPerson {
   position?: string;
 }
 
+// Invoiced amounts in one currency
+export interface IClientBalance {
+  currency: string;
+  totalInvoiced: number;
+  totalPaid: number;
+  totalCredited: number;
+  outstandingBalance: number;
+  invoiceCount: number;
+}
+
 // Client interface extending Mongoose Document
 export interface IClient extends Document {
   userId: Types.ObjectId;
+  organizationId: Types.ObjectId;
   name: string;
   email: string;
   phone?: string;
@@ -40,8 +56,10 @@ export interface IClient extends Document {
   lastInvoiceDate?: Date;
   totalInvoiced: number;
   totalPaid: number;
+  totalCredited: number;
   outstandingBalance: number;
   invoiceCount: number;
+  balances: IClientBalance[];
   createdAt: Date;
   updatedAt: Date;
 
@@ -119,6 +137,23 @@ const contactPersonSchema = new Schema<IContactPerson>(
   { _id: false }
 );
 
+// Per-currency balance schema
+const clientBalanceSchema = new Schema<IClientBalance>(
+  {
+    currency: {
+      type: String,
+      required: [true, 'Currency is required'],
+      uppercase: true
+    },
+    totalInvoiced: { type: Number, default: 0 },
+    totalPaid: { type: Number, default: 0 },
+    totalCredited: { type: Number, default: 0 },
+    outstandingBalance: { type: Number, default: 0 },
+    invoiceCount: { type: Number, default: 0 }
+  },
+  { _id: false }
+);
+
 // Client schema definition
 const clientSchema = new Schema<IClient>(
   {
@@ -128,6 +163,12 @@ const clientSchema = new Schema<IClient>(
       required: [true, 'User ID is required']
     },
 
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: [true, 'Organization ID is required']
+    },
+
     name: {
       type: String,
       required: [true, 'Client name is required'],
@@ -241,6 +282,13 @@ const clientSchema = new Schema<IClient>(
       default: 0
     },
 
+    // Credit notes issued against the client's invoices
+    totalCredited: {
+      type: Number,
+      min: [0, 'Total credited cannot be negative'],
+      default: 0
+    },
+
     outstandingBalance: {
       type: Number,
       default: 0
@@ -250,6 +298,12 @@ const clientSchema = new Schema<IClient>(
       type: Number,
       min: [0, 'Invoice count cannot be negative'],
       default: 0
+    },
+
+    // Amounts per invoice currency; the totals above are converted to the client currency
+    balances: {
+      type: [clientBalanceSchema],
+      default: []
     }
   },
   {
@@ -260,7 +314,12 @@ const clientSchema = new Schema<IClient>(
 );
 
 // Indexes
-clientSchema.index({ userId: 1, email: 1 }, { unique: true });
+clientSchema.index(
+  { organizationId: 1, email: 1 },
+  { unique: true, partialFilterExpression: { organizationId: { $exists: true } } }
+);
+clientSchema.index({ organizationId: 1, createdAt: -1 });
+clientSchema.index({ userId: 1, email: 1 });
 clientSchema.index({ userId: 1, name: 1 });
 clientSchema.index({ userId: 1, status: 1 });
 clientSchema.index({ userId: 1, company: 1 });
@@ -306,9 +365,19 @@ clientSchema.virtual('paymentStatus').get(function () {
   return 'no_payments';
 });
 
+// Pre-validate middleware to place clients created outside an organization in the
+// owner's personal one
+clientSchema.pre('validate', async function (next) {
+  if (!this.organizationId) {
+    this.organizationId = (await Organization.findOrCreatePersonal(this.userId))
+      ._id as Types.ObjectId;
+  }
+  next();
+});
+
 // Pre-save middleware to calculate outstanding balance
 clientSchema.pre('save', function (next) {
-  this.outstandingBalance = this.totalInvoiced - this.totalPaid;
+  this.outstandingBalance = this.totalInvoiced - this.totalCredited - this.totalPaid;
   next();
 });
 
@@ -320,32 +389,58 @@ clientSchema.methods.updateFinancials = async function (): Promise<void> {
     { $match: { clientId: this._id } },
     {
       $group: {
-        _id: null,
+        _id: '$currency',
         totalInvoiced: { $sum: '$total' },
-        totalPaid: {
-          $sum: { $cond: [{ $eq: ['$status', 'paid'] }, '$total', 0] }
-        },
+        // Count partial payments too, not only fully paid invoices
+        totalPaid: { $sum: '$totalPaid' },
+        totalCredited: { $sum: '$totalCredited' },
         invoiceCount: { $sum: 1 },
         lastInvoiceDate: { $max: '$issueDate' }
       }
-    }
+    },
+    { $sort: { _id: 1 } }
   ]);
 
-  if (stats.length > 0) {
-    const stat = stats[0];
-    this.totalInvoiced = stat.totalInvoiced || 0;
-    this.totalPaid = stat.totalPaid || 0;
-    this.invoiceCount = stat.invoiceCount || 0;
-    this.lastInvoiceDate = stat.lastInvoiceDate;
-    this.outstandingBalance = this.totalInvoiced - this.totalPaid;
-  } else {
-    this.totalInvoiced = 0;
-    this.totalPaid = 0;
-    this.invoiceCount = 0;
-    this.lastInvoiceDate = undefined;
-    this.outstandingBalance = 0;
+  // Round to the precision of each currency, e.g. whole yen
+  const round = (value: number, currency: string) => roundMoney(value, currency);
+
+  this.balances = stats.map(stat => ({
+    currency: stat._id,
+    totalInvoiced: round(stat.totalInvoiced || 0, stat._id),
+    totalPaid: round(stat.totalPaid || 0, stat._id),
+    totalCredited: round(stat.totalCredited || 0, stat._id),
+    outstandingBalance: round(
+      (stat.totalInvoiced || 0) - (stat.totalCredited || 0) - (stat.totalPaid || 0),
+      stat._id
+    ),
+    invoiceCount: stat.invoiceCount || 0
+  }));
+
+  // Convert every currency into the client currency; amounts without a known rate are left out
+  let totalInvoiced = 0;
+  let totalPaid = 0;
+  let totalCredited = 0;
+  for (const balance of this.balances as IClientBalance[]) {
+    const rate = await ExchangeRate.findRate(this.userId, balance.currency, this.currency);
+    if (rate !== null) {
+      totalInvoiced += balance.totalInvoiced * rate;
+      totalPaid += balance.totalPaid * rate;
+      totalCredited += balance.totalCredited * rate;
+    }
   }
 
+  this.totalInvoiced = round(totalInvoiced, this.currency);
+  this.totalPaid = round(totalPaid, this.currency);
+  this.totalCredited = round(totalCredited, this.currency);
+  this.invoiceCount = stats.reduce((sum, stat) => sum + (stat.invoiceCount || 0), 0);
+  this.lastInvoiceDate = stats.length
+    ? new Date(Math.max(...stats.map(stat => new Date(stat.lastInvoiceDate).getTime())))
+    : undefined;
+  this.outstandingBalance = round(
+    this.totalInvoiced - this.totalCredited - this.totalPaid,
+    this.currency
+  );
+
   await this.save();
 };
 
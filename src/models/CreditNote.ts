@@ -0,0 +1,239 @@
+import mongoose, { Schema } from 'mongoose';
+
+import { NumberSequence } from './NumberSequence.js';
+import { Organization } from './Organization.js';
+
+import type { Document, Types } from 'mongoose';
+
+// Credit note statuses; a voided credit note no longer reduces the invoice
+export const CREDIT_NOTE_STATUSES = ['issued', 'void'] as const;
+export type CreditNoteStatus = (typeof CREDIT_NOTE_STATUSES)[number];
+
+// Credited line; `invoiceItemIndex` points at the credited invoice item, if any
+export interface ICreditNoteItem {
+  description: string;
+  invoiceItemIndex?: number;
+  quantity: number;
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+}
+
+// Credit note interface extending Mongoose Document
+export interface ICreditNote extends Document {
+  userId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  clientId: Types.ObjectId;
+  invoiceId: Types.ObjectId;
+  invoiceNumber: string;
+  number: string;
+  issueDate: Date;
+  status: CreditNoteStatus;
+  reason: string;
+  items: ICreditNoteItem[];
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+  currency: string;
+  precision: number;
+  notes?: string;
+  voidedAt?: Date;
+  voidReason?: string;
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Credit note item schema
+const creditNoteItemSchema = new Schema<ICreditNoteItem>(
+  {
+    description: {
+      type: String,
+      required: [true, 'Item description is required'],
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters']
+    },
+    invoiceItemIndex: {
+      type: Number,
+      min: [0, 'Invoice item index cannot be negative']
+    },
+    quantity: {
+      type: Number,
+      min: [0, 'Quantity cannot be negative'],
+      default: 1
+    },
+    subtotal: {
+      type: Number,
+      min: [0, 'Subtotal cannot be negative'],
+      default: 0
+    },
+    taxAmount: {
+      type: Number,
+      min: [0, 'Tax amount cannot be negative'],
+      default: 0
+    },
+    total: {
+      type: Number,
+      min: [0, 'Total cannot be negative'],
+      default: 0
+    }
+  },
+  { _id: false }
+);
+
+// Credit note schema definition
+const creditNoteSchema = new Schema<ICreditNote>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: [true, 'Organization ID is required']
+    },
+
+    clientId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Client',
+      required: [true, 'Client ID is required']
+    },
+
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice',
+      required: [true, 'Invoice ID is required']
+    },
+
+    // Copied so the credit note can show the original invoice without a lookup
+    invoiceNumber: {
+      type: String,
+      required: [true, 'Invoice number is required'],
+      trim: true
+    },
+
+    number: {
+      type: String,
+      required: [true, 'Credit note number is required'],
+      trim: true,
+      maxlength: [50, 'Credit note number cannot exceed 50 characters']
+    },
+
+    issueDate: {
+      type: Date,
+      required: [true, 'Issue date is required'],
+      default: Date.now
+    },
+
+    status: {
+      type: String,
+      enum: CREDIT_NOTE_STATUSES,
+      default: 'issued'
+    },
+
+    reason: {
+      type: String,
+      required: [true, 'Reason is required'],
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters']
+    },
+
+    items: {
+      type: [creditNoteItemSchema],
+      validate: {
+        validator: function (v: ICreditNoteItem[]) {
+          return v.length > 0 && v.length <= 100;
+        },
+        message: 'Credit note must have between 1 and 100 items'
+      }
+    },
+
+    subtotal: {
+      type: Number,
+      min: [0, 'Subtotal cannot be negative'],
+      default: 0
+    },
+
+    taxAmount: {
+      type: Number,
+      min: [0, 'Tax amount cannot be negative'],
+      default: 0
+    },
+
+    total: {
+      type: Number,
+      min: [0, 'Total cannot be negative'],
+      default: 0
+    },
+
+    currency: {
+      type: String,
+      required: [true, 'Currency is required'],
+      uppercase: true,
+      length: [3, 'Currency must be a 3-letter code']
+    },
+
+    precision: {
+      type: Number,
+      min: [0, 'Precision cannot be negative'],
+      max: [4, 'Precision cannot exceed 4 decimals'],
+      default: 2
+    },
+
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Notes cannot exceed 1000 characters']
+    },
+
+    voidedAt: Date,
+
+    voidReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Void reason cannot exceed 500 characters']
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+creditNoteSchema.index({ userId: 1, number: 1 }, { unique: true });
+creditNoteSchema.index({ userId: 1, invoiceId: 1 });
+creditNoteSchema.index({ userId: 1, clientId: 1 });
+creditNoteSchema.index({ userId: 1, issueDate: -1 });
+creditNoteSchema.index({ organizationId: 1, issueDate: -1 });
+
+// Pre-validate middleware to number the credit note from its own series
+creditNoteSchema.pre('validate', async function (next) {
+  // Credit notes created outside an organization go to the owner's personal one
+  if (!this.organizationId) {
+    this.organizationId = (await Organization.findOrCreatePersonal(this.userId))
+      ._id as Types.ObjectId;
+  }
+  if (this.isNew && !this.number) {
+    this.number = await NumberSequence.consume(this.userId, 'credit_note', this.issueDate);
+  }
+  next();
+});
+
+// Override toJSON to format output
+creditNoteSchema.methods.toJSON = function () {
+  const creditNoteObject = this.toObject();
+  delete creditNoteObject.__v;
+  return creditNoteObject;
+};
+
+// Create and export the CreditNote model
+export const CreditNote = mongoose.model<ICreditNote>('CreditNote', creditNoteSchema);
+export default CreditNote;
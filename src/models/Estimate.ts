@@ -0,0 +1,433 @@
+import mongoose, { Schema } from 'mongoose';
+
+import { ApiErrors } from '../utils/ApiError.js';
+import { fromMinorUnits, getCurrencyPrecision } from '../utils/money.js';
+
+import {
+  invoiceItemSchema,
+  invoiceRoundingSchema,
+  minorUnitAmount,
+  priceDocument,
+  taxSummaryLineSchema
+} from './Invoice.js';
+import { NumberSequence } from './NumberSequence.js';
+import { Organization } from './Organization.js';
+
+import type { IInvoiceItem, IInvoiceRounding, ITaxSummaryLine } from './Invoice.js';
+import type { Document, Types } from 'mongoose';
+
+// Estimate lifecycle statuses
+export const ESTIMATE_STATUSES = ['draft', 'sent', 'accepted', 'declined', 'expired'] as const;
+export type EstimateStatus = (typeof ESTIMATE_STATUSES)[number];
+
+// Allowed status transitions; an expired estimate can be sent again with a new expiry date
+export const ESTIMATE_STATUS_TRANSITIONS: Record<EstimateStatus, readonly EstimateStatus[]> = {
+  draft: ['sent', 'accepted', 'declined'],
+  sent: ['accepted', 'declined', 'expired'],
+  expired: ['sent'],
+  accepted: [],
+  declined: []
+};
+
+// Reject a status change that the transition table does not allow
+export const assertEstimateStatusTransition = (from: EstimateStatus, to: EstimateStatus): void => {
+  if (from !== to && !ESTIMATE_STATUS_TRANSITIONS[from].includes(to)) {
+    throw ApiErrors.conflict(`Cannot change estimate status from ${from} to ${to}`, {
+      code: 'INVALID_STATUS_TRANSITION'
+    });
+  }
+};
+
+// Fields that may still be edited once an estimate has left draft
+export const ESTIMATE_SAFE_FIELDS = ['expiryDate', 'notes', 'terms', 'tags', 'metadata'] as const;
+
+// Status history entry; no actor means the system changed the status
+export interface IEstimateStatusChange {
+  from?: EstimateStatus;
+  to: EstimateStatus;
+  actor?: Types.ObjectId;
+  reason?: string;
+  timestamp: Date;
+}
+
+// Exact amounts in integer minor units of the estimate currency
+export interface IEstimateMinorUnits {
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  shippingCost: number;
+  total: number;
+}
+
+// Estimate interface extending Mongoose Document
+export interface IEstimate extends Document {
+  userId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  clientId: Types.ObjectId;
+  number: string;
+  issueDate: Date;
+  expiryDate: Date;
+  status: EstimateStatus;
+  statusHistory: IEstimateStatusChange[];
+  items: IInvoiceItem[];
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  taxSummary: ITaxSummaryLine[];
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;
+  discountAmount: number;
+  shippingCost: number;
+  total: number;
+  currency: string;
+  precision: number;
+  rounding: IInvoiceRounding;
+  minorUnits: IEstimateMinorUnits;
+  notes?: string;
+  terms?: string;
+  invoiceId?: Types.ObjectId;
+  convertedAt?: Date;
+  sentAt?: Date;
+  acceptedAt?: Date;
+  declinedAt?: Date;
+  tags: string[];
+  metadata: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  calculateTotals: () => void;
+  transitionTo: (status: EstimateStatus, actor?: Types.ObjectId | string, reason?: string) => void;
+  isExpired: () => boolean;
+  toJSON: () => any;
+}
+
+// Estimate status history schema
+const estimateStatusChangeSchema = new Schema<IEstimateStatusChange>(
+  {
+    from: {
+      type: String,
+      enum: ESTIMATE_STATUSES
+    },
+    to: {
+      type: String,
+      enum: ESTIMATE_STATUSES,
+      required: [true, 'Target status is required']
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters']
+    },
+    timestamp: {
+      type: Date,
+      required: [true, 'Timestamp is required'],
+      default: Date.now
+    }
+  },
+  { _id: false }
+);
+
+// Minor unit amounts schema; written by calculateTotals only
+const estimateMinorUnitsSchema = new Schema<IEstimateMinorUnits>(
+  {
+    subtotal: minorUnitAmount,
+    discountAmount: minorUnitAmount,
+    taxAmount: minorUnitAmount,
+    shippingCost: minorUnitAmount,
+    total: minorUnitAmount
+  },
+  { _id: false }
+);
+
+// Estimate schema definition
+const estimateSchema = new Schema<IEstimate>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: [true, 'Organization ID is required']
+    },
+
+    clientId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Client',
+      required: [true, 'Client ID is required']
+    },
+
+    number: {
+      type: String,
+      required: [true, 'Estimate number is required'],
+      trim: true,
+      maxlength: [50, 'Estimate number cannot exceed 50 characters']
+    },
+
+    issueDate: {
+      type: Date,
+      required: [true, 'Issue date is required'],
+      default: Date.now
+    },
+
+    expiryDate: {
+      type: Date,
+      required: [true, 'Expiry date is required']
+    },
+
+    status: {
+      type: String,
+      enum: ESTIMATE_STATUSES,
+      default: 'draft'
+    },
+
+    statusHistory: {
+      type: [estimateStatusChangeSchema],
+      default: []
+    },
+
+    items: {
+      type: [invoiceItemSchema],
+      required: [true, 'At least one item is required'],
+      validate: {
+        validator: function (v: IInvoiceItem[]) {
+          return v.length > 0 && v.length <= 100;
+        },
+        message: 'Estimate must have between 1 and 100 items'
+      }
+    },
+
+    subtotal: {
+      type: Number,
+      min: [0, 'Subtotal cannot be negative'],
+      default: 0
+    },
+
+    taxRate: {
+      type: Number,
+      min: [0, 'Tax rate cannot be negative'],
+      max: [100, 'Tax rate cannot exceed 100%'],
+      default: 0
+    },
+
+    taxAmount: {
+      type: Number,
+      min: [0, 'Tax amount cannot be negative'],
+      default: 0
+    },
+
+    taxSummary: {
+      type: [taxSummaryLineSchema],
+      default: []
+    },
+
+    discountType: {
+      type: String,
+      enum: ['percentage', 'fixed'],
+      default: 'percentage'
+    },
+
+    discountValue: {
+      type: Number,
+      min: [0, 'Discount value cannot be negative'],
+      default: 0
+    },
+
+    discountAmount: {
+      type: Number,
+      min: [0, 'Discount amount cannot be negative'],
+      default: 0
+    },
+
+    shippingCost: {
+      type: Number,
+      min: [0, 'Shipping cost cannot be negative'],
+      default: 0
+    },
+
+    total: {
+      type: Number,
+      min: [0, 'Total cannot be negative'],
+      default: 0
+    },
+
+    currency: {
+      type: String,
+      required: [true, 'Currency is required'],
+      uppercase: true,
+      length: [3, 'Currency must be a 3-letter code'],
+      default: 'USD'
+    },
+
+    precision: {
+      type: Number,
+      min: [0, 'Precision cannot be negative'],
+      max: [4, 'Precision cannot exceed 4 decimals'],
+      default: 2
+    },
+
+    rounding: {
+      type: invoiceRoundingSchema,
+      default: () => ({})
+    },
+
+    minorUnits: {
+      type: estimateMinorUnitsSchema,
+      default: () => ({})
+    },
+
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Notes cannot exceed 1000 characters']
+    },
+
+    terms: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Terms cannot exceed 1000 characters']
+    },
+
+    // Draft invoice created from this estimate
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice'
+    },
+
+    convertedAt: Date,
+    sentAt: Date,
+    acceptedAt: Date,
+    declinedAt: Date,
+
+    tags: {
+      type: [String],
+      validate: {
+        validator: function (v: string[]) {
+          return v.length <= 10;
+        },
+        message: 'Maximum 10 tags allowed'
+      },
+      default: []
+    },
+
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {}
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+estimateSchema.index({ userId: 1, number: 1 }, { unique: true });
+estimateSchema.index({ userId: 1, clientId: 1 });
+estimateSchema.index({ userId: 1, status: 1 });
+estimateSchema.index({ userId: 1, issueDate: -1 });
+estimateSchema.index({ organizationId: 1, createdAt: -1 });
+estimateSchema.index({ status: 1, expiryDate: 1 }); // For expiry queries
+
+// Pre-validate middleware to number the estimate from the quote series
+estimateSchema.pre('validate', async function (next) {
+  // Estimates created outside an organization go to the owner's personal one
+  if (!this.organizationId) {
+    this.organizationId = (await Organization.findOrCreatePersonal(this.userId))
+      ._id as Types.ObjectId;
+  }
+  if (this.isNew && !this.number) {
+    this.number = await NumberSequence.consume(this.userId, 'quote', this.issueDate);
+  }
+  if (this.isNew && this.statusHistory.length === 0) {
+    this.statusHistory.push({ to: this.status, timestamp: new Date() });
+  }
+  next();
+});
+
+// Pre-save middleware to calculate totals and expire sent estimates
+estimateSchema.pre('save', function (next) {
+  this.calculateTotals();
+
+  if (this.isExpired()) {
+    this.transitionTo('expired', undefined, 'Past expiry date');
+  }
+
+  next();
+});
+
+// Instance method to calculate totals with the invoice pricing rules
+estimateSchema.methods.calculateTotals = function (): void {
+  const { subtotal, discountAmount, taxAmount, shippingCost, total, taxSummary } = priceDocument(
+    this as IEstimate
+  );
+  const toMajor = (minor: bigint): number => fromMinorUnits(minor, this.currency);
+
+  this.precision = getCurrencyPrecision(this.currency);
+  this.taxSummary = taxSummary;
+  this.minorUnits = {
+    subtotal: Number(subtotal),
+    discountAmount: Number(discountAmount),
+    taxAmount: Number(taxAmount),
+    shippingCost: Number(shippingCost),
+    total: Number(total)
+  };
+
+  this.subtotal = toMajor(subtotal);
+  this.discountAmount = toMajor(discountAmount);
+  this.taxAmount = toMajor(taxAmount);
+  this.total = toMajor(total);
+};
+
+// Instance method to move to a new status; every status change goes through here
+estimateSchema.methods.transitionTo = function (
+  status: EstimateStatus,
+  actor?: Types.ObjectId | string,
+  reason?: string
+): void {
+  if (this.status === status) {
+    return;
+  }
+
+  assertEstimateStatusTransition(this.status, status);
+
+  this.statusHistory.push({
+    from: this.status,
+    to: status,
+    actor: actor ? new mongoose.Types.ObjectId(actor.toString()) : undefined,
+    reason,
+    timestamp: new Date()
+  });
+  this.status = status;
+
+  if (status === 'sent') {
+    this.sentAt = new Date();
+  } else if (status === 'accepted') {
+    this.acceptedAt = new Date();
+  } else if (status === 'declined') {
+    this.declinedAt = new Date();
+  }
+};
+
+// Instance method to check whether a sent estimate is past its expiry date
+estimateSchema.methods.isExpired = function (): boolean {
+  return this.status === 'sent' && new Date() > this.expiryDate;
+};
+
+// Override toJSON to format output
+estimateSchema.methods.toJSON = function () {
+  const estimateObject = this.toObject();
+  delete estimateObject.__v;
+  return estimateObject;
+};
+
+// Create and export the Estimate model
+export const Estimate = mongoose.model<IEstimate>('Estimate', estimateSchema);
+export default Estimate;
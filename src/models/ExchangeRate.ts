@@ -0,0 +1,139 @@
+import mongoose, { Schema } from 'mongoose';
+
+import type { Document, Model, Types } from 'mongoose';
+
+// Exchange rate interface extending Mongoose Document
+// One unit of `base` is worth `rate` units of `quote` on `date`
+export interface IExchangeRate extends Document {
+  userId: Types.ObjectId;
+  base: string;
+  quote: string;
+  rate: number;
+  date: Date;
+  source: 'manual' | 'import';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model interface with static helpers
+export interface IExchangeRateModel extends Model<IExchangeRate> {
+  findRate: (
+    userId: Types.ObjectId | string,
+    from: string,
+    to: string,
+    date?: Date
+  ) => Promise<number | null>;
+}
+
+// Exchange rate schema definition
+const exchangeRateSchema = new Schema<IExchangeRate, IExchangeRateModel>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+
+    base: {
+      type: String,
+      required: [true, 'Base currency is required'],
+      uppercase: true,
+      length: [3, 'Currency must be a 3-letter code']
+    },
+
+    quote: {
+      type: String,
+      required: [true, 'Quote currency is required'],
+      uppercase: true,
+      length: [3, 'Currency must be a 3-letter code']
+    },
+
+    rate: {
+      type: Number,
+      required: [true, 'Rate is required'],
+      min: [0.000001, 'Rate must be greater than 0']
+    },
+
+    // Day the rate applies from (midnight UTC)
+    date: {
+      type: Date,
+      required: [true, 'Rate date is required']
+    },
+
+    source: {
+      type: String,
+      enum: ['manual', 'import'],
+      default: 'manual'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+exchangeRateSchema.index({ userId: 1, base: 1, quote: 1, date: -1 }, { unique: true });
+exchangeRateSchema.index({ userId: 1, quote: 1, date: -1 });
+
+// Find the most recent rate on or before a date, directly, inverted or through a shared base
+exchangeRateSchema.statics.findRate = async function (
+  userId: Types.ObjectId | string,
+  from: string,
+  to: string,
+  date: Date = new Date()
+): Promise<number | null> {
+  from = from.toUpperCase();
+  to = to.toUpperCase();
+
+  if (from === to) {
+    return 1;
+  }
+
+  const direct = await this.findOne({
+    userId,
+    date: { $lte: date },
+    $or: [
+      { base: from, quote: to },
+      { base: to, quote: from }
+    ]
+  })
+    .sort({ date: -1 })
+    .lean();
+
+  if (direct) {
+    return direct.base === from ? direct.rate : 1 / direct.rate;
+  }
+
+  // Cross rate, e.g. USD -> GBP through EUR -> USD and EUR -> GBP
+  const legs = await this.find({
+    userId,
+    date: { $lte: date },
+    quote: { $in: [from, to] }
+  })
+    .sort({ date: -1 })
+    .lean();
+
+  const latestByBase = new Map<string, Record<string, number>>();
+  for (const leg of legs) {
+    const quotes = latestByBase.get(leg.base) || {};
+    if (quotes[leg.quote] === undefined) {
+      quotes[leg.quote] = leg.rate;
+    }
+    latestByBase.set(leg.base, quotes);
+  }
+
+  for (const quotes of latestByBase.values()) {
+    if (quotes[from] !== undefined && quotes[to] !== undefined) {
+      return quotes[to] / quotes[from];
+    }
+  }
+
+  return null;
+};
+
+// Create and export the ExchangeRate model
+export const ExchangeRate = mongoose.model<IExchangeRate, IExchangeRateModel>(
+  'ExchangeRate',
+  exchangeRateSchema
+);
+export default ExchangeRate;
@@ -1,13 +1,79 @@
 import mongoose, { Schema } from 'mongoose';
 
+import { MONEY_ROUNDING_MODE, MONEY_ROUNDING_STRATEGY } from '../config/env.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import {
+  ROUNDING_MODES,
+  ROUNDING_STRATEGIES,
+  addDecimal,
+  allocateMinorUnits,
+  divideDecimal,
+  fromMinorUnits,
+  getCurrencyPrecision,
+  multiplyDecimal,
+  percentOf,
+  roundDecimal,
+  subtractDecimal,
+  toDecimal
+} from '../utils/money.js';
+
+import { NumberSequence } from './NumberSequence.js';
+import { Organization } from './Organization.js';
+
+import type { Decimal, RoundingMode, RoundingStrategy } from '../utils/money.js';
 import type { Document, Types } from 'mongoose';
 
+// Invoice lifecycle statuses
+export const INVOICE_STATUSES = [
+  'draft',
+  'sent',
+  'viewed',
+  'paid',
+  'overdue',
+  'cancelled'
+] as const;
+export type InvoiceStatus = (typeof INVOICE_STATUSES)[number];
+
+// Allowed status transitions; paid and cancelled invoices are final. A draft can only
+// become paid through recorded payments, never by a manual status change.
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, readonly InvoiceStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['viewed', 'paid', 'overdue', 'cancelled'],
+  viewed: ['paid', 'overdue', 'cancelled'],
+  overdue: ['paid', 'cancelled'],
+  paid: [],
+  cancelled: []
+};
+
+// Reject a status change that the transition table does not allow
+export const assertStatusTransition = (from: InvoiceStatus, to: InvoiceStatus): void => {
+  if (from !== to && !INVOICE_STATUS_TRANSITIONS[from].includes(to)) {
+    throw ApiErrors.conflict(`Cannot change invoice status from ${from} to ${to}`, {
+      code: 'INVALID_STATUS_TRANSITION'
+    });
+  }
+};
+
+// Fields that may still be edited once an invoice has left draft
+export const INVOICE_SAFE_FIELDS = ['notes', 'terms', 'tags', 'metadata'] as const;
+
+// Catalogue tax applied to an item, copied when the line is saved
+export interface IInvoiceItemTax {
+  taxRateId: Types.ObjectId;
+  name: string;
+  rate: number;
+  jurisdiction?: string;
+  compound: boolean;
+  inclusive: boolean;
+}
+
 // Invoice item interface
 export interface IInvoiceItem {
   description: string;
   quantity: number;
   unitPrice: number;
   taxRate: number;
+  taxes: IInvoiceItemTax[];
   discount: number;
   category?: string;
   unit?: string;
@@ -25,39 +91,165 @@ export interface IPaymentTerms {
   paymentMethods: string[];
 }
 
+// Money returned to the client from a payment
+export interface IRefundRecord {
+  _id?: Types.ObjectId;
+  amount: number;
+  date: Date;
+  reason: string;
+  reference?: string;
+  refundedBy?: Types.ObjectId;
+}
+
 // Payment record interface
 export interface IPaymentRecord {
+  _id?: Types.ObjectId;
   amount: number;
   date: Date;
   method: string;
   reference?: string;
   notes?: string;
+  voided?: boolean;
+  voidedAt?: Date;
+  voidReason?: string;
+  refunds?: IRefundRecord[];
+}
+
+// Credit note applied to the invoice
+export interface IInvoiceCredit {
+  creditNoteId: Types.ObjectId;
+  number: string;
+  amount: number;
+  issuedAt: Date;
+}
+
+// Status history entry; no actor means the system changed the status
+export interface IStatusChange {
+  from?: InvoiceStatus;
+  to: InvoiceStatus;
+  actor?: Types.ObjectId;
+  reason?: string;
+  timestamp: Date;
+}
+
+// Exchange rate captured when the invoice was issued
+export interface IInvoiceExchangeRate {
+  currency: string;
+  rate: number;
+  date: Date;
+}
+
+// Tax summary line per rate; no taxRateId means the invoice-level `taxRate`
+export interface ITaxSummaryLine {
+  taxRateId?: Types.ObjectId;
+  name: string;
+  rate: number;
+  jurisdiction?: string;
+  compound: boolean;
+  inclusive: boolean;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+// Rounding rules the totals are calculated with
+export interface IInvoiceRounding {
+  strategy: RoundingStrategy;
+  mode: RoundingMode;
+}
+
+// Exact amounts in integer minor units of the invoice currency
+export interface IInvoiceMinorUnits {
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  shippingCost: number;
+  total: number;
+  totalPaid: number;
+  totalRefunded: number;
+  totalCredited: number;
+  remainingBalance: number;
+}
+
+// Fields item, discount and tax totals are calculated from
+export interface IPricedDocument {
+  items: IInvoiceItem[];
+  currency: string;
+  rounding: IInvoiceRounding;
+  taxRate: number;
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;
+  shippingCost: number;
+}
+
+// Priced amounts in minor units, with the per-rate tax breakdown in major units
+export interface IPricedTotals {
+  subtotal: bigint;
+  discountAmount: bigint;
+  taxAmount: bigint;
+  shippingCost: bigint;
+  total: bigint;
+  taxSummary: ITaxSummaryLine[];
+}
+
+// Email delivery log entry; logged as pending before the email goes out
+export interface IInvoiceDelivery {
+  to: string[];
+  cc: string[];
+  subject: string;
+  status: 'pending' | 'sent' | 'failed';
+  messageId?: string;
+  error?: string;
+  sentAt: Date;
+  sentBy?: Types.ObjectId;
+}
+
+// Payment reminder schedule
+export interface IReminderSchedule {
+  enabled: boolean;
+  intervalDays?: number;
+  nextReminderAt?: Date;
+  lastSentAt?: Date;
+  sentCount: number;
 }
 
 // Invoice interface extending Mongoose Document
 export interface IInvoice extends Document {
   userId: Types.ObjectId;
+  organizationId: Types.ObjectId;
   clientId: Types.ObjectId;
   number: string;
   issueDate: Date;
   dueDate: Date;
-  status: 'draft' | 'sent' | 'viewed' | 'paid' | 'overdue' | 'cancelled';
+  status: InvoiceStatus;
+  statusHistory: IStatusChange[];
   items: IInvoiceItem[];
   subtotal: number;
   taxRate: number;
   taxAmount: number;
+  taxSummary: ITaxSummaryLine[];
   discountType: 'percentage' | 'fixed';
   discountValue: number;
   discountAmount: number;
   shippingCost: number;
   total: number;
   currency: string;
+  precision: number;
+  rounding: IInvoiceRounding;
+  minorUnits: IInvoiceMinorUnits;
+  exchangeRate?: IInvoiceExchangeRate;
+  estimateId?: Types.ObjectId;
+  recurringInvoiceId?: Types.ObjectId;
   notes?: string;
   terms?: string;
   paymentTerms?: IPaymentTerms;
   payments: IPaymentRecord[];
+  credits: IInvoiceCredit[];
   totalPaid: number;
+  totalRefunded: number;
+  totalCredited: number;
   remainingBalance: number;
+  deliveries: IInvoiceDelivery[];
+  reminders?: IReminderSchedule;
   sentAt?: Date;
   viewedAt?: Date;
   paidAt?: Date;
@@ -68,17 +260,63 @@ export interface IInvoice extends Document {
 
   // Instance methods
   calculateTotals: () => void;
-  addPayment: (payment: Partial<IPaymentRecord>) => void;
-  markAsSent: () => void;
-  markAsViewed: () => void;
-  markAsPaid: (paymentData?: Partial<IPaymentRecord>) => void;
+  transitionTo: (status: InvoiceStatus, actor?: Types.ObjectId | string, reason?: string) => void;
+  addPayment: (payment: Partial<IPaymentRecord>, actor?: Types.ObjectId | string) => void;
+  voidPayment: (
+    paymentId: string,
+    reason: string,
+    actor?: Types.ObjectId | string
+  ) => IPaymentRecord | null;
+  addRefund: (
+    paymentId: string,
+    refund: Omit<IRefundRecord, '_id'>,
+    actor?: Types.ObjectId | string
+  ) => IRefundRecord | null;
+  applyCredit: (credit: IInvoiceCredit, actor?: Types.ObjectId | string) => void;
+  removeCredit: (creditNoteId: string, actor?: Types.ObjectId | string, reason?: string) => boolean;
+  recalculatePayments: (actor?: Types.ObjectId | string, reason?: string) => void;
+  markAsSent: (actor?: Types.ObjectId | string) => void;
+  markAsViewed: (actor?: Types.ObjectId | string) => void;
+  markAsPaid: (paymentData?: Partial<IPaymentRecord>, actor?: Types.ObjectId | string) => void;
   isOverdue: () => boolean;
   getDaysUntilDue: () => number;
   toJSON: () => any;
 }
 
+// Item tax snapshot schema
+const invoiceItemTaxSchema = new Schema<IInvoiceItemTax>(
+  {
+    taxRateId: {
+      type: Schema.Types.ObjectId,
+      ref: 'TaxRate',
+      required: [true, 'Tax rate ID is required']
+    },
+    name: {
+      type: String,
+      required: [true, 'Tax name is required'],
+      trim: true
+    },
+    rate: {
+      type: Number,
+      required: [true, 'Tax rate is required'],
+      min: [0, 'Tax rate cannot be negative'],
+      max: [100, 'Tax rate cannot exceed 100%']
+    },
+    jurisdiction: String,
+    compound: {
+      type: Boolean,
+      default: false
+    },
+    inclusive: {
+      type: Boolean,
+      default: false
+    }
+  },
+  { _id: false }
+);
+
 // Invoice item schema
-const invoiceItemSchema = new Schema<IInvoiceItem>(
+export const invoiceItemSchema = new Schema<IInvoiceItem>(
   {
     description: {
       type: String,
@@ -104,6 +342,10 @@ const invoiceItemSchema = new Schema<IInvoiceItem>(
       max: [100, 'Tax rate cannot exceed 100%'],
       default: 0
     },
+    taxes: {
+      type: [invoiceItemTaxSchema],
+      default: []
+    },
     discount: {
       type: Number,
       min: [0, 'Discount cannot be negative'],
@@ -168,13 +410,53 @@ const paymentTermsSchema = new Schema<IPaymentTerms>(
   { _id: false }
 );
 
+// Refund record schema
+const refundRecordSchema = new Schema<IRefundRecord>(
+  {
+    amount: {
+      type: Number,
+      required: [true, 'Refund amount is required'],
+      // The smallest amount depends on the invoice currency and is checked by the service
+      validate: {
+        validator: (amount: number) => amount > 0,
+        message: 'Refund amount must be greater than 0'
+      }
+    },
+    date: {
+      type: Date,
+      required: [true, 'Refund date is required'],
+      default: Date.now
+    },
+    reason: {
+      type: String,
+      required: [true, 'Refund reason is required'],
+      trim: true,
+      maxlength: [500, 'Refund reason cannot exceed 500 characters']
+    },
+    reference: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Refund reference cannot exceed 100 characters']
+    },
+    refundedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  { timestamps: true }
+);
+
 // Payment record schema
 const paymentRecordSchema = new Schema<IPaymentRecord>(
   {
     amount: {
       type: Number,
       required: [true, 'Payment amount is required'],
-      min: [0.01, 'Payment amount must be greater than 0']
+      // The smallest amount depends on the invoice currency and is checked by the service
+      validate: {
+        validator: (amount: number) => amount > 0,
+        message: 'Payment amount must be greater than 0'
+      }
     },
     date: {
       type: Date,
@@ -195,11 +477,246 @@ const paymentRecordSchema = new Schema<IPaymentRecord>(
       type: String,
       trim: true,
       maxlength: [500, 'Payment notes cannot exceed 500 characters']
+    },
+    voided: {
+      type: Boolean,
+      default: false
+    },
+    voidedAt: Date,
+    voidReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Void reason cannot exceed 500 characters']
+    },
+    refunds: {
+      type: [refundRecordSchema],
+      default: []
     }
   },
   { timestamps: true }
 );
 
+// Applied credit note schema
+const invoiceCreditSchema = new Schema<IInvoiceCredit>(
+  {
+    creditNoteId: {
+      type: Schema.Types.ObjectId,
+      ref: 'CreditNote',
+      required: [true, 'Credit note ID is required']
+    },
+    number: {
+      type: String,
+      required: [true, 'Credit note number is required']
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Credit amount is required'],
+      min: [0, 'Credit amount cannot be negative']
+    },
+    issuedAt: {
+      type: Date,
+      required: [true, 'Credit date is required']
+    }
+  },
+  { _id: false }
+);
+
+// Status history schema
+const statusChangeSchema = new Schema<IStatusChange>(
+  {
+    from: {
+      type: String,
+      enum: INVOICE_STATUSES
+    },
+    to: {
+      type: String,
+      enum: INVOICE_STATUSES,
+      required: [true, 'Target status is required']
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters']
+    },
+    timestamp: {
+      type: Date,
+      required: [true, 'Timestamp is required'],
+      default: Date.now
+    }
+  },
+  { _id: false }
+);
+
+// Tax summary line schema
+export const taxSummaryLineSchema = new Schema<ITaxSummaryLine>(
+  {
+    taxRateId: {
+      type: Schema.Types.ObjectId,
+      ref: 'TaxRate'
+    },
+    name: {
+      type: String,
+      required: [true, 'Tax name is required']
+    },
+    rate: {
+      type: Number,
+      required: [true, 'Tax rate is required']
+    },
+    jurisdiction: String,
+    compound: {
+      type: Boolean,
+      default: false
+    },
+    inclusive: {
+      type: Boolean,
+      default: false
+    },
+    taxableAmount: {
+      type: Number,
+      default: 0
+    },
+    taxAmount: {
+      type: Number,
+      default: 0
+    }
+  },
+  { _id: false }
+);
+
+// Issue-time exchange rate schema
+const invoiceExchangeRateSchema = new Schema<IInvoiceExchangeRate>(
+  {
+    // Reporting currency the rate converts into
+    currency: {
+      type: String,
+      required: [true, 'Reporting currency is required'],
+      uppercase: true
+    },
+    rate: {
+      type: Number,
+      required: [true, 'Exchange rate is required'],
+      min: [0, 'Exchange rate cannot be negative']
+    },
+    date: {
+      type: Date,
+      required: [true, 'Exchange rate date is required']
+    }
+  },
+  { _id: false }
+);
+
+// Email delivery log schema
+const invoiceDeliverySchema = new Schema<IInvoiceDelivery>(
+  {
+    to: {
+      type: [String],
+      required: [true, 'Delivery recipients are required']
+    },
+    cc: {
+      type: [String],
+      default: []
+    },
+    subject: {
+      type: String,
+      required: [true, 'Delivery subject is required'],
+      trim: true,
+      maxlength: [200, 'Subject cannot exceed 200 characters']
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'sent', 'failed'],
+      default: 'sent'
+    },
+    messageId: {
+      type: String,
+      trim: true
+    },
+    error: {
+      type: String,
+      trim: true
+    },
+    sentAt: {
+      type: Date,
+      required: [true, 'Delivery date is required'],
+      default: Date.now
+    },
+    sentBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  { _id: true }
+);
+
+// Rounding rules schema
+export const invoiceRoundingSchema = new Schema<IInvoiceRounding>(
+  {
+    strategy: {
+      type: String,
+      enum: ROUNDING_STRATEGIES,
+      default: () => MONEY_ROUNDING_STRATEGY
+    },
+    mode: {
+      type: String,
+      enum: ROUNDING_MODES,
+      default: () => MONEY_ROUNDING_MODE
+    }
+  },
+  { _id: false }
+);
+
+// Minor unit amounts schema; written by calculateTotals only
+export const minorUnitAmount = {
+  type: Number,
+  default: 0,
+  validate: {
+    validator: Number.isSafeInteger,
+    message: 'Minor unit amounts must be whole numbers'
+  }
+};
+
+const invoiceMinorUnitsSchema = new Schema<IInvoiceMinorUnits>(
+  {
+    subtotal: minorUnitAmount,
+    discountAmount: minorUnitAmount,
+    taxAmount: minorUnitAmount,
+    shippingCost: minorUnitAmount,
+    total: minorUnitAmount,
+    totalPaid: minorUnitAmount,
+    totalRefunded: minorUnitAmount,
+    totalCredited: minorUnitAmount,
+    remainingBalance: minorUnitAmount
+  },
+  { _id: false }
+);
+
+// Reminder schedule schema
+const reminderScheduleSchema = new Schema<IReminderSchedule>(
+  {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    intervalDays: {
+      type: Number,
+      min: [1, 'Reminder interval must be at least 1 day'],
+      max: [30, 'Reminder interval cannot exceed 30 days']
+    },
+    nextReminderAt: Date,
+    lastSentAt: Date,
+    sentCount: {
+      type: Number,
+      min: [0, 'Reminder count cannot be negative'],
+      default: 0
+    }
+  },
+  { _id: false }
+);
+
 // Invoice schema definition
 const invoiceSchema = new Schema<IInvoice>(
   {
@@ -209,6 +726,12 @@ const invoiceSchema = new Schema<IInvoice>(
       required: [true, 'User ID is required']
     },
 
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: [true, 'Organization ID is required']
+    },
+
     clientId: {
       type: Schema.Types.ObjectId,
       ref: 'Client',
@@ -235,10 +758,15 @@ const invoiceSchema = new Schema<IInvoice>(
 
     status: {
       type: String,
-      enum: ['draft', 'sent', 'viewed', 'paid', 'overdue', 'cancelled'],
+      enum: INVOICE_STATUSES,
       default: 'draft'
     },
 
+    statusHistory: {
+      type: [statusChangeSchema],
+      default: []
+    },
+
     items: {
       type: [invoiceItemSchema],
       required: [true, 'At least one item is required'],
@@ -269,6 +797,12 @@ const invoiceSchema = new Schema<IInvoice>(
       default: 0
     },
 
+    // Per-rate breakdown required on VAT/GST invoices; written by calculateTotals
+    taxSummary: {
+      type: [taxSummaryLineSchema],
+      default: []
+    },
+
     discountType: {
       type: String,
       enum: ['percentage', 'fixed'],
@@ -307,6 +841,38 @@ const invoiceSchema = new Schema<IInvoice>(
       default: 'USD'
     },
 
+    // Decimals of the currency, e.g. 0 for JPY and 3 for BHD
+    precision: {
+      type: Number,
+      min: [0, 'Precision cannot be negative'],
+      max: [4, 'Precision cannot exceed 4 decimals'],
+      default: 2
+    },
+
+    rounding: {
+      type: invoiceRoundingSchema,
+      default: () => ({})
+    },
+
+    minorUnits: {
+      type: invoiceMinorUnitsSchema,
+      default: () => ({})
+    },
+
+    exchangeRate: invoiceExchangeRateSchema,
+
+    // Estimate this invoice was converted from
+    estimateId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Estimate'
+    },
+
+    // Recurring profile that generated this invoice
+    recurringInvoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RecurringInvoice'
+    },
+
     notes: {
       type: String,
       trim: true,
@@ -326,17 +892,42 @@ const invoiceSchema = new Schema<IInvoice>(
       default: []
     },
 
+    credits: {
+      type: [invoiceCreditSchema],
+      default: []
+    },
+
+    // Payments received minus refunds
     totalPaid: {
       type: Number,
       min: [0, 'Total paid cannot be negative'],
       default: 0
     },
 
+    totalRefunded: {
+      type: Number,
+      min: [0, 'Total refunded cannot be negative'],
+      default: 0
+    },
+
+    totalCredited: {
+      type: Number,
+      min: [0, 'Total credited cannot be negative'],
+      default: 0
+    },
+
     remainingBalance: {
       type: Number,
       default: 0
     },
 
+    deliveries: {
+      type: [invoiceDeliverySchema],
+      default: []
+    },
+
+    reminders: reminderScheduleSchema,
+
     sentAt: Date,
     viewedAt: Date,
     paidAt: Date,
@@ -372,7 +963,15 @@ invoiceSchema.index({ userId: 1, issueDate: -1 });
 invoiceSchema.index({ userId: 1, dueDate: 1 });
 invoiceSchema.index({ userId: 1, total: -1 });
 invoiceSchema.index({ userId: 1, tags: 1 });
+invoiceSchema.index({ organizationId: 1, createdAt: -1 });
+invoiceSchema.index({ organizationId: 1, clientId: 1 });
+invoiceSchema.index({ organizationId: 1, status: 1, dueDate: 1 });
 invoiceSchema.index({ status: 1, dueDate: 1 }); // For overdue queries
+// One invoice per recurring profile and occurrence
+invoiceSchema.index(
+  { recurringInvoiceId: 1, issueDate: 1 },
+  { unique: true, partialFilterExpression: { recurringInvoiceId: { $exists: true } } }
+);
 
 // Virtuals
 invoiceSchema.virtual('isOverdueVirtual').get(function () {
@@ -391,12 +990,19 @@ invoiceSchema.pre('save', function (next) {
   next();
 });
 
-// Pre-save middleware to auto-generate invoice number
-invoiceSchema.pre('save', async function (next) {
+// Pre-validate middleware to auto-generate invoice number
+// Runs before validation so the required `number` field is populated
+invoiceSchema.pre('validate', async function (next) {
+  // Invoices created outside an organization go to the owner's personal one
+  if (!this.organizationId) {
+    this.organizationId = (await Organization.findOrCreatePersonal(this.userId))
+      ._id as Types.ObjectId;
+  }
   if (this.isNew && !this.number) {
-    const count = await mongoose.model('Invoice').countDocuments({ userId: this.userId });
-    const year = new Date().getFullYear();
-    this.number = `INV-${year}-${String(count + 1).padStart(4, '0')}`;
+    this.number = await NumberSequence.consume(this.userId, 'invoice', this.issueDate);
+  }
+  if (this.isNew && this.statusHistory.length === 0) {
+    this.statusHistory.push({ to: this.status, timestamp: new Date() });
   }
   next();
 });
@@ -408,63 +1014,264 @@ invoiceSchema.pre('save', function (next) {
   // Auto-mark as overdue
   if (this.status === 'sent' || this.status === 'viewed') {
     if (now > this.dueDate) {
-      this.status = 'overdue';
+      this.transitionTo('overdue', undefined, 'Past due date');
     }
   }
 
   next();
 });
 
-// Instance method to calculate totals
-invoiceSchema.methods.calculateTotals = function (): void {
-  // Calculate item totals
-  this.items.forEach((item: IInvoiceItem) => {
-    item.subtotal = item.quantity * item.unitPrice;
+// Item amounts while totals are calculated
+interface LineAmounts {
+  item: IInvoiceItem;
+  taxes: IInvoiceItemTax[];
+  gross?: Decimal;
+  net: Decimal;
+}
+
+// Gross-to-net factor of a line's taxes: (1 + simple rates) * (1 + compound rates)
+const taxFactor = (taxes: IInvoiceItemTax[]): Decimal => {
+  const sum = (compound: boolean): Decimal =>
+    taxes
+      .filter(tax => tax.compound === compound)
+      .reduce((total, tax) => addDecimal(total, toDecimal(tax.rate)), toDecimal(100));
+
+  return multiplyDecimal(
+    { ...sum(false), scale: sum(false).scale + 2 },
+    { ...sum(true), scale: sum(true).scale + 2 }
+  );
+};
+
+// Calculate line, discount and tax amounts in exact minor units of the document currency.
+// Writes each item's subtotal, tax and total; shared by invoices and estimates.
+export const priceDocument = (document: IPricedDocument): IPricedTotals => {
+  const precision = getCurrencyPrecision(document.currency);
+  const { strategy, mode } = document.rounding;
+  const perLine = strategy === 'line';
+  const zero: Decimal = { value: 0n, scale: 0 };
+  const round = (amount: Decimal): bigint => roundDecimal(amount, precision, mode);
+  const asDecimal = (minor: bigint): Decimal => ({ value: minor, scale: precision });
+  const toMajor = (minor: bigint): number => fromMinorUnits(minor, document.currency);
+
+  // Net line amounts; inclusive prices are split back into the amount before tax
+  const lines: LineAmounts[] = document.items.map((item: IInvoiceItem) => {
+    let amount = multiplyDecimal(toDecimal(item.quantity), toDecimal(item.unitPrice));
 
     // Apply item discount
     if (item.discount > 0) {
-      item.subtotal -= (item.subtotal * item.discount) / 100;
+      amount = subtractDecimal(amount, percentOf(amount, item.discount));
+    }
+
+    const taxes: IInvoiceItemTax[] = item.taxes || [];
+    const gross = taxes.some(tax => tax.inclusive) ? amount : undefined;
+    if (gross) {
+      amount = divideDecimal(amount, taxFactor(taxes));
     }
 
-    // Calculate tax
-    item.taxAmount = (item.subtotal * item.taxRate) / 100;
-    item.total = item.subtotal + item.taxAmount;
+    // Round each line when rounding per line
+    return { item, taxes, gross, net: perLine ? asDecimal(round(amount)) : amount };
   });
 
-  // Calculate invoice subtotal
-  this.subtotal = this.items.reduce((sum: number, item: IInvoiceItem) => sum + item.subtotal, 0);
+  const subtotal = round(lines.reduce((sum, line) => addDecimal(sum, line.net), zero));
 
   // Apply invoice-level discount
-  if (this.discountValue > 0) {
-    if (this.discountType === 'percentage') {
-      this.discountAmount = (this.subtotal * this.discountValue) / 100;
+  let discountAmount = 0n;
+  if (document.discountValue > 0) {
+    discountAmount =
+      document.discountType === 'percentage'
+        ? round(percentOf(asDecimal(subtotal), document.discountValue))
+        : round(toDecimal(document.discountValue));
+  }
+
+  // Spread the invoice discount over the lines so taxes are charged on the billed amounts
+  const bases: Decimal[] = perLine
+    ? allocateMinorUnits(
+        subtotal - discountAmount,
+        lines.map(line => line.net.value)
+      ).map(asDecimal)
+    : lines.map(line =>
+        subtotal === 0n
+          ? line.net
+          : subtractDecimal(
+              line.net,
+              divideDecimal(
+                multiplyDecimal(line.net, asDecimal(discountAmount)),
+                asDecimal(subtotal)
+              )
+            )
+      );
+
+  // Calculate catalogue taxes; compound taxes apply to the line plus its other taxes
+  const summary = new Map<string, { tax: IInvoiceItemTax; taxable: Decimal; amount: Decimal }>();
+  const charge = (tax: IInvoiceItemTax, taxable: Decimal): Decimal => {
+    const exact = percentOf(taxable, tax.rate);
+    const amount = perLine ? asDecimal(round(exact)) : exact;
+    const key = tax.taxRateId.toString();
+    const entry = summary.get(key) || { tax, taxable: zero, amount: zero };
+    summary.set(key, {
+      tax,
+      taxable: addDecimal(entry.taxable, taxable),
+      amount: addDecimal(entry.amount, amount)
+    });
+    return amount;
+  };
+
+  lines.forEach((line, index) => {
+    const { item, taxes, gross } = line;
+    const base = bases[index];
+    let lineTax: bigint;
+
+    if (taxes.length > 0) {
+      const simple = taxes.filter(tax => !tax.compound).map(tax => charge(tax, base));
+      const simpleTotal = simple.reduce(addDecimal, zero);
+      const compound = taxes
+        .filter(tax => tax.compound)
+        .map(tax => charge(tax, addDecimal(base, simpleTotal)));
+      lineTax = round([...simple, ...compound].reduce(addDecimal, zero));
+
+      // Keep an undiscounted inclusive line at exactly its price; the rounding
+      // difference goes to its last tax
+      if (perLine && gross && discountAmount === 0n) {
+        const difference = round(gross) - (line.net.value + lineTax);
+        if (difference !== 0n) {
+          const entry = summary.get(taxes[taxes.length - 1].taxRateId.toString())!;
+          entry.amount = addDecimal(entry.amount, asDecimal(difference));
+          lineTax += difference;
+        }
+      }
     } else {
-      this.discountAmount = this.discountValue;
+      // Bare item rates are informational; they do not add to the invoice total
+      lineTax = round(percentOf(line.net, item.taxRate));
     }
-  } else {
-    this.discountAmount = 0;
+
+    const lineSubtotal = round(line.net);
+    item.subtotal = toMajor(lineSubtotal);
+    item.taxAmount = toMajor(lineTax);
+    item.total = toMajor(lineSubtotal + lineTax);
+  });
+
+  // Invoice-level rate for invoices that do not use the tax catalogue
+  const taxableAmount = subtotal - discountAmount;
+  const invoiceTax = round(percentOf(asDecimal(taxableAmount), document.taxRate));
+
+  const taxSummary: ITaxSummaryLine[] = [...summary.values()].map(({ tax, taxable, amount }) => ({
+    taxRateId: tax.taxRateId,
+    name: tax.name,
+    rate: tax.rate,
+    jurisdiction: tax.jurisdiction,
+    compound: tax.compound,
+    inclusive: tax.inclusive,
+    taxableAmount: toMajor(round(taxable)),
+    taxAmount: toMajor(round(amount))
+  }));
+  if (document.taxRate > 0) {
+    taxSummary.push({
+      name: 'Tax',
+      rate: document.taxRate,
+      compound: false,
+      inclusive: false,
+      taxableAmount: toMajor(taxableAmount),
+      taxAmount: toMajor(invoiceTax)
+    });
   }
 
   // Calculate tax
-  const taxableAmount = this.subtotal - this.discountAmount;
-  this.taxAmount = (taxableAmount * this.taxRate) / 100;
+  const taxAmount = [...summary.values()].reduce(
+    (sum, { amount }) => sum + round(amount),
+    invoiceTax
+  );
+  const shippingCost = round(toDecimal(document.shippingCost));
 
   // Calculate total
-  this.total = taxableAmount + this.taxAmount + this.shippingCost;
+  const total = taxableAmount + taxAmount + shippingCost;
+
+  return { subtotal, discountAmount, taxAmount, shippingCost, total, taxSummary };
+};
+
+// Instance method to calculate totals in exact minor units of the invoice currency
+invoiceSchema.methods.calculateTotals = function (): void {
+  const precision = getCurrencyPrecision(this.currency);
+  const round = (amount: Decimal): bigint => roundDecimal(amount, precision, this.rounding.mode);
+  const toMajor = (minor: bigint): number => fromMinorUnits(minor, this.currency);
+
+  const { subtotal, discountAmount, taxAmount, shippingCost, total, taxSummary } = priceDocument(
+    this as IInvoice
+  );
+
+  // Voided payments stay on the invoice for auditing but no longer count
+  const payments = this.payments.filter((p: IPaymentRecord) => !p.voided);
+  const totalRefunded: bigint = payments
+    .flatMap((p: IPaymentRecord) => p.refunds || [])
+    .reduce((sum: bigint, r: IRefundRecord) => sum + round(toDecimal(r.amount)), 0n);
+  const totalPaid: bigint =
+    payments.reduce((sum: bigint, p: IPaymentRecord) => sum + round(toDecimal(p.amount)), 0n) -
+    totalRefunded;
+  const totalCredited: bigint = this.credits.reduce(
+    (sum: bigint, c: IInvoiceCredit) => sum + round(toDecimal(c.amount)),
+    0n
+  );
+  const remainingBalance = total - totalCredited - totalPaid;
+
+  this.precision = precision;
+  this.taxSummary = taxSummary;
+  this.minorUnits = {
+    subtotal: Number(subtotal),
+    discountAmount: Number(discountAmount),
+    taxAmount: Number(taxAmount),
+    shippingCost: Number(shippingCost),
+    total: Number(total),
+    totalPaid: Number(totalPaid),
+    totalRefunded: Number(totalRefunded),
+    totalCredited: Number(totalCredited),
+    remainingBalance: Number(remainingBalance)
+  };
+
+  this.subtotal = toMajor(subtotal);
+  this.discountAmount = toMajor(discountAmount);
+  this.taxAmount = toMajor(taxAmount);
+  this.total = toMajor(total);
+  this.totalPaid = toMajor(totalPaid);
+  this.totalRefunded = toMajor(totalRefunded);
+  this.totalCredited = toMajor(totalCredited);
+  this.remainingBalance = toMajor(remainingBalance);
+};
 
-  // Calculate remaining balance
-  this.remainingBalance = this.total - this.totalPaid;
+// Record a status change in the history without checking the transition table
+const recordStatusChange = (
+  invoice: IInvoice,
+  status: InvoiceStatus,
+  actor?: Types.ObjectId | string,
+  reason?: string
+): void => {
+  invoice.statusHistory.push({
+    from: invoice.status,
+    to: status,
+    actor: actor ? new mongoose.Types.ObjectId(actor.toString()) : undefined,
+    reason,
+    timestamp: new Date()
+  });
+  invoice.status = status;
+};
+
+// Instance method to move to a new status; every status change goes through here
+invoiceSchema.methods.transitionTo = function (
+  status: InvoiceStatus,
+  actor?: Types.ObjectId | string,
+  reason?: string
+): void {
+  if (this.status === status) {
+    return;
+  }
 
-  // Ensure values are rounded to 2 decimal places
-  this.subtotal = Math.round(this.subtotal * 100) / 100;
-  this.discountAmount = Math.round(this.discountAmount * 100) / 100;
-  this.taxAmount = Math.round(this.taxAmount * 100) / 100;
-  this.total = Math.round(this.total * 100) / 100;
-  this.remainingBalance = Math.round(this.remainingBalance * 100) / 100;
+  assertStatusTransition(this.status, status);
+  recordStatusChange(this as IInvoice, status, actor, reason);
 };
 
 // Instance method to add payment
-invoiceSchema.methods.addPayment = function (payment: Partial<IPaymentRecord>): void {
+invoiceSchema.methods.addPayment = function (
+  payment: Partial<IPaymentRecord>,
+  actor?: Types.ObjectId | string
+): void {
   this.payments.push({
     amount: payment.amount!,
     date: payment.date || new Date(),
@@ -473,48 +1280,137 @@ invoiceSchema.methods.addPayment = function (payment: Partial<IPaymentRecord>):
     notes: payment.notes
   });
 
-  // Recalculate total paid
-  this.totalPaid = this.payments.reduce((sum: number, p: IPaymentRecord) => sum + p.amount, 0);
-  this.remainingBalance = this.total - this.totalPaid;
+  this.recalculatePayments(actor, 'Payment recorded');
+};
+
+// Instance method to void a payment, keeping it on record
+invoiceSchema.methods.voidPayment = function (
+  paymentId: string,
+  reason: string,
+  actor?: Types.ObjectId | string
+): IPaymentRecord | null {
+  const payment = this.payments.find((p: IPaymentRecord) => p._id?.toString() === paymentId);
+  if (!payment || payment.voided) {
+    return null;
+  }
+
+  payment.voided = true;
+  payment.voidedAt = new Date();
+  payment.voidReason = reason;
+
+  this.recalculatePayments(actor, `Payment voided: ${reason}`);
+
+  return payment;
+};
+
+// Instance method to return money from a payment
+invoiceSchema.methods.addRefund = function (
+  paymentId: string,
+  refund: Omit<IRefundRecord, '_id'>,
+  actor?: Types.ObjectId | string
+): IRefundRecord | null {
+  const payment = this.payments.find((p: IPaymentRecord) => p._id?.toString() === paymentId);
+  if (!payment || payment.voided) {
+    return null;
+  }
+
+  payment.refunds.push(refund);
+  this.recalculatePayments(actor, `Refund recorded: ${refund.reason}`);
+
+  return payment.refunds[payment.refunds.length - 1];
+};
+
+// Instance method to apply an issued credit note
+invoiceSchema.methods.applyCredit = function (
+  credit: IInvoiceCredit,
+  actor?: Types.ObjectId | string
+): void {
+  this.credits.push(credit);
+  this.recalculatePayments(actor, `Credit note ${credit.number} issued`);
+};
+
+// Instance method to withdraw a voided credit note
+invoiceSchema.methods.removeCredit = function (
+  creditNoteId: string,
+  actor?: Types.ObjectId | string,
+  reason?: string
+): boolean {
+  const index = this.credits.findIndex(
+    (c: IInvoiceCredit) => c.creditNoteId.toString() === creditNoteId
+  );
+  if (index === -1) {
+    return false;
+  }
+
+  const [credit] = this.credits.splice(index, 1);
+  this.recalculatePayments(actor, reason || `Credit note ${credit.number} voided`);
+
+  return true;
+};
+
+// Instance method to recompute paid amounts and payment status
+invoiceSchema.methods.recalculatePayments = function (
+  actor?: Types.ObjectId | string,
+  reason?: string
+): void {
+  this.calculateTotals();
 
   // Update status if fully paid
-  if (this.remainingBalance <= 0.01) {
-    // Allow for small rounding differences
-    this.status = 'paid';
-    this.paidAt = new Date();
+  if (this.minorUnits.remainingBalance <= 0) {
+    if (this.status === 'draft') {
+      recordStatusChange(this as IInvoice, 'paid', actor, reason);
+      this.paidAt = new Date();
+    } else if (this.status !== 'paid') {
+      this.transitionTo('paid', actor, reason);
+      this.paidAt = new Date();
+    }
+  } else if (this.status === 'paid') {
+    // Reopening a paid invoice is only possible when its balance reopens, so it
+    // bypasses the transition table. The save hook flags it overdue if needed.
+    recordStatusChange(
+      this as IInvoice,
+      this.viewedAt ? 'viewed' : this.sentAt ? 'sent' : 'draft',
+      actor,
+      reason
+    );
+    this.paidAt = undefined;
   }
 };
 
 // Instance method to mark as sent
-invoiceSchema.methods.markAsSent = function (): void {
+invoiceSchema.methods.markAsSent = function (actor?: Types.ObjectId | string): void {
   if (this.status === 'draft') {
-    this.status = 'sent';
+    this.transitionTo('sent', actor);
     this.sentAt = new Date();
   }
 };
 
 // Instance method to mark as viewed
-invoiceSchema.methods.markAsViewed = function (): void {
+invoiceSchema.methods.markAsViewed = function (actor?: Types.ObjectId | string): void {
   if (this.status === 'sent') {
-    this.status = 'viewed';
+    this.transitionTo('viewed', actor);
     this.viewedAt = new Date();
   }
 };
 
 // Instance method to mark as paid
-invoiceSchema.methods.markAsPaid = function (paymentData?: Partial<IPaymentRecord>): void {
+invoiceSchema.methods.markAsPaid = function (
+  paymentData?: Partial<IPaymentRecord>,
+  actor?: Types.ObjectId | string
+): void {
   if (paymentData) {
-    this.addPayment({
-      amount: paymentData.amount || this.remainingBalance,
-      method: paymentData.method || 'other',
-      reference: paymentData.reference,
-      notes: paymentData.notes
-    });
+    this.addPayment(
+      {
+        amount: paymentData.amount || this.remainingBalance,
+        method: paymentData.method || 'other',
+        reference: paymentData.reference,
+        notes: paymentData.notes
+      },
+      actor
+    );
   } else {
-    this.status = 'paid';
+    this.transitionTo('paid', actor);
     this.paidAt = new Date();
-    this.totalPaid = this.total;
-    this.remainingBalance = 0;
   }
 };
 
@@ -0,0 +1,117 @@
+import mongoose, { Schema } from 'mongoose';
+
+import type { Document, Model } from 'mongoose';
+
+// Job lock interface extending Mongoose Document
+export interface IJobLock extends Document {
+  name: string;
+  lockedBy?: string;
+  lockedUntil: Date;
+  lastStartedAt?: Date;
+  lastFinishedAt?: Date;
+  lastError?: string;
+  runCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model interface with static helpers
+export interface IJobLockModel extends Model<IJobLock> {
+  acquire: (name: string, owner: string, leaseMs: number) => Promise<boolean>;
+  release: (name: string, owner: string, nextRunAt: Date, error?: string) => Promise<void>;
+}
+
+// Job lock schema definition
+const jobLockSchema = new Schema<IJobLock, IJobLockModel>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Job name is required'],
+      unique: true,
+      trim: true
+    },
+
+    // Scheduler instance currently running the job
+    lockedBy: {
+      type: String
+    },
+
+    // No instance may start the job before this date
+    lockedUntil: {
+      type: Date,
+      required: [true, 'Lock expiry is required']
+    },
+
+    lastStartedAt: Date,
+    lastFinishedAt: Date,
+
+    lastError: {
+      type: String
+    },
+
+    runCount: {
+      type: Number,
+      default: 0
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Take the lock for a job if it is free or its lease has expired
+jobLockSchema.statics.acquire = async function (
+  name: string,
+  owner: string,
+  leaseMs: number
+): Promise<boolean> {
+  const now = new Date();
+
+  try {
+    const lock = await this.findOneAndUpdate(
+      { name, lockedUntil: { $lte: now } },
+      {
+        $set: {
+          lockedBy: owner,
+          lockedUntil: new Date(now.getTime() + leaseMs),
+          lastStartedAt: now
+        },
+        $inc: { runCount: 1 }
+      },
+      { new: true, upsert: true }
+    );
+
+    return lock?.lockedBy === owner;
+  } catch (error: any) {
+    // The lock exists and is held: the upsert collides with the unique name
+    if (error?.code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+// Hand the lock back and keep other instances away until the next run
+jobLockSchema.statics.release = async function (
+  name: string,
+  owner: string,
+  nextRunAt: Date,
+  error?: string
+): Promise<void> {
+  await this.updateOne(
+    { name, lockedBy: owner },
+    error
+      ? {
+          $set: { lockedUntil: nextRunAt, lastFinishedAt: new Date(), lastError: error },
+          $unset: { lockedBy: 1 }
+        }
+      : {
+          $set: { lockedUntil: nextRunAt, lastFinishedAt: new Date() },
+          $unset: { lockedBy: 1, lastError: 1 }
+        }
+  );
+};
+
+// Create and export the JobLock model
+export const JobLock = mongoose.model<IJobLock, IJobLockModel>('JobLock', jobLockSchema);
+export default JobLock;
@@ -0,0 +1,104 @@
+import mongoose, { Schema } from 'mongoose';
+
+import type { Document, Types } from 'mongoose';
+
+// Lifecycle of a membership: invited by email, accepted, then possibly revoked
+export const MEMBERSHIP_STATUSES = ['invited', 'active', 'revoked'] as const;
+export type MembershipStatus = (typeof MEMBERSHIP_STATUSES)[number];
+
+// Membership interface extending Mongoose Document. Pending invitations are memberships
+// without a user; the invitation token is stored hashed. The role is the key of a built-in
+// or custom role of the organization.
+export interface IMembership extends Document {
+  organizationId: Types.ObjectId;
+  userId?: Types.ObjectId;
+  email: string;
+  role: string;
+  status: MembershipStatus;
+  invitedBy?: Types.ObjectId;
+  inviteToken?: string;
+  inviteExpires?: Date;
+  acceptedAt?: Date;
+  revokedAt?: Date;
+  revokedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  toJSON: () => any;
+}
+
+// Membership schema definition
+const membershipSchema = new Schema<IMembership>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: [true, 'Organization ID is required']
+    },
+
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true
+    },
+
+    role: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      required: [true, 'Role is required']
+    },
+
+    status: {
+      type: String,
+      enum: MEMBERSHIP_STATUSES,
+      default: 'invited'
+    },
+
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+
+    inviteToken: {
+      type: String,
+      select: false
+    },
+
+    inviteExpires: Date,
+    acceptedAt: Date,
+    revokedAt: Date,
+
+    revokedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+membershipSchema.index({ organizationId: 1, email: 1 }, { unique: true });
+membershipSchema.index({ userId: 1, status: 1 });
+membershipSchema.index({ inviteToken: 1 });
+
+// Override toJSON to format output
+membershipSchema.methods.toJSON = function () {
+  const membershipObject = this.toObject();
+  delete membershipObject.__v;
+  delete membershipObject.inviteToken;
+  return membershipObject;
+};
+
+// Create and export the Membership model
+export const Membership = mongoose.model<IMembership>('Membership', membershipSchema);
+export default Membership;
@@ -0,0 +1,256 @@
+import mongoose, { Schema } from 'mongoose';
+
+import type { Document, Model, Types } from 'mongoose';
+
+// Document series that have their own numbering
+export const NUMBER_SERIES = ['invoice', 'quote', 'credit_note'] as const;
+export type NumberSeries = (typeof NUMBER_SERIES)[number];
+
+// Default prefix for each series
+export const DEFAULT_SERIES_PREFIX: Record<NumberSeries, string> = {
+  invoice: 'INV',
+  quote: 'QUO',
+  credit_note: 'CN'
+};
+
+// Model storing the documents of each series
+const SERIES_MODELS: Record<NumberSeries, string> = {
+  invoice: 'Invoice',
+  quote: 'Estimate',
+  credit_note: 'CreditNote'
+};
+
+// Number sequence interface extending Mongoose Document
+export interface INumberSequence extends Document {
+  userId: Types.ObjectId;
+  series: NumberSeries;
+  prefix: string;
+  format: string;
+  padding: number;
+  resetPolicy: 'yearly' | 'never';
+  counters: Map<string, number>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model interface with static helpers
+export interface INumberSequenceModel extends Model<INumberSequence> {
+  consume: (userId: Types.ObjectId | string, series: NumberSeries, date?: Date) => Promise<string>;
+  preview: (userId: Types.ObjectId | string, series: NumberSeries, date?: Date) => Promise<string>;
+  findOrDefault: (
+    userId: Types.ObjectId | string,
+    series: NumberSeries
+  ) => Promise<Pick<INumberSequence, 'series' | 'prefix' | 'format' | 'padding' | 'resetPolicy'>>;
+}
+
+// Number sequence schema definition
+const numberSequenceSchema = new Schema<INumberSequence, INumberSequenceModel>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+
+    series: {
+      type: String,
+      enum: NUMBER_SERIES,
+      required: [true, 'Series is required']
+    },
+
+    prefix: {
+      type: String,
+      required: [true, 'Prefix is required'],
+      trim: true,
+      maxlength: [20, 'Prefix cannot exceed 20 characters']
+    },
+
+    format: {
+      type: String,
+      trim: true,
+      maxlength: [50, 'Format cannot exceed 50 characters'],
+      default: '{prefix}-{year}-{seq}'
+    },
+
+    padding: {
+      type: Number,
+      min: [1, 'Padding must be at least 1'],
+      max: [10, 'Padding cannot exceed 10'],
+      default: 4
+    },
+
+    resetPolicy: {
+      type: String,
+      enum: ['yearly', 'never'],
+      default: 'yearly'
+    },
+
+    // Last issued value per period ('2025', '2026', ... or 'all' when never reset)
+    counters: {
+      type: Map,
+      of: Number
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+numberSequenceSchema.index({ userId: 1, series: 1 }, { unique: true });
+
+// Resolve the counter key for a date according to the reset policy
+const getPeriodKey = (resetPolicy: 'yearly' | 'never', date: Date): string => {
+  return resetPolicy === 'yearly' ? String(date.getFullYear()) : 'all';
+};
+
+// Render a number from the sequence format
+const formatNumber = (
+  sequence: Pick<INumberSequence, 'prefix' | 'format' | 'padding'>,
+  value: number,
+  date: Date
+): string => {
+  return sequence.format
+    .replace(/\{prefix\}/g, sequence.prefix)
+    .replace(/\{year\}/g, String(date.getFullYear()))
+    .replace(/\{seq\}/g, String(value).padStart(sequence.padding, '0'));
+};
+
+// Escape a literal for use inside a regular expression
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Highest sequence value already used in a period, so a new counter continues after
+// numbers issued before the sequence existed (e.g. under the old INV-YYYY-NNNN scheme)
+const findHighestIssued = async (
+  userId: Types.ObjectId | string,
+  series: NumberSeries,
+  sequence: Pick<INumberSequence, 'prefix' | 'format' | 'resetPolicy'>,
+  date: Date
+): Promise<number> => {
+  const model = mongoose.models[SERIES_MODELS[series]];
+  if (!model) {
+    return 0;
+  }
+
+  const source = sequence.format
+    .split(/(\{prefix\}|\{year\}|\{seq\})/)
+    .map(part => {
+      if (part === '{prefix}') return escapeRegex(sequence.prefix);
+      if (part === '{year}') {
+        return sequence.resetPolicy === 'yearly' ? String(date.getFullYear()) : '\\d{4}';
+      }
+      if (part === '{seq}') return '(\\d+)';
+      return escapeRegex(part);
+    })
+    .join('');
+
+  const pattern = new RegExp(`^${source}$`);
+  const documents = await model
+    .find({ userId, number: pattern }, { number: 1 })
+    .lean<{ number: string }[]>();
+
+  return documents.reduce((highest, document) => {
+    const value = Number(pattern.exec(document.number)?.[1] || 0);
+    return Math.max(highest, value);
+  }, 0);
+};
+
+// Get the stored configuration or the defaults for a series
+numberSequenceSchema.statics.findOrDefault = async function (
+  userId: Types.ObjectId | string,
+  series: NumberSeries
+) {
+  const sequence = await this.findOne({ userId, series }).lean();
+  if (sequence) {
+    return sequence;
+  }
+
+  return {
+    series,
+    prefix: DEFAULT_SERIES_PREFIX[series],
+    format: '{prefix}-{year}-{seq}',
+    padding: 4,
+    resetPolicy: 'yearly'
+  };
+};
+
+// Atomically reserve the next number of a series
+numberSequenceSchema.statics.consume = async function (
+  userId: Types.ObjectId | string,
+  series: NumberSeries,
+  date: Date = new Date()
+): Promise<string> {
+  const config: any = await (this as INumberSequenceModel).findOrDefault(userId, series);
+  const periodKey = getPeriodKey(config.resetPolicy, date);
+
+  // Seed a period's counter once from the numbers already issued in it
+  if (config.counters?.[periodKey] === undefined) {
+    const highest = await findHighestIssued(userId, series, config, date);
+    if (highest > 0) {
+      try {
+        await this.updateOne(
+          { userId, series, [`counters.${periodKey}`]: { $exists: false } },
+          {
+            $set: { [`counters.${periodKey}`]: highest },
+            $setOnInsert: { prefix: config.prefix }
+          },
+          { upsert: true }
+        );
+      } catch (error: any) {
+        // The counter was seeded or created concurrently
+        if (error?.code !== 11000) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  const increment = () =>
+    this.findOneAndUpdate(
+      { userId, series },
+      {
+        $inc: { [`counters.${periodKey}`]: 1 },
+        $setOnInsert: { prefix: config.prefix }
+      },
+      { new: true, upsert: true }
+    );
+
+  let sequence: INumberSequence | null;
+  try {
+    sequence = await increment();
+  } catch (error: any) {
+    // Two concurrent upserts for a new sequence: the loser retries as a plain update
+    if (error?.code !== 11000) {
+      throw error;
+    }
+    sequence = await increment();
+  }
+
+  const value = sequence!.counters.get(periodKey) || 1;
+  return formatNumber(sequence!, value, date);
+};
+
+// Compute the next number of a series without reserving it
+numberSequenceSchema.statics.preview = async function (
+  userId: Types.ObjectId | string,
+  series: NumberSeries,
+  date: Date = new Date()
+): Promise<string> {
+  const config: any = await (this as INumberSequenceModel).findOrDefault(userId, series);
+  const periodKey = getPeriodKey(config.resetPolicy, date);
+
+  // Lean documents expose Map fields as plain objects
+  const counters = config.counters || {};
+  const current =
+    (counters instanceof Map ? counters.get(periodKey) : counters[periodKey]) ??
+    (await findHighestIssued(userId, series, config, date));
+
+  return formatNumber(config, (current || 0) + 1, date);
+};
+
+// Create and export the NumberSequence model
+export const NumberSequence = mongoose.model<INumberSequence, INumberSequenceModel>(
+  'NumberSequence',
+  numberSequenceSchema
+);
+export default NumberSequence;
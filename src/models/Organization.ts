@@ -0,0 +1,118 @@
+import mongoose, { Schema } from 'mongoose';
+
+import { Membership } from './Membership.js';
+import { OWNER_ROLE } from './Role.js';
+import { User } from './User.js';
+
+import type { Document, Model, Types } from 'mongoose';
+
+// Organization interface extending Mongoose Document. Clients and invoices belong to an
+// organization; its owner's numbering, tax rates and exchange rates apply to them.
+export interface IOrganization extends Document {
+  name: string;
+  ownerId: Types.ObjectId;
+  personal: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model interface with static helpers
+export interface IOrganizationModel extends Model<IOrganization> {
+  findOrCreatePersonal: (userId: Types.ObjectId | string) => Promise<IOrganization>;
+}
+
+// Organization schema definition
+const organizationSchema = new Schema<IOrganization, IOrganizationModel>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Organization name is required'],
+      trim: true,
+      maxlength: [100, 'Organization name cannot exceed 100 characters']
+    },
+
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Owner ID is required']
+    },
+
+    // Created for every user; holds the data that predates organizations
+    personal: {
+      type: Boolean,
+      default: false
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+organizationSchema.index(
+  { ownerId: 1 },
+  { unique: true, partialFilterExpression: { personal: true } }
+);
+
+// Get the personal organization of a user, creating it on first use
+organizationSchema.statics.findOrCreatePersonal = async function (
+  userId: Types.ObjectId | string
+): Promise<IOrganization> {
+  const existing = await this.findOne({ ownerId: userId, personal: true });
+  if (existing) {
+    return existing;
+  }
+
+  const user = await User.findById(userId).select('name email');
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  let organization: IOrganization;
+  try {
+    organization = await this.create({ name: user.name, ownerId: userId, personal: true });
+  } catch (error) {
+    // Created concurrently by another request
+    if ((error as any)?.code === 11000) {
+      return (await this.findOne({ ownerId: userId, personal: true }))!;
+    }
+    throw error;
+  }
+
+  await Membership.updateOne(
+    { organizationId: organization._id, email: user.email },
+    {
+      $set: { userId: user._id, role: OWNER_ROLE, status: 'active', acceptedAt: new Date() }
+    },
+    { upsert: true }
+  );
+
+  // Move data created before organizations existed into the new organization. The
+  // collections are used directly because their models depend on this one.
+  await Promise.all(
+    [
+      'clients',
+      'invoices',
+      'estimates',
+      'creditnotes',
+      'recurringinvoices',
+      'banktransactions'
+    ].map(collection =>
+      this.db
+        .collection(collection)
+        .updateMany(
+          { userId: organization.ownerId, organizationId: { $exists: false } },
+          { $set: { organizationId: organization._id } }
+        )
+    )
+  );
+
+  return organization;
+};
+
+// Create and export the Organization model
+export const Organization = mongoose.model<IOrganization, IOrganizationModel>(
+  'Organization',
+  organizationSchema
+);
+export default Organization;
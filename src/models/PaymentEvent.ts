@@ -0,0 +1,109 @@
+import mongoose, { Schema } from 'mongoose';
+
+import type { Document, Types } from 'mongoose';
+
+// Processing state of a gateway event. `processing` events are only picked up again
+// once their claim has expired, so a crash mid-way does not strand the event.
+export type PaymentEventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+// Payment event interface extending Mongoose Document
+export interface IPaymentEvent extends Document {
+  provider: string;
+  eventId: string;
+  type: string;
+  status: PaymentEventStatus;
+  userId?: Types.ObjectId;
+  invoiceId?: Types.ObjectId;
+  paymentId?: Types.ObjectId;
+  amount?: number;
+  currency?: string;
+  reference?: string;
+  error?: string;
+  attempts: number;
+  claimedAt: Date;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  toJSON: () => any;
+}
+
+// Payment event schema definition
+const paymentEventSchema = new Schema<IPaymentEvent>(
+  {
+    provider: {
+      type: String,
+      required: [true, 'Provider is required']
+    },
+
+    eventId: {
+      type: String,
+      required: [true, 'Event ID is required']
+    },
+
+    type: {
+      type: String,
+      required: [true, 'Event type is required']
+    },
+
+    status: {
+      type: String,
+      enum: {
+        values: ['processing', 'processed', 'ignored', 'failed'],
+        message: 'Status must be one of: processing, processed, ignored, failed'
+      },
+      default: 'processing'
+    },
+
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice'
+    },
+
+    paymentId: Schema.Types.ObjectId,
+    amount: Number,
+    currency: String,
+    reference: String,
+
+    error: {
+      type: String,
+      maxlength: [500, 'Error cannot exceed 500 characters']
+    },
+
+    attempts: {
+      type: Number,
+      default: 1
+    },
+
+    claimedAt: {
+      type: Date,
+      default: Date.now
+    },
+
+    processedAt: Date
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+paymentEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+paymentEventSchema.index({ invoiceId: 1, createdAt: -1 });
+
+// Override toJSON to format output
+paymentEventSchema.methods.toJSON = function () {
+  const paymentEventObject = this.toObject();
+  delete paymentEventObject.__v;
+  return paymentEventObject;
+};
+
+// Create and export the PaymentEvent model
+export const PaymentEvent = mongoose.model<IPaymentEvent>('PaymentEvent', paymentEventSchema);
+export default PaymentEvent;
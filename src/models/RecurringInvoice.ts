@@ -0,0 +1,437 @@
+import mongoose, { Schema } from 'mongoose';
+
+import { fromMinorUnits } from '../utils/money.js';
+import { RECURRENCE_FREQUENCIES, getOccurrence } from '../utils/recurrence.js';
+
+import { invoiceItemSchema, invoiceRoundingSchema, priceDocument } from './Invoice.js';
+import { Organization } from './Organization.js';
+
+import type { IInvoiceItem, IInvoiceRounding } from './Invoice.js';
+import type { RecurrenceRule } from '../utils/recurrence.js';
+import type { Document, Types } from 'mongoose';
+
+// Recurring profile statuses; completed profiles reached their end date or count
+export const RECURRING_INVOICE_STATUSES = ['active', 'paused', 'completed'] as const;
+export type RecurringInvoiceStatus = (typeof RECURRING_INVOICE_STATUSES)[number];
+
+// Number of runs kept in the profile history
+export const RECURRING_RUN_HISTORY_LIMIT = 50;
+
+// Invoice copied on every occurrence; text fields may contain {{period}} placeholders
+export interface IRecurringInvoiceTemplate {
+  items: IInvoiceItem[];
+  currency: string;
+  rounding: IInvoiceRounding;
+  taxRate: number;
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;
+  shippingCost: number;
+  // Days between issue and due date; defaults to the client's payment terms
+  paymentTermsDays?: number;
+  notes?: string;
+  terms?: string;
+  tags: string[];
+  total: number;
+}
+
+// Email settings for generated invoices; no recipients means the client email
+export interface IRecurringAutoSend {
+  enabled: boolean;
+  to: string[];
+  cc: string[];
+  subject?: string;
+  message?: string;
+  sendReminder: boolean;
+}
+
+// Outcome of one generator run for a profile
+export interface IRecurringInvoiceRun {
+  scheduledFor: Date;
+  periodStart: Date;
+  periodEnd: Date;
+  runAt: Date;
+  status: 'success' | 'failed';
+  invoiceId?: Types.ObjectId;
+  invoiceNumber?: string;
+  sent: boolean;
+  error?: string;
+}
+
+// Recurring invoice interface extending Mongoose Document
+export interface IRecurringInvoice extends Document {
+  userId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  clientId: Types.ObjectId;
+  name: string;
+  status: RecurringInvoiceStatus;
+  schedule: RecurrenceRule;
+  startDate: Date;
+  endDate?: Date;
+  maxOccurrences?: number;
+  occurrenceCount: number;
+  occurrenceIndex: number;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  failureCount: number;
+  template: IRecurringInvoiceTemplate;
+  autoSend: IRecurringAutoSend;
+  runs: IRecurringInvoiceRun[];
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  scheduleNextRun: () => void;
+  skipMissedOccurrences: (now?: Date) => void;
+  recordRun: (run: IRecurringInvoiceRun) => void;
+  toJSON: () => any;
+}
+
+// Schedule schema
+const recurrenceRuleSchema = new Schema<RecurrenceRule>(
+  {
+    frequency: {
+      type: String,
+      enum: RECURRENCE_FREQUENCIES,
+      required: [true, 'Frequency is required']
+    },
+    interval: {
+      type: Number,
+      min: [1, 'Interval must be at least 1'],
+      max: [12, 'Interval cannot exceed 12'],
+      default: 1
+    },
+    dayOfWeek: {
+      type: Number,
+      min: [0, 'Day of week must be between 0 (Sunday) and 6'],
+      max: [6, 'Day of week must be between 0 (Sunday) and 6']
+    },
+    dayOfMonth: {
+      type: Number,
+      min: [1, 'Day of month must be between 1 and 31'],
+      max: [31, 'Day of month must be between 1 and 31']
+    }
+  },
+  { _id: false }
+);
+
+// Template invoice schema
+const recurringInvoiceTemplateSchema = new Schema<IRecurringInvoiceTemplate>(
+  {
+    items: {
+      type: [invoiceItemSchema],
+      required: [true, 'At least one item is required'],
+      validate: {
+        validator: function (v: IInvoiceItem[]) {
+          return v.length > 0 && v.length <= 100;
+        },
+        message: 'Template must have between 1 and 100 items'
+      }
+    },
+    currency: {
+      type: String,
+      required: [true, 'Currency is required'],
+      uppercase: true,
+      length: [3, 'Currency must be a 3-letter code'],
+      default: 'USD'
+    },
+    rounding: {
+      type: invoiceRoundingSchema,
+      default: () => ({})
+    },
+    taxRate: {
+      type: Number,
+      min: [0, 'Tax rate cannot be negative'],
+      max: [100, 'Tax rate cannot exceed 100%'],
+      default: 0
+    },
+    discountType: {
+      type: String,
+      enum: ['percentage', 'fixed'],
+      default: 'percentage'
+    },
+    discountValue: {
+      type: Number,
+      min: [0, 'Discount value cannot be negative'],
+      default: 0
+    },
+    shippingCost: {
+      type: Number,
+      min: [0, 'Shipping cost cannot be negative'],
+      default: 0
+    },
+    paymentTermsDays: {
+      type: Number,
+      min: [0, 'Payment terms cannot be negative'],
+      max: [365, 'Payment terms cannot exceed 365 days']
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Notes cannot exceed 1000 characters']
+    },
+    terms: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Terms cannot exceed 1000 characters']
+    },
+    tags: {
+      type: [String],
+      default: []
+    },
+    // Total of one occurrence, for display; written by the save hook only
+    total: {
+      type: Number,
+      default: 0
+    }
+  },
+  { _id: false }
+);
+
+// Auto-send settings schema
+const recurringAutoSendSchema = new Schema<IRecurringAutoSend>(
+  {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    to: {
+      type: [String],
+      default: []
+    },
+    cc: {
+      type: [String],
+      default: []
+    },
+    subject: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Subject cannot exceed 200 characters']
+    },
+    message: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Message cannot exceed 2000 characters']
+    },
+    sendReminder: {
+      type: Boolean,
+      default: false
+    }
+  },
+  { _id: false }
+);
+
+// Run history schema
+const recurringInvoiceRunSchema = new Schema<IRecurringInvoiceRun>(
+  {
+    scheduledFor: {
+      type: Date,
+      required: [true, 'Scheduled date is required']
+    },
+    periodStart: {
+      type: Date,
+      required: [true, 'Period start is required']
+    },
+    periodEnd: {
+      type: Date,
+      required: [true, 'Period end is required']
+    },
+    runAt: {
+      type: Date,
+      required: [true, 'Run date is required'],
+      default: Date.now
+    },
+    status: {
+      type: String,
+      enum: ['success', 'failed'],
+      required: [true, 'Run status is required']
+    },
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice'
+    },
+    invoiceNumber: String,
+    sent: {
+      type: Boolean,
+      default: false
+    },
+    error: String
+  },
+  { _id: false }
+);
+
+// Recurring invoice schema definition
+const recurringInvoiceSchema = new Schema<IRecurringInvoice>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: [true, 'Organization ID is required']
+    },
+
+    clientId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Client',
+      required: [true, 'Client ID is required']
+    },
+
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters']
+    },
+
+    status: {
+      type: String,
+      enum: RECURRING_INVOICE_STATUSES,
+      default: 'active'
+    },
+
+    schedule: {
+      type: recurrenceRuleSchema,
+      required: [true, 'Schedule is required']
+    },
+
+    startDate: {
+      type: Date,
+      required: [true, 'Start date is required']
+    },
+
+    endDate: Date,
+
+    maxOccurrences: {
+      type: Number,
+      min: [1, 'Occurrence count must be at least 1']
+    },
+
+    // Invoices generated so far
+    occurrenceCount: {
+      type: Number,
+      default: 0
+    },
+
+    // Index of the next occurrence; occurrences skipped while paused advance it too
+    occurrenceIndex: {
+      type: Number,
+      default: 0
+    },
+
+    nextRunAt: Date,
+    lastRunAt: Date,
+
+    // Consecutive failed runs; the profile is paused when it reaches the limit
+    failureCount: {
+      type: Number,
+      default: 0
+    },
+
+    template: {
+      type: recurringInvoiceTemplateSchema,
+      required: [true, 'Template is required']
+    },
+
+    autoSend: {
+      type: recurringAutoSendSchema,
+      default: () => ({})
+    },
+
+    runs: {
+      type: [recurringInvoiceRunSchema],
+      default: []
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+recurringInvoiceSchema.index({ userId: 1, status: 1 });
+recurringInvoiceSchema.index({ userId: 1, clientId: 1 });
+recurringInvoiceSchema.index({ organizationId: 1, createdAt: -1 });
+recurringInvoiceSchema.index({ status: 1, nextRunAt: 1 }); // For the generator
+
+// Pre-validate middleware to place profiles created outside an organization in the
+// owner's personal one
+recurringInvoiceSchema.pre('validate', async function (next) {
+  if (!this.organizationId) {
+    this.organizationId = (await Organization.findOrCreatePersonal(this.userId))
+      ._id as Types.ObjectId;
+  }
+  next();
+});
+
+// Pre-save middleware to price the template and schedule the next occurrence
+recurringInvoiceSchema.pre('save', function (next) {
+  const { total } = priceDocument(this.template);
+  this.template.total = fromMinorUnits(total, this.template.currency);
+
+  if (
+    this.isNew ||
+    this.isModified('schedule') ||
+    this.isModified('startDate') ||
+    this.isModified('endDate') ||
+    this.isModified('maxOccurrences') ||
+    this.isModified('occurrenceCount') ||
+    this.isModified('occurrenceIndex')
+  ) {
+    this.scheduleNextRun();
+  }
+
+  next();
+});
+
+// Instance method to set the next occurrence, or complete the profile past its end
+recurringInvoiceSchema.methods.scheduleNextRun = function (): void {
+  const next = getOccurrence(this.schedule, this.startDate, this.occurrenceIndex);
+  const finished =
+    (this.maxOccurrences && this.occurrenceCount >= this.maxOccurrences) ||
+    (this.endDate && next > this.endDate);
+
+  if (finished) {
+    this.status = 'completed';
+    this.nextRunAt = undefined;
+  } else {
+    if (this.status === 'completed') {
+      this.status = 'active';
+    }
+    this.nextRunAt = next;
+  }
+};
+
+// Instance method to move past occurrences that fell before today, e.g. when resuming
+recurringInvoiceSchema.methods.skipMissedOccurrences = function (now: Date = new Date()): void {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  while (getOccurrence(this.schedule, this.startDate, this.occurrenceIndex).getTime() < today) {
+    this.occurrenceIndex += 1;
+  }
+};
+
+// Instance method to append a run, keeping only the most recent history
+recurringInvoiceSchema.methods.recordRun = function (run: IRecurringInvoiceRun): void {
+  this.runs.push(run);
+  if (this.runs.length > RECURRING_RUN_HISTORY_LIMIT) {
+    this.runs.splice(0, this.runs.length - RECURRING_RUN_HISTORY_LIMIT);
+  }
+  this.lastRunAt = run.runAt;
+};
+
+// Override toJSON to format output
+recurringInvoiceSchema.methods.toJSON = function () {
+  const recurringInvoiceObject = this.toObject();
+  delete recurringInvoiceObject.__v;
+  return recurringInvoiceObject;
+};
+
+// Create and export the RecurringInvoice model
+export const RecurringInvoice = mongoose.model<IRecurringInvoice>(
+  'RecurringInvoice',
+  recurringInvoiceSchema
+);
+export default RecurringInvoice;
@@ -0,0 +1,150 @@
+import mongoose, { Schema } from 'mongoose';
+
+import type { Document, Types } from 'mongoose';
+
+// Permissions that can be granted to an organization role
+export const PERMISSIONS = [
+  'clients:read',
+  'clients:write',
+  'clients:delete',
+  'invoices:read',
+  'invoices:write',
+  'invoices:delete',
+  'invoices:send',
+  'invoices:share',
+  'payments:write',
+  'reports:view',
+  'members:manage',
+  'roles:manage',
+  'webhooks:manage'
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Role every organization owner has; it always holds every permission
+export const OWNER_ROLE = 'owner';
+
+// Built-in role definition
+export interface RoleDefinition {
+  name: string;
+  description: string;
+  permissions: Permission[];
+}
+
+// Roles every organization starts with. Apart from the owner they can be edited per
+// organization, which stores the edited copy as a Role document.
+export const DEFAULT_ROLES: Record<string, RoleDefinition> = {
+  [OWNER_ROLE]: {
+    name: 'Owner',
+    description: 'Full access, including members and roles',
+    permissions: [...PERMISSIONS]
+  },
+  admin: {
+    name: 'Admin',
+    description: 'Full access, including members and roles',
+    permissions: [...PERMISSIONS]
+  },
+  accountant: {
+    name: 'Accountant',
+    description: 'Works with clients, invoices and payments but cannot delete them',
+    permissions: [
+      'clients:read',
+      'clients:write',
+      'invoices:read',
+      'invoices:write',
+      'invoices:send',
+      'invoices:share',
+      'payments:write',
+      'reports:view'
+    ]
+  },
+  viewer: {
+    name: 'Viewer',
+    description: 'Read-only access to clients, invoices and reports',
+    permissions: ['clients:read', 'invoices:read', 'reports:view']
+  }
+};
+
+// Whether a key names one of the built-in roles
+export const isBuiltInRole = (key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(DEFAULT_ROLES, key);
+
+// Role interface extending Mongoose Document. Holds custom roles and edited built-in roles
+// of an organization; members refer to roles by key.
+export interface IRole extends Document {
+  organizationId: Types.ObjectId;
+  key: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  createdBy?: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  toJSON: () => any;
+}
+
+// Role schema definition
+const roleSchema = new Schema<IRole>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: [true, 'Organization ID is required']
+    },
+
+    key: {
+      type: String,
+      required: [true, 'Role key is required'],
+      lowercase: true,
+      trim: true,
+      maxlength: [50, 'Role key cannot exceed 50 characters']
+    },
+
+    name: {
+      type: String,
+      required: [true, 'Role name is required'],
+      trim: true,
+      maxlength: [50, 'Role name cannot exceed 50 characters']
+    },
+
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters']
+    },
+
+    permissions: {
+      type: [{ type: String, enum: PERMISSIONS }],
+      default: []
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+roleSchema.index({ organizationId: 1, key: 1 }, { unique: true });
+
+// Override toJSON to format output
+roleSchema.methods.toJSON = function () {
+  const roleObject = this.toObject();
+  delete roleObject.__v;
+  return roleObject;
+};
+
+// Create and export the Role model
+export const Role = mongoose.model<IRole>('Role', roleSchema);
+export default Role;
@@ -0,0 +1,129 @@
+import mongoose, { Schema } from 'mongoose';
+
+import type { Document, Types } from 'mongoose';
+
+// Number of opens kept on a share link
+export const SHARE_LINK_VIEW_LIMIT = 50;
+
+// One open of a share link
+export interface IShareLinkView {
+  ip?: string;
+  userAgent?: string;
+  viewedAt: Date;
+}
+
+// Share link interface extending Mongoose Document. The token itself is never stored;
+// it is signed and names the link through `tokenId`.
+export interface IShareLink extends Document {
+  userId: Types.ObjectId;
+  invoiceId: Types.ObjectId;
+  tokenId: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedBy?: Types.ObjectId;
+  viewCount: number;
+  firstViewedAt?: Date;
+  lastViewedAt?: Date;
+  views: IShareLinkView[];
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  isActive: () => boolean;
+  toJSON: () => any;
+}
+
+// Share link view schema
+const shareLinkViewSchema = new Schema<IShareLinkView>(
+  {
+    ip: String,
+    userAgent: {
+      type: String,
+      maxlength: [500, 'User agent cannot exceed 500 characters']
+    },
+    viewedAt: {
+      type: Date,
+      required: [true, 'View date is required'],
+      default: Date.now
+    }
+  },
+  { _id: false }
+);
+
+// Share link schema definition
+const shareLinkSchema = new Schema<IShareLink>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice',
+      required: [true, 'Invoice ID is required']
+    },
+
+    tokenId: {
+      type: String,
+      required: [true, 'Token ID is required'],
+      unique: true
+    },
+
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry date is required']
+    },
+
+    revokedAt: Date,
+
+    revokedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+
+    viewCount: {
+      type: Number,
+      default: 0
+    },
+
+    firstViewedAt: Date,
+    lastViewedAt: Date,
+
+    views: {
+      type: [shareLinkViewSchema],
+      default: []
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator is required']
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+shareLinkSchema.index({ userId: 1, invoiceId: 1, expiresAt: -1 });
+
+// Instance method to check whether the link can still be opened
+shareLinkSchema.methods.isActive = function (): boolean {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+// Override toJSON to format output
+shareLinkSchema.methods.toJSON = function () {
+  const shareLinkObject = this.toObject();
+  delete shareLinkObject.__v;
+  delete shareLinkObject.tokenId;
+  return shareLinkObject;
+};
+
+// Create and export the ShareLink model
+export const ShareLink = mongoose.model<IShareLink>('ShareLink', shareLinkSchema);
+export default ShareLink;
@@ -0,0 +1,90 @@
+import mongoose, { Schema } from 'mongoose';
+
+import type { Document, Types } from 'mongoose';
+
+// Tax rate interface extending Mongoose Document
+export interface ITaxRate extends Document {
+  userId: Types.ObjectId;
+  name: string;
+  rate: number;
+  jurisdiction?: string;
+  description?: string;
+  // Charged on the line amount plus the non-compound taxes of the line
+  compound: boolean;
+  // Line prices already include this tax
+  inclusive: boolean;
+  isArchived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Tax rate schema definition
+const taxRateSchema = new Schema<ITaxRate>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+
+    name: {
+      type: String,
+      required: [true, 'Tax rate name is required'],
+      trim: true,
+      maxlength: [50, 'Tax rate name cannot exceed 50 characters']
+    },
+
+    rate: {
+      type: Number,
+      required: [true, 'Rate is required'],
+      min: [0, 'Rate cannot be negative'],
+      max: [100, 'Rate cannot exceed 100%']
+    },
+
+    jurisdiction: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Jurisdiction cannot exceed 100 characters']
+    },
+
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters']
+    },
+
+    compound: {
+      type: Boolean,
+      default: false
+    },
+
+    inclusive: {
+      type: Boolean,
+      default: false
+    },
+
+    // Archived rates stay on existing invoices but cannot be used on new lines
+    isArchived: {
+      type: Boolean,
+      default: false
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+taxRateSchema.index({ userId: 1, name: 1 }, { unique: true });
+taxRateSchema.index({ userId: 1, isArchived: 1 });
+
+// Override toJSON to format output
+taxRateSchema.methods.toJSON = function () {
+  const taxRateObject = this.toObject();
+  delete taxRateObject.__v;
+  return taxRateObject;
+};
+
+// Create and export the TaxRate model
+export const TaxRate = mongoose.model<ITaxRate>('TaxRate', taxRateSchema);
+export default TaxRate;
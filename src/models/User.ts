@@ -1,10 +1,33 @@
 import bcrypt from 'bcryptjs';
 import mongoose, { Schema } from 'mongoose';
 
-import type { Document } from 'mongoose';
+import type { Document, Types } from 'mongoose';
+
+// Browser or client the user has signed in from
+export interface IKnownDevice {
+  fingerprint: string;
+  device: string;
+  lastSeenAt: Date;
+}
+
+// One-time recovery code, stored hashed
+export interface IRecoveryCode {
+  hash: string;
+  usedAt?: Date;
+}
+
+// TOTP two-factor authentication settings
+export interface ITwoFactor {
+  enabled: boolean;
+  enabledAt?: Date;
+  secret?: string;
+  pendingSecret?: string;
+  lastUsedStep?: number;
+  recoveryCodes: IRecoveryCode[];
+}
 
 // User interface extending Mongoose Document
-export interface IUser extends Document {
+export interface IUser extends Document<Types.ObjectId> {
   name: string;
   email: string;
   password: string;
@@ -18,6 +41,14 @@ export interface IUser extends Document {
   passwordResetToken?: string;
   passwordResetExpires?: Date;
   lastLoginAt?: Date;
+  failedLoginAttempts: number;
+  lastFailedLoginAt?: Date;
+  lockedUntil?: Date;
+  unlockToken?: string;
+  unlockTokenExpires?: Date;
+  knownDevices: IKnownDevice[];
+  twoFactor: ITwoFactor;
+  activeOrganizationId?: Types.ObjectId;
   isActive: boolean;
   avatar?: string;
   preferences: {
@@ -105,6 +136,72 @@ const userSchema = new Schema<IUser>(
       type: Date
     },
 
+    // Failed password or two-factor attempts since the last successful login
+    failedLoginAttempts: {
+      type: Number,
+      default: 0
+    },
+
+    lastFailedLoginAt: {
+      type: Date
+    },
+
+    lockedUntil: {
+      type: Date
+    },
+
+    unlockToken: {
+      type: String,
+      select: false
+    },
+
+    unlockTokenExpires: {
+      type: Date,
+      select: false
+    },
+
+    // Devices seen at login; a login from any other device triggers a security alert
+    knownDevices: {
+      type: [
+        {
+          _id: false,
+          fingerprint: { type: String, required: true },
+          device: { type: String, required: true },
+          lastSeenAt: { type: Date, required: true }
+        }
+      ],
+      default: [],
+      select: false
+    },
+
+    // Organization new sessions start in; the personal organization when unset
+    activeOrganizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization'
+    },
+
+    // Secrets are encrypted, recovery codes hashed; only the enabled flag is selected by default
+    twoFactor: {
+      enabled: { type: Boolean, default: false },
+      enabledAt: { type: Date },
+      secret: { type: String, select: false },
+      // Set during enrolment until the first code is confirmed
+      pendingSecret: { type: String, select: false },
+      // Time step of the last accepted code, so that a code cannot be replayed
+      lastUsedStep: { type: Number, select: false },
+      recoveryCodes: {
+        type: [
+          {
+            _id: false,
+            hash: { type: String, required: true },
+            usedAt: { type: Date }
+          }
+        ],
+        default: [],
+        select: false
+      }
+    },
+
     isActive: {
       type: Boolean,
       default: true
@@ -153,6 +250,8 @@ userSchema.index({ isActive: 1 });
 userSchema.index({ createdAt: -1 });
 userSchema.index({ emailVerificationToken: 1 });
 userSchema.index({ passwordResetToken: 1 });
+userSchema.index({ unlockToken: 1 });
+userSchema.index({ lockedUntil: 1 });
 
 // Hash password before saving
 userSchema.pre('save', async function (next) {
@@ -216,6 +315,8 @@ userSchema.methods.toJSON = function () {
   delete userObject.passwordResetToken;
   delete userObject.passwordResetExpires;
   delete userObject.emailVerificationToken;
+  delete userObject.unlockToken;
+  delete userObject.unlockTokenExpires;
   delete userObject.__v;
 
   return userObject;
@@ -0,0 +1,131 @@
+import mongoose, { Schema } from 'mongoose';
+
+import type { Document, Types } from 'mongoose';
+
+// Events a webhook can subscribe to
+export const WEBHOOK_EVENTS = [
+  'invoice.created',
+  'invoice.sent',
+  'invoice.viewed',
+  'invoice.overdue',
+  'invoice.paid',
+  'payment.recorded',
+  'client.created',
+  'client.updated'
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Webhook interface extending Mongoose Document. The secret signs every delivery; it is
+// kept in clear because it is needed to sign, and only returned when it is created.
+export interface IWebhook extends Document {
+  userId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  secret: string;
+  active: boolean;
+  // Deliveries in a row that failed every attempt; reset by any successful attempt
+  consecutiveFailures: number;
+  disabledAt?: Date;
+  disabledReason?: string;
+  lastDeliveryAt?: Date;
+  lastSuccessAt?: Date;
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  toJSON: () => any;
+}
+
+// Webhook schema definition
+const webhookSchema = new Schema<IWebhook>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: [true, 'Organization ID is required']
+    },
+
+    url: {
+      type: String,
+      required: [true, 'Webhook URL is required'],
+      trim: true,
+      maxlength: [2048, 'Webhook URL cannot exceed 2048 characters']
+    },
+
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters']
+    },
+
+    events: {
+      type: [{ type: String, enum: WEBHOOK_EVENTS }],
+      validate: {
+        validator: (events: string[]) => events.length > 0,
+        message: 'At least one event is required'
+      }
+    },
+
+    secret: {
+      type: String,
+      required: [true, 'Webhook secret is required'],
+      select: false
+    },
+
+    active: {
+      type: Boolean,
+      default: true
+    },
+
+    consecutiveFailures: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+
+    disabledAt: Date,
+    disabledReason: String,
+    lastDeliveryAt: Date,
+    lastSuccessAt: Date,
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Created by is required']
+    },
+
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+webhookSchema.index({ organizationId: 1, active: 1, events: 1 });
+webhookSchema.index({ organizationId: 1, createdAt: -1 });
+
+// Override toJSON to exclude the secret
+webhookSchema.methods.toJSON = function () {
+  const webhookObject = this.toObject();
+  delete webhookObject.__v;
+  delete webhookObject.secret;
+  return webhookObject;
+};
+
+// Create and export the Webhook model
+export const Webhook = mongoose.model<IWebhook>('Webhook', webhookSchema);
+export default Webhook;
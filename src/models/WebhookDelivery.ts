@@ -0,0 +1,151 @@
+import mongoose, { Schema } from 'mongoose';
+
+import { WEBHOOK_EVENTS } from './Webhook.js';
+
+import type { WebhookEvent } from './Webhook.js';
+import type { Document, Types } from 'mongoose';
+
+// Delivery statuses
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+// Deliveries are kept this long, then removed by a TTL index
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
+
+// Single attempt at sending a delivery
+export interface IWebhookAttempt {
+  attemptedAt: Date;
+  responseStatus?: number;
+  // Start of the response body, to help receivers debug failures
+  responseBody?: string;
+  error?: string;
+  durationMs: number;
+}
+
+// Webhook delivery interface extending Mongoose Document. The payload is stored so the
+// same event can be sent again; redeliveries keep the event id of the original.
+export interface IWebhookDelivery extends Document {
+  webhookId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  event: WebhookEvent;
+  eventId: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: IWebhookAttempt[];
+  attemptCount: number;
+  nextAttemptAt?: Date;
+  responseStatus?: number;
+  completedAt?: Date;
+  redeliveryOf?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  toJSON: () => any;
+}
+
+// Attempt schema
+const webhookAttemptSchema = new Schema<IWebhookAttempt>(
+  {
+    attemptedAt: {
+      type: Date,
+      required: true
+    },
+    responseStatus: Number,
+    responseBody: String,
+    error: String,
+    durationMs: {
+      type: Number,
+      required: true
+    }
+  },
+  { _id: false }
+);
+
+// Webhook delivery schema definition
+const webhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    webhookId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Webhook',
+      required: [true, 'Webhook ID is required']
+    },
+
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: [true, 'Organization ID is required']
+    },
+
+    event: {
+      type: String,
+      enum: WEBHOOK_EVENTS,
+      required: [true, 'Event is required']
+    },
+
+    eventId: {
+      type: String,
+      required: [true, 'Event ID is required']
+    },
+
+    payload: {
+      type: Schema.Types.Mixed,
+      required: [true, 'Payload is required']
+    },
+
+    status: {
+      type: String,
+      enum: WEBHOOK_DELIVERY_STATUSES,
+      default: 'pending'
+    },
+
+    attempts: {
+      type: [webhookAttemptSchema],
+      default: []
+    },
+
+    attemptCount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+
+    // When the next attempt is due; unset once the delivery succeeded or failed
+    nextAttemptAt: Date,
+
+    // Status code of the latest response
+    responseStatus: Number,
+
+    completedAt: Date,
+
+    redeliveryOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'WebhookDelivery'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+webhookDeliverySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: WEBHOOK_DELIVERY_RETENTION_DAYS * 24 * 60 * 60 }
+);
+
+// Override toJSON to format output
+webhookDeliverySchema.methods.toJSON = function () {
+  const deliveryObject = this.toObject();
+  delete deliveryObject.__v;
+  return deliveryObject;
+};
+
+// Create and export the WebhookDelivery model
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>(
+  'WebhookDelivery',
+  webhookDeliverySchema
+);
+export default WebhookDelivery;
@@ -1,14 +1,25 @@
+import { randomUUID } from 'crypto';
+
 import mongoose, { Schema } from 'mongoose';
 
 import type { Document } from 'mongoose';
-// import crypto from 'crypto';
+
+// Why a refresh token stopped being usable
+export type RefreshTokenRevokedReason = 'logout' | 'reuse' | 'password_change' | 'session_revoked';
 
 export interface IRefreshToken extends Document {
   user: mongoose.Types.ObjectId;
   token: string;
+  family: string;
   ip: string;
   userAgent: string;
   expiresAt: Date;
+  sessionStartedAt: Date;
+  organizationId?: mongoose.Types.ObjectId;
+  usedAt?: Date;
+  replacedBy?: mongoose.Types.ObjectId;
+  revokedAt?: Date;
+  revokedReason?: RefreshTokenRevokedReason;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -17,15 +28,34 @@ const refreshTokenSchema = new Schema<IRefreshToken>(
   {
     user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
     token: { type: String, required: true }, // store hashed token
+    // Shared by every token rotated from the same login
+    family: { type: String, required: true, default: () => randomUUID() },
     ip: { type: String },
     userAgent: { type: String },
-    expiresAt: { type: Date, required: true }
+    expiresAt: { type: Date, required: true },
+    // Login time of the session, carried over on rotation
+    sessionStartedAt: { type: Date, required: true, default: Date.now },
+    // Organization the session works in, carried over on rotation
+    organizationId: { type: Schema.Types.ObjectId, ref: 'Organization' },
+    // Set when the token is exchanged; a second exchange is a reuse
+    usedAt: { type: Date },
+    replacedBy: { type: Schema.Types.ObjectId, ref: 'RefreshToken' },
+    revokedAt: { type: Date },
+    revokedReason: {
+      type: String,
+      enum: ['logout', 'reuse', 'password_change', 'session_revoked']
+    }
   },
   { timestamps: true }
 );
 
 // Optional: Index for quick token lookup
 refreshTokenSchema.index({ token: 1 });
+refreshTokenSchema.index({ family: 1 });
+refreshTokenSchema.index({ user: 1, expiresAt: -1 });
+
+// Remove tokens once they expire
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 
 export const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
 export default RefreshToken;
@@ -0,0 +1,141 @@
+import { Router } from 'express';
+
+import { moderateRateLimit, lenientRateLimit } from '../config/rateLimit.js';
+import accountLocksController from '../controllers/accountLocks.controller.js';
+import adminUsersController from '../controllers/adminUsers.controller.js';
+import { authMiddleware, requireRole } from '../middlewares/auth.js';
+import { validate, commonSchemas } from '../middlewares/validate.js';
+import {
+  accountLockQuerySchema,
+  adminUserQuerySchema,
+  updateUserRoleSchema,
+  auditLogQuerySchema
+} from '../validators/admin.schema.js';
+
+const router = Router();
+
+// All admin routes require an authenticated admin
+router.use(authMiddleware, requireRole(['admin']));
+
+/**
+ * GET /api/v1/admin/account-locks
+ * List locked accounts, or accounts with recent failed logins
+ */
+router.get(
+  '/account-locks',
+  lenientRateLimit,
+  validate({ query: accountLockQuerySchema }),
+  accountLocksController.getAccountLocks
+);
+
+/**
+ * DELETE /api/v1/admin/account-locks/:id
+ * Clear the lock and failed login attempts of a user
+ */
+router.delete(
+  '/account-locks/:id',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  accountLocksController.clearAccountLock
+);
+
+/**
+ * GET /api/v1/admin/users
+ * Search and filter users, with usage counts
+ */
+router.get(
+  '/users',
+  lenientRateLimit,
+  validate({ query: adminUserQuerySchema }),
+  adminUsersController.getUsers
+);
+
+/**
+ * GET /api/v1/admin/users/:id
+ * Get a user with usage counts
+ */
+router.get(
+  '/users/:id',
+  lenientRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  adminUsersController.getUserById
+);
+
+/**
+ * PATCH /api/v1/admin/users/:id/role
+ * Make a user an admin or a regular user
+ */
+router.patch(
+  '/users/:id/role',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam, body: updateUserRoleSchema }),
+  adminUsersController.updateUserRole
+);
+
+/**
+ * POST /api/v1/admin/users/:id/logout
+ * Sign a user out of every device
+ */
+router.post(
+  '/users/:id/logout',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  adminUsersController.logoutUser
+);
+
+/**
+ * POST /api/v1/admin/users/:id/deactivate
+ * Deactivate an account and sign it out
+ */
+router.post(
+  '/users/:id/deactivate',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  adminUsersController.deactivateUser
+);
+
+/**
+ * POST /api/v1/admin/users/:id/reactivate
+ * Reactivate a deactivated account
+ */
+router.post(
+  '/users/:id/reactivate',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  adminUsersController.reactivateUser
+);
+
+/**
+ * POST /api/v1/admin/users/:id/verify-email
+ * Mark the email address of a user as verified
+ */
+router.post(
+  '/users/:id/verify-email',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  adminUsersController.verifyUserEmail
+);
+
+/**
+ * DELETE /api/v1/admin/users/:id
+ * Delete an account
+ */
+router.delete(
+  '/users/:id',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  adminUsersController.deleteUser
+);
+
+/**
+ * GET /api/v1/admin/audit-logs
+ * List admin actions, newest first
+ */
+router.get(
+  '/audit-logs',
+  lenientRateLimit,
+  validate({ query: auditLogQuerySchema }),
+  adminUsersController.getAuditLogs
+);
+
+export default router;
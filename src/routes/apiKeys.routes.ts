@@ -0,0 +1,42 @@
+import { Router } from 'express';
+
+import { moderateRateLimit, lenientRateLimit } from '../config/rateLimit.js';
+import apiKeysController from '../controllers/apiKeys.controller.js';
+import { authMiddleware } from '../middlewares/auth.js';
+import { validate, commonSchemas } from '../middlewares/validate.js';
+import { createApiKeySchema } from '../validators/apiKey.schema.js';
+
+const router = Router();
+
+// All API key routes require a signed-in user; keys cannot manage other keys
+router.use(authMiddleware);
+
+/**
+ * GET /api/v1/api-keys
+ * List the user's API keys that have not been revoked
+ */
+router.get('/', lenientRateLimit, apiKeysController.getApiKeys);
+
+/**
+ * POST /api/v1/api-keys
+ * Create an API key; the key is only shown in this response
+ */
+router.post(
+  '/',
+  moderateRateLimit,
+  validate({ body: createApiKeySchema }),
+  apiKeysController.createApiKey
+);
+
+/**
+ * DELETE /api/v1/api-keys/:id
+ * Revoke an API key
+ */
+router.delete(
+  '/:id',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  apiKeysController.revokeApiKey
+);
+
+export default router;
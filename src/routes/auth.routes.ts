@@ -1,8 +1,10 @@
 import { Router } from 'express';
 
-import { authRateLimit, moderateRateLimit } from '../config/rateLimit.js';
+import { authRateLimit, lenientRateLimit, moderateRateLimit } from '../config/rateLimit.js';
 import authController from '../controllers/auth.controller.js';
+import twoFactorController from '../controllers/twoFactor.controller.js';
 import { authMiddleware } from '../middlewares/auth.js';
+import { requireTwoFactor } from '../middlewares/twoFactor.js';
 import { validate } from '../middlewares/validate.js';
 import {
   registerSchema,
@@ -10,7 +12,13 @@ import {
   changePasswordSchema,
   updateProfileSchema,
   forgotPasswordSchema,
-  resetPasswordSchema
+  resetPasswordSchema,
+  refreshTokenSchema,
+  sessionParamsSchema,
+  twoFactorLoginSchema,
+  twoFactorCodeSchema,
+  disableTwoFactorSchema,
+  twoFactorConfirmationSchema
 } from '../validators/auth.schema.js';
 
 const router = Router();
@@ -32,6 +40,28 @@ router.post(
  */
 router.post('/login', authRateLimit, validate({ body: loginSchema }), authController.login);
 
+/**
+ * POST /api/v1/auth/login/2fa
+ * Complete a login with a two-factor challenge and a TOTP or recovery code
+ */
+router.post(
+  '/login/2fa',
+  authRateLimit,
+  validate({ body: twoFactorLoginSchema }),
+  authController.loginTwoFactor
+);
+
+/**
+ * POST /api/v1/auth/refresh
+ * Exchange a refresh token for a new access token and refresh token
+ */
+router.post(
+  '/refresh',
+  authRateLimit,
+  validate({ body: refreshTokenSchema }),
+  authController.refreshToken
+);
+
 /**
  * POST /api/v1/auth/forgot-password
  * Request password reset
@@ -81,12 +111,37 @@ router.post(
   authMiddleware,
   authRateLimit,
   validate({ body: changePasswordSchema }),
+  requireTwoFactor,
   authController.changePassword
 );
 
 router.get('/verify-email/:token', authController.verifyEmail);
 router.post('/resend-verification', authController.resendVerificationEmail);
 
+/**
+ * GET /api/v1/auth/unlock/:token
+ * Unlock an account from the link in the lock email
+ */
+router.get('/unlock/:token', authRateLimit, authController.unlockAccount);
+
+
+/**
+ * GET /api/v1/auth/sessions
+ * List active sessions, flagging the current one
+ */
+router.get('/sessions', authMiddleware, lenientRateLimit, authController.getSessions);
+
+/**
+ * DELETE /api/v1/auth/sessions/:id
+ * Sign out a single session
+ */
+router.delete(
+  '/sessions/:id',
+  authMiddleware,
+  moderateRateLimit,
+  validate({ params: sessionParamsSchema }),
+  authController.revokeSession
+);
 
 /**
  * POST /api/v1/auth/logout
@@ -98,7 +153,56 @@ router.post('/logout', authMiddleware, authController.logout);
  * DELETE /api/v1/auth/account
  * Deactivate user account
  */
-router.delete('/account', authMiddleware, authRateLimit, authController.deactivateAccount);
+router.delete(
+  '/account',
+  authMiddleware,
+  authRateLimit,
+  validate({ body: twoFactorConfirmationSchema }),
+  requireTwoFactor,
+  authController.deactivateAccount
+);
+
+/**
+ * POST /api/v1/auth/2fa/setup
+ * Start two-factor enrolment with a new TOTP secret
+ */
+router.post('/2fa/setup', authMiddleware, moderateRateLimit, twoFactorController.setup);
+
+/**
+ * POST /api/v1/auth/2fa/enable
+ * Confirm enrolment with a code and receive recovery codes
+ */
+router.post(
+  '/2fa/enable',
+  authMiddleware,
+  authRateLimit,
+  validate({ body: twoFactorCodeSchema }),
+  twoFactorController.enable
+);
+
+/**
+ * POST /api/v1/auth/2fa/disable
+ * Turn off two-factor authentication
+ */
+router.post(
+  '/2fa/disable',
+  authMiddleware,
+  authRateLimit,
+  validate({ body: disableTwoFactorSchema }),
+  twoFactorController.disable
+);
+
+/**
+ * POST /api/v1/auth/2fa/recovery-codes
+ * Replace the recovery codes
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authMiddleware,
+  authRateLimit,
+  validate({ body: twoFactorCodeSchema }),
+  twoFactorController.regenerateRecoveryCodes
+);
 
 /**
  * GET /api/v1/auth/stats
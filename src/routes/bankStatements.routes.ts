@@ -0,0 +1,98 @@
+import { Router } from 'express';
+
+import { moderateRateLimit, lenientRateLimit } from '../config/rateLimit.js';
+import bankStatementsController from '../controllers/bankStatements.controller.js';
+import { authMiddleware } from '../middlewares/auth.js';
+import { loadOrganization, requirePermission } from '../middlewares/organization.js';
+import { validate, commonSchemas } from '../middlewares/validate.js';
+import {
+  importBankStatementSchema,
+  bankTransactionQuerySchema,
+  confirmBankMatchSchema,
+  ignoreBankTransactionSchema
+} from '../validators/bankStatement.schema.js';
+
+const router = Router();
+
+// Bank statements belong to the active organization; each route checks the member's permissions
+router.use(authMiddleware, loadOrganization);
+
+/**
+ * POST /api/v1/bank-statements/import
+ * Import a CSV, OFX or CAMT.053 statement and suggest invoice matches
+ */
+router.post(
+  '/import',
+  moderateRateLimit,
+  requirePermission('payments:write'),
+  validate({ body: importBankStatementSchema }),
+  bankStatementsController.importStatement
+);
+
+/**
+ * GET /api/v1/bank-statements/transactions
+ * List imported transactions
+ */
+router.get(
+  '/transactions',
+  lenientRateLimit,
+  requirePermission('invoices:read'),
+  validate({ query: bankTransactionQuerySchema }),
+  bankStatementsController.getTransactions
+);
+
+/**
+ * GET /api/v1/bank-statements/transactions/:id
+ * Get a transaction with its match suggestions and audit trail
+ */
+router.get(
+  '/transactions/:id',
+  lenientRateLimit,
+  requirePermission('invoices:read'),
+  validate({ params: commonSchemas.objectIdParam }),
+  bankStatementsController.getTransaction
+);
+
+/**
+ * POST /api/v1/bank-statements/transactions/:id/confirm
+ * Confirm a match and record the payment on the invoice
+ */
+router.post(
+  '/transactions/:id/confirm',
+  moderateRateLimit,
+  requirePermission('payments:write'),
+  validate({
+    params: commonSchemas.objectIdParam,
+    body: confirmBankMatchSchema
+  }),
+  bankStatementsController.confirmMatch
+);
+
+/**
+ * POST /api/v1/bank-statements/transactions/:id/ignore
+ * Mark a transaction as not being an invoice payment
+ */
+router.post(
+  '/transactions/:id/ignore',
+  moderateRateLimit,
+  requirePermission('payments:write'),
+  validate({
+    params: commonSchemas.objectIdParam,
+    body: ignoreBankTransactionSchema
+  }),
+  bankStatementsController.ignoreTransaction
+);
+
+/**
+ * POST /api/v1/bank-statements/transactions/:id/reopen
+ * Reopen an ignored transaction
+ */
+router.post(
+  '/transactions/:id/reopen',
+  moderateRateLimit,
+  requirePermission('payments:write'),
+  validate({ params: commonSchemas.objectIdParam }),
+  bankStatementsController.reopenTransaction
+);
+
+export default router;
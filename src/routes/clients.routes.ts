@@ -3,6 +3,7 @@ import { Router } from 'express';
 import { moderateRateLimit, lenientRateLimit } from '../config/rateLimit.js';
 import clientsController from '../controllers/clients.controller.js';
 import { authMiddleware } from '../middlewares/auth.js';
+import { loadOrganization, requirePermission } from '../middlewares/organization.js';
 import { validate, commonSchemas } from '../middlewares/validate.js';
 import {
   createClientSchema,
@@ -12,19 +13,30 @@ import {
 
 const router = Router();
 
-router.use(authMiddleware);
+// Work in the active organization; each route checks the member's permissions
+router.use(authMiddleware, loadOrganization);
 
 /**
  * GET /api/v1/clients/search
  * Search clients by text (must be before /:id route)
  */
-router.get('/search', lenientRateLimit, clientsController.searchClients);
+router.get(
+  '/search',
+  lenientRateLimit,
+  requirePermission('clients:read'),
+  clientsController.searchClients
+);
 
 /**
  * GET /api/v1/clients/stats
  * Get client statistics (must be before /:id route)
  */
-router.get('/stats', lenientRateLimit, clientsController.getClientStats);
+router.get(
+  '/stats',
+  lenientRateLimit,
+  requirePermission('reports:view'),
+  clientsController.getClientStats
+);
 
 /**
  * POST /api/v1/clients
@@ -33,6 +45,7 @@ router.get('/stats', lenientRateLimit, clientsController.getClientStats);
 router.post(
   '/',
   moderateRateLimit,
+  requirePermission('clients:write'),
   validate({ body: createClientSchema }),
   clientsController.createClient
 );
@@ -44,6 +57,7 @@ router.post(
 router.get(
   '/',
   lenientRateLimit,
+  requirePermission('clients:read'),
   validate({ query: clientQuerySchema }),
   clientsController.getClients
 );
@@ -55,6 +69,7 @@ router.get(
 router.get(
   '/:id',
   lenientRateLimit,
+  requirePermission('clients:read'),
   validate({ params: commonSchemas.objectIdParam }),
   clientsController.getClientById
 );
@@ -66,6 +81,7 @@ router.get(
 router.patch(
   '/:id',
   moderateRateLimit,
+  requirePermission('clients:write'),
   validate({
     params: commonSchemas.objectIdParam,
     body: updateClientSchema
@@ -80,6 +96,7 @@ router.patch(
 router.delete(
   '/:id',
   moderateRateLimit,
+  requirePermission('clients:delete'),
   validate({ params: commonSchemas.objectIdParam }),
   clientsController.deleteClient
 );
@@ -91,6 +108,7 @@ router.delete(
 router.get(
   '/:id/stats',
   lenientRateLimit,
+  requirePermission('reports:view'),
   validate({ params: commonSchemas.objectIdParam }),
   clientsController.getClientStatsByid
 );
@@ -102,6 +120,7 @@ router.get(
 router.post(
   '/:id/update-financials',
   moderateRateLimit,
+  requirePermission('clients:write'),
   validate({ params: commonSchemas.objectIdParam }),
   clientsController.updateClientFinancials
 );
@@ -0,0 +1,86 @@
+import { Router } from 'express';
+
+import { moderateRateLimit, lenientRateLimit } from '../config/rateLimit.js';
+import creditNotesController from '../controllers/creditNotes.controller.js';
+import { authMiddleware } from '../middlewares/auth.js';
+import { loadOrganization, requirePermission } from '../middlewares/organization.js';
+import { validate, commonSchemas } from '../middlewares/validate.js';
+import {
+  createCreditNoteSchema,
+  voidCreditNoteSchema,
+  creditNoteQuerySchema,
+  creditNotePdfQuerySchema
+} from '../validators/creditNote.schema.js';
+
+const router = Router();
+
+// Credit notes belong to the active organization; each route checks the member's permissions
+router.use(authMiddleware, loadOrganization);
+
+/**
+ * GET /api/v1/credit-notes
+ * List credit notes, optionally for one invoice or client
+ */
+router.get(
+  '/',
+  lenientRateLimit,
+  requirePermission('invoices:read'),
+  validate({ query: creditNoteQuerySchema }),
+  creditNotesController.getCreditNotes
+);
+
+/**
+ * POST /api/v1/credit-notes
+ * Issue a credit note against an invoice
+ */
+router.post(
+  '/',
+  moderateRateLimit,
+  requirePermission('invoices:write'),
+  validate({ body: createCreditNoteSchema }),
+  creditNotesController.createCreditNote
+);
+
+/**
+ * GET /api/v1/credit-notes/:id
+ * Get a credit note by ID
+ */
+router.get(
+  '/:id',
+  lenientRateLimit,
+  requirePermission('invoices:read'),
+  validate({ params: commonSchemas.objectIdParam }),
+  creditNotesController.getCreditNote
+);
+
+/**
+ * GET /api/v1/credit-notes/:id/pdf
+ * Render credit note as PDF
+ */
+router.get(
+  '/:id/pdf',
+  lenientRateLimit,
+  requirePermission('invoices:read'),
+  validate({
+    params: commonSchemas.objectIdParam,
+    query: creditNotePdfQuerySchema
+  }),
+  creditNotesController.getCreditNotePdf
+);
+
+/**
+ * POST /api/v1/credit-notes/:id/void
+ * Void a credit note and restore the invoice balance
+ */
+router.post(
+  '/:id/void',
+  moderateRateLimit,
+  requirePermission('invoices:write'),
+  validate({
+    params: commonSchemas.objectIdParam,
+    body: voidCreditNoteSchema
+  }),
+  creditNotesController.voidCreditNote
+);
+
+export default router;
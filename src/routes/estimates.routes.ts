@@ -0,0 +1,114 @@
+import { Router } from 'express';
+
+import { moderateRateLimit, lenientRateLimit } from '../config/rateLimit.js';
+import estimatesController from '../controllers/estimates.controller.js';
+import { authMiddleware } from '../middlewares/auth.js';
+import { loadOrganization, requirePermission } from '../middlewares/organization.js';
+import { validate, commonSchemas } from '../middlewares/validate.js';
+import {
+  createEstimateSchema,
+  updateEstimateSchema,
+  updateEstimateStatusSchema,
+  convertEstimateSchema,
+  estimateQuerySchema
+} from '../validators/estimate.schema.js';
+
+const router = Router();
+
+// Estimates belong to the active organization; each route checks the member's permissions
+router.use(authMiddleware, loadOrganization);
+
+/**
+ * GET /api/v1/estimates
+ * Get estimates with pagination and filtering
+ */
+router.get(
+  '/',
+  lenientRateLimit,
+  requirePermission('invoices:read'),
+  validate({ query: estimateQuerySchema }),
+  estimatesController.getEstimates
+);
+
+/**
+ * POST /api/v1/estimates
+ * Create a new estimate
+ */
+router.post(
+  '/',
+  moderateRateLimit,
+  requirePermission('invoices:write'),
+  validate({ body: createEstimateSchema }),
+  estimatesController.createEstimate
+);
+
+/**
+ * GET /api/v1/estimates/:id
+ * Get estimate by ID
+ */
+router.get(
+  '/:id',
+  lenientRateLimit,
+  requirePermission('invoices:read'),
+  validate({ params: commonSchemas.objectIdParam }),
+  estimatesController.getEstimate
+);
+
+/**
+ * PATCH /api/v1/estimates/:id
+ * Update estimate
+ */
+router.patch(
+  '/:id',
+  moderateRateLimit,
+  requirePermission('invoices:write'),
+  validate({
+    params: commonSchemas.objectIdParam,
+    body: updateEstimateSchema
+  }),
+  estimatesController.updateEstimate
+);
+
+/**
+ * DELETE /api/v1/estimates/:id
+ * Delete an estimate that has not been converted
+ */
+router.delete(
+  '/:id',
+  moderateRateLimit,
+  requirePermission('invoices:delete'),
+  validate({ params: commonSchemas.objectIdParam }),
+  estimatesController.deleteEstimate
+);
+
+/**
+ * PATCH /api/v1/estimates/:id/status
+ * Update estimate status
+ */
+router.patch(
+  '/:id/status',
+  moderateRateLimit,
+  requirePermission('invoices:write'),
+  validate({
+    params: commonSchemas.objectIdParam,
+    body: updateEstimateStatusSchema
+  }),
+  estimatesController.updateEstimateStatus
+);
+
+/**
+ * POST /api/v1/estimates/:id/convert
+ * Create a draft invoice from the estimate
+ */
+router.post(
+  '/:id/convert',
+  moderateRateLimit,
+  requirePermission('invoices:write'),
+  validate({
+    params: commonSchemas.objectIdParam,
+    body: convertEstimateSchema
+  }),
+  estimatesController.convertEstimate
+);
+
+export default router;
@@ -0,0 +1,74 @@
+import { Router } from 'express';
+
+import { moderateRateLimit, lenientRateLimit } from '../config/rateLimit.js';
+import exchangeRatesController from '../controllers/exchangeRates.controller.js';
+import { authMiddleware } from '../middlewares/auth.js';
+import { validate, commonSchemas } from '../middlewares/validate.js';
+import {
+  setExchangeRateSchema,
+  importExchangeRatesSchema,
+  exchangeRateQuerySchema,
+  convertCurrencyQuerySchema
+} from '../validators/exchangeRate.schema.js';
+
+const router = Router();
+
+// All exchange rate routes require authentication
+router.use(authMiddleware);
+
+/**
+ * GET /api/v1/exchange-rates/convert
+ * Convert an amount with the stored rates (must be before /:id route)
+ */
+router.get(
+  '/convert',
+  lenientRateLimit,
+  validate({ query: convertCurrencyQuerySchema }),
+  exchangeRatesController.convert
+);
+
+/**
+ * POST /api/v1/exchange-rates/import
+ * Import rates from an ECB-style XML or CSV file
+ */
+router.post(
+  '/import',
+  moderateRateLimit,
+  validate({ body: importExchangeRatesSchema }),
+  exchangeRatesController.importRates
+);
+
+/**
+ * GET /api/v1/exchange-rates
+ * List stored exchange rates
+ */
+router.get(
+  '/',
+  lenientRateLimit,
+  validate({ query: exchangeRateQuerySchema }),
+  exchangeRatesController.getRates
+);
+
+/**
+ * PUT /api/v1/exchange-rates
+ * Set a manual rate for a currency pair and day
+ */
+router.put(
+  '/',
+  moderateRateLimit,
+  validate({ body: setExchangeRateSchema }),
+  exchangeRatesController.setRate
+);
+
+/**
+ * DELETE /api/v1/exchange-rates/:id
+ * Delete a stored rate
+ */
+router.delete(
+  '/:id',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  exchangeRatesController.deleteRate
+);
+
+export default router;
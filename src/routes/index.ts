@@ -1,19 +1,43 @@
 import { Router } from 'express';
 
 // Import route modules
-import { checkApiKey } from '../config/apiKey.js';
-
+import adminRoutes from './admin.routes.js';
+import apiKeysRoutes from './apiKeys.routes.js';
 import authRoutes from './auth.routes.js';
+import bankStatementsRoutes from './bankStatements.routes.js';
 import clientsRoutes from './clients.routes.js';
+import creditNotesRoutes from './creditNotes.routes.js';
+import estimatesRoutes from './estimates.routes.js';
+import exchangeRatesRoutes from './exchangeRates.routes.js';
 import healthRoutes from './health.routes.js';
 import invoicesRoutes from './invoices.routes.js';
+import numberingRoutes from './numbering.routes.js';
+import organizationsRoutes from './organizations.routes.js';
+import paymentsRoutes from './payments.routes.js';
+import publicRoutes from './public.routes.js';
+import recurringInvoicesRoutes from './recurringInvoices.routes.js';
+import taxRatesRoutes from './taxRates.routes.js';
+import webhooksRoutes from './webhooks.routes.js';
 
 const router = Router();
 
 // Mount routes
-router.use('/auth', authRoutes, checkApiKey);
-router.use('/clients', clientsRoutes, checkApiKey);
-router.use('/invoices', invoicesRoutes, checkApiKey);
+router.use('/auth', authRoutes);
+router.use('/clients', clientsRoutes);
+router.use('/invoices', invoicesRoutes);
+router.use('/numbering', numberingRoutes);
+router.use('/exchange-rates', exchangeRatesRoutes);
+router.use('/tax-rates', taxRatesRoutes);
+router.use('/credit-notes', creditNotesRoutes);
+router.use('/estimates', estimatesRoutes);
+router.use('/recurring-invoices', recurringInvoicesRoutes);
+router.use('/bank-statements', bankStatementsRoutes);
+router.use('/admin', adminRoutes);
+router.use('/organizations', organizationsRoutes);
+router.use('/api-keys', apiKeysRoutes);
+router.use('/webhooks', webhooksRoutes);
+router.use('/public', publicRoutes);
+router.use('/payments', paymentsRoutes);
 router.use('/health', healthRoutes);
 
 router.get('/', (req, res) => {
@@ -26,6 +50,19 @@ router.get('/', (req, res) => {
         auth: '/api/v1/auth',
         clients: '/api/v1/clients',
         invoices: '/api/v1/invoices',
+        numbering: '/api/v1/numbering',
+        exchangeRates: '/api/v1/exchange-rates',
+        taxRates: '/api/v1/tax-rates',
+        creditNotes: '/api/v1/credit-notes',
+        estimates: '/api/v1/estimates',
+        recurringInvoices: '/api/v1/recurring-invoices',
+        bankStatements: '/api/v1/bank-statements',
+        admin: '/api/v1/admin',
+        organizations: '/api/v1/organizations',
+        apiKeys: '/api/v1/api-keys',
+        webhooks: '/api/v1/webhooks',
+        public: '/api/v1/public',
+        payments: '/api/v1/payments',
         health: '/api/v1/health'
       },
       documentation: '/api/v1/docs'
@@ -2,32 +2,52 @@ import { Router } from 'express';
 
 import { moderateRateLimit, lenientRateLimit } from '../config/rateLimit.js';
 import invoicesController from '../controllers/invoices.controller.js';
+import paymentsController from '../controllers/payments.controller.js';
+import shareLinksController from '../controllers/shareLinks.controller.js';
 import { authMiddleware } from '../middlewares/auth.js';
+import { loadOrganization, requirePermission } from '../middlewares/organization.js';
 import { validate, commonSchemas } from '../middlewares/validate.js';
 import {
   createInvoiceSchema,
   updateInvoiceSchema,
   updateInvoiceStatusSchema,
   invoiceQuerySchema,
+  invoicePdfQuerySchema,
+  invoicePaymentParamsSchema,
+  recordPaymentSchema,
+  voidPaymentSchema,
+  recordRefundSchema,
   sendInvoiceSchema
 } from '../validators/invoice.schema.js';
+import { createCheckoutSchema } from '../validators/payment.schema.js';
+import { createShareLinkSchema, shareLinkParamsSchema } from '../validators/shareLink.schema.js';
 
 const router = Router();
 
-// All invoice routes require authentication
-router.use(authMiddleware);
+// All invoice routes work in the active organization and check the member's permissions
+router.use(authMiddleware, loadOrganization);
 
 /**
  * GET /api/v1/invoices/stats
  * Get invoice statistics (must be before /:id route)
  */
-router.get('/stats', lenientRateLimit, invoicesController.getInvoiceStats);
+router.get(
+  '/stats',
+  lenientRateLimit,
+  requirePermission('reports:view'),
+  invoicesController.getInvoiceStats
+);
 
 /**
  * GET /api/v1/invoices/overdue
  * Get overdue invoices (must be before /:id route)
  */
-router.get('/overdue', lenientRateLimit, invoicesController.getOverdueInvoices);
+router.get(
+  '/overdue',
+  lenientRateLimit,
+  requirePermission('invoices:read'),
+  invoicesController.getOverdueInvoices
+);
 
 /**
  * POST /api/v1/invoices
@@ -36,6 +56,7 @@ router.get('/overdue', lenientRateLimit, invoicesController.getOverdueInvoices);
 router.post(
   '/',
   moderateRateLimit,
+  requirePermission('invoices:write'),
   validate({ body: createInvoiceSchema }),
   invoicesController.createInvoice
 );
@@ -47,6 +68,7 @@ router.post(
 router.get(
   '/',
   lenientRateLimit,
+  requirePermission('invoices:read'),
   validate({ query: invoiceQuerySchema }),
   invoicesController.getInvoices
 );
@@ -58,6 +80,7 @@ router.get(
 router.get(
   '/:id',
   lenientRateLimit,
+  requirePermission('invoices:read'),
   validate({ params: commonSchemas.objectIdParam }),
   invoicesController.getInvoiceById
 );
@@ -69,6 +92,7 @@ router.get(
 router.patch(
   '/:id',
   moderateRateLimit,
+  requirePermission('invoices:write'),
   validate({
     params: commonSchemas.objectIdParam,
     body: updateInvoiceSchema
@@ -83,17 +107,34 @@ router.patch(
 router.delete(
   '/:id',
   moderateRateLimit,
+  requirePermission('invoices:delete'),
   validate({ params: commonSchemas.objectIdParam }),
   invoicesController.deleteInvoice
 );
 
+/**
+ * GET /api/v1/invoices/:id/pdf
+ * Render invoice as PDF
+ */
+router.get(
+  '/:id/pdf',
+  lenientRateLimit,
+  requirePermission('invoices:read'),
+  validate({
+    params: commonSchemas.objectIdParam,
+    query: invoicePdfQuerySchema
+  }),
+  invoicesController.getInvoicePdf
+);
+
 /**
  * POST /api/v1/invoices/:id/send
- * Send invoice via email
+ * Send invoice via email with the PDF attached
  */
 router.post(
   '/:id/send',
   moderateRateLimit,
+  requirePermission('invoices:send'),
   validate({
     params: commonSchemas.objectIdParam,
     body: sendInvoiceSchema
@@ -101,6 +142,78 @@ router.post(
   invoicesController.sendInvoice
 );
 
+/**
+ * POST /api/v1/invoices/:id/payments
+ * Record a full or partial payment
+ */
+router.post(
+  '/:id/payments',
+  moderateRateLimit,
+  requirePermission('payments:write'),
+  validate({
+    params: commonSchemas.objectIdParam,
+    body: recordPaymentSchema
+  }),
+  invoicesController.addPayment
+);
+
+/**
+ * GET /api/v1/invoices/:id/payments
+ * List payments recorded against an invoice
+ */
+router.get(
+  '/:id/payments',
+  lenientRateLimit,
+  requirePermission('invoices:read'),
+  validate({ params: commonSchemas.objectIdParam }),
+  invoicesController.getPayments
+);
+
+/**
+ * DELETE /api/v1/invoices/:id/payments/:paymentId
+ * Void a payment with a reason
+ */
+router.delete(
+  '/:id/payments/:paymentId',
+  moderateRateLimit,
+  requirePermission('payments:write'),
+  validate({
+    params: invoicePaymentParamsSchema,
+    body: voidPaymentSchema
+  }),
+  invoicesController.voidPayment
+);
+
+/**
+ * POST /api/v1/invoices/:id/payments/:paymentId/refunds
+ * Refund all or part of a payment
+ */
+router.post(
+  '/:id/payments/:paymentId/refunds',
+  moderateRateLimit,
+  requirePermission('payments:write'),
+  validate({
+    params: invoicePaymentParamsSchema,
+    body: recordRefundSchema
+  }),
+  invoicesController.refundPayment
+);
+
+/**
+ * POST /api/v1/invoices/:id/checkout
+ * Create an online payment link for the open balance
+ */
+router.post(
+  '/:id/checkout',
+  moderateRateLimit,
+  requirePermission('payments:write'),
+  validate({
+    params: commonSchemas.objectIdParam,
+    body: createCheckoutSchema
+  }),
+  paymentsController.createCheckoutLink
+);
+
 /**
  * PATCH /api/v1/invoices/:id/status
  * Update invoice status
@@ -108,6 +221,7 @@ router.post(
 router.patch(
   '/:id/status',
   moderateRateLimit,
+  requirePermission('invoices:write'),
   validate({
     params: commonSchemas.objectIdParam,
     body: updateInvoiceStatusSchema
@@ -122,6 +236,7 @@ router.patch(
 router.post(
   '/:id/mark-viewed',
   lenientRateLimit,
+  requirePermission('invoices:write'),
   validate({ params: commonSchemas.objectIdParam }),
   invoicesController.markInvoiceAsViewed
 );
@@ -133,8 +248,48 @@ router.post(
 router.post(
   '/:id/duplicate',
   moderateRateLimit,
+  requirePermission('invoices:write'),
   validate({ params: commonSchemas.objectIdParam }),
   invoicesController.duplicateInvoice
 );
 
+/**
+ * POST /api/v1/invoices/:id/share-links
+ * Create a public share link for an invoice
+ */
+router.post(
+  '/:id/share-links',
+  moderateRateLimit,
+  requirePermission('invoices:share'),
+  validate({
+    params: commonSchemas.objectIdParam,
+    body: createShareLinkSchema
+  }),
+  shareLinksController.createShareLink
+);
+
+/**
+ * GET /api/v1/invoices/:id/share-links
+ * List active share links of an invoice
+ */
+router.get(
+  '/:id/share-links',
+  lenientRateLimit,
+  requirePermission('invoices:read'),
+  validate({ params: commonSchemas.objectIdParam }),
+  shareLinksController.getShareLinks
+);
+
+/**
+ * DELETE /api/v1/invoices/:id/share-links/:linkId
+ * Revoke a share link
+ */
+router.delete(
+  '/:id/share-links/:linkId',
+  moderateRateLimit,
+  requirePermission('invoices:share'),
+  validate({ params: shareLinkParamsSchema }),
+  shareLinksController.revokeShareLink
+);
+
 export default router;
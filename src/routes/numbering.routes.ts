@@ -0,0 +1,48 @@
+import { Router } from 'express';
+
+import { moderateRateLimit, lenientRateLimit } from '../config/rateLimit.js';
+import numberingController from '../controllers/numbering.controller.js';
+import { authMiddleware } from '../middlewares/auth.js';
+import { validate } from '../middlewares/validate.js';
+import {
+  numberSeriesParamsSchema,
+  updateNumberSequenceSchema
+} from '../validators/numbering.schema.js';
+
+const router = Router();
+
+// All numbering routes require authentication
+router.use(authMiddleware);
+
+/**
+ * GET /api/v1/numbering
+ * Get numbering configuration for all document series
+ */
+router.get('/', lenientRateLimit, numberingController.getSequences);
+
+/**
+ * GET /api/v1/numbering/:series/next
+ * Preview the next number of a series without consuming it
+ */
+router.get(
+  '/:series/next',
+  lenientRateLimit,
+  validate({ params: numberSeriesParamsSchema }),
+  numberingController.previewNextNumber
+);
+
+/**
+ * PATCH /api/v1/numbering/:series
+ * Update numbering configuration of a series
+ */
+router.patch(
+  '/:series',
+  moderateRateLimit,
+  validate({
+    params: numberSeriesParamsSchema,
+    body: updateNumberSequenceSchema
+  }),
+  numberingController.updateSequence
+);
+
+export default router;
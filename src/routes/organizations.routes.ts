@@ -0,0 +1,151 @@
+import { Router } from 'express';
+
+import { moderateRateLimit, lenientRateLimit } from '../config/rateLimit.js';
+import organizationsController from '../controllers/organizations.controller.js';
+import rolesController from '../controllers/roles.controller.js';
+import { authMiddleware } from '../middlewares/auth.js';
+import { validate, commonSchemas } from '../middlewares/validate.js';
+import {
+  createOrganizationSchema,
+  inviteMemberSchema,
+  updateMemberSchema,
+  acceptInvitationSchema,
+  organizationMemberParamsSchema,
+  createRoleSchema,
+  updateRoleSchema,
+  organizationRoleParamsSchema
+} from '../validators/organization.schema.js';
+
+const router = Router();
+
+// All organization routes require authentication
+router.use(authMiddleware);
+
+/**
+ * GET /api/v1/organizations
+ * List the organizations the user belongs to
+ */
+router.get('/', lenientRateLimit, organizationsController.getOrganizations);
+
+/**
+ * POST /api/v1/organizations
+ * Create an organization owned by the user
+ */
+router.post(
+  '/',
+  moderateRateLimit,
+  validate({ body: createOrganizationSchema }),
+  organizationsController.createOrganization
+);
+
+/**
+ * POST /api/v1/organizations/invitations/accept
+ * Join an organization with an invitation token
+ */
+router.post(
+  '/invitations/accept',
+  moderateRateLimit,
+  validate({ body: acceptInvitationSchema }),
+  organizationsController.acceptInvitation
+);
+
+/**
+ * POST /api/v1/organizations/:id/switch
+ * Work in another organization; returns a new access token
+ */
+router.post(
+  '/:id/switch',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  organizationsController.switchOrganization
+);
+
+/**
+ * GET /api/v1/organizations/:id/members
+ * List members and pending invitations
+ */
+router.get(
+  '/:id/members',
+  lenientRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  organizationsController.getMembers
+);
+
+/**
+ * POST /api/v1/organizations/:id/invitations
+ * Invite someone by email (members:manage)
+ */
+router.post(
+  '/:id/invitations',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam, body: inviteMemberSchema }),
+  organizationsController.inviteMember
+);
+
+/**
+ * PATCH /api/v1/organizations/:id/members/:memberId
+ * Give a member or invitation another role (members:manage)
+ */
+router.patch(
+  '/:id/members/:memberId',
+  moderateRateLimit,
+  validate({ params: organizationMemberParamsSchema, body: updateMemberSchema }),
+  organizationsController.updateMember
+);
+
+/**
+ * DELETE /api/v1/organizations/:id/members/:memberId
+ * Withdraw an invitation or remove a member (members:manage)
+ */
+router.delete(
+  '/:id/members/:memberId',
+  moderateRateLimit,
+  validate({ params: organizationMemberParamsSchema }),
+  organizationsController.revokeMember
+);
+
+/**
+ * GET /api/v1/organizations/:id/roles
+ * List built-in and custom roles with their permissions
+ */
+router.get(
+  '/:id/roles',
+  lenientRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  rolesController.getRoles
+);
+
+/**
+ * POST /api/v1/organizations/:id/roles
+ * Create a custom role (roles:manage)
+ */
+router.post(
+  '/:id/roles',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam, body: createRoleSchema }),
+  rolesController.createRole
+);
+
+/**
+ * PATCH /api/v1/organizations/:id/roles/:key
+ * Change the name or permissions of a role (roles:manage)
+ */
+router.patch(
+  '/:id/roles/:key',
+  moderateRateLimit,
+  validate({ params: organizationRoleParamsSchema, body: updateRoleSchema }),
+  rolesController.updateRole
+);
+
+/**
+ * DELETE /api/v1/organizations/:id/roles/:key
+ * Delete a custom role that is not assigned (roles:manage)
+ */
+router.delete(
+  '/:id/roles/:key',
+  moderateRateLimit,
+  validate({ params: organizationRoleParamsSchema }),
+  rolesController.deleteRole
+);
+
+export default router;
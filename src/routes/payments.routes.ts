@@ -0,0 +1,23 @@
+import { Router } from 'express';
+
+import { lenientRateLimit } from '../config/rateLimit.js';
+import paymentsController from '../controllers/payments.controller.js';
+import { validate } from '../middlewares/validate.js';
+import { paymentWebhookParamsSchema } from '../validators/payment.schema.js';
+
+const router = Router();
+
+// Webhooks are authorised by the gateway signature, not by a session
+
+/**
+ * POST /api/v1/payments/webhooks/:provider
+ * Receive a payment gateway event
+ */
+router.post(
+  '/webhooks/:provider',
+  lenientRateLimit,
+  validate({ params: paymentWebhookParamsSchema }),
+  paymentsController.handleWebhook
+);
+
+export default router;
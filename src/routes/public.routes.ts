@@ -0,0 +1,44 @@
+import { Router } from 'express';
+
+import { lenientRateLimit } from '../config/rateLimit.js';
+import shareLinksController from '../controllers/shareLinks.controller.js';
+import { validate } from '../middlewares/validate.js';
+import {
+  shareTokenParamsSchema,
+  sharedInvoiceQuerySchema,
+  sharedInvoicePdfQuerySchema
+} from '../validators/shareLink.schema.js';
+
+const router = Router();
+
+// Public routes are authorised by the signed token in the path, not by a session
+
+/**
+ * GET /api/v1/public/invoices/:token
+ * Client-facing invoice view as JSON or HTML
+ */
+router.get(
+  '/invoices/:token',
+  lenientRateLimit,
+  validate({
+    params: shareTokenParamsSchema,
+    query: sharedInvoiceQuerySchema
+  }),
+  shareLinksController.getSharedInvoice
+);
+
+/**
+ * GET /api/v1/public/invoices/:token/pdf
+ * Client-facing invoice PDF
+ */
+router.get(
+  '/invoices/:token/pdf',
+  lenientRateLimit,
+  validate({
+    params: shareTokenParamsSchema,
+    query: sharedInvoicePdfQuerySchema
+  }),
+  shareLinksController.getSharedInvoicePdf
+);
+
+export default router;
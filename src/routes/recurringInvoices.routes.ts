@@ -0,0 +1,98 @@
+import { Router } from 'express';
+
+import { moderateRateLimit, lenientRateLimit } from '../config/rateLimit.js';
+import recurringInvoicesController from '../controllers/recurringInvoices.controller.js';
+import { authMiddleware } from '../middlewares/auth.js';
+import { loadOrganization, requirePermission } from '../middlewares/organization.js';
+import { validate, commonSchemas } from '../middlewares/validate.js';
+import {
+  createRecurringInvoiceSchema,
+  updateRecurringInvoiceSchema,
+  updateRecurringInvoiceStatusSchema,
+  recurringInvoiceQuerySchema
+} from '../validators/recurringInvoice.schema.js';
+
+const router = Router();
+
+// Recurring invoices belong to the active organization; each route checks the member's permissions
+router.use(authMiddleware, loadOrganization);
+
+/**
+ * GET /api/v1/recurring-invoices
+ * List recurring invoice profiles
+ */
+router.get(
+  '/',
+  lenientRateLimit,
+  requirePermission('invoices:read'),
+  validate({ query: recurringInvoiceQuerySchema }),
+  recurringInvoicesController.getRecurringInvoices
+);
+
+/**
+ * POST /api/v1/recurring-invoices
+ * Create a recurring invoice profile
+ */
+router.post(
+  '/',
+  moderateRateLimit,
+  requirePermission('invoices:write'),
+  validate({ body: createRecurringInvoiceSchema }),
+  recurringInvoicesController.createRecurringInvoice
+);
+
+/**
+ * GET /api/v1/recurring-invoices/:id
+ * Get a recurring invoice profile with its run history
+ */
+router.get(
+  '/:id',
+  lenientRateLimit,
+  requirePermission('invoices:read'),
+  validate({ params: commonSchemas.objectIdParam }),
+  recurringInvoicesController.getRecurringInvoice
+);
+
+/**
+ * PATCH /api/v1/recurring-invoices/:id
+ * Update a recurring invoice profile
+ */
+router.patch(
+  '/:id',
+  moderateRateLimit,
+  requirePermission('invoices:write'),
+  validate({
+    params: commonSchemas.objectIdParam,
+    body: updateRecurringInvoiceSchema
+  }),
+  recurringInvoicesController.updateRecurringInvoice
+);
+
+/**
+ * DELETE /api/v1/recurring-invoices/:id
+ * Delete a recurring invoice profile
+ */
+router.delete(
+  '/:id',
+  moderateRateLimit,
+  requirePermission('invoices:delete'),
+  validate({ params: commonSchemas.objectIdParam }),
+  recurringInvoicesController.deleteRecurringInvoice
+);
+
+/**
+ * PATCH /api/v1/recurring-invoices/:id/status
+ * Pause or resume a recurring invoice profile
+ */
+router.patch(
+  '/:id/status',
+  moderateRateLimit,
+  requirePermission('invoices:write'),
+  validate({
+    params: commonSchemas.objectIdParam,
+    body: updateRecurringInvoiceStatusSchema
+  }),
+  recurringInvoicesController.updateRecurringInvoiceStatus
+);
+
+export default router;
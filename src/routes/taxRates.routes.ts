@@ -0,0 +1,73 @@
+import { Router } from 'express';
+
+import { moderateRateLimit, lenientRateLimit } from '../config/rateLimit.js';
+import taxRatesController from '../controllers/taxRates.controller.js';
+import { authMiddleware } from '../middlewares/auth.js';
+import { validate, commonSchemas } from '../middlewares/validate.js';
+import {
+  createTaxRateSchema,
+  updateTaxRateSchema,
+  taxRateQuerySchema
+} from '../validators/taxRate.schema.js';
+
+const router = Router();
+
+// All tax rate routes require authentication
+router.use(authMiddleware);
+
+/**
+ * GET /api/v1/tax-rates
+ * List the user's tax rates
+ */
+router.get(
+  '/',
+  lenientRateLimit,
+  validate({ query: taxRateQuerySchema }),
+  taxRatesController.getTaxRates
+);
+
+/**
+ * POST /api/v1/tax-rates
+ * Add a tax rate to the catalogue
+ */
+router.post(
+  '/',
+  moderateRateLimit,
+  validate({ body: createTaxRateSchema }),
+  taxRatesController.createTaxRate
+);
+
+/**
+ * GET /api/v1/tax-rates/:id
+ * Get a tax rate
+ */
+router.get(
+  '/:id',
+  lenientRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  taxRatesController.getTaxRate
+);
+
+/**
+ * PATCH /api/v1/tax-rates/:id
+ * Update or archive a tax rate; existing invoices keep their copy
+ */
+router.patch(
+  '/:id',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam, body: updateTaxRateSchema }),
+  taxRatesController.updateTaxRate
+);
+
+/**
+ * DELETE /api/v1/tax-rates/:id
+ * Delete a tax rate that no invoice uses
+ */
+router.delete(
+  '/:id',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  taxRatesController.deleteTaxRate
+);
+
+export default router;
@@ -0,0 +1,103 @@
+import { Router } from 'express';
+
+import { moderateRateLimit, lenientRateLimit } from '../config/rateLimit.js';
+import webhooksController from '../controllers/webhooks.controller.js';
+import { authMiddleware } from '../middlewares/auth.js';
+import { loadOrganization, requirePermission } from '../middlewares/organization.js';
+import { validate, commonSchemas } from '../middlewares/validate.js';
+import {
+  createWebhookSchema,
+  updateWebhookSchema,
+  webhookDeliveryParamsSchema,
+  webhookDeliveryQuerySchema
+} from '../validators/webhook.schema.js';
+
+const router = Router();
+
+// Webhooks belong to the active organization and need the webhooks:manage permission
+router.use(authMiddleware, loadOrganization, requirePermission('webhooks:manage'));
+
+/**
+ * GET /api/v1/webhooks
+ * List the organization's webhooks
+ */
+router.get('/', lenientRateLimit, webhooksController.getWebhooks);
+
+/**
+ * POST /api/v1/webhooks
+ * Subscribe a URL to events; the signing secret is only shown in this response
+ */
+router.post(
+  '/',
+  moderateRateLimit,
+  validate({ body: createWebhookSchema }),
+  webhooksController.createWebhook
+);
+
+/**
+ * GET /api/v1/webhooks/:id
+ * Get a webhook
+ */
+router.get(
+  '/:id',
+  lenientRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  webhooksController.getWebhookById
+);
+
+/**
+ * PATCH /api/v1/webhooks/:id
+ * Update a webhook, or enable and disable it
+ */
+router.patch(
+  '/:id',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam, body: updateWebhookSchema }),
+  webhooksController.updateWebhook
+);
+
+/**
+ * DELETE /api/v1/webhooks/:id
+ * Delete a webhook and its delivery log
+ */
+router.delete(
+  '/:id',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  webhooksController.deleteWebhook
+);
+
+/**
+ * POST /api/v1/webhooks/:id/secret
+ * Replace the signing secret
+ */
+router.post(
+  '/:id/secret',
+  moderateRateLimit,
+  validate({ params: commonSchemas.objectIdParam }),
+  webhooksController.rotateSecret
+);
+
+/**
+ * GET /api/v1/webhooks/:id/deliveries
+ * List the deliveries of a webhook with their attempts and response codes
+ */
+router.get(
+  '/:id/deliveries',
+  lenientRateLimit,
+  validate({ params: commonSchemas.objectIdParam, query: webhookDeliveryQuerySchema }),
+  webhooksController.getDeliveries
+);
+
+/**
+ * POST /api/v1/webhooks/:id/deliveries/:deliveryId/redeliver
+ * Send a delivery's event again
+ */
+router.post(
+  '/:id/deliveries/:deliveryId/redeliver',
+  moderateRateLimit,
+  validate({ params: webhookDeliveryParamsSchema }),
+  webhooksController.redeliver
+);
+
+export default router;
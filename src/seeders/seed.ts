@@ -30,7 +30,7 @@ async function seedUsersData(): Promise<Map<string, string>> {
       const user = new User(userData);
       await user.save();
 
-      userIdMap.set(userData.email, (user as any)._id.toString());
+      userIdMap.set(userData.email, user._id.toString());
 
       logger.info(`✅ Created user: ${userData.name} (${userData.email})`);
     } catch (error) {
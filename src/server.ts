@@ -1,9 +1,22 @@
 import app from './app.js';
 import { connectDatabase } from './config/db.js';
-import { PORT, NODE_ENV } from './config/env.js';
+import {
+  PORT,
+  NODE_ENV,
+  SCHEDULER_ENABLED,
+  OVERDUE_JOB_INTERVAL_MS,
+  REMINDER_JOB_INTERVAL_MS,
+  RECURRING_JOB_INTERVAL_MS,
+  WEBHOOK_JOB_INTERVAL_MS
+} from './config/env.js';
 import logger from './config/logger.js';
 import { verifyMailConfig } from './config/mail.js';
 import { handleAsyncError, handleUncaughtException } from './middlewares/error.js';
+import estimatesService from './services/estimates.service.js';
+import recurringInvoicesService from './services/recurringInvoices.service.js';
+import remindersService from './services/reminders.service.js';
+import schedulerService from './services/scheduler.service.js';
+import webhooksService from './services/webhooks.service.js';
 
 process.on('uncaughtException', handleUncaughtException);
 
@@ -21,6 +34,36 @@ async function startServer(): Promise<void> {
       logger.warn('Email configuration verification failed - emails may not work');
     }
 
+    // Start background jobs
+    if (SCHEDULER_ENABLED) {
+      schedulerService.register({
+        name: 'invoices:mark-overdue',
+        intervalMs: OVERDUE_JOB_INTERVAL_MS,
+        handler: () => remindersService.markOverdueInvoices()
+      });
+      schedulerService.register({
+        name: 'invoices:send-reminders',
+        intervalMs: REMINDER_JOB_INTERVAL_MS,
+        handler: () => remindersService.sendInvoiceReminders()
+      });
+      schedulerService.register({
+        name: 'estimates:mark-expired',
+        intervalMs: OVERDUE_JOB_INTERVAL_MS,
+        handler: () => estimatesService.markExpiredEstimates()
+      });
+      schedulerService.register({
+        name: 'invoices:generate-recurring',
+        intervalMs: RECURRING_JOB_INTERVAL_MS,
+        handler: () => recurringInvoicesService.generateDueInvoices()
+      });
+      schedulerService.register({
+        name: 'webhooks:deliver',
+        intervalMs: WEBHOOK_JOB_INTERVAL_MS,
+        handler: () => webhooksService.deliverDueWebhooks()
+      });
+      schedulerService.start();
+    }
+
     // Start HTTP server
     const server = app.listen(PORT, () => {
       logger.info({
@@ -37,6 +80,8 @@ async function startServer(): Promise<void> {
     const gracefulShutdown = (signal: string) => {
       logger.info(`Received ${signal}, shutting down gracefully`);
 
+      schedulerService.stop();
+
       server.close(() => {
         logger.info('HTTP server closed');
         process.exit(0);
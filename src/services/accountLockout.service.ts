@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+
+import { APP_URL, LOGIN_LOCK_MINUTES, LOGIN_MAX_FAILED_ATTEMPTS } from '../config/env.js';
+import logger from '../config/logger.js';
+import { User } from '../models/User.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import { parsePagination, createPaginatedResponse } from '../utils/pagination.js';
+
+import auditLogService from './auditLog.service.js';
+import mailService from './mail.service.js';
+
+import type { AuditContext } from './auditLog.service.js';
+import type { ClientContext } from './auth.service.js';
+import type { IUser } from '../models/User.js';
+import type { AccountLockQueryInput } from '../validators/admin.schema.js';
+
+// Lock state of an account as shown to admins
+export interface AccountLockStatus {
+  userId: string;
+  name: string;
+  email: string;
+  failedLoginAttempts: number;
+  lastFailedLoginAt?: Date;
+  lockedUntil?: Date;
+  locked: boolean;
+}
+
+// Failed attempts allowed before each further attempt is delayed
+const FAILURES_BEFORE_DELAY = 2;
+
+// Longest delay between attempts, in seconds
+const MAX_DELAY_SECONDS = 30;
+
+// Unlock links stay valid for a day, beyond the lock itself
+const UNLOCK_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// Seconds until a moment, rounded up
+const secondsUntil = (date: Date): number => Math.ceil((date.getTime() - Date.now()) / 1000);
+
+// Fields that reset the lockout state
+const CLEARED_LOCK = {
+  $set: { failedLoginAttempts: 0 },
+  $unset: { lastFailedLoginAt: 1, lockedUntil: 1, unlockToken: 1, unlockTokenExpires: 1 }
+};
+
+class AccountLockoutService {
+  // Delay before the next attempt: 1s after the third failure, doubling up to the maximum
+  private getDelaySeconds(failedAttempts: number): number {
+    if (failedAttempts <= FAILURES_BEFORE_DELAY) {
+      return 0;
+    }
+    return Math.min(2 ** (failedAttempts - FAILURES_BEFORE_DELAY - 1), MAX_DELAY_SECONDS);
+  }
+
+  // An error telling the client when it may try again
+  private retryLaterError(statusCode: number, message: string, code: string, retryAt: Date) {
+    const error = ApiErrors.custom(statusCode, message, code);
+    error.retryAfter = secondsUntil(retryAt);
+    return error;
+  }
+
+  private lockedError(lockedUntil: Date) {
+    return this.retryLaterError(
+      423,
+      'Account is temporarily locked after too many failed login attempts',
+      'ACCOUNT_LOCKED',
+      lockedUntil
+    );
+  }
+
+  private toLockStatus(user: IUser): AccountLockStatus {
+    return {
+      userId: user._id.toString(),
+      name: user.name,
+      email: user.email,
+      failedLoginAttempts: user.failedLoginAttempts,
+      lastFailedLoginAt: user.lastFailedLoginAt,
+      lockedUntil: user.lockedUntil,
+      locked: !!user.lockedUntil && user.lockedUntil > new Date()
+    };
+  }
+
+  // Refuse an attempt while the account is locked or before the progressive delay has passed
+  assertLoginAllowed(user: IUser): void {
+    const now = Date.now();
+
+    if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+      throw this.lockedError(user.lockedUntil);
+    }
+
+    if (user.lastFailedLoginAt && !user.lockedUntil) {
+      const delaySeconds = this.getDelaySeconds(user.failedLoginAttempts);
+      const retryAt = new Date(user.lastFailedLoginAt.getTime() + delaySeconds * 1000);
+
+      if (retryAt.getTime() > now) {
+        throw this.retryLaterError(
+          429,
+          'Too many failed login attempts, try again shortly',
+          'LOGIN_THROTTLED',
+          retryAt
+        );
+      }
+    }
+  }
+
+  // Count a failed attempt; locks the account and throws once the limit is reached
+  async recordFailedLogin(user: IUser, context: ClientContext = {}): Promise<void> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - LOGIN_LOCK_MINUTES * 60 * 1000);
+
+    // Failures older than the lock duration, or from before an expired lock, no longer count
+    const isStale =
+      !user.lastFailedLoginAt ||
+      user.lastFailedLoginAt < windowStart ||
+      (!!user.lockedUntil && user.lockedUntil <= now);
+
+    const updated = await User.findOneAndUpdate(
+      { _id: user._id },
+      isStale
+        ? {
+            $set: { failedLoginAttempts: 1, lastFailedLoginAt: now },
+            $unset: { lockedUntil: 1, unlockToken: 1, unlockTokenExpires: 1 }
+          }
+        : { $inc: { failedLoginAttempts: 1 }, $set: { lastFailedLoginAt: now } },
+      { new: true }
+    );
+
+    if (!updated || updated.failedLoginAttempts < LOGIN_MAX_FAILED_ATTEMPTS) {
+      return;
+    }
+
+    const unlockToken = crypto.randomBytes(32).toString('hex');
+    const lockedUntil = new Date(now.getTime() + LOGIN_LOCK_MINUTES * 60 * 1000);
+
+    // Only the attempt that sets the lock notifies the owner
+    const locked = await User.findOneAndUpdate(
+      {
+        _id: user._id,
+        $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }]
+      },
+      {
+        $set: {
+          lockedUntil,
+          unlockToken: hashToken(unlockToken),
+          unlockTokenExpires: new Date(now.getTime() + UNLOCK_TOKEN_TTL_MS)
+        }
+      },
+      { new: true }
+    );
+
+    if (locked) {
+      logger.warn({
+        msg: 'Account locked after failed login attempts',
+        userId: user._id.toString(),
+        failedAttempts: updated.failedLoginAttempts,
+        ip: context.ip
+      });
+
+      void mailService.sendAccountLockedEmail(user.email, {
+        name: user.name,
+        unlockUrl: `${APP_URL}/api/v1/auth/unlock/${unlockToken}`,
+        lockedUntil,
+        failedAttempts: updated.failedLoginAttempts,
+        ip: context.ip
+      });
+    }
+
+    throw this.lockedError(locked?.lockedUntil ?? lockedUntil);
+  }
+
+  // Reset the counters after a successful login
+  async recordSuccessfulLogin(user: IUser): Promise<void> {
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await User.updateOne({ _id: user._id }, CLEARED_LOCK);
+    }
+  }
+
+  // Unlock an account from the link in the lock email
+  async unlockWithToken(token: string): Promise<void> {
+    try {
+      const user = await User.findOneAndUpdate(
+        { unlockToken: hashToken(token), unlockTokenExpires: { $gt: new Date() } },
+        CLEARED_LOCK
+      );
+
+      if (!user) {
+        throw ApiErrors.badRequest('Invalid or expired unlock token', {
+          code: 'INVALID_UNLOCK_TOKEN'
+        });
+      }
+
+      logger.info({
+        msg: 'Account unlocked successfully',
+        userId: user._id.toString(),
+        via: 'email'
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to unlock account',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // List locked accounts, or every account with recent failed attempts
+  async listAccountLocks(query: AccountLockQueryInput) {
+    try {
+      const pagination = parsePagination(query);
+      const filter =
+        query.status === 'failing'
+          ? { failedLoginAttempts: { $gt: 0 } }
+          : { lockedUntil: { $gt: new Date() } };
+
+      const [users, total] = await Promise.all([
+        User.find(filter)
+          .sort({ lastFailedLoginAt: -1 })
+          .skip(pagination.skip)
+          .limit(pagination.limit),
+        User.countDocuments(filter)
+      ]);
+
+      return createPaginatedResponse(
+        users.map(user => this.toLockStatus(user)),
+        total,
+        pagination
+      );
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to list account locks',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Clear the lock and failed attempts of an account
+  async clearLock(userId: string, context: AuditContext): Promise<AccountLockStatus> {
+    const adminId = context.actorId;
+
+    try {
+      const user = await User.findByIdAndUpdate(userId, CLEARED_LOCK, { new: true });
+
+      if (!user) {
+        throw ApiErrors.notFound('User', userId);
+      }
+
+      await auditLogService.record(context, 'account_lock.cleared', {
+        id: userId,
+        email: user.email
+      });
+
+      logger.info({ msg: 'Account lock cleared successfully', userId, adminId });
+
+      return this.toLockStatus(user);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to clear account lock',
+        userId,
+        adminId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const accountLockoutService = new AccountLockoutService();
+export default accountLockoutService;
@@ -0,0 +1,393 @@
+import logger from '../config/logger.js';
+import { Client } from '../models/Client.js';
+import { Estimate } from '../models/Estimate.js';
+import { Invoice } from '../models/Invoice.js';
+import { Membership } from '../models/Membership.js';
+import { RecurringInvoice } from '../models/RecurringInvoice.js';
+import RefreshToken from '../models/refreshTokenModel.js';
+import { User } from '../models/User.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import { parsePagination, createPaginatedResponse } from '../utils/pagination.js';
+
+import auditLogService from './auditLog.service.js';
+import authService from './auth.service.js';
+
+import type { AuditContext } from './auditLog.service.js';
+import type { IUser } from '../models/User.js';
+import type { AdminUserQueryInput, UpdateUserRoleInput } from '../validators/admin.schema.js';
+import type { Model, Types } from 'mongoose';
+
+// Records a user owns and sessions they have open
+export interface UserUsage {
+  clients: number;
+  invoices: number;
+  estimates: number;
+  recurringInvoices: number;
+  organizations: number;
+  activeSessions: number;
+}
+
+// User as shown to admins
+export interface AdminUserSummary {
+  id: string;
+  name: string;
+  email: string;
+  role: 'user' | 'admin';
+  isActive: boolean;
+  isEmailVerified: boolean;
+  twoFactorEnabled: boolean;
+  locked: boolean;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  usage: UserUsage;
+}
+
+const EMPTY_USAGE: UserUsage = {
+  clients: 0,
+  invoices: 0,
+  estimates: 0,
+  recurringInvoices: 0,
+  organizations: 0,
+  activeSessions: 0
+};
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Count documents per user in one query
+const countByUser = async (
+  model: Model<any>,
+  field: string,
+  userIds: Types.ObjectId[],
+  filter: Record<string, unknown> = {}
+): Promise<Map<string, number>> => {
+  const rows: { _id: Types.ObjectId; count: number }[] = await model.aggregate([
+    { $match: { [field]: { $in: userIds }, ...filter } },
+    { $group: { _id: `$${field}`, count: { $sum: 1 } } }
+  ]);
+
+  return new Map(rows.map(row => [row._id.toString(), row.count]));
+};
+
+class AdminUsersService {
+  // Usage counts of several users
+  private async getUsage(users: IUser[]): Promise<Map<string, UserUsage>> {
+    const userIds = users.map(user => user._id);
+
+    const [clients, invoices, estimates, recurringInvoices, organizations, activeSessions] =
+      await Promise.all([
+        countByUser(Client, 'userId', userIds),
+        countByUser(Invoice, 'userId', userIds),
+        countByUser(Estimate, 'userId', userIds),
+        countByUser(RecurringInvoice, 'userId', userIds),
+        countByUser(Membership, 'userId', userIds, { status: 'active' }),
+        countByUser(RefreshToken, 'user', userIds, {
+          usedAt: { $exists: false },
+          revokedAt: { $exists: false },
+          expiresAt: { $gt: new Date() }
+        })
+      ]);
+
+    return new Map(
+      userIds.map(userId => {
+        const id = userId.toString();
+        return [
+          id,
+          {
+            clients: clients.get(id) ?? 0,
+            invoices: invoices.get(id) ?? 0,
+            estimates: estimates.get(id) ?? 0,
+            recurringInvoices: recurringInvoices.get(id) ?? 0,
+            organizations: organizations.get(id) ?? 0,
+            activeSessions: activeSessions.get(id) ?? 0
+          }
+        ];
+      })
+    );
+  }
+
+  private toSummary(user: IUser, usage: UserUsage = EMPTY_USAGE): AdminUserSummary {
+    return {
+      id: user._id.toString(),
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      isActive: user.isActive,
+      isEmailVerified: user.isEmailVerified,
+      twoFactorEnabled: user.twoFactor?.enabled ?? false,
+      locked: !!user.lockedUntil && user.lockedUntil > new Date(),
+      lastLoginAt: user.lastLoginAt,
+      createdAt: user.createdAt,
+      usage
+    };
+  }
+
+  private async findUser(userId: string): Promise<IUser> {
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw ApiErrors.notFound('User', userId);
+    }
+    return user;
+  }
+
+  // Admins cannot demote, deactivate or delete their own account
+  private assertNotSelf(userId: string, context: AuditContext): void {
+    if (userId === context.actorId) {
+      throw ApiErrors.badRequest('Admins cannot perform this action on their own account', {
+        code: 'CANNOT_MODIFY_SELF'
+      });
+    }
+  }
+
+  private async getSummary(user: IUser): Promise<AdminUserSummary> {
+    const usage = await this.getUsage([user]);
+    return this.toSummary(user, usage.get(user._id.toString()));
+  }
+
+  // List users with search and filters, newest first
+  async listUsers(query: AdminUserQueryInput) {
+    try {
+      const pagination = parsePagination(query);
+      const filter: Record<string, unknown> = {};
+
+      if (query.search) {
+        const pattern = escapeRegex(query.search);
+        filter.$or = [
+          { name: { $regex: pattern, $options: 'i' } },
+          { email: { $regex: pattern, $options: 'i' } }
+        ];
+      }
+      if (query.role) {
+        filter.role = query.role;
+      }
+      if (query.isActive !== undefined) {
+        filter.isActive = query.isActive;
+      }
+      if (query.isEmailVerified !== undefined) {
+        filter.isEmailVerified = query.isEmailVerified;
+      }
+
+      const [users, total] = await Promise.all([
+        User.find(filter).sort({ createdAt: -1 }).skip(pagination.skip).limit(pagination.limit),
+        User.countDocuments(filter)
+      ]);
+      const usage = await this.getUsage(users);
+
+      return createPaginatedResponse(
+        users.map(user => this.toSummary(user, usage.get(user._id.toString()))),
+        total,
+        pagination
+      );
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to list users',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Get a user with usage counts
+  async getUser(userId: string): Promise<AdminUserSummary> {
+    try {
+      return await this.getSummary(await this.findUser(userId));
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get user',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Make a user an admin or a regular user
+  async updateRole(
+    userId: string,
+    roleData: UpdateUserRoleInput,
+    context: AuditContext
+  ): Promise<AdminUserSummary> {
+    try {
+      this.assertNotSelf(userId, context);
+
+      const previous = await this.findUser(userId);
+      const user = await authService.updateUserRole(userId, roleData.role);
+
+      if (previous.role !== user.role) {
+        await auditLogService.record(
+          context,
+          'user.role_changed',
+          { id: userId, email: user.email },
+          { from: previous.role, to: user.role }
+        );
+      }
+
+      logger.info({
+        msg: 'User role updated successfully',
+        userId,
+        adminId: context.actorId,
+        role: user.role
+      });
+
+      return await this.getSummary(user);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to update user role',
+        userId,
+        adminId: context.actorId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Sign a user out everywhere: refresh tokens are removed and access tokens stop working
+  async forceLogout(userId: string, context: AuditContext): Promise<void> {
+    try {
+      const user = await this.findUser(userId);
+
+      await authService.logoutAllDevices(userId);
+      await auditLogService.record(context, 'user.logged_out', { id: userId, email: user.email });
+
+      logger.info({ msg: 'User logged out successfully', userId, adminId: context.actorId });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to log out user',
+        userId,
+        adminId: context.actorId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Deactivate an account and sign it out everywhere
+  async deactivate(userId: string, context: AuditContext): Promise<AdminUserSummary> {
+    try {
+      this.assertNotSelf(userId, context);
+
+      const user = await this.findUser(userId);
+      if (!user.isActive) {
+        throw ApiErrors.conflict('User is already deactivated', { code: 'USER_ALREADY_INACTIVE' });
+      }
+
+      await authService.deactivateAccount(userId);
+      await authService.logoutAllDevices(userId);
+      await auditLogService.record(context, 'user.deactivated', { id: userId, email: user.email });
+
+      logger.info({ msg: 'User deactivated successfully', userId, adminId: context.actorId });
+
+      return await this.getSummary(await this.findUser(userId));
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to deactivate user',
+        userId,
+        adminId: context.actorId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Reactivate a deactivated account
+  async reactivate(userId: string, context: AuditContext): Promise<AdminUserSummary> {
+    try {
+      const user = await User.findOneAndUpdate(
+        { _id: userId, isActive: false },
+        {
+          $set: { isActive: true },
+          $unset: { deactivationToken: 1, deactivationTokenExpires: 1 }
+        },
+        { new: true }
+      );
+
+      if (!user) {
+        await this.findUser(userId);
+        throw ApiErrors.conflict('User is already active', { code: 'USER_ALREADY_ACTIVE' });
+      }
+
+      await auditLogService.record(context, 'user.reactivated', { id: userId, email: user.email });
+
+      logger.info({ msg: 'User reactivated successfully', userId, adminId: context.actorId });
+
+      return await this.getSummary(user);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to reactivate user',
+        userId,
+        adminId: context.actorId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Mark the email address of a user as verified
+  async verifyEmail(userId: string, context: AuditContext): Promise<AdminUserSummary> {
+    try {
+      const user = await User.findOneAndUpdate(
+        { _id: userId, isEmailVerified: false },
+        {
+          $set: { isEmailVerified: true },
+          $unset: { emailVerificationToken: 1, emailVerificationExpires: 1 }
+        },
+        { new: true }
+      );
+
+      if (!user) {
+        await this.findUser(userId);
+        throw ApiErrors.conflict('Email is already verified', {
+          code: 'EMAIL_ALREADY_VERIFIED'
+        });
+      }
+
+      await auditLogService.record(context, 'user.email_verified', {
+        id: userId,
+        email: user.email
+      });
+
+      logger.info({ msg: 'User email verified successfully', userId, adminId: context.actorId });
+
+      return await this.getSummary(user);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to verify user email',
+        userId,
+        adminId: context.actorId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Delete an account; the records it owns are kept
+  async deleteUser(userId: string, context: AuditContext): Promise<void> {
+    try {
+      this.assertNotSelf(userId, context);
+
+      const user = await this.findUser(userId);
+
+      await authService.deleteAccount(userId, context.actorId, 'admin');
+      await RefreshToken.deleteMany({ user: user._id });
+      await auditLogService.record(
+        context,
+        'user.deleted',
+        { id: userId, email: user.email },
+        { name: user.name, role: user.role }
+      );
+
+      logger.info({ msg: 'User deleted successfully', userId, adminId: context.actorId });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to delete user',
+        userId,
+        adminId: context.actorId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const adminUsersService = new AdminUsersService();
+export default adminUsersService;
@@ -0,0 +1,218 @@
+import { createHash, randomBytes } from 'crypto';
+import { BlockList, isIP } from 'net';
+
+import { Types } from 'mongoose';
+
+import logger from '../config/logger.js';
+import { API_KEY_RESOURCES, ApiKey } from '../models/ApiKey.js';
+import { User } from '../models/User.js';
+import { ApiErrors } from '../utils/ApiError.js';
+
+import organizationsService from './organizations.service.js';
+
+import type { ApiKeyResource, IApiKey } from '../models/ApiKey.js';
+import type { IUser } from '../models/User.js';
+import type { CreateApiKeyInput } from '../validators/apiKey.schema.js';
+
+// Every key starts with this, so leaked keys are easy to recognise
+const API_KEY_PREFIX = 'ilk_';
+
+// Characters of the key kept in clear to tell keys apart
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// Last use is recorded at most this often per key
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+// Newly created key; the plain key is only returned here
+export interface CreatedApiKey {
+  apiKey: IApiKey;
+  key: string;
+}
+
+// Key and user a request authenticated with
+export interface ApiKeyAuthentication {
+  apiKey: IApiKey;
+  user: IUser;
+}
+
+const hashKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+// Addresses behind proxies may arrive in their IPv4-mapped IPv6 form
+const normalizeIp = (ip: string): string => ip.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+
+// Whether an address matches an allowlist of addresses and CIDR ranges
+const isIpAllowed = (allowedIps: string[], ip?: string): boolean => {
+  if (allowedIps.length === 0) {
+    return true;
+  }
+  if (!ip) {
+    return false;
+  }
+
+  const address = normalizeIp(ip);
+  const family = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+  const blockList = new BlockList();
+
+  for (const entry of allowedIps) {
+    const [network, prefix] = entry.split('/');
+    const networkFamily = isIP(network) === 6 ? 'ipv6' : 'ipv4';
+
+    if (prefix === undefined) {
+      blockList.addAddress(network, networkFamily);
+    } else {
+      blockList.addSubnet(network, Number(prefix), networkFamily);
+    }
+  }
+
+  return blockList.check(address, family);
+};
+
+class ApiKeysService {
+  // Create a key for a user; the plain key cannot be retrieved later
+  async createApiKey(userId: string, keyData: CreateApiKeyInput): Promise<CreatedApiKey> {
+    try {
+      if (keyData.organizationId) {
+        await organizationsService.getActiveOrganization(userId, keyData.organizationId);
+      }
+
+      const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+      const apiKey = await ApiKey.create({
+        userId: new Types.ObjectId(userId),
+        organizationId: keyData.organizationId && new Types.ObjectId(keyData.organizationId),
+        name: keyData.name,
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: hashKey(key),
+        scopes: keyData.scopes,
+        allowedIps: keyData.allowedIps,
+        expiresAt: keyData.expiresAt
+      });
+
+      logger.info({
+        msg: 'API key created successfully',
+        apiKeyId: (apiKey._id as Types.ObjectId).toString(),
+        userId,
+        scopes: apiKey.scopes
+      });
+
+      return { apiKey, key };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to create API key',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // List the keys of a user that have not been revoked, newest first
+  async listApiKeys(userId: string): Promise<IApiKey[]> {
+    try {
+      return await ApiKey.find({
+        userId: new Types.ObjectId(userId),
+        revokedAt: { $exists: false }
+      }).sort({ createdAt: -1 });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to list API keys',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Revoke a key; requests made with it are refused from then on
+  async revokeApiKey(userId: string, apiKeyId: string): Promise<void> {
+    try {
+      const apiKey = await ApiKey.findOneAndUpdate(
+        {
+          _id: new Types.ObjectId(apiKeyId),
+          userId: new Types.ObjectId(userId),
+          revokedAt: { $exists: false }
+        },
+        { $set: { revokedAt: new Date() } }
+      );
+
+      if (!apiKey) {
+        throw ApiErrors.notFound('API key', apiKeyId);
+      }
+
+      logger.info({ msg: 'API key revoked successfully', apiKeyId, userId });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to revoke API key',
+        userId,
+        apiKeyId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Resolve the key a request was made with, and the active user it belongs to
+  async authenticate(key: string, ip?: string): Promise<ApiKeyAuthentication> {
+    const apiKey = key.startsWith(API_KEY_PREFIX)
+      ? await ApiKey.findOne({ keyHash: hashKey(key), revokedAt: { $exists: false } })
+      : null;
+
+    if (!apiKey) {
+      throw ApiErrors.unauthorized('Invalid API key', { code: 'INVALID_API_KEY' });
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+      throw ApiErrors.unauthorized('API key has expired', { code: 'API_KEY_EXPIRED' });
+    }
+    if (!isIpAllowed(apiKey.allowedIps, ip)) {
+      logger.warn({
+        msg: 'API key used from an address outside its allowlist',
+        apiKeyId: (apiKey._id as Types.ObjectId).toString(),
+        ip
+      });
+      throw ApiErrors.forbidden('API key cannot be used from this address', {
+        code: 'API_KEY_IP_NOT_ALLOWED'
+      });
+    }
+
+    const user = await User.findById(apiKey.userId).select('_id email name role isActive');
+    if (!user || !user.isActive) {
+      throw ApiErrors.unauthorized('User not found or deactivated', { code: 'USER_NOT_ACTIVE' });
+    }
+
+    const now = new Date();
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_INTERVAL_MS) {
+      await ApiKey.updateOne(
+        { _id: apiKey._id },
+        { $set: { lastUsedAt: now, lastUsedIp: ip && normalizeIp(ip) } }
+      );
+    }
+
+    return { apiKey, user };
+  }
+
+  // Keys reach the route groups named in their scopes; `read` only allows safe methods.
+  // Account, admin and key management routes are never reachable with a key.
+  assertScope(apiKey: IApiKey, baseUrl: string, method: string): void {
+    const resource = baseUrl.split('/').pop() as ApiKeyResource;
+    const access = ['GET', 'HEAD', 'OPTIONS'].includes(method) ? 'read' : 'write';
+
+    const allowed =
+      API_KEY_RESOURCES.includes(resource) &&
+      apiKey.scopes.some(scope => {
+        const [scopeResource, scopeAccess] = scope.split(':');
+        return (
+          (scopeResource === '*' || scopeResource === resource) &&
+          (scopeAccess === 'write' || access === 'read')
+        );
+      });
+
+    if (!allowed) {
+      throw ApiErrors.forbidden('API key does not grant access to this resource', {
+        code: 'API_KEY_SCOPE_DENIED'
+      });
+    }
+  }
+}
+
+export const apiKeysService = new ApiKeysService();
+export default apiKeysService;
@@ -0,0 +1,91 @@
+import { Types } from 'mongoose';
+
+import logger from '../config/logger.js';
+import { AuditLog } from '../models/AuditLog.js';
+import { parsePagination, createPaginatedResponse } from '../utils/pagination.js';
+
+import type { AuditAction } from '../models/AuditLog.js';
+import type { AuditLogQueryInput } from '../validators/admin.schema.js';
+
+// Admin performing an action, and where the request came from
+export interface AuditContext {
+  actorId: string;
+  ip?: string;
+  userAgent?: string;
+  requestId?: string;
+}
+
+// User an action was performed on
+export interface AuditTarget {
+  id: string;
+  email?: string;
+}
+
+class AuditLogService {
+  // Record an admin action once it has succeeded; a failed write is logged but does not undo it
+  async record(
+    context: AuditContext,
+    action: AuditAction,
+    target?: AuditTarget,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await AuditLog.create({
+        actorId: new Types.ObjectId(context.actorId),
+        action,
+        targetUserId: target && new Types.ObjectId(target.id),
+        targetEmail: target?.email,
+        details,
+        ip: context.ip,
+        userAgent: context.userAgent,
+        requestId: context.requestId
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to record audit log entry',
+        action,
+        actorId: context.actorId,
+        targetUserId: target?.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // List audit entries, newest first
+  async listAuditLogs(query: AuditLogQueryInput) {
+    try {
+      const pagination = parsePagination(query);
+      const filter: Record<string, unknown> = {};
+
+      if (query.action) {
+        filter.action = query.action;
+      }
+      if (query.actorId) {
+        filter.actorId = new Types.ObjectId(query.actorId);
+      }
+      if (query.targetUserId) {
+        filter.targetUserId = new Types.ObjectId(query.targetUserId);
+      }
+
+      const [entries, total] = await Promise.all([
+        AuditLog.find(filter)
+          .populate('actorId', 'name email')
+          .sort({ createdAt: -1 })
+          .skip(pagination.skip)
+          .limit(pagination.limit),
+        AuditLog.countDocuments(filter)
+      ]);
+
+      return createPaginatedResponse(entries, total, pagination);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to list audit log entries',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const auditLogService = new AuditLogService();
+export default auditLogService;
@@ -1,10 +1,22 @@
+import crypto from 'crypto';
+
 import jwt from 'jsonwebtoken';
-import RefreshToken from '../models/refreshTokenModel.js';
-import { JWT_SECRET, JWT_EXPIRES_IN } from '../config/env.js';
+
+import { JWT_SECRET, JWT_EXPIRES_IN, REFRESH_TOKEN_EXPIRES_IN_DAYS } from '../config/env.js';
 import logger from '../config/logger.js';
+import RefreshToken from '../models/refreshTokenModel.js';
 import { User } from '../models/User.js';
-import { ApiErrors } from '../utils/ApiError.js';
-import crypto from 'crypto';
+import { ApiError, ApiErrors } from '../utils/ApiError.js';
+import { describeUserAgent, fingerprintUserAgent } from '../utils/userAgent.js';
+
+import accountLockoutService from './accountLockout.service.js';
+import mailService from './mail.service.js';
+import organizationsService from './organizations.service.js';
+import twoFactorService from './twoFactor.service.js';
+
+import type { ActiveOrganization } from './organizations.service.js';
+import type { TwoFactorChallenge } from './twoFactor.service.js';
+import type { IRefreshToken, RefreshTokenRevokedReason } from '../models/refreshTokenModel.js';
 import type { IUser } from '../models/User.js';
 import type {
   RegisterInput,
@@ -28,8 +40,48 @@ export interface AuthResponse {
   };
   token: string;
   expiresIn: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+  sessionId: string;
+  organization: ActiveOrganization;
 }
 
+// Access token for another organization in the same session
+export interface OrganizationSwitchResponse {
+  token: string;
+  expiresIn: string;
+  organization: ActiveOrganization;
+}
+
+// Where a request came from; refresh tokens are bound to it
+export interface ClientContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+// Signed-in device, one per refresh token family
+export interface UserSession {
+  id: string;
+  device: string;
+  userAgent: string;
+  ip: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+// Refresh token handed to the client and the session it belongs to
+interface IssuedRefreshToken {
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+  document: IRefreshToken;
+  organization: ActiveOrganization;
+}
+
+// Number of devices remembered per user for new-device alerts
+const MAX_KNOWN_DEVICES = 20;
+
 // User profile interface
 export interface UserProfile {
   id: string;
@@ -37,6 +89,7 @@ export interface UserProfile {
   email: string;
   role: string;
   isEmailVerified: boolean;
+  twoFactorEnabled: boolean;
   preferences: any;
   avatarUrl: string;
   createdAt: Date;
@@ -45,21 +98,100 @@ export interface UserProfile {
 
 class AuthService {
   // Generate JWT token for user
-  private generateToken(userId: string, email: string, tokenVersion: number): string {
+  private generateToken(
+    userId: string,
+    email: string,
+    tokenVersion: number,
+    sessionId?: string,
+    organizationId?: string
+  ): string {
     return jwt.sign(
-      { id: userId, email, tokenVersion },
+      {
+        id: userId,
+        email,
+        tokenVersion,
+        ...(sessionId && { sid: sessionId }),
+        ...(organizationId && { org: organizationId })
+      },
       JWT_SECRET as Secret,
       { expiresIn: JWT_EXPIRES_IN } as SignOptions
     );
   }
 
+  // Hash an opaque token before it is stored or looked up
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  // Store a new refresh token, continuing the given session when rotating
+  private async issueRefreshToken(
+    userId: string,
+    context: ClientContext,
+    organization: ActiveOrganization,
+    session?: Pick<IRefreshToken, 'family' | 'sessionStartedAt'>
+  ): Promise<IssuedRefreshToken> {
+    const refreshToken = crypto.randomBytes(32).toString('hex');
+    const refreshTokenExpiresAt = new Date(
+      Date.now() + REFRESH_TOKEN_EXPIRES_IN_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    const document = await RefreshToken.create({
+      user: userId,
+      token: this.hashToken(refreshToken),
+      ...(session && { family: session.family, sessionStartedAt: session.sessionStartedAt }),
+      organizationId: organization.id,
+      ip: context.ip || '',
+      userAgent: context.userAgent || '',
+      expiresAt: refreshTokenExpiresAt
+    });
+
+    return { refreshToken, refreshTokenExpiresAt, document, organization };
+  }
+
+  // Revoke every token rotated from the same login
+  private async revokeTokenFamily(
+    tokenDoc: IRefreshToken,
+    reason: RefreshTokenRevokedReason
+  ): Promise<void> {
+    await RefreshToken.updateMany(
+      { $or: [{ family: tokenDoc.family }, { _id: tokenDoc._id }], revokedAt: { $exists: false } },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+  }
+
+  // Remember the device the user signed in from; true when it was not seen before
+  private rememberDevice(user: IUser, context: ClientContext): boolean {
+    const fingerprint = fingerprintUserAgent(context.userAgent);
+    const knownDevice = user.knownDevices.find(device => device.fingerprint === fingerprint);
+
+    if (knownDevice) {
+      knownDevice.lastSeenAt = new Date();
+      return false;
+    }
+
+    user.knownDevices = [
+      ...user.knownDevices,
+      { fingerprint, device: describeUserAgent(context.userAgent), lastSeenAt: new Date() }
+    ]
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+      .slice(0, MAX_KNOWN_DEVICES);
+    return true;
+  }
+
   // Create auth response object
-  private createAuthResponse(user: IUser): AuthResponse {
-    const token = this.generateToken((user as any)._id.toString(), user.email, user.tokenVersion);
+  private createAuthResponse(user: IUser, refresh: IssuedRefreshToken): AuthResponse {
+    const sessionId = refresh.document.family;
+    const token = this.generateToken(
+      user._id.toString(),
+      user.email,
+      user.tokenVersion,
+      sessionId,
+      refresh.organization.id
+    );
 
     return {
       user: {
-        id: (user as any)._id.toString(),
+        id: user._id.toString(),
         name: user.name,
         email: user.email,
         role: user.role,
@@ -68,7 +200,11 @@ class AuthService {
         createdAt: user.createdAt
       },
       token,
-      expiresIn: JWT_EXPIRES_IN
+      expiresIn: JWT_EXPIRES_IN,
+      refreshToken: refresh.refreshToken,
+      refreshTokenExpiresAt: refresh.refreshTokenExpiresAt,
+      sessionId,
+      organization: refresh.organization
     };
   }
 
@@ -78,7 +214,7 @@ class AuthService {
   }
 
   // Register new user
-  async register(userData: RegisterInput): Promise<AuthResponse> {
+  async register(userData: RegisterInput, context: ClientContext = {}): Promise<AuthResponse> {
     try {
       // Check if user already exists
       const existingUser = await User.findOne({ email: userData.email });
@@ -92,16 +228,20 @@ class AuthService {
         email: userData.email,
         password: userData.password
       });
+      this.rememberDevice(user, context);
 
       await user.save();
 
       logger.info({
         msg: 'User registered successfully',
-        userId: (user as any)._id.toString(),
+        userId: user._id.toString(),
         email: user.email
       });
 
-      return this.createAuthResponse(user);
+      const userId = user._id.toString();
+      const organization = await organizationsService.getSessionOrganization(userId);
+      const refresh = await this.issueRefreshToken(userId, context, organization);
+      return this.createAuthResponse(user, refresh);
     } catch (error) {
       logger.error({
         msg: 'User registration failed',
@@ -113,54 +253,335 @@ class AuthService {
     }
   }
 
-  // Authenticate user login
-  async login(credentials: LoginInput): Promise<AuthResponse> {
+  // Finish a login once every factor is checked
+  private async completeLogin(user: IUser, context: ClientContext): Promise<AuthResponse> {
+    await accountLockoutService.recordSuccessfulLogin(user);
+
+    // Update last login and alert the user about unrecognised devices
+    const hadKnownDevices = user.knownDevices.length > 0;
+    const isNewDevice = this.rememberDevice(user, context);
+    user.lastLoginAt = new Date();
+    await user.save();
+
+    if (isNewDevice && hadKnownDevices) {
+      void mailService.sendNewDeviceLoginEmail(user.email, {
+        name: user.name,
+        device: describeUserAgent(context.userAgent),
+        ip: context.ip,
+        loginAt: user.lastLoginAt
+      });
+    }
+
+    // Generate email verification token
+    const verificationToken = user.generateEmailVerificationToken();
+    await user.save();
+
+    // TODO: use mailService here
+    // await mailService.sendVerificationEmail(user.email, verificationToken);
+
+    logger.info({
+      msg: 'User logged in successfully',
+      userId: user._id.toString(),
+      email: user.email
+    });
+
+    // New sessions start in the organization the user last switched to
+    const userId = user._id.toString();
+    const organization = await organizationsService.getSessionOrganization(
+      userId,
+      user.activeOrganizationId?.toString()
+    );
+    const refresh = await this.issueRefreshToken(userId, context, organization);
+    return this.createAuthResponse(user, refresh);
+  }
+
+  // Authenticate user login; users with two-factor authentication get a challenge instead
+  async login(
+    credentials: LoginInput,
+    context: ClientContext = {}
+  ): Promise<AuthResponse | TwoFactorChallenge> {
     try {
       // Find user with password
       const user = await User.findOne({
         email: credentials.email,
         isActive: true
-      }).select('+password');
+      }).select('+password +knownDevices');
 
       if (!user) {
         throw ApiErrors.unauthorized('Invalid email or password');
       }
 
+      accountLockoutService.assertLoginAllowed(user);
+
       // Check password
       const isPasswordValid = await user.comparePassword(credentials.password);
       if (!isPasswordValid) {
+        await accountLockoutService.recordFailedLogin(user, context);
         throw ApiErrors.unauthorized('Invalid email or password');
       }
 
-      // Update last login
-      user.lastLoginAt = new Date();
-      await user.save();
+      if (user.twoFactor?.enabled) {
+        logger.info({
+          msg: 'Two-factor challenge issued',
+          userId: user._id.toString()
+        });
+        return twoFactorService.createChallenge(user._id.toString());
+      }
 
-      // Generate email verification token
-      const verificationToken = user.generateEmailVerificationToken();
-      await user.save();
+      return await this.completeLogin(user, context);
+    } catch (error) {
+      logger.warn({
+        msg: 'Login attempt failed',
+        email: credentials.email,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Second login step: exchange the challenge and a TOTP or recovery code for tokens
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    context: ClientContext = {}
+  ): Promise<AuthResponse> {
+    try {
+      const userId = twoFactorService.verifyChallenge(challengeToken);
+
+      const user = await User.findOne({ _id: userId, isActive: true }).select('+knownDevices');
+      if (!user) {
+        throw ApiErrors.unauthorized('Invalid or expired two-factor challenge', {
+          code: 'INVALID_TWO_FACTOR_CHALLENGE'
+        });
+      }
+
+      // Wrong codes count towards the lockout like wrong passwords
+      accountLockoutService.assertLoginAllowed(user);
+      try {
+        await twoFactorService.verifyCode(userId, code);
+      } catch (error) {
+        if (error instanceof ApiError && error.code === 'INVALID_TWO_FACTOR_CODE') {
+          await accountLockoutService.recordFailedLogin(user, context);
+        }
+        throw error;
+      }
+
+      return await this.completeLogin(user, context);
+    } catch (error) {
+      logger.warn({
+        msg: 'Two-factor login failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
 
-      // TODO: use mailService here
-      // await mailService.sendVerificationEmail(user.email, verificationToken);
+  // Exchange a refresh token for a new access token and a rotated refresh token
+  async refreshAccessToken(token: string, context: ClientContext = {}): Promise<AuthResponse> {
+    try {
+      const tokenDoc = await RefreshToken.findOne({ token: this.hashToken(token) });
 
+      if (!tokenDoc || tokenDoc.expiresAt <= new Date()) {
+        throw ApiErrors.unauthorized('Invalid or expired refresh token', {
+          code: 'INVALID_REFRESH_TOKEN'
+        });
+      }
+
+      // A rotated or revoked token being presented again means it leaked
+      if (tokenDoc.usedAt || tokenDoc.revokedAt) {
+        await this.revokeTokenFamily(tokenDoc, 'reuse');
+        logger.warn({
+          msg: 'Refresh token reuse detected',
+          userId: tokenDoc.user.toString(),
+          family: tokenDoc.family
+        });
+        throw ApiErrors.unauthorized('Refresh token has already been used', {
+          code: 'REFRESH_TOKEN_REUSED'
+        });
+      }
+
+      if (
+        (tokenDoc.ip && tokenDoc.ip !== (context.ip || '')) ||
+        (tokenDoc.userAgent && tokenDoc.userAgent !== (context.userAgent || ''))
+      ) {
+        throw ApiErrors.unauthorized('Refresh token was issued to another client', {
+          code: 'REFRESH_TOKEN_MISMATCH'
+        });
+      }
+
+      const user = await User.findOne({ _id: tokenDoc.user, isActive: true });
+      if (!user) {
+        throw ApiErrors.unauthorized('Invalid or expired refresh token', {
+          code: 'INVALID_REFRESH_TOKEN'
+        });
+      }
+
+      // Claim the token so that concurrent exchanges cannot both succeed
+      const claimed = await RefreshToken.findOneAndUpdate(
+        { _id: tokenDoc._id, usedAt: { $exists: false }, revokedAt: { $exists: false } },
+        { usedAt: new Date() },
+        { new: true }
+      );
+      if (!claimed) {
+        await this.revokeTokenFamily(tokenDoc, 'reuse');
+        throw ApiErrors.unauthorized('Refresh token has already been used', {
+          code: 'REFRESH_TOKEN_REUSED'
+        });
+      }
+
+      const organization = await organizationsService.getSessionOrganization(
+        user._id.toString(),
+        tokenDoc.organizationId?.toString()
+      );
+      const refresh = await this.issueRefreshToken(
+        user._id.toString(),
+        context,
+        organization,
+        tokenDoc
+      );
+      await RefreshToken.updateOne({ _id: tokenDoc._id }, { replacedBy: refresh.document._id });
 
       logger.info({
-        msg: 'User logged in successfully',
-        userId: (user as any)._id.toString(),
-        email: user.email
+        msg: 'Refresh token rotated successfully',
+        userId: user._id.toString(),
+        family: tokenDoc.family
       });
 
-      return this.createAuthResponse(user);
+      return this.createAuthResponse(user, refresh);
     } catch (error) {
       logger.warn({
-        msg: 'Login attempt failed',
-        email: credentials.email,
+        msg: 'Refresh token exchange failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Revoke a refresh token and the tokens rotated from the same login
+  async revokeRefreshToken(token: string): Promise<void> {
+    try {
+      const tokenDoc = await RefreshToken.findOne({ token: this.hashToken(token) });
+      if (tokenDoc) {
+        await this.revokeTokenFamily(tokenDoc, 'logout');
+      }
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to revoke refresh token',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+
+  // List the user's signed-in sessions, most recently active first
+  async listSessions(userId: string, currentSessionId?: string): Promise<UserSession[]> {
+    try {
+      const activeTokens = await RefreshToken.find({
+        user: userId,
+        usedAt: { $exists: false },
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() }
+      }).sort({ createdAt: -1 });
+
+      return activeTokens.map(tokenDoc => ({
+        id: tokenDoc.family,
+        device: describeUserAgent(tokenDoc.userAgent),
+        userAgent: tokenDoc.userAgent,
+        ip: tokenDoc.ip,
+        createdAt: tokenDoc.sessionStartedAt,
+        lastSeenAt: tokenDoc.createdAt,
+        expiresAt: tokenDoc.expiresAt,
+        current: tokenDoc.family === currentSessionId
+      }));
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to list sessions',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Sign out a single session
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    try {
+      const tokenDoc = await RefreshToken.findOne({
+        user: userId,
+        family: sessionId,
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() }
+      });
+
+      if (!tokenDoc) {
+        throw ApiErrors.notFound('Session', sessionId);
+      }
+
+      await this.revokeTokenFamily(tokenDoc, 'session_revoked');
+
+      logger.info({ msg: 'Session revoked successfully', userId, sessionId });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to revoke session',
+        userId,
+        sessionId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
       throw error;
     }
   }
 
+  // Work in another organization for the rest of the session
+  async switchOrganization(
+    userId: string,
+    organizationId: string,
+    sessionId?: string
+  ): Promise<OrganizationSwitchResponse> {
+    try {
+      const organization = await organizationsService.getActiveOrganization(userId, organizationId);
+      const user = await User.findById(userId).select('email tokenVersion');
+      if (!user) {
+        throw ApiErrors.notFound('User', userId);
+      }
+
+      // Refreshed tokens keep the organization, and new sessions start in it
+      if (sessionId) {
+        await RefreshToken.updateMany(
+          { user: userId, family: sessionId },
+          { organizationId: organization.id }
+        );
+      }
+      await User.updateOne({ _id: userId }, { activeOrganizationId: organization.id });
+
+      logger.info({
+        msg: 'Organization switched successfully',
+        userId,
+        organizationId,
+        sessionId
+      });
+
+      return {
+        token: this.generateToken(
+          userId,
+          user.email,
+          user.tokenVersion,
+          sessionId,
+          organization.id
+        ),
+        expiresIn: JWT_EXPIRES_IN,
+        organization
+      };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to switch organization',
+        userId,
+        organizationId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
 
   async verifyEmail(token: string): Promise<void> {
   const hashedToken = require('crypto')
@@ -184,7 +605,7 @@ class AuthService {
 
   logger.info({
     msg: 'User email verified successfully',
-    userId: (user as any)._id.toString(),
+    userId: user._id.toString(),
     email: user.email
   });
 }
@@ -207,7 +628,7 @@ async resendVerificationEmail(email: string): Promise<void> {
 
   logger.info({
     msg: 'Verification email resent',
-    userId: (user as any)._id.toString(),
+    userId: user._id.toString(),
     email: user.email
   });
 }
@@ -223,11 +644,12 @@ async resendVerificationEmail(email: string): Promise<void> {
       }
 
       return {
-        id: (user as any)._id.toString(),
+        id: user._id.toString(),
         name: user.name,
         email: user.email,
         role: user.role,
         isEmailVerified: user.isEmailVerified,
+        twoFactorEnabled: user.twoFactor?.enabled ?? false,
         preferences: user.preferences,
         avatarUrl: user.avatar || '',
         createdAt: user.createdAt,
@@ -269,16 +691,17 @@ async resendVerificationEmail(email: string): Promise<void> {
 
       logger.info({
         msg: 'User profile updated',
-        userId: (user as any)._id.toString(),
+        userId: user._id.toString(),
         updatedFields: Object.keys(updateData)
       });
 
       return {
-        id: (user as any)._id.toString(),
+        id: user._id.toString(),
         name: user.name,
         email: user.email,
         role: user.role,
         isEmailVerified: user.isEmailVerified,
+        twoFactorEnabled: user.twoFactor?.enabled ?? false,
         preferences: user.preferences,
         avatarUrl: user.avatar || '',
         createdAt: user.createdAt,
@@ -309,13 +732,17 @@ async resendVerificationEmail(email: string): Promise<void> {
         throw ApiErrors.badRequest('Current password is incorrect');
       }
 
-      // Update password
+      // Update password and sign out every refresh token
       user.password = passwordData.newPassword;
       await user.save();
+      await RefreshToken.updateMany(
+        { user: user._id, revokedAt: { $exists: false } },
+        { revokedAt: new Date(), revokedReason: 'password_change' }
+      );
 
       logger.info({
         msg: 'Password changed successfully',
-        userId: (user as any)._id.toString()
+        userId: user._id.toString()
       });
     } catch (error) {
       logger.error({
@@ -348,10 +775,14 @@ async resendVerificationEmail(email: string): Promise<void> {
       user.passwordResetExpires = null as any;
 
       await user.save();
+      await RefreshToken.updateMany(
+        { user: user._id, revokedAt: { $exists: false } },
+        { revokedAt: new Date(), revokedReason: 'password_change' }
+      );
 
       logger.info({
         msg: 'Password reset successful',
-        userId: (user as any)._id.toString(),
+        userId: user._id.toString(),
         email: user.email
       });
     } catch (error) {
@@ -408,7 +839,7 @@ async resendVerificationEmail(email: string): Promise<void> {
 
       logger.info({
         msg: 'Password reset token generated',
-        userId: (user as any)._id.toString(),
+        userId: user._id.toString(),
         email: user.email
       });
 
@@ -435,7 +866,7 @@ async resendVerificationEmail(email: string): Promise<void> {
 
       logger.info({
         msg: 'User account deactivated',
-        userId: (user as any)._id.toString(),
+        userId: user._id.toString(),
         email: user.email
       });
     } catch (error) {
@@ -492,7 +923,7 @@ async confirmDeactivateAccount(token: string): Promise<void> {
   user.deactivationTokenExpires = undefined;
   await user.save();
 
-  logger.info({ msg: 'Account deactivated via email confirmation', userId: (user as any)._id.toString() });
+  logger.info({ msg: 'Account deactivated via email confirmation', userId: user._id.toString() });
 }
 
 
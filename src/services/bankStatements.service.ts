@@ -0,0 +1,520 @@
+import { createHash, randomUUID } from 'crypto';
+
+import { Types } from 'mongoose';
+
+import logger from '../config/logger.js';
+import { BankTransaction } from '../models/BankTransaction.js';
+import { Invoice } from '../models/Invoice.js';
+import { User } from '../models/User.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import { parseBankStatement } from '../utils/bankStatements.js';
+import { toMinorUnits } from '../utils/money.js';
+import { parsePagination, createPaginatedResponse } from '../utils/pagination.js';
+
+import invoicesService from './invoices.service.js';
+
+import type { IBankMatchSuggestion, IBankTransaction } from '../models/BankTransaction.js';
+import type { IInvoice } from '../models/Invoice.js';
+import type { StatementTransaction } from '../utils/bankStatements.js';
+import type { OrganizationScope } from '../utils/organizationScope.js';
+import type {
+  ImportBankStatementInput,
+  BankTransactionQueryInput,
+  ConfirmBankMatchInput,
+  IgnoreBankTransactionInput
+} from '../validators/bankStatement.schema.js';
+
+// Invoices a transaction can pay
+const OPEN_STATUSES = ['sent', 'viewed', 'overdue'];
+
+// Suggestions below this confidence are dropped
+const MIN_CONFIDENCE = 0.3;
+const MAX_SUGGESTIONS = 3;
+
+// Confidence contributed by each kind of evidence; the total is capped at 1
+const SCORE = {
+  number: 0.5,
+  amount: 0.35,
+  totalAmount: 0.25,
+  partialAmount: 0.05,
+  clientName: 0.25
+};
+
+// Words too common in company names to identify a client
+const NAME_STOP_WORDS = new Set(['ltd', 'llc', 'inc', 'gmbh', 'the', 'and', 'company', 'corp']);
+
+// Letters and digits only, so "INV-2026-0001" is found in "inv 2026 0001"
+const normalize = (text = ''): string => text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const nameTokens = (text = ''): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 2 && !NAME_STOP_WORDS.has(token));
+
+// Transaction fields a match is scored on
+type MatchableTransaction = Pick<
+  StatementTransaction,
+  'amount' | 'counterparty' | 'reference' | 'description'
+> & { currency: string };
+
+class BankStatementsService {
+  // Find a transaction of the organization
+  private async findOwnedTransaction(
+    scope: OrganizationScope,
+    transactionId: string
+  ): Promise<IBankTransaction> {
+    const transaction = await BankTransaction.findOne({
+      _id: transactionId,
+      organizationId: scope.organizationId
+    });
+    if (!transaction) {
+      throw ApiErrors.notFound('Bank transaction', transactionId);
+    }
+    return transaction;
+  }
+
+  // Invoices that can still take a payment, with their client names
+  private async getOpenInvoices(scope: OrganizationScope): Promise<IInvoice[]> {
+    return Invoice.find({
+      organizationId: new Types.ObjectId(scope.organizationId),
+      status: { $in: OPEN_STATUSES },
+      remainingBalance: { $gt: 0 }
+    }).populate('clientId', 'name company');
+  }
+
+  // Score how likely a transaction pays an invoice, from the invoice number in the
+  // payment details, the amount, and the payer name against the client
+  private scoreMatch(
+    transaction: MatchableTransaction,
+    invoice: IInvoice
+  ): IBankMatchSuggestion | null {
+    if (transaction.currency !== invoice.currency) {
+      return null;
+    }
+
+    const paid = toMinorUnits(transaction.amount, invoice.currency);
+    const remaining = toMinorUnits(invoice.remainingBalance, invoice.currency);
+
+    // A payment above the balance could not be recorded
+    if (paid > remaining) {
+      return null;
+    }
+
+    const reasons: string[] = [];
+    let confidence = 0;
+
+    const details = normalize(
+      [transaction.reference, transaction.description, transaction.counterparty].join(' ')
+    );
+    const number = normalize(invoice.number);
+    if (number.length >= 3 && details.includes(number)) {
+      confidence += SCORE.number;
+      reasons.push('number');
+    }
+
+    if (paid === remaining) {
+      confidence += SCORE.amount;
+      reasons.push('amount');
+    } else if (paid === toMinorUnits(invoice.total, invoice.currency)) {
+      confidence += SCORE.totalAmount;
+      reasons.push('total_amount');
+    } else {
+      confidence += SCORE.partialAmount;
+      reasons.push('partial_amount');
+    }
+
+    const client = invoice.clientId as any;
+    const clientTokens = [...new Set(nameTokens(`${client?.name ?? ''} ${client?.company ?? ''}`))];
+    const payerTokens = new Set(
+      nameTokens(`${transaction.counterparty ?? ''} ${transaction.description ?? ''}`)
+    );
+    const shared = clientTokens.filter(token => payerTokens.has(token)).length;
+    if (clientTokens.length > 0 && shared / clientTokens.length >= 0.5) {
+      confidence += (SCORE.clientName * shared) / clientTokens.length;
+      reasons.push('client_name');
+    }
+
+    return {
+      invoiceId: invoice._id as Types.ObjectId,
+      number: invoice.number,
+      clientName: client?.company || client?.name,
+      remainingBalance: invoice.remainingBalance,
+      confidence: Math.round(Math.min(confidence, 1) * 100) / 100,
+      reasons
+    };
+  }
+
+  // Best matching invoices for a transaction
+  private suggestMatches(
+    transaction: MatchableTransaction,
+    invoices: IInvoice[]
+  ): IBankMatchSuggestion[] {
+    return invoices
+      .map(invoice => this.scoreMatch(transaction, invoice))
+      .filter((suggestion): suggestion is IBankMatchSuggestion => !!suggestion)
+      .filter(suggestion => suggestion.confidence >= MIN_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  // Refresh the suggestions of an open transaction
+  private applySuggestions(transaction: IBankTransaction, invoices: IInvoice[]): void {
+    const suggestions = this.suggestMatches(transaction, invoices);
+    transaction.set('suggestions', suggestions);
+    transaction.status = suggestions.length > 0 ? 'suggested' : 'unmatched';
+
+    if (suggestions.length > 0) {
+      transaction.recordEvent('suggested', undefined, {
+        invoiceId: suggestions[0].invoiceId,
+        notes: `Best match ${suggestions[0].number} with confidence ${suggestions[0].confidence}`
+      });
+    }
+  }
+
+  // Import a statement file and suggest matches for the money received. Debits are
+  // skipped, and transactions already imported from an overlapping statement are kept once.
+  async importStatement(scope: OrganizationScope, importData: ImportBankStatementInput) {
+    try {
+      const parsed = parseBankStatement(importData.format, importData.content);
+      if (parsed.length === 0) {
+        throw ApiErrors.badRequest('No transactions found in file', {
+          code: 'EMPTY_STATEMENT'
+        });
+      }
+
+      const user = await User.findById(scope.ownerId).select('preferences.currency');
+      const defaultCurrency = importData.currency ?? user?.preferences?.currency ?? 'USD';
+      const importId = randomUUID();
+      const credits = parsed.filter(transaction => transaction.amount > 0);
+
+      // Identical rows without a bank ID are told apart by their position in the file
+      const occurrences = new Map<string, number>();
+      const candidates = credits.map(transaction => {
+        const currency = transaction.currency ?? defaultCurrency;
+        const key = transaction.externalId
+          ? `id:${transaction.externalId}`
+          : [
+              transaction.date.toISOString().split('T')[0],
+              transaction.amount,
+              currency,
+              normalize(transaction.reference),
+              normalize(transaction.counterparty)
+            ].join('|');
+        const occurrence = (occurrences.get(key) ?? 0) + 1;
+        occurrences.set(key, occurrence);
+
+        return {
+          ...transaction,
+          currency,
+          fingerprint: createHash('sha256').update(`${key}#${occurrence}`).digest('hex')
+        };
+      });
+
+      const existing = await BankTransaction.find({
+        organizationId: new Types.ObjectId(scope.organizationId),
+        fingerprint: { $in: candidates.map(candidate => candidate.fingerprint) }
+      }).select('fingerprint');
+      const known = new Set(existing.map(transaction => transaction.fingerprint));
+      const fresh = candidates.filter(candidate => !known.has(candidate.fingerprint));
+
+      const invoices = fresh.length > 0 ? await this.getOpenInvoices(scope) : [];
+      const transactions = fresh.map(candidate => {
+        const transaction = new BankTransaction({
+          ...candidate,
+          userId: scope.ownerId,
+          organizationId: scope.organizationId,
+          importId,
+          format: importData.format,
+          counterparty: candidate.counterparty?.slice(0, 200),
+          reference: candidate.reference?.slice(0, 200),
+          description: candidate.description?.slice(0, 1000)
+        });
+        transaction.recordEvent('imported', scope.userId);
+        this.applySuggestions(transaction, invoices);
+        return transaction;
+      });
+
+      if (transactions.length > 0) {
+        await BankTransaction.insertMany(transactions);
+      }
+
+      const summary = {
+        importId,
+        format: importData.format,
+        transactions: parsed.length,
+        imported: transactions.length,
+        duplicates: candidates.length - fresh.length,
+        debits: parsed.length - credits.length,
+        suggested: transactions.filter(transaction => transaction.status === 'suggested').length
+      };
+
+      logger.info({
+        msg: 'Bank statement imported successfully',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        ...summary
+      });
+
+      return summary;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to import bank statement',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        format: importData.format,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // List imported transactions with filters and pagination
+  async getTransactions(scope: OrganizationScope, query: BankTransactionQueryInput) {
+    try {
+      const pagination = parsePagination(query);
+      const filter: any = { organizationId: new Types.ObjectId(scope.organizationId) };
+
+      if (query.status) {
+        filter.status = query.status;
+      }
+      if (query.importId) {
+        filter.importId = query.importId;
+      }
+
+      const [transactions, total] = await Promise.all([
+        BankTransaction.find(filter)
+          .select('-history -fingerprint')
+          .sort({ date: -1, createdAt: -1 })
+          .skip(pagination.skip)
+          .limit(pagination.limit)
+          .lean(),
+        BankTransaction.countDocuments(filter)
+      ]);
+
+      return createPaginatedResponse(transactions, total, pagination);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get bank transactions',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Get a transaction with its audit trail
+  async getTransactionById(
+    scope: OrganizationScope,
+    transactionId: string
+  ): Promise<IBankTransaction> {
+    try {
+      return await this.findOwnedTransaction(scope, transactionId);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get bank transaction',
+        transactionId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Confirm that a transaction paid an invoice and record the payment
+  async confirmMatch(
+    scope: OrganizationScope,
+    transactionId: string,
+    matchData: ConfirmBankMatchInput
+  ): Promise<IBankTransaction> {
+    try {
+      const transaction = await this.findOwnedTransaction(scope, transactionId);
+
+      if (transaction.status === 'matched') {
+        throw ApiErrors.conflict('Transaction is already matched to an invoice', {
+          code: 'TRANSACTION_ALREADY_MATCHED'
+        });
+      }
+      if (transaction.status === 'ignored') {
+        throw ApiErrors.conflict('Reopen an ignored transaction before matching it', {
+          code: 'TRANSACTION_IGNORED'
+        });
+      }
+
+      const invoiceId = matchData.invoiceId ?? transaction.suggestions[0]?.invoiceId.toString();
+      if (!invoiceId) {
+        throw ApiErrors.badRequest('An invoice is required when no match was suggested', {
+          code: 'INVOICE_REQUIRED',
+          details: [{ field: 'invoiceId', message: 'Invoice ID is required' }]
+        });
+      }
+
+      const invoice = await Invoice.findOne({
+        _id: invoiceId,
+        organizationId: scope.organizationId
+      });
+      if (!invoice) {
+        throw ApiErrors.notFound('Invoice', invoiceId);
+      }
+      if (invoice.currency !== transaction.currency) {
+        throw ApiErrors.badRequest(
+          `Transaction currency ${transaction.currency} does not match invoice currency ${invoice.currency}`,
+          { code: 'CURRENCY_MISMATCH' }
+        );
+      }
+
+      // Claim the transaction so concurrent confirmations cannot record it twice
+      const previousStatus = transaction.status;
+      const claim = await BankTransaction.updateOne(
+        { _id: transaction._id, status: previousStatus },
+        { $set: { status: 'matched' } }
+      );
+      if (claim.modifiedCount === 0) {
+        throw ApiErrors.conflict('Transaction is already matched to an invoice', {
+          code: 'TRANSACTION_ALREADY_MATCHED'
+        });
+      }
+
+      let updatedInvoice: IInvoice;
+      try {
+        updatedInvoice = await invoicesService.addPayment(scope, invoiceId, {
+          amount: transaction.amount,
+          date: transaction.date,
+          method: 'bank_transfer',
+          reference: (transaction.reference ?? transaction.externalId)?.slice(0, 100),
+          notes: matchData.notes ?? 'Reconciled from bank statement'
+        });
+      } catch (error) {
+        await BankTransaction.updateOne(
+          { _id: transaction._id },
+          { $set: { status: previousStatus } }
+        );
+        throw error;
+      }
+
+      const suggestion = transaction.suggestions.find(
+        entry => entry.invoiceId.toString() === invoiceId
+      );
+      transaction.status = 'matched';
+      transaction.match = {
+        invoiceId: invoice._id as Types.ObjectId,
+        number: invoice.number,
+        paymentId: updatedInvoice.payments[updatedInvoice.payments.length - 1]._id,
+        confidence: suggestion?.confidence,
+        confirmedBy: new Types.ObjectId(scope.userId),
+        confirmedAt: new Date()
+      };
+      transaction.recordEvent('confirmed', scope.userId, {
+        invoiceId,
+        notes: suggestion
+          ? `Suggested match confirmed with confidence ${suggestion.confidence}`
+          : 'Matched manually'
+      });
+      await transaction.save();
+
+      logger.info({
+        msg: 'Bank transaction matched successfully',
+        transactionId,
+        invoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        amount: transaction.amount,
+        confidence: suggestion?.confidence
+      });
+
+      return transaction;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to match bank transaction',
+        transactionId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Mark a transaction as not being an invoice payment
+  async ignoreTransaction(
+    scope: OrganizationScope,
+    transactionId: string,
+    ignoreData: IgnoreBankTransactionInput
+  ): Promise<IBankTransaction> {
+    try {
+      const transaction = await this.findOwnedTransaction(scope, transactionId);
+
+      if (transaction.status === 'matched') {
+        throw ApiErrors.conflict('Transaction is already matched to an invoice', {
+          code: 'TRANSACTION_ALREADY_MATCHED'
+        });
+      }
+
+      transaction.status = 'ignored';
+      transaction.recordEvent('ignored', scope.userId, { notes: ignoreData.reason });
+      await transaction.save();
+
+      logger.info({
+        msg: 'Bank transaction ignored successfully',
+        transactionId,
+        organizationId: scope.organizationId,
+        userId: scope.userId
+      });
+
+      return transaction;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to ignore bank transaction',
+        transactionId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Reopen an ignored transaction with fresh suggestions
+  async reopenTransaction(
+    scope: OrganizationScope,
+    transactionId: string
+  ): Promise<IBankTransaction> {
+    try {
+      const transaction = await this.findOwnedTransaction(scope, transactionId);
+
+      if (transaction.status !== 'ignored') {
+        throw ApiErrors.conflict('Only ignored transactions can be reopened', {
+          code: 'TRANSACTION_NOT_IGNORED'
+        });
+      }
+
+      transaction.recordEvent('reopened', scope.userId);
+      this.applySuggestions(transaction, await this.getOpenInvoices(scope));
+      await transaction.save();
+
+      logger.info({
+        msg: 'Bank transaction reopened successfully',
+        transactionId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        status: transaction.status
+      });
+
+      return transaction;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to reopen bank transaction',
+        transactionId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const bankStatementsService = new BankStatementsService();
+export default bankStatementsService;
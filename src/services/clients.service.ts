@@ -2,10 +2,16 @@ import { Types } from 'mongoose';
 
 import logger from '../config/logger.js';
 import { Client } from '../models/Client.js';
+import { Invoice } from '../models/Invoice.js';
 import { ApiErrors } from '../utils/ApiError.js';
+import { roundMoney } from '../utils/money.js';
 import { parsePagination, createPaginatedResponse, createSortObject } from '../utils/pagination.js';
 
+import exchangeRatesService from './exchangeRates.service.js';
+import webhooksService from './webhooks.service.js';
+
 import type { IClient } from '../models/Client.js';
+import type { OrganizationScope } from '../utils/organizationScope.js';
 import type {
   CreateClientInput,
   UpdateClientInput,
@@ -14,11 +20,11 @@ import type {
 
 class ClientsService {
   // Create a new client
-  async createClient(userId: string, clientData: CreateClientInput): Promise<IClient> {
+  async createClient(scope: OrganizationScope, clientData: CreateClientInput): Promise<IClient> {
     try {
-      // Check if client with same email already exists for this user
+      // Check if client with same email already exists in this organization
       const existingClient = await Client.findOne({
-        userId: new Types.ObjectId(userId),
+        organizationId: new Types.ObjectId(scope.organizationId),
         email: clientData.email
       });
 
@@ -27,16 +33,19 @@ class ClientsService {
       }
 
       const client = new Client({
-        userId: new Types.ObjectId(userId),
+        userId: new Types.ObjectId(scope.ownerId),
+        organizationId: new Types.ObjectId(scope.organizationId),
         ...clientData
       });
 
       await client.save();
+      await webhooksService.dispatch('client.created', client, { client: client.toJSON() });
 
       logger.info({
         msg: 'Client created successfully',
         clientId: (client._id as Types.ObjectId).toString(),
-        userId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
         clientEmail: client.email
       });
 
@@ -44,7 +53,8 @@ class ClientsService {
     } catch (error) {
       logger.error({
         msg: 'Failed to create client',
-        userId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
         clientEmail: clientData.email,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
@@ -53,12 +63,12 @@ class ClientsService {
   }
 
   // Get clients with pagination and filtering
-  async getClients(userId: string, query: ClientQueryInput) {
+  async getClients(scope: OrganizationScope, query: ClientQueryInput) {
     try {
-      const pagination = parsePagination({ query } as any);
+      const pagination = parsePagination(query);
 
       // Build filter
-      const filter: any = { userId: new Types.ObjectId(userId) };
+      const filter: any = { organizationId: new Types.ObjectId(scope.organizationId) };
 
       if (query.search) {
         filter.$or = [
@@ -111,7 +121,8 @@ class ClientsService {
     } catch (error) {
       logger.error({
         msg: 'Failed to get clients',
-        userId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
       throw error;
@@ -119,11 +130,11 @@ class ClientsService {
   }
 
   // Get client by ID
-  async getClientById(userId: string, clientId: string): Promise<IClient> {
+  async getClientById(scope: OrganizationScope, clientId: string): Promise<IClient> {
     try {
       const client = await Client.findOne({
         _id: new Types.ObjectId(clientId),
-        userId: new Types.ObjectId(userId)
+        organizationId: new Types.ObjectId(scope.organizationId)
       });
 
       if (!client) {
@@ -134,7 +145,8 @@ class ClientsService {
     } catch (error) {
       logger.error({
         msg: 'Failed to get client by ID',
-        userId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
         clientId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
@@ -144,7 +156,7 @@ class ClientsService {
 
   // Update client
   async updateClient(
-    userId: string,
+    scope: OrganizationScope,
     clientId: string,
     updateData: UpdateClientInput
   ): Promise<IClient> {
@@ -152,7 +164,7 @@ class ClientsService {
       // Check if email is being changed and if it conflicts
       if (updateData.email) {
         const existingClient = await Client.findOne({
-          userId: new Types.ObjectId(userId),
+          organizationId: new Types.ObjectId(scope.organizationId),
           email: updateData.email,
           _id: { $ne: new Types.ObjectId(clientId) }
         });
@@ -165,7 +177,7 @@ class ClientsService {
       const client = await Client.findOneAndUpdate(
         {
           _id: new Types.ObjectId(clientId),
-          userId: new Types.ObjectId(userId)
+          organizationId: new Types.ObjectId(scope.organizationId)
         },
         updateData,
         { new: true, runValidators: true }
@@ -175,10 +187,16 @@ class ClientsService {
         throw ApiErrors.notFound('Client', clientId);
       }
 
+      await webhooksService.dispatch('client.updated', client, {
+        client: client.toJSON(),
+        updatedFields: Object.keys(updateData)
+      });
+
       logger.info({
         msg: 'Client updated successfully',
         clientId: (client._id as Types.ObjectId).toString(),
-        userId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
         updatedFields: Object.keys(updateData)
       });
 
@@ -186,7 +204,8 @@ class ClientsService {
     } catch (error) {
       logger.error({
         msg: 'Failed to update client',
-        userId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
         clientId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
@@ -195,11 +214,13 @@ class ClientsService {
   }
 
   // Delete client
-  async deleteClient(userId: string, clientId: string): Promise<void> {
+  async deleteClient(scope: OrganizationScope, clientId: string): Promise<void> {
     try {
       // Check if client has invoices
-      // const invoiceCount = await Invoice.countDocuments({ clientId: new Types.ObjectId(clientId) });
-      const invoiceCount = 0;
+      const invoiceCount = await Invoice.countDocuments({
+        organizationId: new Types.ObjectId(scope.organizationId),
+        clientId: new Types.ObjectId(clientId)
+      });
 
       if (invoiceCount > 0) {
         throw ApiErrors.badRequest(
@@ -209,7 +230,7 @@ class ClientsService {
 
       const client = await Client.findOneAndDelete({
         _id: new Types.ObjectId(clientId),
-        userId: new Types.ObjectId(userId)
+        organizationId: new Types.ObjectId(scope.organizationId)
       });
 
       if (!client) {
@@ -219,13 +240,15 @@ class ClientsService {
       logger.info({
         msg: 'Client deleted successfully',
         clientId: (client._id as Types.ObjectId).toString(),
-        userId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
         clientEmail: client.email
       });
     } catch (error) {
       logger.error({
         msg: 'Failed to delete client',
-        userId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
         clientId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
@@ -234,44 +257,92 @@ class ClientsService {
   }
 
   // Get client statistics
-  async getClientStats(userId: string, clientId?: string) {
+  async getClientStats(scope: OrganizationScope, clientId?: string) {
     try {
-      const filter: any = { userId: new Types.ObjectId(userId) };
+      const filter: any = { organizationId: new Types.ObjectId(scope.organizationId) };
       if (clientId) {
         filter._id = new Types.ObjectId(clientId);
       }
 
-      const stats = await Client.aggregate([
-        { $match: filter },
-        {
-          $group: {
-            _id: null,
-            totalClients: { $sum: 1 },
-            activeClients: {
-              $sum: { $cond: [{ $eq: ['$status', 'active'] }, 1, 0] }
-            },
-            totalInvoiced: { $sum: '$totalInvoiced' },
-            totalPaid: { $sum: '$totalPaid' },
-            outstandingBalance: { $sum: '$outstandingBalance' },
-            averageInvoiceValue: { $avg: '$totalInvoiced' }
+      const [counts, balances, currency] = await Promise.all([
+        Client.aggregate([
+          { $match: filter },
+          {
+            $group: {
+              _id: null,
+              totalClients: { $sum: 1 },
+              activeClients: {
+                $sum: { $cond: [{ $eq: ['$status', 'active'] }, 1, 0] }
+              }
+            }
           }
-        }
+        ]),
+        Client.aggregate([
+          { $match: filter },
+          { $unwind: '$balances' },
+          {
+            $group: {
+              _id: '$balances.currency',
+              totalInvoiced: { $sum: '$balances.totalInvoiced' },
+              totalPaid: { $sum: '$balances.totalPaid' },
+              totalCredited: { $sum: '$balances.totalCredited' },
+              outstandingBalance: { $sum: '$balances.outstandingBalance' },
+              invoiceCount: { $sum: '$balances.invoiceCount' }
+            }
+          },
+          { $sort: { _id: 1 } }
+        ]),
+        exchangeRatesService.getReportingCurrency(scope.ownerId)
       ]);
 
-      const result = stats[0] || {
-        totalClients: 0,
-        activeClients: 0,
-        totalInvoiced: 0,
-        totalPaid: 0,
-        outstandingBalance: 0,
-        averageInvoiceValue: 0
-      };
+      // Report totals in the owner's currency, keeping the per-currency amounts alongside
+      const rates = await exchangeRatesService.getConversionRates(
+        scope.ownerId,
+        balances.map(balance => balance._id),
+        currency
+      );
+      const round = (value: number, code = currency) => roundMoney(value, code);
+
+      const byCurrency = balances.map(balance => ({
+        currency: balance._id,
+        totalInvoiced: round(balance.totalInvoiced, balance._id),
+        totalPaid: round(balance.totalPaid, balance._id),
+        totalCredited: round(balance.totalCredited || 0, balance._id),
+        outstandingBalance: round(balance.outstandingBalance, balance._id),
+        invoiceCount: balance.invoiceCount,
+        rate: rates[balance._id]
+      }));
+
+      const convert = (
+        field: 'totalInvoiced' | 'totalPaid' | 'totalCredited' | 'outstandingBalance'
+      ) =>
+        round(
+          byCurrency.reduce(
+            (sum, balance) => sum + (balance.rate === null ? 0 : balance[field] * balance.rate),
+            0
+          )
+        );
 
-      return result;
+      const totalClients = counts[0]?.totalClients || 0;
+      const totalInvoiced = convert('totalInvoiced');
+
+      return {
+        currency,
+        totalClients,
+        activeClients: counts[0]?.activeClients || 0,
+        totalInvoiced,
+        totalPaid: convert('totalPaid'),
+        totalCredited: convert('totalCredited'),
+        outstandingBalance: convert('outstandingBalance'),
+        averageInvoiceValue: totalClients ? round(totalInvoiced / totalClients) : 0,
+        byCurrency,
+        missingRates: byCurrency.filter(balance => balance.rate === null).map(b => b.currency)
+      };
     } catch (error) {
       logger.error({
         msg: 'Failed to get client statistics',
-        userId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
         clientId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
@@ -280,10 +351,10 @@ class ClientsService {
   }
 
   // Search clients by text
-  async searchClients(userId: string, searchTerm: string, limit = 10) {
+  async searchClients(scope: OrganizationScope, searchTerm: string, limit = 10) {
     try {
       const clients = await Client.find({
-        userId: new Types.ObjectId(userId),
+        organizationId: new Types.ObjectId(scope.organizationId),
         $text: { $search: searchTerm }
       })
         .select('name email company status')
@@ -294,7 +365,8 @@ class ClientsService {
     } catch (error) {
       logger.error({
         msg: 'Failed to search clients',
-        userId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
         searchTerm,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
@@ -0,0 +1,416 @@
+import { Types } from 'mongoose';
+
+import logger from '../config/logger.js';
+import { CreditNote } from '../models/CreditNote.js';
+import { Invoice } from '../models/Invoice.js';
+import { User } from '../models/User.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import {
+  addDecimal,
+  divideDecimal,
+  fromMinorUnits,
+  getCurrencyPrecision,
+  isValidAmount,
+  multiplyDecimal,
+  percentOf,
+  roundDecimal,
+  subtractDecimal,
+  toDecimal
+} from '../utils/money.js';
+import { parsePagination, createPaginatedResponse } from '../utils/pagination.js';
+
+import clientsService from './clients.service.js';
+import pdfService from './pdf.service.js';
+
+import type { PdfGenerationResult } from './pdf.service.js';
+import type { ICreditNote, ICreditNoteItem } from '../models/CreditNote.js';
+import type { IInvoice, InvoiceStatus } from '../models/Invoice.js';
+import type { Decimal } from '../utils/money.js';
+import type { OrganizationScope } from '../utils/organizationScope.js';
+import type {
+  CreateCreditNoteInput,
+  CreditNoteQueryInput,
+  CreditNotePdfQueryInput,
+  VoidCreditNoteInput
+} from '../validators/creditNote.schema.js';
+
+// Invoices that have been issued to the client; drafts are edited instead
+const CREDITABLE_STATUSES: readonly InvoiceStatus[] = ['sent', 'viewed', 'overdue', 'paid'];
+
+class CreditNotesService {
+  // Price credited lines in minor units of the invoice currency
+  private priceItems(
+    invoice: IInvoice,
+    items: CreateCreditNoteInput['items'],
+    creditedQuantities: Map<number, Decimal>
+  ): Array<ICreditNoteItem & { subtotalMinor: bigint; taxMinor: bigint }> {
+    const precision = getCurrencyPrecision(invoice.currency);
+    const round = (amount: Decimal): bigint =>
+      roundDecimal(amount, precision, invoice.rounding.mode);
+    const toMajor = (minor: bigint): number => fromMinorUnits(minor, invoice.currency);
+    const { subtotal, discountAmount } = invoice.minorUnits;
+
+    return items.map((line, index) => {
+      if (line.invoiceItemIndex === undefined) {
+        if (!isValidAmount(line.amount!, invoice.currency)) {
+          throw ApiErrors.badRequest('Credit amount has too many decimals', {
+            code: 'INVALID_AMOUNT_PRECISION',
+            details: [
+              {
+                field: `items.${index}.amount`,
+                message: `${invoice.currency} amounts allow ${precision} decimals`
+              }
+            ]
+          });
+        }
+
+        // Free amounts are credited as given, without tax
+        const amount = round(toDecimal(line.amount!));
+        return {
+          description: line.description || 'Credit',
+          quantity: 1,
+          subtotal: toMajor(amount),
+          taxAmount: 0,
+          total: toMajor(amount),
+          subtotalMinor: amount,
+          taxMinor: 0n
+        };
+      }
+
+      const item = invoice.items[line.invoiceItemIndex];
+      if (!item) {
+        throw ApiErrors.badRequest('Invoice item not found', {
+          code: 'INVALID_INVOICE_ITEM',
+          details: [
+            {
+              field: `items.${index}.invoiceItemIndex`,
+              message: `Invoice has ${invoice.items.length} items`
+            }
+          ]
+        });
+      }
+
+      // Compare quantities exactly; 0.1 + 0.2 must not exceed 0.3
+      const quantity = line.quantity ?? item.quantity;
+      const remaining = subtractDecimal(
+        toDecimal(item.quantity),
+        creditedQuantities.get(line.invoiceItemIndex) || { value: 0n, scale: 0 }
+      );
+      const left = subtractDecimal(remaining, toDecimal(quantity));
+      if (left.value < 0n) {
+        throw ApiErrors.badRequest('Credited quantity exceeds the invoiced quantity', {
+          code: 'CREDIT_EXCEEDS_QUANTITY',
+          details: [
+            {
+              field: `items.${index}.quantity`,
+              message: `${Number(remaining.value) / 10 ** remaining.scale} of ${item.quantity} left to credit`
+            }
+          ]
+        });
+      }
+      creditedQuantities.set(
+        line.invoiceItemIndex,
+        subtractDecimal(toDecimal(item.quantity), left)
+      );
+
+      // The line's share of the invoice discount is credited back too
+      const share = multiplyDecimal(toDecimal(quantity), {
+        value: BigInt(subtotal - discountAmount),
+        scale: precision
+      });
+      const net =
+        subtotal === 0
+          ? 0n
+          : round(
+              divideDecimal(
+                multiplyDecimal(toDecimal(item.subtotal), share),
+                multiplyDecimal(toDecimal(item.quantity), {
+                  value: BigInt(subtotal),
+                  scale: precision
+                })
+              )
+            );
+
+      // Catalogue taxes in proportion to the quantity; otherwise the invoice-level rate
+      const tax = item.taxes?.length
+        ? round(
+            divideDecimal(
+              multiplyDecimal(toDecimal(item.taxAmount), toDecimal(quantity)),
+              toDecimal(item.quantity)
+            )
+          )
+        : round(percentOf({ value: net, scale: precision }, invoice.taxRate));
+
+      return {
+        description: line.description || item.description,
+        invoiceItemIndex: line.invoiceItemIndex,
+        quantity,
+        subtotal: toMajor(net),
+        taxAmount: toMajor(tax),
+        total: toMajor(net + tax),
+        subtotalMinor: net,
+        taxMinor: tax
+      };
+    });
+  }
+
+  // Issue a credit note against an invoice and reduce what the client owes
+  async createCreditNote(
+    scope: OrganizationScope,
+    creditNoteData: CreateCreditNoteInput
+  ): Promise<ICreditNote> {
+    try {
+      const invoice = await Invoice.findOne({
+        _id: new Types.ObjectId(creditNoteData.invoiceId),
+        organizationId: new Types.ObjectId(scope.organizationId)
+      });
+
+      if (!invoice) {
+        throw ApiErrors.notFound('Invoice', creditNoteData.invoiceId);
+      }
+
+      if (!CREDITABLE_STATUSES.includes(invoice.status)) {
+        throw ApiErrors.badRequest(`Credit notes cannot be issued for ${invoice.status} invoices`, {
+          code: 'INVOICE_NOT_CREDITABLE'
+        });
+      }
+
+      // Quantities already credited per invoice line by credit notes still in force
+      const issued = await CreditNote.find({ invoiceId: invoice._id, status: 'issued' })
+        .select('items')
+        .lean();
+      const creditedQuantities = new Map<number, Decimal>();
+      issued
+        .flatMap(creditNote => creditNote.items)
+        .filter(item => item.invoiceItemIndex !== undefined)
+        .forEach(item => {
+          const index = item.invoiceItemIndex!;
+          const credited = creditedQuantities.get(index) || { value: 0n, scale: 0 };
+          creditedQuantities.set(index, addDecimal(credited, toDecimal(item.quantity)));
+        });
+
+      // Compare exact minor units; invoices saved before they were stored are recalculated
+      invoice.calculateTotals();
+      const items = this.priceItems(invoice, creditNoteData.items, creditedQuantities);
+      const subtotal = items.reduce((sum, item) => sum + item.subtotalMinor, 0n);
+      const taxAmount = items.reduce((sum, item) => sum + item.taxMinor, 0n);
+      const total = subtotal + taxAmount;
+
+      const creditable = BigInt(invoice.minorUnits.total - invoice.minorUnits.totalCredited);
+      if (total > creditable) {
+        throw ApiErrors.badRequest('Credit exceeds the amount left to credit on the invoice', {
+          code: 'CREDIT_EXCEEDS_INVOICE',
+          details: [
+            {
+              field: 'items',
+              message: `Amount left to credit is ${fromMinorUnits(creditable, invoice.currency)} ${invoice.currency}`
+            }
+          ]
+        });
+      }
+
+      const creditNote = await CreditNote.create({
+        userId: new Types.ObjectId(scope.ownerId),
+        organizationId: new Types.ObjectId(scope.organizationId),
+        clientId: invoice.clientId,
+        invoiceId: invoice._id,
+        invoiceNumber: invoice.number,
+        issueDate: creditNoteData.issueDate ? new Date(creditNoteData.issueDate) : new Date(),
+        reason: creditNoteData.reason,
+        items: items.map(({ subtotalMinor: _subtotal, taxMinor: _tax, ...item }) => item),
+        subtotal: fromMinorUnits(subtotal, invoice.currency),
+        taxAmount: fromMinorUnits(taxAmount, invoice.currency),
+        total: fromMinorUnits(total, invoice.currency),
+        currency: invoice.currency,
+        precision: getCurrencyPrecision(invoice.currency),
+        notes: creditNoteData.notes,
+        createdBy: new Types.ObjectId(scope.userId)
+      });
+
+      invoice.applyCredit(
+        {
+          creditNoteId: creditNote._id as Types.ObjectId,
+          number: creditNote.number,
+          amount: creditNote.total,
+          issuedAt: creditNote.issueDate
+        },
+        scope.userId
+      );
+      await invoice.save();
+      await clientsService.updateClientFinancials(invoice.clientId.toString());
+
+      logger.info({
+        msg: 'Credit note issued successfully',
+        creditNoteId: (creditNote._id as Types.ObjectId).toString(),
+        invoiceId: creditNoteData.invoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        number: creditNote.number,
+        total: creditNote.total
+      });
+
+      return creditNote;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to issue credit note',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId: creditNoteData.invoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // List credit notes with pagination
+  async getCreditNotes(scope: OrganizationScope, query: CreditNoteQueryInput) {
+    try {
+      const pagination = parsePagination(query);
+      const filter: any = { organizationId: new Types.ObjectId(scope.organizationId) };
+
+      if (query.invoiceId) {
+        filter.invoiceId = new Types.ObjectId(query.invoiceId);
+      }
+      if (query.clientId) {
+        filter.clientId = new Types.ObjectId(query.clientId);
+      }
+      if (query.status) {
+        filter.status = query.status;
+      }
+
+      const [creditNotes, total] = await Promise.all([
+        CreditNote.find(filter)
+          .populate('clientId', 'name email company')
+          .sort({ issueDate: -1, createdAt: -1 })
+          .skip(pagination.skip)
+          .limit(pagination.limit)
+          .lean(),
+        CreditNote.countDocuments(filter)
+      ]);
+
+      return createPaginatedResponse(creditNotes, total, pagination);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get credit notes',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Get credit note by ID
+  async getCreditNoteById(scope: OrganizationScope, creditNoteId: string): Promise<ICreditNote> {
+    try {
+      const creditNote = await CreditNote.findOne({
+        _id: new Types.ObjectId(creditNoteId),
+        organizationId: new Types.ObjectId(scope.organizationId)
+      }).populate('clientId', 'name email company phone billingAddress taxId');
+
+      if (!creditNote) {
+        throw ApiErrors.notFound('Credit note', creditNoteId);
+      }
+
+      return creditNote;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get credit note by ID',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        creditNoteId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Void a credit note; the invoice balance it reduced is restored
+  async voidCreditNote(
+    scope: OrganizationScope,
+    creditNoteId: string,
+    voidData: VoidCreditNoteInput
+  ): Promise<ICreditNote> {
+    try {
+      const creditNote = await CreditNote.findOne({
+        _id: new Types.ObjectId(creditNoteId),
+        organizationId: new Types.ObjectId(scope.organizationId)
+      });
+
+      if (!creditNote) {
+        throw ApiErrors.notFound('Credit note', creditNoteId);
+      }
+
+      if (creditNote.status === 'void') {
+        throw ApiErrors.conflict('Credit note is already void', {
+          code: 'CREDIT_NOTE_VOID'
+        });
+      }
+
+      const invoice = await Invoice.findById(creditNote.invoiceId);
+      if (invoice) {
+        invoice.removeCredit(creditNoteId, scope.userId, `Credit note ${creditNote.number} voided`);
+        await invoice.save();
+      }
+
+      creditNote.status = 'void';
+      creditNote.voidedAt = new Date();
+      creditNote.voidReason = voidData.reason;
+      await creditNote.save();
+
+      await clientsService.updateClientFinancials(creditNote.clientId.toString());
+
+      logger.info({
+        msg: 'Credit note voided successfully',
+        creditNoteId,
+        invoiceId: creditNote.invoiceId.toString(),
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        reason: voidData.reason
+      });
+
+      return creditNote;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to void credit note',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        creditNoteId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Render a credit note as PDF
+  async renderCreditNotePdf(
+    scope: OrganizationScope,
+    creditNoteId: string,
+    options: Partial<CreditNotePdfQueryInput> = {}
+  ): Promise<PdfGenerationResult> {
+    try {
+      const [creditNote, user] = await Promise.all([
+        this.getCreditNoteById(scope, creditNoteId),
+        User.findById(scope.ownerId).select('name email preferences')
+      ]);
+
+      return await pdfService.generateCreditNotePdf(
+        creditNote.toObject(),
+        { language: options.language || user?.preferences?.language },
+        { name: user?.name, email: user?.email }
+      );
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to render credit note PDF',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        creditNoteId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const creditNotesService = new CreditNotesService();
+export default creditNotesService;
@@ -0,0 +1,505 @@
+import { Types } from 'mongoose';
+
+import logger from '../config/logger.js';
+import { Client } from '../models/Client.js';
+import { ESTIMATE_SAFE_FIELDS, Estimate } from '../models/Estimate.js';
+import { Invoice } from '../models/Invoice.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import { parsePagination, createPaginatedResponse, createSortObject } from '../utils/pagination.js';
+
+import clientsService from './clients.service.js';
+import taxRatesService from './taxRates.service.js';
+import webhooksService from './webhooks.service.js';
+
+import type { IEstimate } from '../models/Estimate.js';
+import type { IInvoice } from '../models/Invoice.js';
+import type { OrganizationScope } from '../utils/organizationScope.js';
+import type {
+  ConvertEstimateInput,
+  CreateEstimateInput,
+  EstimateQueryInput,
+  UpdateEstimateInput,
+  UpdateEstimateStatusInput
+} from '../validators/estimate.schema.js';
+
+// Query sort keys that do not map 1:1 to estimate fields
+const SORT_FIELD_MAP: Record<string, string> = {
+  amount: 'total'
+};
+
+// Milliseconds in a day
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Escape user input before using it inside a $regex
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+class EstimatesService {
+  // Ensure an estimate number is not already used by the owner, whose numbering applies
+  private async assertNumberAvailable(
+    userId: string,
+    number: string,
+    excludeEstimateId?: string
+  ): Promise<void> {
+    const filter: any = {
+      userId: new Types.ObjectId(userId),
+      number
+    };
+
+    if (excludeEstimateId) {
+      filter._id = { $ne: new Types.ObjectId(excludeEstimateId) };
+    }
+
+    const existingEstimate = await Estimate.exists(filter);
+    if (existingEstimate) {
+      throw ApiErrors.conflict('Estimate with this number already exists');
+    }
+  }
+
+  // Load an estimate document of the organization
+  private async findOwnedEstimate(
+    scope: OrganizationScope,
+    estimateId: string
+  ): Promise<IEstimate> {
+    const estimate = await Estimate.findOne({
+      _id: new Types.ObjectId(estimateId),
+      organizationId: new Types.ObjectId(scope.organizationId)
+    });
+
+    if (!estimate) {
+      throw ApiErrors.notFound('Estimate', estimateId);
+    }
+
+    return estimate;
+  }
+
+  // Create a new estimate
+  async createEstimate(
+    scope: OrganizationScope,
+    estimateData: CreateEstimateInput
+  ): Promise<IEstimate> {
+    try {
+      const client = await Client.exists({
+        _id: new Types.ObjectId(estimateData.clientId),
+        organizationId: new Types.ObjectId(scope.organizationId)
+      });
+      if (!client) {
+        throw ApiErrors.notFound('Client', estimateData.clientId);
+      }
+
+      if (estimateData.number) {
+        await this.assertNumberAvailable(scope.ownerId, estimateData.number);
+      }
+
+      const estimate = await Estimate.create({
+        ...estimateData,
+        items: await taxRatesService.resolveItemTaxes(scope.ownerId, estimateData.items),
+        userId: new Types.ObjectId(scope.ownerId),
+        organizationId: new Types.ObjectId(scope.organizationId),
+        clientId: new Types.ObjectId(estimateData.clientId),
+        sentAt: estimateData.status === 'sent' ? new Date() : undefined,
+        statusHistory: [
+          {
+            to: estimateData.status,
+            actor: new Types.ObjectId(scope.userId),
+            timestamp: new Date()
+          }
+        ]
+      });
+
+      logger.info({
+        msg: 'Estimate created successfully',
+        estimateId: (estimate._id as Types.ObjectId).toString(),
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        clientId: estimateData.clientId,
+        number: estimate.number
+      });
+
+      return estimate;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to create estimate',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        clientId: estimateData.clientId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Get estimates with pagination and filtering
+  async getEstimates(scope: OrganizationScope, query: EstimateQueryInput) {
+    try {
+      const pagination = parsePagination(query);
+      const filter: any = { organizationId: new Types.ObjectId(scope.organizationId) };
+
+      if (query.search) {
+        const pattern = escapeRegex(query.search);
+        filter.$or = [
+          { number: { $regex: pattern, $options: 'i' } },
+          { notes: { $regex: pattern, $options: 'i' } },
+          { 'items.description': { $regex: pattern, $options: 'i' } }
+        ];
+      }
+      if (query.clientId) {
+        filter.clientId = new Types.ObjectId(query.clientId);
+      }
+      if (query.status) {
+        filter.status = query.status;
+      }
+
+      const sortField = query.sort || 'createdAt';
+      const sort = createSortObject({
+        ...pagination,
+        sort: SORT_FIELD_MAP[sortField] || sortField,
+        order: query.order || 'desc'
+      });
+
+      const [estimates, total] = await Promise.all([
+        Estimate.find(filter)
+          .populate('clientId', 'name email company')
+          .sort(sort)
+          .skip(pagination.skip)
+          .limit(pagination.limit)
+          .lean(),
+        Estimate.countDocuments(filter)
+      ]);
+
+      return createPaginatedResponse(estimates, total, pagination);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get estimates',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Get estimate by ID
+  async getEstimateById(scope: OrganizationScope, estimateId: string): Promise<IEstimate> {
+    try {
+      const estimate = await Estimate.findOne({
+        _id: new Types.ObjectId(estimateId),
+        organizationId: new Types.ObjectId(scope.organizationId)
+      }).populate('clientId', 'name email company phone billingAddress taxId');
+
+      if (!estimate) {
+        throw ApiErrors.notFound('Estimate', estimateId);
+      }
+
+      return estimate;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get estimate by ID',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        estimateId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Update estimate
+  async updateEstimate(
+    scope: OrganizationScope,
+    estimateId: string,
+    updateData: UpdateEstimateInput
+  ): Promise<IEstimate> {
+    try {
+      if (updateData.number) {
+        await this.assertNumberAvailable(scope.ownerId, updateData.number, estimateId);
+      }
+
+      const estimate = await this.findOwnedEstimate(scope, estimateId);
+
+      // The client has seen the priced estimate; only its validity and annotations may change
+      if (estimate.status !== 'draft') {
+        const lockedFields = Object.keys(updateData).filter(
+          field => !(ESTIMATE_SAFE_FIELDS as readonly string[]).includes(field)
+        );
+
+        if (lockedFields.length > 0) {
+          throw ApiErrors.conflict(`Only ${ESTIMATE_SAFE_FIELDS.join(', ')} can be changed`, {
+            code: 'ESTIMATE_NOT_EDITABLE',
+            details: lockedFields.map(field => ({
+              field,
+              message: `Cannot change ${field} on a ${estimate.status} estimate`
+            }))
+          });
+        }
+      }
+
+      // Save through the document so totals are recalculated by the model hooks
+      estimate.set(
+        updateData.items
+          ? {
+              ...updateData,
+              items: await taxRatesService.resolveItemTaxes(scope.ownerId, updateData.items)
+            }
+          : updateData
+      );
+
+      // Catalogue taxes replace the estimate-level tax rate so the two cannot stack
+      if (estimate.taxRate > 0 && estimate.items.some(item => item.taxes.length > 0)) {
+        throw ApiErrors.badRequest(
+          'Estimate tax rate cannot be combined with catalogue taxes on items',
+          { code: 'INVALID_TAX_RATE' }
+        );
+      }
+      if (estimate.expiryDate < estimate.issueDate) {
+        throw ApiErrors.badRequest('Expiry date must be on or after issue date', {
+          details: [{ field: 'expiryDate', message: 'Expiry date must be on or after issue date' }]
+        });
+      }
+
+      await estimate.save();
+
+      logger.info({
+        msg: 'Estimate updated successfully',
+        estimateId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        updatedFields: Object.keys(updateData)
+      });
+
+      return estimate;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to update estimate',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        estimateId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Delete an estimate that has not been converted
+  async deleteEstimate(scope: OrganizationScope, estimateId: string): Promise<void> {
+    try {
+      const estimate = await Estimate.findOneAndDelete({
+        _id: new Types.ObjectId(estimateId),
+        organizationId: new Types.ObjectId(scope.organizationId),
+        invoiceId: { $exists: false }
+      });
+
+      if (!estimate) {
+        const converted = await Estimate.exists({
+          _id: new Types.ObjectId(estimateId),
+          organizationId: new Types.ObjectId(scope.organizationId)
+        });
+        if (converted) {
+          throw ApiErrors.conflict('Converted estimates cannot be deleted', {
+            code: 'ESTIMATE_CONVERTED'
+          });
+        }
+        throw ApiErrors.notFound('Estimate', estimateId);
+      }
+
+      logger.info({
+        msg: 'Estimate deleted successfully',
+        estimateId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        number: estimate.number
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to delete estimate',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        estimateId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Update estimate status
+  async updateEstimateStatus(
+    scope: OrganizationScope,
+    estimateId: string,
+    statusData: UpdateEstimateStatusInput
+  ): Promise<IEstimate> {
+    try {
+      const estimate = await this.findOwnedEstimate(scope, estimateId);
+
+      if (statusData.status === 'sent' && estimate.expiryDate < new Date()) {
+        throw ApiErrors.badRequest('Extend the expiry date before sending the estimate', {
+          code: 'ESTIMATE_EXPIRED'
+        });
+      }
+
+      estimate.transitionTo(statusData.status, scope.userId, statusData.reason);
+      await estimate.save();
+
+      logger.info({
+        msg: 'Estimate status updated successfully',
+        estimateId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        status: estimate.status
+      });
+
+      return estimate;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to update estimate status',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        estimateId,
+        status: statusData.status,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Create a draft invoice from an estimate; converting accepts the estimate
+  async convertEstimate(
+    scope: OrganizationScope,
+    estimateId: string,
+    convertData: ConvertEstimateInput
+  ): Promise<IInvoice> {
+    try {
+      const estimate = await this.findOwnedEstimate(scope, estimateId);
+
+      if (estimate.invoiceId) {
+        throw ApiErrors.conflict('Estimate has already been converted', {
+          code: 'ESTIMATE_CONVERTED'
+        });
+      }
+      if (estimate.status !== 'accepted') {
+        estimate.transitionTo('accepted', scope.userId, 'Converted to invoice');
+      }
+
+      const issueDate = convertData.issueDate ? new Date(convertData.issueDate) : new Date();
+      let dueDate = convertData.dueDate ? new Date(convertData.dueDate) : undefined;
+      if (!dueDate) {
+        const client = await Client.findById(estimate.clientId).select('paymentTerms').lean();
+        dueDate = new Date(issueDate.getTime() + (client?.paymentTerms ?? 30) * DAY_MS);
+      }
+      if (dueDate < issueDate) {
+        throw ApiErrors.badRequest('Due date must be on or after issue date', {
+          details: [{ field: 'dueDate', message: 'Due date must be on or after issue date' }]
+        });
+      }
+
+      // Claim the estimate first so concurrent requests cannot create two invoices
+      const invoiceId = new Types.ObjectId();
+      const claimed = await Estimate.updateOne(
+        { _id: estimate._id, invoiceId: { $exists: false } },
+        { $set: { invoiceId } }
+      );
+      if (claimed.modifiedCount === 0) {
+        throw ApiErrors.conflict('Estimate has already been converted', {
+          code: 'ESTIMATE_CONVERTED'
+        });
+      }
+
+      let invoice: IInvoice;
+      try {
+        invoice = await Invoice.create({
+          _id: invoiceId,
+          userId: estimate.userId,
+          organizationId: estimate.organizationId,
+          clientId: estimate.clientId,
+          estimateId: estimate._id,
+          issueDate,
+          dueDate,
+          status: 'draft',
+          statusHistory: [
+            {
+              to: 'draft',
+              actor: new Types.ObjectId(scope.userId),
+              reason: `Converted from estimate ${estimate.number}`,
+              timestamp: new Date()
+            }
+          ],
+          items: estimate.toObject().items,
+          currency: estimate.currency,
+          rounding: estimate.rounding,
+          taxRate: estimate.taxRate,
+          discountType: estimate.discountType,
+          discountValue: estimate.discountValue,
+          shippingCost: estimate.shippingCost,
+          notes: estimate.notes,
+          terms: estimate.terms,
+          tags: estimate.tags
+        });
+      } catch (error) {
+        await Estimate.updateOne({ _id: estimate._id }, { $unset: { invoiceId: 1 } });
+        throw error;
+      }
+
+      estimate.invoiceId = invoiceId;
+      estimate.convertedAt = new Date();
+      await estimate.save();
+      await clientsService.updateClientFinancials(estimate.clientId.toString());
+      await webhooksService.dispatch('invoice.created', invoice, { invoice: invoice.toJSON() });
+
+      logger.info({
+        msg: 'Estimate converted successfully',
+        estimateId,
+        invoiceId: invoiceId.toString(),
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        number: invoice.number
+      });
+
+      return invoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to convert estimate',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        estimateId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Flag every sent estimate past its expiry date as expired
+  async markExpiredEstimates(now: Date = new Date()): Promise<number> {
+    try {
+      // Matches the { status, expiryDate } index; records the change like any other transition
+      const result = await Estimate.updateMany({ status: 'sent', expiryDate: { $lt: now } }, [
+        {
+          $set: {
+            status: 'expired',
+            statusHistory: {
+              $concatArrays: [
+                { $ifNull: ['$statusHistory', []] },
+                [{ from: '$status', to: 'expired', reason: 'Past expiry date', timestamp: now }]
+              ]
+            }
+          }
+        }
+      ]);
+
+      if (result.modifiedCount > 0) {
+        logger.info({
+          msg: 'Estimates marked as expired',
+          count: result.modifiedCount
+        });
+      }
+
+      return result.modifiedCount;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to mark expired estimates',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const estimatesService = new EstimatesService();
+export default estimatesService;
@@ -0,0 +1,339 @@
+import { Types } from 'mongoose';
+
+import logger from '../config/logger.js';
+import { ExchangeRate } from '../models/ExchangeRate.js';
+import { User } from '../models/User.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import { roundMoney } from '../utils/money.js';
+import { parsePagination, createPaginatedResponse } from '../utils/pagination.js';
+
+import type { IExchangeRate } from '../models/ExchangeRate.js';
+import type {
+  SetExchangeRateInput,
+  ImportExchangeRatesInput,
+  ExchangeRateQueryInput,
+  ConvertCurrencyQueryInput
+} from '../validators/exchangeRate.schema.js';
+
+// A single rate read from an imported file
+interface ParsedRate {
+  date: Date;
+  quote: string;
+  rate: number;
+}
+
+// Normalise a date to the start of its UTC day
+const toRateDay = (value: string | Date = new Date()): Date => {
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+// Read the attributes of an XML tag into a map
+const parseXmlAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*(["'])(.*?)\2/g)) {
+    attributes[match[1]] = match[3];
+  }
+  return attributes;
+};
+
+// Parse an ECB reference rates XML file (eurofxref-daily.xml / eurofxref-hist.xml)
+const parseEcbXml = (content: string): ParsedRate[] => {
+  const rates: ParsedRate[] = [];
+  let currentDate: Date | null = null;
+
+  for (const match of content.matchAll(/<Cube\b([^>]*?)\/?>/g)) {
+    const attributes = parseXmlAttributes(match[1]);
+
+    if (attributes.time) {
+      currentDate = toRateDay(attributes.time);
+    } else if (attributes.currency && attributes.rate && currentDate) {
+      rates.push({
+        date: currentDate,
+        quote: attributes.currency.toUpperCase(),
+        rate: Number(attributes.rate)
+      });
+    }
+  }
+
+  return rates;
+};
+
+// Parse an ECB CSV file ("Date,USD,JPY,...") or a "date,quote,rate" list
+const parseRatesCsv = (content: string): ParsedRate[] => {
+  const lines = content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+
+  if (lines.length < 2) {
+    return [];
+  }
+
+  const header = lines[0].split(',').map(column => column.trim());
+  const columns = header.map(column => column.toLowerCase());
+  const rates: ParsedRate[] = [];
+
+  // One rate per row
+  if (columns.includes('quote') && columns.includes('rate')) {
+    const dateIndex = columns.indexOf('date');
+    const quoteIndex = columns.indexOf('quote');
+    const rateIndex = columns.indexOf('rate');
+
+    for (const line of lines.slice(1)) {
+      const cells = line.split(',').map(cell => cell.trim());
+      rates.push({
+        date: toRateDay(cells[dateIndex]),
+        quote: cells[quoteIndex].toUpperCase(),
+        rate: Number(cells[rateIndex])
+      });
+    }
+
+    return rates;
+  }
+
+  // ECB layout: one row per day, one column per currency
+  for (const line of lines.slice(1)) {
+    const cells = line.split(',').map(cell => cell.trim());
+    const date = toRateDay(cells[0]);
+
+    header.slice(1).forEach((currency, index) => {
+      const value = cells[index + 1];
+      if (/^[A-Za-z]{3}$/.test(currency) && value && value !== 'N/A') {
+        rates.push({ date, quote: currency.toUpperCase(), rate: Number(value) });
+      }
+    });
+  }
+
+  return rates;
+};
+
+class ExchangeRatesService {
+  // Set a manual exchange rate for a day
+  async setRate(userId: string, rateData: SetExchangeRateInput): Promise<IExchangeRate> {
+    try {
+      const date = toRateDay(rateData.date);
+
+      const rate = await ExchangeRate.findOneAndUpdate(
+        {
+          userId: new Types.ObjectId(userId),
+          base: rateData.base,
+          quote: rateData.quote,
+          date
+        },
+        { $set: { rate: rateData.rate, source: 'manual' } },
+        { new: true, upsert: true, runValidators: true }
+      );
+
+      logger.info({
+        msg: 'Exchange rate set successfully',
+        userId,
+        base: rateData.base,
+        quote: rateData.quote,
+        rate: rateData.rate,
+        date
+      });
+
+      return rate!;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to set exchange rate',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Import reference rates from an ECB-style XML or CSV file
+  async importRates(userId: string, importData: ImportExchangeRatesInput) {
+    try {
+      const parsed =
+        importData.format === 'xml'
+          ? parseEcbXml(importData.content)
+          : parseRatesCsv(importData.content);
+
+      const rates = parsed.filter(
+        rate =>
+          !Number.isNaN(rate.date.getTime()) &&
+          Number.isFinite(rate.rate) &&
+          rate.rate > 0 &&
+          rate.quote !== importData.base
+      );
+
+      if (rates.length === 0) {
+        throw ApiErrors.badRequest('No exchange rates found in file');
+      }
+
+      const result = await ExchangeRate.bulkWrite(
+        rates.map(rate => ({
+          updateOne: {
+            filter: {
+              userId: new Types.ObjectId(userId),
+              base: importData.base,
+              quote: rate.quote,
+              date: rate.date
+            },
+            update: { $set: { rate: rate.rate, source: 'import' } },
+            upsert: true
+          }
+        }))
+      );
+
+      const dates = rates.map(rate => rate.date.getTime());
+      const summary = {
+        base: importData.base,
+        imported: result.upsertedCount + result.modifiedCount,
+        skipped: parsed.length - rates.length,
+        currencies: [...new Set(rates.map(rate => rate.quote))].sort(),
+        from: new Date(Math.min(...dates)),
+        to: new Date(Math.max(...dates))
+      };
+
+      logger.info({
+        msg: 'Exchange rates imported successfully',
+        userId,
+        format: importData.format,
+        ...summary
+      });
+
+      return summary;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to import exchange rates',
+        userId,
+        format: importData.format,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // List stored exchange rates
+  async getRates(userId: string, query: ExchangeRateQueryInput) {
+    try {
+      const pagination = parsePagination(query);
+
+      const filter: any = { userId: new Types.ObjectId(userId) };
+      if (query.base) {
+        filter.base = query.base;
+      }
+      if (query.quote) {
+        filter.quote = query.quote;
+      }
+      if (query.from || query.to) {
+        filter.date = {};
+        if (query.from) {
+          filter.date.$gte = toRateDay(query.from);
+        }
+        if (query.to) {
+          filter.date.$lte = toRateDay(query.to);
+        }
+      }
+
+      const [rates, total] = await Promise.all([
+        ExchangeRate.find(filter)
+          .sort({ date: -1, base: 1, quote: 1 })
+          .skip(pagination.skip)
+          .limit(pagination.limit)
+          .lean(),
+        ExchangeRate.countDocuments(filter)
+      ]);
+
+      return createPaginatedResponse(rates, total, pagination);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get exchange rates',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Delete a stored exchange rate
+  async deleteRate(userId: string, rateId: string): Promise<void> {
+    try {
+      const rate = await ExchangeRate.findOneAndDelete({
+        _id: new Types.ObjectId(rateId),
+        userId: new Types.ObjectId(userId)
+      });
+
+      if (!rate) {
+        throw ApiErrors.notFound('Exchange rate', rateId);
+      }
+
+      logger.info({
+        msg: 'Exchange rate deleted successfully',
+        userId,
+        rateId,
+        base: rate.base,
+        quote: rate.quote
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to delete exchange rate',
+        userId,
+        rateId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Convert an amount between two currencies
+  async convert(userId: string, query: ConvertCurrencyQueryInput) {
+    try {
+      const date = query.date ? toRateDay(query.date) : new Date();
+      const rate = await ExchangeRate.findRate(userId, query.from, query.to, date);
+
+      if (rate === null) {
+        throw ApiErrors.notFound(`Exchange rate ${query.from}/${query.to}`);
+      }
+
+      return {
+        from: query.from,
+        to: query.to,
+        amount: query.amount,
+        rate,
+        result: roundMoney(query.amount * rate, query.to),
+        date
+      };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to convert currency',
+        userId,
+        from: query.from,
+        to: query.to,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Currency the user wants reports in
+  async getReportingCurrency(userId: string): Promise<string> {
+    const user = await User.findById(userId).select('preferences.currency').lean();
+    return (user?.preferences?.currency || 'USD').toUpperCase();
+  }
+
+  // Latest rates from several currencies into one target currency; null when unknown
+  async getConversionRates(
+    userId: string,
+    currencies: string[],
+    to: string,
+    date?: Date
+  ): Promise<Record<string, number | null>> {
+    const entries = await Promise.all(
+      currencies.map(
+        async currency =>
+          [currency, await ExchangeRate.findRate(userId, currency, to, date)] as const
+      )
+    );
+
+    return Object.fromEntries(entries);
+  }
+}
+
+export const exchangeRatesService = new ExchangeRatesService();
+export default exchangeRatesService;
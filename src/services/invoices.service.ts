@@ -0,0 +1,1209 @@
+import { Types } from 'mongoose';
+
+import { APP_URL } from '../config/env.js';
+import logger from '../config/logger.js';
+import { Client } from '../models/Client.js';
+import { ExchangeRate } from '../models/ExchangeRate.js';
+import { Invoice, INVOICE_SAFE_FIELDS, assertStatusTransition } from '../models/Invoice.js';
+import { User } from '../models/User.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import {
+  fromMinorUnits,
+  getCurrencyPrecision,
+  isValidAmount,
+  roundMoney,
+  toMinorUnits
+} from '../utils/money.js';
+import { parsePagination, createPaginatedResponse, createSortObject } from '../utils/pagination.js';
+
+import clientsService from './clients.service.js';
+import exchangeRatesService from './exchangeRates.service.js';
+import mailService from './mail.service.js';
+import pdfService from './pdf.service.js';
+import taxRatesService from './taxRates.service.js';
+import webhooksService from './webhooks.service.js';
+
+import type { PdfGenerationOptions, PdfGenerationResult } from './pdf.service.js';
+import type { IClient } from '../models/Client.js';
+import type { IInvoice, IPaymentRecord } from '../models/Invoice.js';
+import type { OrganizationScope } from '../utils/organizationScope.js';
+import type {
+  CreateInvoiceInput,
+  UpdateInvoiceInput,
+  UpdateInvoiceStatusInput,
+  InvoiceQueryInput,
+  InvoicePdfQueryInput,
+  SendInvoiceInput,
+  RecordPaymentInput,
+  RecordRefundInput,
+  VoidPaymentInput
+} from '../validators/invoice.schema.js';
+
+// Query sort keys that do not map 1:1 to invoice fields
+const SORT_FIELD_MAP: Record<string, string> = {
+  amount: 'total'
+};
+
+// Milliseconds in a day
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Escape user input before using it inside a $regex
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+class InvoicesService {
+  // Ensure the client exists and belongs to the organization
+  private async assertClientOwnership(scope: OrganizationScope, clientId: string): Promise<void> {
+    const client = await Client.exists({
+      _id: new Types.ObjectId(clientId),
+      organizationId: new Types.ObjectId(scope.organizationId)
+    });
+
+    if (!client) {
+      throw ApiErrors.notFound('Client', clientId);
+    }
+  }
+
+  // Ensure an invoice number is not already used by the owner, whose numbering applies
+  private async assertNumberAvailable(
+    userId: string,
+    number: string,
+    excludeInvoiceId?: string
+  ): Promise<void> {
+    const filter: any = {
+      userId: new Types.ObjectId(userId),
+      number
+    };
+
+    if (excludeInvoiceId) {
+      filter._id = { $ne: new Types.ObjectId(excludeInvoiceId) };
+    }
+
+    const existingInvoice = await Invoice.exists(filter);
+    if (existingInvoice) {
+      throw ApiErrors.conflict('Invoice with this number already exists');
+    }
+  }
+
+  // Load an invoice document of the organization
+  private async findOwnedInvoice(scope: OrganizationScope, invoiceId: string): Promise<IInvoice> {
+    const invoice = await Invoice.findOne({
+      _id: new Types.ObjectId(invoiceId),
+      organizationId: new Types.ObjectId(scope.organizationId)
+    });
+
+    if (!invoice) {
+      throw ApiErrors.notFound('Invoice', invoiceId);
+    }
+
+    return invoice;
+  }
+
+  // Capture the rate into the user's reporting currency when the invoice is issued
+  private async recordExchangeRate(userId: string, invoice: IInvoice): Promise<void> {
+    if (invoice.status === 'draft' || invoice.exchangeRate?.rate) {
+      return;
+    }
+
+    const currency = await exchangeRatesService.getReportingCurrency(userId);
+    const date = new Date();
+    const rate = await ExchangeRate.findRate(userId, invoice.currency, currency, date);
+
+    if (rate === null) {
+      logger.warn({
+        msg: 'No exchange rate available when issuing invoice',
+        invoiceId: (invoice._id as Types.ObjectId).toString(),
+        from: invoice.currency,
+        to: currency
+      });
+      return;
+    }
+
+    invoice.exchangeRate = { currency, rate, date };
+  }
+
+  // Move an invoice to a requested status, enforcing the transition table
+  private applyStatus(
+    invoice: IInvoice,
+    status: IInvoice['status'],
+    userId: string,
+    payment: Partial<IPaymentRecord> = {}
+  ): void {
+    // Checked up front: the mark* helpers silently ignore statuses they do not apply to
+    assertStatusTransition(invoice.status, status);
+
+    switch (status) {
+      case 'sent':
+        invoice.markAsSent(userId);
+        break;
+      case 'viewed':
+        invoice.markAsViewed(userId);
+        break;
+      case 'paid':
+        // Settle the outstanding balance with a payment so totals stay consistent
+        if (invoice.remainingBalance > 0) {
+          invoice.addPayment(
+            {
+              amount: invoice.remainingBalance,
+              date: payment.date || new Date(),
+              method: payment.method || 'other',
+              reference: payment.reference
+            },
+            userId
+          );
+        } else {
+          invoice.markAsPaid(undefined, userId);
+        }
+        if (payment.date) {
+          invoice.paidAt = payment.date;
+        }
+        break;
+      default:
+        invoice.transitionTo(status, userId);
+    }
+  }
+
+  // Create a new invoice
+  async createInvoice(
+    scope: OrganizationScope,
+    invoiceData: CreateInvoiceInput
+  ): Promise<IInvoice> {
+    try {
+      await this.assertClientOwnership(scope, invoiceData.clientId);
+
+      if (invoiceData.number) {
+        await this.assertNumberAvailable(scope.ownerId, invoiceData.number);
+      }
+
+      const invoice = new Invoice({
+        ...invoiceData,
+        items: await taxRatesService.resolveItemTaxes(scope.ownerId, invoiceData.items),
+        userId: new Types.ObjectId(scope.ownerId),
+        organizationId: new Types.ObjectId(scope.organizationId),
+        clientId: new Types.ObjectId(invoiceData.clientId),
+        sentAt: invoiceData.status === 'sent' ? new Date() : undefined,
+        statusHistory: [
+          { to: invoiceData.status, actor: new Types.ObjectId(scope.userId), timestamp: new Date() }
+        ]
+      });
+
+      await this.recordExchangeRate(scope.ownerId, invoice);
+      await invoice.save();
+      await clientsService.updateClientFinancials(invoiceData.clientId);
+      await webhooksService.dispatch('invoice.created', invoice, { invoice: invoice.toJSON() });
+      await webhooksService.dispatchInvoiceStatus(invoice, 'draft');
+
+      logger.info({
+        msg: 'Invoice created successfully',
+        invoiceId: (invoice._id as Types.ObjectId).toString(),
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        clientId: invoiceData.clientId,
+        number: invoice.number
+      });
+
+      return invoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to create invoice',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        clientId: invoiceData.clientId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Get invoices with pagination and filtering
+  async getInvoices(scope: OrganizationScope, query: InvoiceQueryInput) {
+    try {
+      const pagination = parsePagination(query);
+
+      // Build filter
+      const filter: any = { organizationId: new Types.ObjectId(scope.organizationId) };
+
+      if (query.search) {
+        const pattern = escapeRegex(query.search);
+
+        // Match clients by name, email or company so invoices can be found by client
+        const matchingClients = await Client.find({
+          organizationId: new Types.ObjectId(scope.organizationId),
+          $or: [
+            { name: { $regex: pattern, $options: 'i' } },
+            { email: { $regex: pattern, $options: 'i' } },
+            { company: { $regex: pattern, $options: 'i' } }
+          ]
+        })
+          .select('_id')
+          .lean();
+
+        filter.$or = [
+          { number: { $regex: pattern, $options: 'i' } },
+          { notes: { $regex: pattern, $options: 'i' } },
+          { 'items.description': { $regex: pattern, $options: 'i' } },
+          { clientId: { $in: matchingClients.map(client => client._id) } }
+        ];
+      }
+
+      if (query.clientId) {
+        filter.clientId = new Types.ObjectId(query.clientId);
+      }
+
+      if (query.status) {
+        filter.status = query.status;
+      }
+
+      if (query.currency) {
+        filter.currency = query.currency;
+      }
+
+      if (query.tags) {
+        filter.tags = { $in: query.tags };
+      }
+
+      if (query.minAmount !== undefined || query.maxAmount !== undefined) {
+        filter.total = {};
+        if (query.minAmount !== undefined) {
+          filter.total.$gte = query.minAmount;
+        }
+        if (query.maxAmount !== undefined) {
+          filter.total.$lte = query.maxAmount;
+        }
+      }
+
+      if (query.issuedAfter || query.issuedBefore) {
+        filter.issueDate = {};
+        if (query.issuedAfter) {
+          filter.issueDate.$gte = new Date(query.issuedAfter);
+        }
+        if (query.issuedBefore) {
+          filter.issueDate.$lte = new Date(query.issuedBefore);
+        }
+      }
+
+      if (query.dueAfter || query.dueBefore) {
+        filter.dueDate = {};
+        if (query.dueAfter) {
+          filter.dueDate.$gte = new Date(query.dueAfter);
+        }
+        if (query.dueBefore) {
+          filter.dueDate.$lte = new Date(query.dueBefore);
+        }
+      }
+
+      // Create sort object
+      const sortField = query.sort || 'createdAt';
+      const sort = createSortObject({
+        ...pagination,
+        sort: SORT_FIELD_MAP[sortField] || sortField,
+        order: query.order || 'desc'
+      });
+
+      // Execute queries
+      const [invoices, total] = await Promise.all([
+        Invoice.find(filter)
+          .populate('clientId', 'name email company')
+          .sort(sort)
+          .skip(pagination.skip)
+          .limit(pagination.limit)
+          .lean(),
+        Invoice.countDocuments(filter)
+      ]);
+
+      return createPaginatedResponse(invoices, total, pagination);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get invoices',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Get invoice by ID
+  async getInvoiceById(scope: OrganizationScope, invoiceId: string): Promise<IInvoice> {
+    try {
+      const invoice = await Invoice.findOne({
+        _id: new Types.ObjectId(invoiceId),
+        organizationId: new Types.ObjectId(scope.organizationId)
+      }).populate('clientId', 'name email company phone billingAddress taxId');
+
+      if (!invoice) {
+        throw ApiErrors.notFound('Invoice', invoiceId);
+      }
+
+      return invoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get invoice by ID',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Update invoice
+  async updateInvoice(
+    scope: OrganizationScope,
+    invoiceId: string,
+    updateData: UpdateInvoiceInput
+  ): Promise<IInvoice> {
+    try {
+      if (updateData.number) {
+        await this.assertNumberAvailable(scope.ownerId, updateData.number, invoiceId);
+      }
+
+      const invoice = await this.findOwnedInvoice(scope, invoiceId);
+      const { status, ...fields } = updateData;
+
+      // Issued invoices are legal documents: only annotations may change
+      if (invoice.status !== 'draft') {
+        const lockedFields = Object.keys(fields).filter(
+          field => !(INVOICE_SAFE_FIELDS as readonly string[]).includes(field)
+        );
+
+        if (lockedFields.length > 0) {
+          throw ApiErrors.conflict(`Only ${INVOICE_SAFE_FIELDS.join(', ')} can be changed`, {
+            code: 'INVOICE_NOT_EDITABLE',
+            details: lockedFields.map(field => ({
+              field,
+              message: `Cannot change ${field} on a ${invoice.status} invoice`
+            }))
+          });
+        }
+      }
+
+      // Save through the document so totals are recalculated by the model hooks
+      invoice.set(
+        fields.items
+          ? {
+              ...fields,
+              items: await taxRatesService.resolveItemTaxes(scope.ownerId, fields.items)
+            }
+          : fields
+      );
+
+      // Catalogue taxes replace the invoice-level tax rate so the two cannot stack
+      if (invoice.taxRate > 0 && invoice.items.some(item => item.taxes.length > 0)) {
+        throw ApiErrors.badRequest(
+          'Invoice tax rate cannot be combined with catalogue taxes on items',
+          { code: 'INVALID_TAX_RATE' }
+        );
+      }
+      if (status) {
+        this.applyStatus(invoice, status, scope.userId);
+      }
+      await this.recordExchangeRate(scope.ownerId, invoice);
+      await invoice.save();
+      await clientsService.updateClientFinancials(invoice.clientId.toString());
+
+      logger.info({
+        msg: 'Invoice updated successfully',
+        invoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        updatedFields: Object.keys(updateData)
+      });
+
+      return invoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to update invoice',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Delete invoice
+  async deleteInvoice(scope: OrganizationScope, invoiceId: string): Promise<void> {
+    try {
+      const invoice = await Invoice.findOneAndDelete({
+        _id: new Types.ObjectId(invoiceId),
+        organizationId: new Types.ObjectId(scope.organizationId)
+      });
+
+      if (!invoice) {
+        throw ApiErrors.notFound('Invoice', invoiceId);
+      }
+
+      await clientsService.updateClientFinancials(invoice.clientId.toString());
+
+      logger.info({
+        msg: 'Invoice deleted successfully',
+        invoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        number: invoice.number
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to delete invoice',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Update invoice status
+  async updateInvoiceStatus(
+    scope: OrganizationScope,
+    invoiceId: string,
+    statusData: UpdateInvoiceStatusInput
+  ): Promise<IInvoice> {
+    try {
+      const invoice = await this.findOwnedInvoice(scope, invoiceId);
+      const previousStatus = invoice.status;
+      const paymentCount = invoice.payments.length;
+
+      this.applyStatus(invoice, statusData.status, scope.userId, {
+        date: statusData.paidDate ? new Date(statusData.paidDate) : undefined,
+        method: statusData.paymentMethod,
+        reference: statusData.paymentReference
+      });
+
+      await this.recordExchangeRate(scope.ownerId, invoice);
+      await invoice.save();
+      await clientsService.updateClientFinancials(invoice.clientId.toString());
+
+      // Marking an invoice paid settles its balance with a payment
+      if (invoice.payments.length > paymentCount) {
+        await webhooksService.dispatch('payment.recorded', invoice, {
+          invoice: invoice.toJSON(),
+          payment: invoice.payments[invoice.payments.length - 1]
+        });
+      }
+      await webhooksService.dispatchInvoiceStatus(invoice, previousStatus);
+
+      logger.info({
+        msg: 'Invoice status updated successfully',
+        invoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        status: invoice.status
+      });
+
+      return invoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to update invoice status',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        status: statusData.status,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Mark invoice as viewed
+  async markInvoiceAsViewed(scope: OrganizationScope, invoiceId: string): Promise<IInvoice> {
+    try {
+      const invoice = await this.findOwnedInvoice(scope, invoiceId);
+      const previousStatus = invoice.status;
+
+      invoice.markAsViewed(scope.userId);
+      await invoice.save();
+      await webhooksService.dispatchInvoiceStatus(invoice, previousStatus);
+
+      return invoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to mark invoice as viewed',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Duplicate an invoice as a new draft
+  async duplicateInvoice(scope: OrganizationScope, invoiceId: string): Promise<IInvoice> {
+    try {
+      const original = await this.findOwnedInvoice(scope, invoiceId);
+
+      // Keep the original payment window for the new due date
+      const termMs = original.dueDate.getTime() - original.issueDate.getTime();
+      const issueDate = new Date();
+
+      const duplicate = new Invoice({
+        userId: original.userId,
+        organizationId: original.organizationId,
+        clientId: original.clientId,
+        issueDate,
+        dueDate: new Date(issueDate.getTime() + Math.max(termMs, 0)),
+        status: 'draft',
+        statusHistory: [
+          { to: 'draft', actor: new Types.ObjectId(scope.userId), timestamp: new Date() }
+        ],
+        items: original.items.map(item => ({
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          taxRate: item.taxRate,
+          taxes: item.taxes,
+          discount: item.discount,
+          category: item.category,
+          unit: item.unit
+        })),
+        taxRate: original.taxRate,
+        discountType: original.discountType,
+        discountValue: original.discountValue,
+        shippingCost: original.shippingCost,
+        currency: original.currency,
+        notes: original.notes,
+        terms: original.terms,
+        tags: original.tags,
+        metadata: { ...original.metadata, duplicatedFrom: invoiceId }
+      });
+
+      await duplicate.save();
+      await clientsService.updateClientFinancials(original.clientId.toString());
+      await webhooksService.dispatch('invoice.created', duplicate, { invoice: duplicate.toJSON() });
+
+      logger.info({
+        msg: 'Invoice duplicated successfully',
+        originalInvoiceId: invoiceId,
+        invoiceId: (duplicate._id as Types.ObjectId).toString(),
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        number: duplicate.number
+      });
+
+      return duplicate;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to duplicate invoice',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Record a (partial) payment against an invoice
+  async addPayment(
+    scope: OrganizationScope,
+    invoiceId: string,
+    paymentData: RecordPaymentInput
+  ): Promise<IInvoice> {
+    try {
+      const invoice = await this.findOwnedInvoice(scope, invoiceId);
+
+      if (invoice.status === 'cancelled') {
+        throw ApiErrors.badRequest('Payments cannot be recorded on a cancelled invoice');
+      }
+
+      if (!isValidAmount(paymentData.amount, invoice.currency)) {
+        throw ApiErrors.badRequest('Payment amount has too many decimals', {
+          code: 'INVALID_AMOUNT_PRECISION',
+          details: [
+            {
+              field: 'amount',
+              message: `${invoice.currency} amounts allow ${getCurrencyPrecision(invoice.currency)} decimals`
+            }
+          ]
+        });
+      }
+
+      if (toMinorUnits(paymentData.amount, invoice.currency) < 1) {
+        throw ApiErrors.badRequest('Payment amount is below the smallest currency unit', {
+          code: 'INVALID_AMOUNT',
+          details: [
+            {
+              field: 'amount',
+              message: `The smallest ${invoice.currency} amount is ${fromMinorUnits(1, invoice.currency)}`
+            }
+          ]
+        });
+      }
+
+      // Compare exact minor units; invoices saved before they were stored are recalculated
+      invoice.calculateTotals();
+      if (
+        toMinorUnits(paymentData.amount, invoice.currency) > invoice.minorUnits.remainingBalance
+      ) {
+        throw ApiErrors.badRequest('Payment amount exceeds the remaining balance', {
+          code: 'PAYMENT_EXCEEDS_BALANCE',
+          details: [
+            {
+              field: 'amount',
+              message: `Remaining balance is ${invoice.remainingBalance} ${invoice.currency}`
+            }
+          ]
+        });
+      }
+
+      const previousStatus = invoice.status;
+      invoice.addPayment(
+        {
+          amount: paymentData.amount,
+          date: paymentData.date ? new Date(paymentData.date) : new Date(),
+          method: paymentData.method,
+          reference: paymentData.reference,
+          notes: paymentData.notes
+        },
+        scope.userId
+      );
+
+      await this.recordExchangeRate(scope.ownerId, invoice);
+      await invoice.save();
+      await clientsService.updateClientFinancials(invoice.clientId.toString());
+      await webhooksService.dispatch('payment.recorded', invoice, {
+        invoice: invoice.toJSON(),
+        payment: invoice.payments[invoice.payments.length - 1]
+      });
+      await webhooksService.dispatchInvoiceStatus(invoice, previousStatus);
+
+      logger.info({
+        msg: 'Invoice payment recorded successfully',
+        invoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        amount: paymentData.amount,
+        method: paymentData.method,
+        remainingBalance: invoice.remainingBalance,
+        status: invoice.status
+      });
+
+      return invoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to record invoice payment',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // List payments recorded against an invoice, including voided ones
+  async getPayments(scope: OrganizationScope, invoiceId: string): Promise<IPaymentRecord[]> {
+    try {
+      const invoice = await Invoice.findOne({
+        _id: new Types.ObjectId(invoiceId),
+        organizationId: new Types.ObjectId(scope.organizationId)
+      })
+        .select('payments')
+        .lean();
+
+      if (!invoice) {
+        throw ApiErrors.notFound('Invoice', invoiceId);
+      }
+
+      return [...invoice.payments].sort((a, b) => b.date.getTime() - a.date.getTime());
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get invoice payments',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Void a payment and recompute the invoice balance
+  async voidPayment(
+    scope: OrganizationScope,
+    invoiceId: string,
+    paymentId: string,
+    voidData: VoidPaymentInput
+  ): Promise<IInvoice> {
+    try {
+      const invoice = await this.findOwnedInvoice(scope, invoiceId);
+
+      // Refunded money has left the account; voiding would count it twice
+      const refunded = invoice.payments.find(
+        p => p._id?.toString() === paymentId && !p.voided && (p.refunds?.length ?? 0) > 0
+      );
+      if (refunded) {
+        throw ApiErrors.conflict('Payments with refunds cannot be voided', {
+          code: 'PAYMENT_HAS_REFUNDS'
+        });
+      }
+
+      const payment = invoice.voidPayment(paymentId, voidData.reason, scope.userId);
+      if (!payment) {
+        throw ApiErrors.notFound('Payment', paymentId);
+      }
+
+      await invoice.save();
+      await clientsService.updateClientFinancials(invoice.clientId.toString());
+
+      logger.info({
+        msg: 'Invoice payment voided successfully',
+        invoiceId,
+        paymentId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        amount: payment.amount,
+        reason: voidData.reason,
+        status: invoice.status
+      });
+
+      return invoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to void invoice payment',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        paymentId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Return money from a payment to the client
+  async refundPayment(
+    scope: OrganizationScope,
+    invoiceId: string,
+    paymentId: string,
+    refundData: RecordRefundInput
+  ): Promise<IInvoice> {
+    try {
+      const invoice = await this.findOwnedInvoice(scope, invoiceId);
+
+      const payment = invoice.payments.find(p => p._id?.toString() === paymentId);
+      if (!payment || payment.voided) {
+        throw ApiErrors.notFound('Payment', paymentId);
+      }
+
+      if (!isValidAmount(refundData.amount, invoice.currency)) {
+        throw ApiErrors.badRequest('Refund amount has too many decimals', {
+          code: 'INVALID_AMOUNT_PRECISION',
+          details: [
+            {
+              field: 'amount',
+              message: `${invoice.currency} amounts allow ${getCurrencyPrecision(invoice.currency)} decimals`
+            }
+          ]
+        });
+      }
+
+      if (toMinorUnits(refundData.amount, invoice.currency) < 1) {
+        throw ApiErrors.badRequest('Refund amount is below the smallest currency unit', {
+          code: 'INVALID_AMOUNT',
+          details: [
+            {
+              field: 'amount',
+              message: `The smallest ${invoice.currency} amount is ${fromMinorUnits(1, invoice.currency)}`
+            }
+          ]
+        });
+      }
+
+      const refundable =
+        toMinorUnits(payment.amount, invoice.currency) -
+        (payment.refunds || []).reduce(
+          (sum, refund) => sum + toMinorUnits(refund.amount, invoice.currency),
+          0
+        );
+      if (toMinorUnits(refundData.amount, invoice.currency) > refundable) {
+        throw ApiErrors.badRequest('Refund amount exceeds the refundable payment amount', {
+          code: 'REFUND_EXCEEDS_PAYMENT',
+          details: [
+            {
+              field: 'amount',
+              message: `Refundable amount is ${fromMinorUnits(refundable, invoice.currency)} ${invoice.currency}`
+            }
+          ]
+        });
+      }
+
+      invoice.addRefund(
+        paymentId,
+        {
+          amount: refundData.amount,
+          date: refundData.date ? new Date(refundData.date) : new Date(),
+          reason: refundData.reason,
+          reference: refundData.reference,
+          refundedBy: new Types.ObjectId(scope.userId)
+        },
+        scope.userId
+      );
+
+      await invoice.save();
+      await clientsService.updateClientFinancials(invoice.clientId.toString());
+
+      logger.info({
+        msg: 'Invoice payment refunded successfully',
+        invoiceId,
+        paymentId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        amount: refundData.amount,
+        totalRefunded: invoice.totalRefunded,
+        status: invoice.status
+      });
+
+      return invoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to refund invoice payment',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        paymentId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Render an invoice as PDF
+  async renderInvoicePdf(
+    scope: OrganizationScope,
+    invoiceId: string,
+    options: Partial<InvoicePdfQueryInput> = {}
+  ): Promise<PdfGenerationResult> {
+    try {
+      const [invoice, user] = await Promise.all([
+        this.getInvoiceById(scope, invoiceId),
+        User.findById(scope.ownerId).select('name email preferences')
+      ]);
+
+      const pdfOptions: PdfGenerationOptions = {
+        template: options.template,
+        language: options.language || user?.preferences?.language,
+        currency: options.currency,
+        includePaymentStub: options.includePaymentStub,
+        watermark: options.watermark
+      };
+
+      return await pdfService.generateInvoicePdf(invoice.toObject(), pdfOptions, {
+        name: user?.name,
+        email: user?.email
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to render invoice PDF',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Email an invoice with its PDF attached and record the delivery
+  async sendInvoice(
+    scope: OrganizationScope,
+    invoiceId: string,
+    sendData: SendInvoiceInput
+  ): Promise<IInvoice> {
+    try {
+      const invoice = await this.findOwnedInvoice(scope, invoiceId);
+      const { clientId: client } = await invoice.populate<{ clientId: IClient }>(
+        'clientId',
+        'name email company phone billingAddress taxId'
+      );
+
+      if (invoice.status === 'cancelled') {
+        throw ApiErrors.badRequest('Cancelled invoices cannot be sent');
+      }
+
+      const sentAt = new Date();
+      const previousStatus = invoice.status;
+      const user = await User.findById(scope.ownerId).select('name email preferences');
+
+      // The attached PDF shows the status the invoice has once it is sent
+      const attachment = await pdfService.generateInvoiceAttachment(
+        { ...invoice.toObject(), status: invoice.status === 'draft' ? 'sent' : invoice.status },
+        { language: user?.preferences?.language },
+        { name: user?.name, email: user?.email }
+      );
+
+      const subject =
+        sendData.subject || `Invoice ${invoice.number} from ${user?.name || 'InvoLuck'}`;
+
+      // Log the delivery before the email goes out, so an email whose outcome could not be
+      // saved still shows up as pending instead of leaving no trace
+      invoice.deliveries.push({
+        to: sendData.to,
+        cc: sendData.cc || [],
+        subject,
+        status: 'pending',
+        sentAt,
+        sentBy: new Types.ObjectId(scope.userId)
+      });
+      const delivery = invoice.deliveries[invoice.deliveries.length - 1];
+      await invoice.save();
+
+      try {
+        delivery.messageId = await mailService.sendInvoiceCreatedEmail(
+          sendData.to,
+          {
+            clientName: client?.name || sendData.to[0],
+            invoiceNumber: invoice.number,
+            amount: invoice.remainingBalance,
+            currency: invoice.currency,
+            dueDate: invoice.dueDate.toISOString().split('T')[0],
+            invoiceUrl: `${APP_URL}/invoices/${invoiceId}`,
+            companyName: user?.name,
+            message: sendData.message
+          },
+          {
+            cc: sendData.cc,
+            subject,
+            attachments: [attachment]
+          }
+        );
+      } catch (error) {
+        delivery.status = 'failed';
+        delivery.error = error instanceof Error ? error.message : 'Unknown error';
+        await invoice.save();
+        throw error;
+      }
+
+      delivery.status = 'sent';
+
+      if (invoice.status === 'draft') {
+        this.applyStatus(invoice, 'sent', scope.userId);
+      }
+
+      if (sendData.sendReminder) {
+        const intervalDays = sendData.reminderDays || 7;
+
+        invoice.reminders = {
+          enabled: true,
+          intervalDays,
+          nextReminderAt: new Date(
+            Math.max(invoice.dueDate.getTime(), sentAt.getTime()) + intervalDays * DAY_MS
+          ),
+          lastSentAt: invoice.reminders?.lastSentAt,
+          sentCount: invoice.reminders?.sentCount || 0
+        };
+      }
+
+      await this.recordExchangeRate(scope.ownerId, invoice);
+      await invoice.save();
+      await clientsService.updateClientFinancials((client._id as Types.ObjectId).toString());
+      await webhooksService.dispatchInvoiceStatus(invoice, previousStatus);
+
+      logger.info({
+        msg: 'Invoice sent successfully',
+        invoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        recipients: sendData.to,
+        cc: sendData.cc,
+        messageId: delivery.messageId,
+        reminders: sendData.sendReminder
+      });
+
+      return invoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to send invoice',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Get invoice statistics in the user's reporting currency
+  async getInvoiceStats(scope: OrganizationScope) {
+    try {
+      const match = { organizationId: new Types.ObjectId(scope.organizationId) };
+      const [currency, currencies] = await Promise.all([
+        exchangeRatesService.getReportingCurrency(scope.ownerId),
+        Invoice.distinct('currency', match)
+      ]);
+      const rates = await exchangeRatesService.getConversionRates(
+        scope.ownerId,
+        currencies,
+        currency
+      );
+
+      // $switch needs at least one branch, so an account without invoices skips it
+      const latestRate =
+        currencies.length > 0
+          ? {
+              $switch: {
+                branches: currencies.map(code => ({
+                  case: { $eq: ['$currency', code] },
+                  then: rates[code]
+                })),
+                default: null
+              }
+            }
+          : null;
+
+      // Issued invoices keep their own rate; drafts and older invoices use the latest one
+      const rateExpression = {
+        $cond: [{ $eq: ['$exchangeRate.currency', currency] }, '$exchangeRate.rate', latestRate]
+      };
+      const converted = (field: string) => ({ $multiply: [field, '$reportingRate'] });
+
+      const [stats] = await Invoice.aggregate([
+        { $match: match },
+        { $addFields: { reportingRate: rateExpression } },
+        {
+          $facet: {
+            totals: [
+              {
+                $group: {
+                  _id: null,
+                  totalInvoices: { $sum: 1 },
+                  draftInvoices: {
+                    $sum: { $cond: [{ $eq: ['$status', 'draft'] }, 1, 0] }
+                  },
+                  sentInvoices: {
+                    $sum: { $cond: [{ $in: ['$status', ['sent', 'viewed']] }, 1, 0] }
+                  },
+                  paidInvoices: {
+                    $sum: { $cond: [{ $eq: ['$status', 'paid'] }, 1, 0] }
+                  },
+                  overdueInvoices: {
+                    $sum: { $cond: [{ $eq: ['$status', 'overdue'] }, 1, 0] }
+                  },
+                  // Net of refunds
+                  totalRevenue: {
+                    $sum: { $cond: [{ $ne: ['$status', 'cancelled'] }, converted('$totalPaid'), 0] }
+                  },
+                  totalRefunded: { $sum: converted('$totalRefunded') },
+                  totalCredited: { $sum: converted('$totalCredited') },
+                  pendingRevenue: {
+                    $sum: {
+                      $cond: [
+                        { $in: ['$status', ['sent', 'viewed', 'overdue']] },
+                        converted('$remainingBalance'),
+                        0
+                      ]
+                    }
+                  },
+                  averageInvoiceValue: {
+                    $avg: { $cond: [{ $ne: ['$status', 'cancelled'] }, converted('$total'), null] }
+                  }
+                }
+              },
+              { $project: { _id: 0 } }
+            ],
+            byCurrency: [
+              {
+                $group: {
+                  _id: '$currency',
+                  totalInvoices: { $sum: 1 },
+                  totalInvoiced: {
+                    $sum: { $cond: [{ $ne: ['$status', 'cancelled'] }, '$total', 0] }
+                  },
+                  totalRevenue: {
+                    $sum: { $cond: [{ $ne: ['$status', 'cancelled'] }, '$totalPaid', 0] }
+                  },
+                  totalRefunded: { $sum: '$totalRefunded' },
+                  totalCredited: { $sum: '$totalCredited' },
+                  pendingRevenue: {
+                    $sum: {
+                      $cond: [
+                        { $in: ['$status', ['sent', 'viewed', 'overdue']] },
+                        '$remainingBalance',
+                        0
+                      ]
+                    }
+                  }
+                }
+              },
+              { $sort: { _id: 1 } }
+            ]
+          }
+        }
+      ]);
+
+      const round = (value: number, code = currency) => roundMoney(value || 0, code);
+      const totals = stats.totals[0] || {
+        totalInvoices: 0,
+        draftInvoices: 0,
+        sentInvoices: 0,
+        paidInvoices: 0,
+        overdueInvoices: 0,
+        totalRevenue: 0,
+        totalRefunded: 0,
+        totalCredited: 0,
+        pendingRevenue: 0,
+        averageInvoiceValue: 0
+      };
+
+      return {
+        currency,
+        ...totals,
+        totalRevenue: round(totals.totalRevenue),
+        totalRefunded: round(totals.totalRefunded),
+        totalCredited: round(totals.totalCredited),
+        pendingRevenue: round(totals.pendingRevenue),
+        averageInvoiceValue: round(totals.averageInvoiceValue),
+        byCurrency: stats.byCurrency.map((entry: any) => ({
+          currency: entry._id,
+          totalInvoices: entry.totalInvoices,
+          totalInvoiced: round(entry.totalInvoiced, entry._id),
+          totalRevenue: round(entry.totalRevenue, entry._id),
+          totalRefunded: round(entry.totalRefunded, entry._id),
+          totalCredited: round(entry.totalCredited, entry._id),
+          pendingRevenue: round(entry.pendingRevenue, entry._id),
+          rate: rates[entry._id]
+        })),
+        missingRates: currencies.filter(code => rates[code] === null)
+      };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get invoice statistics',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Get unpaid invoices past their due date
+  async getOverdueInvoices(scope: OrganizationScope) {
+    try {
+      const invoices = await Invoice.find({
+        organizationId: new Types.ObjectId(scope.organizationId),
+        status: { $in: ['sent', 'viewed', 'overdue'] },
+        dueDate: { $lt: new Date() }
+      })
+        .populate('clientId', 'name email company')
+        .sort({ dueDate: 1 })
+        .lean();
+
+      return invoices;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get overdue invoices',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const invoicesService = new InvoicesService();
+export default invoicesService;
@@ -2,6 +2,8 @@ import logger from '../config/logger.js';
 import { sendMail } from '../config/mail.js';
 import { ApiErrors } from '../utils/ApiError.js';
 
+import type { EmailOptions } from '../config/mail.js';
+
 // Email template data interfaces
 export interface InvitationEmailData {
   name: string;
@@ -18,6 +20,14 @@ export interface InvoiceCreatedEmailData {
   dueDate: string;
   invoiceUrl: string;
   companyName?: string;
+  message?: string;
+}
+
+// Delivery overrides for invoice emails
+export interface InvoiceEmailOptions {
+  cc?: string[];
+  subject?: string;
+  attachments?: EmailOptions['attachments'];
 }
 
 export interface PasswordResetEmailData {
@@ -26,12 +36,36 @@ export interface PasswordResetEmailData {
   expiresIn?: string;
 }
 
+export interface NewDeviceLoginEmailData {
+  name: string;
+  device: string;
+  ip?: string;
+  loginAt: Date;
+}
+
+export interface AccountLockedEmailData {
+  name: string;
+  unlockUrl: string;
+  lockedUntil: Date;
+  failedAttempts: number;
+  ip?: string;
+}
+
 export interface WelcomeEmailData {
   name: string;
   email: string;
   loginUrl: string;
 }
 
+// Escape user-provided text before embedding it in an email body
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
 class MailService {
   // Send invitation email to new team member
   async sendInvitationEmail(to: string, data: InvitationEmailData): Promise<void> {
@@ -59,16 +93,23 @@ class MailService {
     }
   }
 
-  // Send invoice created notification email
-  async sendInvoiceCreatedEmail(to: string, data: InvoiceCreatedEmailData): Promise<void> {
+  // Send invoice created notification email, resolving with the message id
+  async sendInvoiceCreatedEmail(
+    to: string | string[],
+    data: InvoiceCreatedEmailData,
+    options: InvoiceEmailOptions = {}
+  ): Promise<string> {
     try {
       // TODO: Render template with Maizzle when templates are ready
       const html = this.renderInvoiceCreatedTemplate(data);
 
-      await sendMail({
+      const messageId = await sendMail({
         to,
-        subject: `New Invoice ${data.invoiceNumber} - ${data.currency} ${data.amount}`,
-        html
+        cc: options.cc,
+        subject:
+          options.subject || `New Invoice ${data.invoiceNumber} - ${data.currency} ${data.amount}`,
+        html,
+        attachments: options.attachments
       });
 
       logger.info({
@@ -76,8 +117,12 @@ class MailService {
         recipient: to,
         invoiceNumber: data.invoiceNumber,
         amount: data.amount,
-        currency: data.currency
+        currency: data.currency,
+        attachments: options.attachments?.length || 0,
+        messageId
       });
+
+      return messageId;
     } catch (error) {
       logger.error({
         msg: 'Failed to send invoice created email',
@@ -115,6 +160,58 @@ class MailService {
     }
   }
 
+  // Send security alert for a login from an unrecognised device
+  async sendNewDeviceLoginEmail(to: string, data: NewDeviceLoginEmailData): Promise<void> {
+    try {
+      const html = this.renderNewDeviceLoginTemplate(data);
+
+      await sendMail({
+        to,
+        subject: 'New sign-in to your InvoLuck account',
+        html
+      });
+
+      logger.info({
+        msg: 'New device login email sent successfully',
+        recipient: to,
+        device: data.device
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to send new device login email',
+        recipient: to,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      // Don't throw error as the login has already succeeded
+    }
+  }
+
+  // Send notice that the account was locked after failed logins, with an unlock link
+  async sendAccountLockedEmail(to: string, data: AccountLockedEmailData): Promise<void> {
+    try {
+      const html = this.renderAccountLockedTemplate(data);
+
+      await sendMail({
+        to,
+        subject: 'Your InvoLuck account has been locked',
+        html
+      });
+
+      logger.info({
+        msg: 'Account locked email sent successfully',
+        recipient: to,
+        failedAttempts: data.failedAttempts
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to send account locked email',
+        recipient: to,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      // Don't throw error as the lock is already in place
+    }
+  }
+
   // Send welcome email to new user
   async sendWelcomeEmail(to: string, data: WelcomeEmailData): Promise<void> {
     try {
@@ -240,6 +337,7 @@ class MailService {
             <h2>New Invoice from ${data.companyName || 'InvoLuck'}</h2>
             <p>Dear ${data.clientName},</p>
             <p>A new invoice has been created for you. Here are the details:</p>
+            ${data.message ? `<p class="message">${escapeHtml(data.message).replace(/\n/g, '<br>')}</p>` : ''}
             <div class="invoice-details">
               <p><strong>Invoice Number:</strong> ${data.invoiceNumber}</p>
               <p><strong>Amount:</strong> <span class="amount">${data.currency} ${data.amount}</span></p>
@@ -298,6 +396,81 @@ class MailService {
     `;
   }
 
+  // Render new device login alert template
+  private renderNewDeviceLoginTemplate(data: NewDeviceLoginEmailData): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>New sign-in to your account</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .login-details { background: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0; }
+            .warning { background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 4px; margin: 20px 0; }
+            .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; font-size: 14px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <h2>New sign-in to your InvoLuck account</h2>
+            <p>Hello ${escapeHtml(data.name)},</p>
+            <p>Your account was just signed in to from a device we haven't seen before:</p>
+            <div class="login-details">
+              <p><strong>Device:</strong> ${escapeHtml(data.device)}</p>
+              <p><strong>IP address:</strong> ${escapeHtml(data.ip || 'Unknown')}</p>
+              <p><strong>Time:</strong> ${data.loginAt.toUTCString()}</p>
+            </div>
+            <div class="warning">
+              <p><strong>Wasn't you?</strong> Change your password and sign out the session from your account's active sessions.</p>
+            </div>
+            <p>If this was you, you can ignore this email.</p>
+            <div class="footer">
+              <p>Best regards,<br>The InvoLuck Team</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  // Render account locked template
+  private renderAccountLockedTemplate(data: AccountLockedEmailData): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>Your account has been locked</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .button { display: inline-block; padding: 12px 24px; background: #007bff; color: white; text-decoration: none; border-radius: 4px; }
+            .warning { background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 4px; margin: 20px 0; }
+            .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; font-size: 14px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <h2>Your InvoLuck account has been locked</h2>
+            <p>Hello ${escapeHtml(data.name)},</p>
+            <p>We locked your account after ${data.failedAttempts} failed sign-in attempts${data.ip ? ` from IP address ${escapeHtml(data.ip)}` : ''}.</p>
+            <p>The lock ends automatically at ${data.lockedUntil.toUTCString()}. If these attempts were yours, you can unlock the account now:</p>
+            <p><a href="${data.unlockUrl}" class="button">Unlock Account</a></p>
+            <div class="warning">
+              <p><strong>Weren't you?</strong> Someone may be trying to guess your password. Consider changing it and turning on two-factor authentication.</p>
+            </div>
+            <div class="footer">
+              <p>Best regards,<br>The InvoLuck Team</p>
+              <p>If you're having trouble clicking the button, copy and paste this URL into your browser: ${data.unlockUrl}</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
   /**
    * Render welcome email template
    * TODO: Replace with Maizzle template rendering
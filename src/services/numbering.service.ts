@@ -0,0 +1,97 @@
+import { Types } from 'mongoose';
+
+import logger from '../config/logger.js';
+import { NumberSequence, NUMBER_SERIES, DEFAULT_SERIES_PREFIX } from '../models/NumberSequence.js';
+import { ApiErrors } from '../utils/ApiError.js';
+
+import type { NumberSeries } from '../models/NumberSequence.js';
+import type { UpdateNumberSequenceInput } from '../validators/numbering.schema.js';
+
+class NumberingService {
+  // Build the public view of a series configuration
+  private async describeSequence(userId: string, series: NumberSeries) {
+    const config = await NumberSequence.findOrDefault(userId, series);
+
+    return {
+      series,
+      prefix: config.prefix,
+      format: config.format,
+      padding: config.padding,
+      resetPolicy: config.resetPolicy,
+      nextNumber: await NumberSequence.preview(userId, series)
+    };
+  }
+
+  // List the numbering configuration of every series, with the next number of each
+  async getSequences(userId: string) {
+    try {
+      return await Promise.all(NUMBER_SERIES.map(series => this.describeSequence(userId, series)));
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get number sequences',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Update the numbering configuration of a series
+  async updateSequence(
+    userId: string,
+    series: NumberSeries,
+    updateData: UpdateNumberSequenceInput
+  ) {
+    try {
+      // Yearly counters restart each year, so the year must tell the numbers apart
+      const current = await NumberSequence.findOrDefault(userId, series);
+      const format = updateData.format ?? current.format;
+      const resetPolicy = updateData.resetPolicy ?? current.resetPolicy;
+      if (resetPolicy === 'yearly' && !format.includes('{year}')) {
+        throw ApiErrors.badRequest(
+          'Format must contain the {year} placeholder when numbers reset yearly',
+          { code: 'NUMBER_FORMAT_MISSING_YEAR' }
+        );
+      }
+
+      await NumberSequence.findOneAndUpdate(
+        { userId: new Types.ObjectId(userId), series },
+        {
+          $set: updateData,
+          $setOnInsert: updateData.prefix ? {} : { prefix: DEFAULT_SERIES_PREFIX[series] }
+        },
+        { new: true, upsert: true, runValidators: true }
+      );
+
+      logger.info({
+        msg: 'Number sequence updated successfully',
+        userId,
+        series,
+        updatedFields: Object.keys(updateData)
+      });
+
+      return this.describeSequence(userId, series);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to update number sequence',
+        userId,
+        series,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Preview the next number of a series without consuming it
+  async previewNextNumber(userId: string, series: NumberSeries): Promise<string> {
+    return NumberSequence.preview(userId, series);
+  }
+
+  // Reserve the next number of a series
+  async consumeNextNumber(userId: string, series: NumberSeries, date?: Date): Promise<string> {
+    return NumberSequence.consume(userId, series, date);
+  }
+}
+
+export const numberingService = new NumberingService();
+export default numberingService;
@@ -0,0 +1,520 @@
+import crypto from 'crypto';
+
+import { Types } from 'mongoose';
+
+import { APP_URL } from '../config/env.js';
+import logger from '../config/logger.js';
+import { Membership } from '../models/Membership.js';
+import { Organization } from '../models/Organization.js';
+import { OWNER_ROLE } from '../models/Role.js';
+import { User } from '../models/User.js';
+import { ApiError, ApiErrors } from '../utils/ApiError.js';
+
+import mailService from './mail.service.js';
+import rolesService from './roles.service.js';
+
+import type { IMembership } from '../models/Membership.js';
+import type { IOrganization } from '../models/Organization.js';
+import type { Permission } from '../models/Role.js';
+import type { OrganizationScope } from '../utils/organizationScope.js';
+import type {
+  CreateOrganizationInput,
+  InviteMemberInput,
+  UpdateMemberInput
+} from '../validators/organization.schema.js';
+
+// Organization a request works in, and the user's role and permissions there
+export interface ActiveOrganization {
+  id: string;
+  name: string;
+  ownerId: string;
+  role: string;
+  permissions: Permission[];
+  personal: boolean;
+}
+
+// Organization as listed for one of its members
+export interface OrganizationSummary extends ActiveOrganization {
+  current: boolean;
+}
+
+// Invitations can be accepted for this many days
+const INVITATION_TTL_DAYS = 7;
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+class OrganizationsService {
+  private async toActiveOrganization(
+    organization: IOrganization,
+    role: string
+  ): Promise<ActiveOrganization> {
+    const id = (organization._id as Types.ObjectId).toString();
+
+    return {
+      id,
+      name: organization.name,
+      ownerId: organization.ownerId.toString(),
+      role,
+      permissions: await rolesService.getPermissions(id, role),
+      personal: organization.personal
+    };
+  }
+
+  // Organization and active membership of a user, or null when the user is not a member
+  private async loadMembership(
+    userId: string,
+    organizationId: string
+  ): Promise<{ organization: IOrganization; membership: IMembership } | null> {
+    const [organization, membership] = await Promise.all([
+      Organization.findById(organizationId),
+      Membership.findOne({
+        organizationId: new Types.ObjectId(organizationId),
+        userId: new Types.ObjectId(userId),
+        status: 'active'
+      })
+    ]);
+
+    return organization && membership ? { organization, membership } : null;
+  }
+
+  // Membership for the organization routes; other organizations are reported as missing
+  private async findMembership(userId: string, organizationId: string) {
+    const result = await this.loadMembership(userId, organizationId);
+
+    if (!result) {
+      throw ApiErrors.notFound('Organization', organizationId);
+    }
+
+    return result;
+  }
+
+  // Ensure the user may invite, change and remove members
+  private async findManagerMembership(userId: string, organizationId: string) {
+    const result = await this.findMembership(userId, organizationId);
+    const permissions = await rolesService.getPermissions(organizationId, result.membership.role);
+
+    if (!permissions.includes('members:manage')) {
+      throw ApiErrors.forbidden('Missing permission: members:manage', {
+        code: 'PERMISSION_DENIED'
+      });
+    }
+
+    return result;
+  }
+
+  // Only the owner may change or remove members who can manage members themselves
+  private async assertCanChangeMember(
+    organizationId: string,
+    actor: IMembership,
+    membership: IMembership
+  ): Promise<void> {
+    if (actor.role === OWNER_ROLE) {
+      return;
+    }
+
+    const permissions = await rolesService.getPermissions(organizationId, membership.role);
+    if (permissions.includes('members:manage')) {
+      throw ApiErrors.forbidden('Only the owner can change members who manage members', {
+        code: 'PERMISSION_DENIED'
+      });
+    }
+  }
+
+  // Organization named on a token, or the personal one when none is named
+  async getActiveOrganization(
+    userId: string,
+    organizationId?: string
+  ): Promise<ActiveOrganization> {
+    if (!organizationId) {
+      const organization = await Organization.findOrCreatePersonal(userId);
+      return await this.toActiveOrganization(organization, OWNER_ROLE);
+    }
+
+    const result = await this.loadMembership(userId, organizationId);
+
+    if (!result) {
+      throw ApiErrors.forbidden('You are not a member of this organization', {
+        code: 'ORGANIZATION_ACCESS_DENIED'
+      });
+    }
+
+    return await this.toActiveOrganization(result.organization, result.membership.role);
+  }
+
+  // Organization a new or refreshed session works in: the preferred one while the user
+  // is still a member of it, otherwise the personal one
+  async getSessionOrganization(
+    userId: string,
+    preferredOrganizationId?: string
+  ): Promise<ActiveOrganization> {
+    if (preferredOrganizationId) {
+      try {
+        return await this.getActiveOrganization(userId, preferredOrganizationId);
+      } catch (error) {
+        if (!(error instanceof ApiError)) {
+          throw error;
+        }
+      }
+    }
+
+    return this.getActiveOrganization(userId);
+  }
+
+  // Scope of a stored client or invoice, for work done outside a member's request
+  async getDocumentScope(
+    document: { userId: Types.ObjectId; organizationId?: Types.ObjectId },
+    actorId: string = document.userId.toString()
+  ): Promise<OrganizationScope> {
+    const organizationId =
+      document.organizationId ??
+      ((await Organization.findOrCreatePersonal(document.userId))._id as Types.ObjectId);
+
+    return {
+      organizationId: organizationId.toString(),
+      ownerId: document.userId.toString(),
+      userId: actorId
+    };
+  }
+
+  // List the organizations a user belongs to
+  async listOrganizations(
+    userId: string,
+    currentOrganizationId?: string
+  ): Promise<OrganizationSummary[]> {
+    try {
+      await Organization.findOrCreatePersonal(userId);
+
+      const memberships = await Membership.find({
+        userId: new Types.ObjectId(userId),
+        status: 'active'
+      }).lean();
+      const organizations = await Organization.find({
+        _id: { $in: memberships.map(membership => membership.organizationId) }
+      }).sort({ personal: -1, name: 1 });
+
+      return await Promise.all(
+        organizations.map(async organization => {
+          const membership = memberships.find(entry =>
+            entry.organizationId.equals(organization._id as Types.ObjectId)
+          )!;
+          const summary = await this.toActiveOrganization(organization, membership.role);
+
+          return {
+            ...summary,
+            current: currentOrganizationId
+              ? summary.id === currentOrganizationId
+              : organization.personal
+          };
+        })
+      );
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to list organizations',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Create an organization owned by the user
+  async createOrganization(
+    userId: string,
+    organizationData: CreateOrganizationInput
+  ): Promise<ActiveOrganization> {
+    try {
+      const user = await User.findById(userId).select('email');
+      if (!user) {
+        throw ApiErrors.notFound('User', userId);
+      }
+
+      const organization = await Organization.create({
+        name: organizationData.name,
+        ownerId: new Types.ObjectId(userId)
+      });
+
+      await Membership.create({
+        organizationId: organization._id,
+        userId: user._id,
+        email: user.email,
+        role: OWNER_ROLE,
+        status: 'active',
+        acceptedAt: new Date()
+      });
+
+      logger.info({
+        msg: 'Organization created successfully',
+        organizationId: (organization._id as Types.ObjectId).toString(),
+        userId
+      });
+
+      return await this.toActiveOrganization(organization, OWNER_ROLE);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to create organization',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // List members and pending invitations
+  async listMembers(userId: string, organizationId: string): Promise<IMembership[]> {
+    try {
+      await this.findMembership(userId, organizationId);
+
+      return await Membership.find({
+        organizationId: new Types.ObjectId(organizationId),
+        status: { $ne: 'revoked' }
+      })
+        .populate('userId', 'name email')
+        .sort({ createdAt: 1 });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to list organization members',
+        userId,
+        organizationId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Invite someone by email; inviting again renews the invitation
+  async inviteMember(
+    userId: string,
+    organizationId: string,
+    inviteData: InviteMemberInput
+  ): Promise<IMembership> {
+    try {
+      const { organization } = await this.findManagerMembership(userId, organizationId);
+      await rolesService.assertAssignable(organizationId, inviteData.role);
+
+      const existing = await Membership.findOne({
+        organizationId: organization._id,
+        email: inviteData.email
+      });
+      if (existing?.status === 'active') {
+        throw ApiErrors.conflict('This person is already a member', {
+          code: 'ALREADY_MEMBER'
+        });
+      }
+
+      const token = crypto.randomBytes(32).toString('hex');
+      const membership = await Membership.findOneAndUpdate(
+        { organizationId: organization._id, email: inviteData.email },
+        {
+          $set: {
+            role: inviteData.role,
+            status: 'invited',
+            invitedBy: new Types.ObjectId(userId),
+            inviteToken: hashToken(token),
+            inviteExpires: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+          },
+          $unset: { userId: 1, acceptedAt: 1, revokedAt: 1, revokedBy: 1 }
+        },
+        { upsert: true, new: true, runValidators: true }
+      );
+
+      const invitee = await User.findOne({ email: inviteData.email }).select('name');
+      await mailService.sendInvitationEmail(inviteData.email, {
+        name: invitee?.name || inviteData.email,
+        inviteUrl: `${APP_URL}/invitations/${token}`,
+        companyName: organization.name,
+        expiresIn: `${INVITATION_TTL_DAYS} days`
+      });
+
+      logger.info({
+        msg: 'Organization invitation sent successfully',
+        organizationId,
+        userId,
+        membershipId: (membership._id as Types.ObjectId).toString(),
+        role: inviteData.role
+      });
+
+      return membership;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to invite organization member',
+        userId,
+        organizationId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Join an organization with an invitation sent to the user's email address
+  async acceptInvitation(userId: string, token: string): Promise<ActiveOrganization> {
+    try {
+      const user = await User.findById(userId).select('email');
+      if (!user) {
+        throw ApiErrors.notFound('User', userId);
+      }
+
+      const invitation = await Membership.findOne({
+        inviteToken: hashToken(token),
+        status: 'invited',
+        inviteExpires: { $gt: new Date() }
+      });
+      if (!invitation) {
+        throw ApiErrors.badRequest('Invalid or expired invitation', {
+          code: 'INVALID_INVITATION_TOKEN'
+        });
+      }
+
+      if (invitation.email !== user.email) {
+        throw ApiErrors.forbidden('This invitation was sent to another email address', {
+          code: 'INVITATION_EMAIL_MISMATCH'
+        });
+      }
+
+      // Claim the invitation so that it cannot be accepted twice
+      const membership = await Membership.findOneAndUpdate(
+        { _id: invitation._id, status: 'invited' },
+        {
+          $set: { userId: user._id, status: 'active', acceptedAt: new Date() },
+          $unset: { inviteToken: 1, inviteExpires: 1 }
+        },
+        { new: true }
+      );
+      const organization = await Organization.findById(invitation.organizationId);
+
+      if (!membership || !organization) {
+        throw ApiErrors.badRequest('Invalid or expired invitation', {
+          code: 'INVALID_INVITATION_TOKEN'
+        });
+      }
+
+      logger.info({
+        msg: 'Organization invitation accepted successfully',
+        organizationId: (organization._id as Types.ObjectId).toString(),
+        userId,
+        role: membership.role
+      });
+
+      return await this.toActiveOrganization(organization, membership.role);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to accept organization invitation',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Give a member or pending invitation another role
+  async updateMember(
+    userId: string,
+    organizationId: string,
+    memberId: string,
+    updateData: UpdateMemberInput
+  ): Promise<IMembership> {
+    try {
+      const { membership: actor } = await this.findManagerMembership(userId, organizationId);
+
+      const membership = await Membership.findOne({
+        _id: new Types.ObjectId(memberId),
+        organizationId: new Types.ObjectId(organizationId),
+        status: { $ne: 'revoked' }
+      });
+      if (!membership) {
+        throw ApiErrors.notFound('Member', memberId);
+      }
+
+      if (membership.role === OWNER_ROLE) {
+        throw ApiErrors.badRequest('The role of the owner cannot be changed', {
+          code: 'CANNOT_CHANGE_OWNER'
+        });
+      }
+      await this.assertCanChangeMember(organizationId, actor, membership);
+      await rolesService.assertAssignable(organizationId, updateData.role);
+
+      const previousRole = membership.role;
+      membership.role = updateData.role;
+      await membership.save();
+
+      logger.info({
+        msg: 'Organization member updated successfully',
+        organizationId,
+        userId,
+        membershipId: memberId,
+        previousRole,
+        role: membership.role
+      });
+
+      return membership;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to update organization member',
+        userId,
+        organizationId,
+        membershipId: memberId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Withdraw an invitation or remove a member
+  async revokeMember(userId: string, organizationId: string, memberId: string): Promise<void> {
+    try {
+      const { membership: actor } = await this.findManagerMembership(userId, organizationId);
+
+      const membership = await Membership.findOne({
+        _id: new Types.ObjectId(memberId),
+        organizationId: new Types.ObjectId(organizationId),
+        status: { $ne: 'revoked' }
+      });
+      if (!membership) {
+        throw ApiErrors.notFound('Member', memberId);
+      }
+
+      if (membership.role === OWNER_ROLE) {
+        throw ApiErrors.badRequest('The owner cannot be removed from the organization', {
+          code: 'CANNOT_REVOKE_OWNER'
+        });
+      }
+      await this.assertCanChangeMember(organizationId, actor, membership);
+
+      await Membership.updateOne(
+        { _id: membership._id },
+        {
+          $set: { status: 'revoked', revokedAt: new Date(), revokedBy: new Types.ObjectId(userId) },
+          $unset: { inviteToken: 1, inviteExpires: 1 }
+        }
+      );
+
+      // New sessions of the removed member start in their personal organization again
+      if (membership.userId) {
+        await User.updateOne(
+          { _id: membership.userId, activeOrganizationId: membership.organizationId },
+          { $unset: { activeOrganizationId: 1 } }
+        );
+      }
+
+      logger.info({
+        msg: 'Organization member revoked successfully',
+        organizationId,
+        userId,
+        membershipId: memberId,
+        status: membership.status
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to revoke organization member',
+        userId,
+        organizationId,
+        membershipId: memberId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const organizationsService = new OrganizationsService();
+export default organizationsService;
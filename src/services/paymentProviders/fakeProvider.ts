@@ -0,0 +1,85 @@
+import { randomBytes } from 'crypto';
+
+import { APP_URL } from '../../config/env.js';
+import { ApiErrors } from '../../utils/ApiError.js';
+import { verifySignatureHeader } from '../../utils/webhookSignature.js';
+
+import type {
+  CheckoutRequest,
+  CheckoutSession,
+  GatewayEvent,
+  PaymentMethod,
+  PaymentProvider,
+  PaymentProviderName
+} from './types.js';
+import type { IncomingHttpHeaders } from 'http';
+
+// Shared secret of the fake gateway; it is never registered in production
+export const FAKE_PAYMENT_WEBHOOK_SECRET = 'whsec_fake_local_development';
+
+// Header carrying the fake gateway signature, in the same format as Stripe's
+export const FAKE_SIGNATURE_HEADER = 'fake-signature';
+
+// Local gateway for development and tests. Checkout links point nowhere, and its
+// webhooks are plain `payment.succeeded` events signed with a well-known secret:
+// { id, type, created, data: { invoiceId, amount, currency, method?, reference? } }
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name: PaymentProviderName = 'fake';
+
+  constructor(private readonly toleranceSeconds: number) {}
+
+  async createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession> {
+    const id = `fake_cs_${randomBytes(12).toString('hex')}`;
+
+    return {
+      id,
+      url: `${APP_URL}/fake-checkout/${id}?invoice=${request.invoiceId}&amount=${request.amountMinor}`,
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayEvent {
+    const valid = verifySignatureHeader(
+      rawBody,
+      headers[FAKE_SIGNATURE_HEADER] as string | undefined,
+      FAKE_PAYMENT_WEBHOOK_SECRET,
+      this.toleranceSeconds
+    );
+    if (!valid) {
+      throw ApiErrors.badRequest('Invalid webhook signature', {
+        code: 'INVALID_WEBHOOK_SIGNATURE'
+      });
+    }
+
+    let event;
+    try {
+      event = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      event = null;
+    }
+    if (typeof event?.id !== 'string') {
+      throw ApiErrors.badRequest('Webhook body is not a valid event', {
+        code: 'INVALID_WEBHOOK_PAYLOAD'
+      });
+    }
+
+    const data = event.data ?? {};
+
+    if (event.type !== 'payment.succeeded' || !data.invoiceId) {
+      return { id: event.id, type: event.type };
+    }
+
+    return {
+      id: event.id,
+      type: event.type,
+      payment: {
+        invoiceId: data.invoiceId,
+        amountMinor: data.amount,
+        currency: String(data.currency).toUpperCase(),
+        method: (data.method as PaymentMethod) ?? 'other',
+        reference: data.reference ?? event.id,
+        paidAt: new Date((event.created ?? Date.now() / 1000) * 1000)
+      }
+    };
+  }
+}
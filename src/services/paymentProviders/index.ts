@@ -0,0 +1,57 @@
+import {
+  isProduction,
+  isTest,
+  PAYMENT_FAKE_PROVIDER_ENABLED,
+  PAYMENT_WEBHOOK_TOLERANCE_SECONDS,
+  STRIPE_API_URL,
+  STRIPE_SECRET_KEY,
+  STRIPE_WEBHOOK_SECRET
+} from '../../config/env.js';
+import { ApiErrors } from '../../utils/ApiError.js';
+
+import { FakePaymentProvider } from './fakeProvider.js';
+import { StripePaymentProvider } from './stripeProvider.js';
+
+import type { PaymentProvider, PaymentProviderName } from './types.js';
+
+export * from './types.js';
+export {
+  FakePaymentProvider,
+  FAKE_PAYMENT_WEBHOOK_SECRET,
+  FAKE_SIGNATURE_HEADER
+} from './fakeProvider.js';
+export { StripePaymentProvider } from './stripeProvider.js';
+
+// Providers available in this environment: Stripe once its webhook secret is set,
+// and the fake gateway, whose secret is public, in tests or when explicitly enabled
+// outside production
+const providers = new Map<PaymentProviderName, PaymentProvider>();
+
+if (STRIPE_WEBHOOK_SECRET) {
+  providers.set(
+    'stripe',
+    new StripePaymentProvider({
+      secretKey: STRIPE_SECRET_KEY,
+      webhookSecret: STRIPE_WEBHOOK_SECRET,
+      apiUrl: STRIPE_API_URL,
+      toleranceSeconds: PAYMENT_WEBHOOK_TOLERANCE_SECONDS
+    })
+  );
+}
+
+if (isTest() || (PAYMENT_FAKE_PROVIDER_ENABLED && !isProduction())) {
+  providers.set('fake', new FakePaymentProvider(PAYMENT_WEBHOOK_TOLERANCE_SECONDS));
+}
+
+// Look up a configured provider
+export const getPaymentProvider = (name: PaymentProviderName): PaymentProvider => {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw ApiErrors.custom(
+      503,
+      `Payment provider ${name} is not configured`,
+      'PAYMENT_PROVIDER_UNAVAILABLE'
+    );
+  }
+  return provider;
+};
@@ -0,0 +1,129 @@
+import logger from '../../config/logger.js';
+import { ApiErrors } from '../../utils/ApiError.js';
+import { verifySignatureHeader } from '../../utils/webhookSignature.js';
+
+import type {
+  CheckoutRequest,
+  CheckoutSession,
+  GatewayEvent,
+  PaymentProvider,
+  PaymentProviderName
+} from './types.js';
+import type { IncomingHttpHeaders } from 'http';
+
+export interface StripeProviderOptions {
+  secretKey?: string;
+  webhookSecret: string;
+  apiUrl: string;
+  toleranceSeconds: number;
+}
+
+// Checkout events that mean the customer has paid
+const PAID_EVENT_TYPES = ['checkout.session.completed', 'checkout.session.async_payment_succeeded'];
+
+// Stripe Checkout. Sessions carry the invoice in their metadata, and completed sessions
+// come back through the `Stripe-Signature` webhook.
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name: PaymentProviderName = 'stripe';
+
+  constructor(private readonly options: StripeProviderOptions) {}
+
+  async createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession> {
+    if (!this.options.secretKey) {
+      throw ApiErrors.custom(
+        503,
+        'Stripe checkout is not configured',
+        'PAYMENT_PROVIDER_UNAVAILABLE'
+      );
+    }
+
+    const form = new URLSearchParams({
+      mode: 'payment',
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl,
+      client_reference_id: request.invoiceId,
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': request.currency.toLowerCase(),
+      'line_items[0][price_data][unit_amount]': String(request.amountMinor),
+      'line_items[0][price_data][product_data][name]': `Invoice ${request.invoiceNumber}`,
+      'metadata[invoiceId]': request.invoiceId,
+      'metadata[userId]': request.userId,
+      'payment_intent_data[metadata][invoiceId]': request.invoiceId
+    });
+    if (request.customerEmail) {
+      form.set('customer_email', request.customerEmail);
+    }
+
+    const response = await fetch(`${this.options.apiUrl}/v1/checkout/sessions`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.options.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: form
+    });
+    const body = (await response.json().catch(() => ({}))) as Record<string, any>;
+
+    if (!response.ok) {
+      logger.error({
+        msg: 'Stripe checkout session request failed',
+        invoiceId: request.invoiceId,
+        status: response.status,
+        error: body.error?.message
+      });
+      throw ApiErrors.custom(502, 'Payment provider request failed', 'PAYMENT_PROVIDER_ERROR');
+    }
+
+    return {
+      id: body.id,
+      url: body.url,
+      expiresAt: body.expires_at ? new Date(body.expires_at * 1000) : undefined
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayEvent {
+    const valid = verifySignatureHeader(
+      rawBody,
+      headers['stripe-signature'] as string | undefined,
+      this.options.webhookSecret,
+      this.options.toleranceSeconds
+    );
+    if (!valid) {
+      throw ApiErrors.badRequest('Invalid webhook signature', {
+        code: 'INVALID_WEBHOOK_SIGNATURE'
+      });
+    }
+
+    let event;
+    try {
+      event = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      event = null;
+    }
+    if (typeof event?.id !== 'string') {
+      throw ApiErrors.badRequest('Webhook body is not a valid event', {
+        code: 'INVALID_WEBHOOK_PAYLOAD'
+      });
+    }
+
+    const session = event.data?.object ?? {};
+    const invoiceId = session.metadata?.invoiceId ?? session.client_reference_id;
+
+    if (!PAID_EVENT_TYPES.includes(event.type) || session.payment_status !== 'paid' || !invoiceId) {
+      return { id: event.id, type: event.type };
+    }
+
+    return {
+      id: event.id,
+      type: event.type,
+      payment: {
+        invoiceId,
+        amountMinor: session.amount_total,
+        currency: String(session.currency).toUpperCase(),
+        method: 'credit_card',
+        reference: session.payment_intent ?? session.id,
+        paidAt: new Date((event.created ?? Date.now() / 1000) * 1000)
+      }
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import type { IncomingHttpHeaders } from 'http';
+
+// Payment gateways supported by the provider registry
+export const PAYMENT_PROVIDERS = ['stripe', 'fake'] as const;
+export type PaymentProviderName = (typeof PAYMENT_PROVIDERS)[number];
+
+// Payment methods an invoice payment can be recorded with
+export type PaymentMethod = 'cash' | 'check' | 'credit_card' | 'bank_transfer' | 'paypal' | 'other';
+
+// Hosted checkout for the open balance of an invoice; amounts are in minor units
+export interface CheckoutRequest {
+  invoiceId: string;
+  userId: string;
+  invoiceNumber: string;
+  amountMinor: number;
+  currency: string;
+  customerEmail?: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string;
+  expiresAt?: Date;
+}
+
+// Settled payment carried by a gateway event; the amount is in minor units
+export interface GatewayPayment {
+  invoiceId: string;
+  amountMinor: number;
+  currency: string;
+  method: PaymentMethod;
+  reference: string;
+  paidAt: Date;
+}
+
+// Verified gateway event; events that do not settle a payment carry no `payment`
+export interface GatewayEvent {
+  id: string;
+  type: string;
+  payment?: GatewayPayment;
+}
+
+// A payment gateway: creates checkout links and verifies the webhooks it sends back
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession>;
+
+  // Throws INVALID_WEBHOOK_SIGNATURE unless the raw body is signed by the gateway, and
+  // INVALID_WEBHOOK_PAYLOAD when a signed body is not an event
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayEvent;
+}
@@ -0,0 +1,259 @@
+import { PAYMENT_PROVIDER } from '../config/env.js';
+import logger from '../config/logger.js';
+import { Invoice } from '../models/Invoice.js';
+import { PaymentEvent } from '../models/PaymentEvent.js';
+import { ApiError, ApiErrors } from '../utils/ApiError.js';
+import { fromMinorUnits } from '../utils/money.js';
+
+import invoicesService from './invoices.service.js';
+import organizationsService from './organizations.service.js';
+import { getPaymentProvider } from './paymentProviders/index.js';
+
+import type {
+  CheckoutSession,
+  GatewayEvent,
+  PaymentProviderName
+} from './paymentProviders/index.js';
+import type { IClient } from '../models/Client.js';
+import type { IPaymentEvent } from '../models/PaymentEvent.js';
+import type { OrganizationScope } from '../utils/organizationScope.js';
+import type { CreateCheckoutInput } from '../validators/payment.schema.js';
+import type { IncomingHttpHeaders } from 'http';
+
+// Invoices that can be paid online
+const PAYABLE_STATUSES = ['sent', 'viewed', 'overdue'];
+
+// How long a claimed event stays with the delivery processing it before a redelivery
+// may take it over, e.g. after a crash
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+// Outcome of a webhook delivery
+export interface WebhookResult {
+  eventId: string;
+  status: IPaymentEvent['status'];
+  duplicate: boolean;
+}
+
+class PaymentsService {
+  // Record the event before acting on it; the unique index on provider and event id
+  // makes redeliveries no-ops. Failed events, and events whose claim expired, may be
+  // claimed again; applying an event twice does not record its payment twice.
+  private async claimEvent(
+    provider: PaymentProviderName,
+    event: GatewayEvent
+  ): Promise<IPaymentEvent | null> {
+    try {
+      return await PaymentEvent.create({
+        provider,
+        eventId: event.id,
+        type: event.type,
+        status: 'processing',
+        claimedAt: new Date()
+      });
+    } catch (error) {
+      if ((error as any).code !== 11000) {
+        throw error;
+      }
+
+      const now = new Date();
+      return PaymentEvent.findOneAndUpdate(
+        {
+          provider,
+          eventId: event.id,
+          $or: [
+            { status: 'failed' },
+            { status: 'processing', claimedAt: { $lt: new Date(now.getTime() - CLAIM_LEASE_MS) } }
+          ]
+        },
+        {
+          $set: { status: 'processing', claimedAt: now },
+          $unset: { error: 1 },
+          $inc: { attempts: 1 }
+        },
+        { new: true }
+      );
+    }
+  }
+
+  // Apply a claimed event to its invoice
+  private async applyEvent(
+    provider: PaymentProviderName,
+    event: GatewayEvent,
+    record: IPaymentEvent
+  ): Promise<void> {
+    const payment = event.payment;
+    if (!payment) {
+      record.status = 'ignored';
+      return;
+    }
+
+    const invoice = payment.invoiceId.match(/^[a-fA-F0-9]{24}$/)
+      ? await Invoice.findById(payment.invoiceId)
+      : null;
+    if (!invoice) {
+      record.status = 'ignored';
+      record.error = `Invoice ${payment.invoiceId} not found`;
+      return;
+    }
+
+    const amount = fromMinorUnits(payment.amountMinor, payment.currency);
+    record.userId = invoice.userId;
+    record.invoiceId = invoice._id as IPaymentEvent['invoiceId'];
+    record.amount = amount;
+    record.currency = payment.currency;
+    record.reference = payment.reference;
+
+    if (payment.currency !== invoice.currency) {
+      throw ApiErrors.badRequest(
+        `Payment currency ${payment.currency} does not match invoice currency ${invoice.currency}`,
+        { code: 'CURRENCY_MISMATCH' }
+      );
+    }
+
+    // A retry after a partial failure must not record the payment twice
+    const reference = payment.reference.slice(0, 100);
+    const recorded = invoice.payments.find(entry => entry.reference === reference && !entry.voided);
+    if (recorded) {
+      record.status = 'processed';
+      record.paymentId = recorded._id;
+      return;
+    }
+
+    const updated = await invoicesService.addPayment(
+      await organizationsService.getDocumentScope(invoice),
+      invoice._id!.toString(),
+      {
+        amount,
+        date: payment.paidAt,
+        method: payment.method,
+        reference,
+        notes: `Paid online via ${provider} (event ${event.id})`
+      }
+    );
+
+    record.status = 'processed';
+    record.paymentId = updated.payments[updated.payments.length - 1]._id;
+  }
+
+  // Create a hosted checkout link for the open balance of an invoice
+  async createCheckoutLink(
+    scope: OrganizationScope,
+    invoiceId: string,
+    data: CreateCheckoutInput
+  ): Promise<CheckoutSession & { provider: PaymentProviderName }> {
+    try {
+      const invoice = await Invoice.findOne({
+        _id: invoiceId,
+        organizationId: scope.organizationId
+      }).populate<{ clientId: IClient }>('clientId', 'email');
+      if (!invoice) {
+        throw ApiErrors.notFound('Invoice', invoiceId);
+      }
+
+      invoice.calculateTotals();
+      if (!PAYABLE_STATUSES.includes(invoice.status) || invoice.minorUnits.remainingBalance <= 0) {
+        throw ApiErrors.conflict('Only sent invoices with an open balance can be paid online', {
+          code: 'INVOICE_NOT_PAYABLE'
+        });
+      }
+
+      const provider = getPaymentProvider(data.provider ?? PAYMENT_PROVIDER);
+      const session = await provider.createCheckoutSession({
+        invoiceId,
+        userId: scope.ownerId,
+        invoiceNumber: invoice.number,
+        amountMinor: invoice.minorUnits.remainingBalance,
+        currency: invoice.currency,
+        customerEmail: invoice.clientId?.email,
+        successUrl: data.successUrl,
+        cancelUrl: data.cancelUrl ?? data.successUrl
+      });
+
+      logger.info({
+        msg: 'Checkout link created successfully',
+        invoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        provider: provider.name,
+        sessionId: session.id
+      });
+
+      return { provider: provider.name, ...session };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to create checkout link',
+        invoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Verify and apply a gateway webhook. Events the invoice cannot take, such as an
+  // overpayment, are kept as failed and acknowledged so the gateway stops retrying.
+  async handleWebhook(
+    providerName: PaymentProviderName,
+    rawBody: Buffer,
+    headers: IncomingHttpHeaders
+  ): Promise<WebhookResult> {
+    try {
+      const event = getPaymentProvider(providerName).verifyWebhook(rawBody, headers);
+
+      const record = await this.claimEvent(providerName, event);
+      if (!record) {
+        const existing = await PaymentEvent.findOne({ provider: providerName, eventId: event.id });
+        logger.info({
+          msg: 'Duplicate payment webhook ignored',
+          provider: providerName,
+          eventId: event.id
+        });
+        return { eventId: event.id, status: existing!.status, duplicate: true };
+      }
+
+      try {
+        await this.applyEvent(providerName, event, record);
+      } catch (error) {
+        record.status = 'failed';
+        record.error = (error instanceof Error ? error.message : 'Unknown error').slice(0, 500);
+        await record.save();
+
+        if (!(error instanceof ApiError) || error.statusCode >= 500) {
+          throw error;
+        }
+        logger.warn({
+          msg: 'Payment webhook could not be applied',
+          provider: providerName,
+          eventId: event.id,
+          invoiceId: record.invoiceId,
+          error: record.error
+        });
+        return { eventId: event.id, status: record.status, duplicate: false };
+      }
+
+      record.processedAt = new Date();
+      await record.save();
+
+      logger.info({
+        msg: 'Payment webhook processed successfully',
+        provider: providerName,
+        eventId: event.id,
+        status: record.status,
+        invoiceId: record.invoiceId
+      });
+
+      return { eventId: event.id, status: record.status, duplicate: false };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to process payment webhook',
+        provider: providerName,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const paymentsService = new PaymentsService();
+export default paymentsService;
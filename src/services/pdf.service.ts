@@ -1,13 +1,16 @@
 /**
  * PDF service for InvoLuck Backend
- * Stub implementation for future PDF generation functionality
+ * Server-side PDF rendering built on PDFKit (pure Node, no headless browser)
  *
- * NOTE: This is a stub service as the MVP uses React-PDF in the frontend.
- * This service can be expanded later for server-side PDF generation.
+ * The frontend keeps using React-PDF for previews; this service produces the
+ * documents used by the API, email attachments and integrations.
  */
 
+import PDFDocument from 'pdfkit';
+
 import logger from '../config/logger.js';
 import { ApiErrors } from '../utils/ApiError.js';
+import { getCurrencyPrecision } from '../utils/money.js';
 
 // PDF generation options interface
 export interface PdfGenerationOptions {
@@ -27,97 +30,360 @@ export interface PdfGenerationResult {
   mimeType: string;
 }
 
+// Issuer details printed in the "From" block
+export interface PdfIssuerInfo {
+  name?: string;
+  email?: string;
+  company?: string;
+}
+
+// Visual settings for each template
+interface PdfTheme {
+  font: string;
+  boldFont: string;
+  primaryColor: string;
+  textColor: string;
+  mutedColor: string;
+  headerBand: boolean;
+  tableHeaderFill?: string;
+  zebraFill?: string;
+}
+
+type PdfDoc = PDFKit.PDFDocument;
+
+// Document title, number and meta rows shown in the header
+interface PdfHeading {
+  title: string;
+  number: string;
+  meta: Array<[string, string]>;
+}
+
+// Items table column; `value` formats the cell of an item
+interface PdfItemColumn {
+  label: string;
+  x: number;
+  width: number;
+  align: 'left' | 'right';
+  value: (item: any) => string;
+}
+
+const PAGE_MARGIN = 50;
+
+const THEMES: Record<NonNullable<PdfGenerationOptions['template']>, PdfTheme> = {
+  standard: {
+    font: 'Helvetica',
+    boldFont: 'Helvetica-Bold',
+    primaryColor: '#1f2937',
+    textColor: '#111827',
+    mutedColor: '#6b7280',
+    headerBand: false,
+    tableHeaderFill: '#f3f4f6'
+  },
+  modern: {
+    font: 'Helvetica',
+    boldFont: 'Helvetica-Bold',
+    primaryColor: '#4f46e5',
+    textColor: '#111827',
+    mutedColor: '#6b7280',
+    headerBand: true,
+    tableHeaderFill: '#eef2ff',
+    zebraFill: '#f9fafb'
+  },
+  minimal: {
+    font: 'Times-Roman',
+    boldFont: 'Times-Bold',
+    primaryColor: '#000000',
+    textColor: '#000000',
+    mutedColor: '#555555',
+    headerBand: false
+  }
+};
+
+// Document labels per language
+const LABELS: Record<string, Record<string, string>> = {
+  en: {
+    invoice: 'INVOICE',
+    billTo: 'Bill To',
+    invoiceNumber: 'Invoice #',
+    issueDate: 'Issue Date',
+    dueDate: 'Due Date',
+    status: 'Status',
+    description: 'Description',
+    quantity: 'Qty',
+    unitPrice: 'Unit Price',
+    tax: 'Tax',
+    taxSummary: 'Tax Summary',
+    taxableAmount: 'Taxable Amount',
+    rate: 'Rate',
+    amount: 'Amount',
+    subtotal: 'Subtotal',
+    discount: 'Discount',
+    shipping: 'Shipping',
+    total: 'Total',
+    amountPaid: 'Amount Paid',
+    credited: 'Credited',
+    balanceDue: 'Balance Due',
+    notes: 'Notes',
+    terms: 'Terms',
+    paymentStub: 'Payment Stub',
+    amountEnclosed: 'Amount Enclosed',
+    detach: 'Please detach and return this portion with your payment',
+    creditNote: 'CREDIT NOTE',
+    creditNoteNumber: 'Credit Note #',
+    originalInvoice: 'Original Invoice',
+    reason: 'Reason',
+    totalCredit: 'Total Credit',
+    page: 'Page'
+  },
+  es: {
+    invoice: 'FACTURA',
+    billTo: 'Facturar a',
+    invoiceNumber: 'Factura N.º',
+    issueDate: 'Fecha de emisión',
+    dueDate: 'Fecha de vencimiento',
+    status: 'Estado',
+    description: 'Descripción',
+    quantity: 'Cant.',
+    unitPrice: 'Precio unitario',
+    tax: 'Impuesto',
+    taxSummary: 'Resumen de impuestos',
+    taxableAmount: 'Base imponible',
+    rate: 'Tipo',
+    amount: 'Importe',
+    subtotal: 'Subtotal',
+    discount: 'Descuento',
+    shipping: 'Envío',
+    total: 'Total',
+    amountPaid: 'Pagado',
+    credited: 'Abonado',
+    balanceDue: 'Saldo pendiente',
+    notes: 'Notas',
+    terms: 'Condiciones',
+    paymentStub: 'Talón de pago',
+    amountEnclosed: 'Importe adjunto',
+    detach: 'Recorte y devuelva esta parte junto con su pago',
+    creditNote: 'NOTA DE CRÉDITO',
+    creditNoteNumber: 'Nota de crédito N.º',
+    originalInvoice: 'Factura original',
+    reason: 'Motivo',
+    totalCredit: 'Total abonado',
+    page: 'Página'
+  },
+  fr: {
+    invoice: 'FACTURE',
+    billTo: 'Facturer à',
+    invoiceNumber: 'Facture n°',
+    issueDate: "Date d'émission",
+    dueDate: "Date d'échéance",
+    status: 'Statut',
+    description: 'Description',
+    quantity: 'Qté',
+    unitPrice: 'Prix unitaire',
+    tax: 'Taxe',
+    taxSummary: 'Récapitulatif des taxes',
+    taxableAmount: 'Montant HT',
+    rate: 'Taux',
+    amount: 'Montant',
+    subtotal: 'Sous-total',
+    discount: 'Remise',
+    shipping: 'Livraison',
+    total: 'Total',
+    amountPaid: 'Montant payé',
+    credited: 'Crédité',
+    balanceDue: 'Solde dû',
+    notes: 'Notes',
+    terms: 'Conditions',
+    paymentStub: 'Talon de paiement',
+    amountEnclosed: 'Montant joint',
+    detach: 'Veuillez détacher et retourner cette partie avec votre paiement',
+    creditNote: 'AVOIR',
+    creditNoteNumber: 'Avoir n°',
+    originalInvoice: "Facture d'origine",
+    reason: 'Motif',
+    totalCredit: 'Total crédité',
+    page: 'Page'
+  }
+};
+
+// Map invoice language codes to Intl locales
+const LOCALES: Record<string, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR'
+};
+
 class PdfService {
   /**
    * Generate PDF from invoice data
-   * TODO: Implement with libraries like puppeteer, jsPDF, or PDFKit
    *
-   * @param invoiceData - Invoice data to generate PDF from
+   * @param invoiceData - Invoice data (plain object, clientId may be populated)
    * @param options - PDF generation options
+   * @param issuer - Optional issuer details printed in the header
    * @returns Promise<PdfGenerationResult>
    */
   async generateInvoicePdf(
     invoiceData: any,
-    options: PdfGenerationOptions = {}
+    options: PdfGenerationOptions = {},
+    issuer: PdfIssuerInfo = {}
   ): Promise<PdfGenerationResult> {
+    const invoiceId = this.getInvoiceId(invoiceData);
+
+    if (!this.validateInvoiceData(invoiceData)) {
+      throw ApiErrors.badRequest('Invoice data is incomplete for PDF generation');
+    }
+
+    const template = options.template || 'standard';
+    const theme: PdfTheme = { ...THEMES[template], ...(options.customStyles || {}) };
+    const language = this.resolveLanguage(options.language);
+
+    const buffer = await this.renderDocument(doc => {
+      this.drawInvoice(doc, invoiceData, theme, language, options, issuer);
+    }, invoiceData.number);
+
     logger.info({
-      msg: 'PDF generation requested (stub)',
-      invoiceId: invoiceData.id,
-      template: options.template || 'standard'
+      msg: 'Invoice PDF generated',
+      invoiceId,
+      template,
+      language,
+      size: buffer.length
     });
 
-    // TODO: Implement actual PDF generation
-    // Potential libraries to use:
-    // - puppeteer (for HTML to PDF conversion)
-    // - PDFKit (programmatic PDF creation)
-    // - jsPDF (client-side compatible)
-    // - @react-pdf/renderer (React-based PDF generation)
+    return {
+      buffer,
+      filename: `${this.sanitizeFilename(invoiceData.number)}.pdf`,
+      size: buffer.length,
+      mimeType: 'application/pdf'
+    };
+  }
 
-    throw ApiErrors.serviceUnavailable(
-      'PDF generation is not yet implemented. The MVP uses React-PDF in the frontend for PDF generation.'
-    );
+  /**
+   * Generate PDF from credit note data
+   *
+   * @param creditNoteData - Credit note data (plain object, clientId may be populated)
+   * @param options - PDF generation options
+   * @param issuer - Optional issuer details printed in the header
+   * @returns Promise<PdfGenerationResult>
+   */
+  async generateCreditNotePdf(
+    creditNoteData: any,
+    options: PdfGenerationOptions = {},
+    issuer: PdfIssuerInfo = {}
+  ): Promise<PdfGenerationResult> {
+    if (!creditNoteData?.number || !Array.isArray(creditNoteData.items)) {
+      throw ApiErrors.badRequest('Credit note data is incomplete for PDF generation');
+    }
+
+    const template = options.template || 'standard';
+    const theme: PdfTheme = { ...THEMES[template], ...(options.customStyles || {}) };
+    const language = this.resolveLanguage(options.language);
+
+    const buffer = await this.renderDocument(doc => {
+      this.drawCreditNote(doc, creditNoteData, theme, language, options, issuer);
+    }, creditNoteData.number);
+
+    logger.info({
+      msg: 'Credit note PDF generated',
+      creditNoteId: this.getInvoiceId(creditNoteData),
+      template,
+      language,
+      size: buffer.length
+    });
+
+    return {
+      buffer,
+      filename: `${this.sanitizeFilename(creditNoteData.number)}.pdf`,
+      size: buffer.length,
+      mimeType: 'application/pdf'
+    };
   }
 
   /**
-   * Generate PDF from HTML template
-   * TODO: Implement with puppeteer or similar
+   * Generate PDF from an HTML fragment
+   * Supports headings, paragraphs, line breaks, list items and table rows;
+   * styling is not interpreted.
    */
   async generatePdfFromHtml(
-    _html: string,
+    html: string,
     options: {
       format?: 'A4' | 'Letter';
       orientation?: 'portrait' | 'landscape';
       margin?: Record<string, string>;
     } = {}
   ): Promise<Buffer> {
-    logger.info({
-      msg: 'HTML to PDF conversion requested (stub)',
-      options
-    });
+    const blocks = this.htmlToBlocks(html);
+    const margin = this.parseMargin(options.margin);
 
-    // TODO: Implement with puppeteer
-    /*
-    const browser = await puppeteer.launch();
-    const page = await browser.newPage();
-    await page.setContent(html);
-    const pdf = await page.pdf({
-      format: options.format || 'A4',
-      printBackground: true,
-      margin: options.margin || {
-        top: '1cm',
-        right: '1cm',
-        bottom: '1cm',
-        left: '1cm',
+    const buffer = await this.renderDocument(
+      doc => {
+        for (const block of blocks) {
+          if (block.type === 'heading') {
+            doc
+              .font('Helvetica-Bold')
+              .fontSize(block.level === 1 ? 18 : block.level === 2 ? 15 : 13)
+              .text(block.text)
+              .moveDown(0.5);
+          } else if (block.type === 'listItem') {
+            doc.font('Helvetica').fontSize(11).text(`•  ${block.text}`, { indent: 10 });
+          } else {
+            doc.font('Helvetica').fontSize(11).text(block.text).moveDown(0.5);
+          }
+        }
       },
+      undefined,
+      {
+        size: options.format || 'A4',
+        layout: options.orientation || 'portrait',
+        margins: margin
+      }
+    );
+
+    logger.info({
+      msg: 'HTML converted to PDF',
+      blocks: blocks.length,
+      size: buffer.length
     });
-    await browser.close();
-    return pdf;
-    */
 
-    throw ApiErrors.serviceUnavailable('HTML to PDF conversion is not yet implemented');
+    return buffer;
   }
 
   /**
    * Validate PDF generation data
    */
   validateInvoiceData(invoiceData: any): boolean {
-    const requiredFields = ['id', 'number', 'clientId', 'items', 'total', 'issueDate', 'dueDate'];
+    const requiredFields = ['number', 'clientId', 'items', 'issueDate', 'dueDate'];
+
+    if (!invoiceData || !this.getInvoiceId(invoiceData)) {
+      logger.warn({
+        msg: 'Invalid invoice data for PDF generation',
+        missingField: 'id'
+      });
+      return false;
+    }
 
     for (const field of requiredFields) {
       if (!invoiceData[field]) {
         logger.warn({
           msg: 'Invalid invoice data for PDF generation',
           missingField: field,
-          invoiceId: invoiceData.id
+          invoiceId: this.getInvoiceId(invoiceData)
         });
         return false;
       }
     }
 
+    if (typeof invoiceData.total !== 'number') {
+      logger.warn({
+        msg: 'Invalid invoice data for PDF generation',
+        missingField: 'total',
+        invoiceId: this.getInvoiceId(invoiceData)
+      });
+      return false;
+    }
+
     if (!Array.isArray(invoiceData.items) || invoiceData.items.length === 0) {
       logger.warn({
         msg: 'Invoice has no items for PDF generation',
-        invoiceId: invoiceData.id
+        invoiceId: this.getInvoiceId(invoiceData)
       });
       return false;
     }
@@ -129,7 +395,14 @@ class PdfService {
    * Get available PDF templates
    */
   getAvailableTemplates(): string[] {
-    return ['standard', 'modern', 'minimal'];
+    return Object.keys(THEMES);
+  }
+
+  /**
+   * Get available PDF languages
+   */
+  getAvailableLanguages(): string[] {
+    return Object.keys(LABELS);
   }
 
   /**
@@ -141,41 +414,802 @@ class PdfService {
     alternativeMethod: string;
   } {
     return {
-      available: false,
-      message: 'PDF generation is handled in the frontend using React-PDF',
+      available: true,
+      message: 'PDF generation is available on the server using PDFKit',
       alternativeMethod: 'Frontend React-PDF implementation'
     };
   }
 
   /**
-   * Future: Generate invoice attachment for email
-   * This would be useful when sending invoices via email
+   * Generate invoice attachment for email
    */
-  async generateInvoiceAttachment(invoiceData: any): Promise<{
+  async generateInvoiceAttachment(
+    invoiceData: any,
+    options: PdfGenerationOptions = {},
+    issuer: PdfIssuerInfo = {}
+  ): Promise<{
     filename: string;
     content: Buffer;
     contentType: string;
   }> {
-    logger.info({
-      msg: 'Invoice attachment generation requested (stub)',
-      invoiceId: invoiceData.id
-    });
+    const result = await this.generateInvoicePdf(invoiceData, options, issuer);
 
-    // TODO: Implement when PDF generation is ready
-    throw ApiErrors.serviceUnavailable('Invoice attachment generation is not yet implemented');
+    return {
+      filename: result.filename,
+      content: result.buffer,
+      contentType: result.mimeType
+    };
   }
 
   /**
-   * Future: Batch PDF generation for multiple invoices
+   * Batch PDF generation for multiple invoices
+   * Documents are rendered sequentially to keep memory usage predictable.
    */
-  async generateBatchPdfs(invoicesData: any[]): Promise<PdfGenerationResult[]> {
+  async generateBatchPdfs(
+    invoicesData: any[],
+    options: PdfGenerationOptions = {}
+  ): Promise<PdfGenerationResult[]> {
+    const results: PdfGenerationResult[] = [];
+
+    for (const invoiceData of invoicesData) {
+      results.push(await this.generateInvoicePdf(invoiceData, options));
+    }
+
     logger.info({
-      msg: 'Batch PDF generation requested (stub)',
-      invoiceCount: invoicesData.length
+      msg: 'Batch PDF generation completed',
+      invoiceCount: results.length
+    });
+
+    return results;
+  }
+
+  // Run a drawing callback against a new document and collect the output
+  private renderDocument(
+    draw: (doc: PdfDoc) => void,
+    title?: string,
+    documentOptions: PDFKit.PDFDocumentOptions = {}
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'A4',
+        // An explicit `margin` would take precedence over custom `margins`
+        ...(documentOptions.margins ? {} : { margin: PAGE_MARGIN }),
+        bufferPages: true,
+        info: {
+          Title: title || 'Document',
+          Producer: 'InvoLuck',
+          Creator: 'InvoLuck Backend'
+        },
+        ...documentOptions
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      try {
+        draw(doc);
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  // Draw a complete invoice
+  private drawInvoice(
+    doc: PdfDoc,
+    invoice: any,
+    theme: PdfTheme,
+    language: string,
+    options: PdfGenerationOptions,
+    issuer: PdfIssuerInfo
+  ): void {
+    const labels = LABELS[language];
+    const currency = options.currency || invoice.currency || 'USD';
+    const money = (value: number) => this.formatMoney(value, currency, language);
+    const date = (value: Date | string) => this.formatDate(value, language);
+    const client = typeof invoice.clientId === 'object' ? invoice.clientId : null;
+
+    const heading: PdfHeading = {
+      title: labels.invoice,
+      number: `${labels.invoiceNumber} ${invoice.number}`,
+      meta: [
+        [labels.issueDate, date(invoice.issueDate)],
+        [labels.dueDate, date(invoice.dueDate)],
+        [labels.status, String(invoice.status || '').toUpperCase()]
+      ]
+    };
+    this.drawHeader(doc, heading, theme, labels, issuer, client);
+
+    const right = doc.page.width - PAGE_MARGIN;
+    const columns: PdfItemColumn[] = [
+      {
+        label: labels.quantity,
+        x: PAGE_MARGIN + 220,
+        width: 45,
+        align: 'right',
+        value: item => String(item.quantity)
+      },
+      {
+        label: labels.unitPrice,
+        x: PAGE_MARGIN + 270,
+        width: 80,
+        align: 'right',
+        value: item => money(item.unitPrice)
+      },
+      {
+        label: labels.tax,
+        x: PAGE_MARGIN + 355,
+        width: 45,
+        align: 'right',
+        value: item =>
+          item.taxes?.length
+            ? item.taxes.map((tax: any) => `${tax.rate}%`).join(' + ')
+            : `${item.taxRate || 0}%`
+      },
+      {
+        label: labels.amount,
+        x: PAGE_MARGIN + 405,
+        width: right - PAGE_MARGIN - 405,
+        align: 'right',
+        value: item => money(item.total ?? item.quantity * item.unitPrice)
+      }
+    ];
+
+    let y = this.drawItemsTable(doc, invoice.items, columns, theme, labels, 260);
+    y = this.drawTotals(doc, invoice, theme, labels, money, y + 10);
+    y = this.drawTaxSummary(doc, invoice.taxSummary || [], theme, labels, money, y + 10);
+
+    if (invoice.notes || invoice.terms) {
+      y = this.ensureSpace(doc, y, 80);
+      doc.fillColor(theme.textColor);
+
+      if (invoice.notes) {
+        doc
+          .font(theme.boldFont)
+          .fontSize(10)
+          .text(labels.notes, PAGE_MARGIN, y + 20);
+        doc
+          .font(theme.font)
+          .fontSize(9)
+          .fillColor(theme.mutedColor)
+          .text(invoice.notes, {
+            width: this.contentWidth(doc)
+          });
+        y = doc.y;
+      }
+
+      if (invoice.terms) {
+        doc.fillColor(theme.textColor).font(theme.boldFont).fontSize(10);
+        doc.text(labels.terms, PAGE_MARGIN, y + 10);
+        doc
+          .font(theme.font)
+          .fontSize(9)
+          .fillColor(theme.mutedColor)
+          .text(invoice.terms, {
+            width: this.contentWidth(doc)
+          });
+        y = doc.y;
+      }
+    }
+
+    if (options.includePaymentStub) {
+      this.drawPaymentStub(doc, invoice, theme, labels, money, date, client, y);
+    }
+
+    if (options.watermark) {
+      this.drawWatermark(doc, options.watermark, theme);
+    }
+
+    this.drawPageNumbers(doc, theme, labels);
+  }
+
+  // Draw a complete credit note
+  private drawCreditNote(
+    doc: PdfDoc,
+    creditNote: any,
+    theme: PdfTheme,
+    language: string,
+    options: PdfGenerationOptions,
+    issuer: PdfIssuerInfo
+  ): void {
+    const labels = LABELS[language];
+    const money = (value: number) =>
+      this.formatMoney(value, options.currency || creditNote.currency || 'USD', language);
+    const date = (value: Date | string) => this.formatDate(value, language);
+    const client = typeof creditNote.clientId === 'object' ? creditNote.clientId : null;
+
+    const heading: PdfHeading = {
+      title: labels.creditNote,
+      number: `${labels.creditNoteNumber} ${creditNote.number}`,
+      meta: [
+        [labels.issueDate, date(creditNote.issueDate)],
+        [labels.originalInvoice, creditNote.invoiceNumber || ''],
+        [labels.status, String(creditNote.status || '').toUpperCase()]
+      ]
+    };
+    this.drawHeader(doc, heading, theme, labels, issuer, client);
+
+    const right = doc.page.width - PAGE_MARGIN;
+    const columns: PdfItemColumn[] = [
+      {
+        label: labels.quantity,
+        x: PAGE_MARGIN + 220,
+        width: 45,
+        align: 'right',
+        value: item => String(item.quantity)
+      },
+      {
+        label: labels.amount,
+        x: PAGE_MARGIN + 270,
+        width: 80,
+        align: 'right',
+        value: item => money(item.subtotal)
+      },
+      {
+        label: labels.tax,
+        x: PAGE_MARGIN + 355,
+        width: 60,
+        align: 'right',
+        value: item => money(item.taxAmount)
+      },
+      {
+        label: labels.total,
+        x: PAGE_MARGIN + 420,
+        width: right - PAGE_MARGIN - 420,
+        align: 'right',
+        value: item => money(item.total)
+      }
+    ];
+
+    let y = this.drawItemsTable(doc, creditNote.items, columns, theme, labels, 260);
+    y = this.drawTotalRows(
+      doc,
+      [
+        [labels.subtotal, money(creditNote.subtotal)],
+        [labels.tax, money(creditNote.taxAmount)],
+        [labels.totalCredit, money(creditNote.total), true]
+      ],
+      theme,
+      y + 10
+    );
+
+    y = this.ensureSpace(doc, y, 80);
+    doc.fillColor(theme.textColor).font(theme.boldFont).fontSize(10);
+    doc.text(labels.reason, PAGE_MARGIN, y + 20);
+    doc
+      .font(theme.font)
+      .fontSize(9)
+      .fillColor(theme.mutedColor)
+      .text(creditNote.reason, { width: this.contentWidth(doc) });
+
+    if (creditNote.notes) {
+      doc.fillColor(theme.textColor).font(theme.boldFont).fontSize(10);
+      doc.text(labels.notes, PAGE_MARGIN, doc.y + 10);
+      doc
+        .font(theme.font)
+        .fontSize(9)
+        .fillColor(theme.mutedColor)
+        .text(creditNote.notes, { width: this.contentWidth(doc) });
+    }
+
+    if (options.watermark) {
+      this.drawWatermark(doc, options.watermark, theme);
+    }
+
+    this.drawPageNumbers(doc, theme, labels);
+  }
+
+  // Draw title, issuer, client and document meta data
+  private drawHeader(
+    doc: PdfDoc,
+    heading: PdfHeading,
+    theme: PdfTheme,
+    labels: Record<string, string>,
+    issuer: PdfIssuerInfo,
+    client: any
+  ): void {
+    const pageWidth = doc.page.width;
+    const right = pageWidth - PAGE_MARGIN;
+
+    if (theme.headerBand) {
+      doc.rect(0, 0, pageWidth, 110).fill(theme.primaryColor);
+      doc.fillColor('#ffffff');
+    } else {
+      doc.fillColor(theme.primaryColor);
+    }
+
+    doc.font(theme.boldFont).fontSize(26).text(heading.title, PAGE_MARGIN, 45);
+    doc.font(theme.font).fontSize(11).text(heading.number, PAGE_MARGIN, 78);
+
+    // Issuer block (top right)
+    const issuerLines = [issuer.company, issuer.name, issuer.email].filter(Boolean) as string[];
+    if (issuerLines.length > 0) {
+      doc
+        .font(theme.boldFont)
+        .fontSize(10)
+        .text(issuerLines[0], PAGE_MARGIN, 45, {
+          width: right - PAGE_MARGIN,
+          align: 'right'
+        });
+      doc.font(theme.font).fontSize(9);
+      for (const line of issuerLines.slice(1)) {
+        doc.text(line, { width: right - PAGE_MARGIN, align: 'right' });
+      }
+    }
+
+    if (!theme.headerBand) {
+      doc
+        .moveTo(PAGE_MARGIN, 110)
+        .lineTo(right, 110)
+        .lineWidth(1)
+        .strokeColor(theme.primaryColor)
+        .stroke();
+    }
+
+    // Bill to block
+    doc.fillColor(theme.mutedColor).font(theme.boldFont).fontSize(9);
+    doc.text(labels.billTo.toUpperCase(), PAGE_MARGIN, 135);
+    doc.fillColor(theme.textColor).font(theme.font).fontSize(10);
+
+    if (client) {
+      doc.font(theme.boldFont).text(client.name || '');
+      doc.font(theme.font);
+      if (client.company) doc.text(client.company);
+      if (client.email) doc.text(client.email);
+      if (client.billingAddress) {
+        const address = client.billingAddress;
+        doc.text(address.street);
+        doc.text(`${address.postalCode} ${address.city}, ${address.state}`);
+        doc.text(address.country);
+      }
+      if (client.taxId) doc.text(client.taxId);
+    }
+
+    // Meta block
+    const metaX = pageWidth / 2 + 40;
+    heading.meta.forEach(([label, value], index) => {
+      const rowY = 135 + index * 16;
+      doc.fillColor(theme.mutedColor).font(theme.font).fontSize(9);
+      doc.text(label, metaX, rowY, { width: 90 });
+      doc.fillColor(theme.textColor).font(theme.boldFont).fontSize(10);
+      doc.text(value, metaX + 90, rowY, { width: right - metaX - 90, align: 'right' });
+    });
+  }
+
+  // Draw line items after a description column; returns the y position below the table
+  private drawItemsTable(
+    doc: PdfDoc,
+    items: any[],
+    valueColumns: PdfItemColumn[],
+    theme: PdfTheme,
+    labels: Record<string, string>,
+    startY: number
+  ): number {
+    const right = doc.page.width - PAGE_MARGIN;
+    const columns: PdfItemColumn[] = [
+      {
+        label: labels.description,
+        x: PAGE_MARGIN,
+        width: 215,
+        align: 'left',
+        value: item => item.description
+      },
+      ...valueColumns
+    ];
+
+    const drawTableHeader = (y: number): number => {
+      if (theme.tableHeaderFill) {
+        doc.rect(PAGE_MARGIN, y - 6, right - PAGE_MARGIN, 22).fill(theme.tableHeaderFill);
+      }
+      doc.fillColor(theme.primaryColor).font(theme.boldFont).fontSize(9);
+      columns.forEach(column => {
+        doc.text(column.label, column.x + 4, y, { width: column.width - 8, align: column.align });
+      });
+      doc
+        .moveTo(PAGE_MARGIN, y + 16)
+        .lineTo(right, y + 16)
+        .lineWidth(0.5)
+        .strokeColor(theme.mutedColor)
+        .stroke();
+      return y + 24;
+    };
+
+    let y = drawTableHeader(startY);
+
+    items.forEach((item, index) => {
+      doc.font(theme.font).fontSize(9);
+      const rowHeight =
+        Math.max(doc.heightOfString(item.description, { width: columns[0].width - 8 }), 12) + 8;
+
+      if (y + rowHeight > doc.page.height - PAGE_MARGIN - 20) {
+        doc.addPage();
+        y = drawTableHeader(PAGE_MARGIN);
+      }
+
+      if (theme.zebraFill && index % 2 === 1) {
+        doc.rect(PAGE_MARGIN, y - 4, right - PAGE_MARGIN, rowHeight).fill(theme.zebraFill);
+      }
+
+      doc.fillColor(theme.textColor).font(theme.font).fontSize(9);
+      columns.forEach(column => {
+        doc.text(column.value(item), column.x + 4, y, {
+          width: column.width - 8,
+          align: column.align
+        });
+      });
+
+      y += rowHeight;
+    });
+
+    doc
+      .moveTo(PAGE_MARGIN, y)
+      .lineTo(right, y)
+      .lineWidth(0.5)
+      .strokeColor(theme.mutedColor)
+      .stroke();
+
+    return y;
+  }
+
+  // Draw the totals block; returns the y position below it
+  private drawTotals(
+    doc: PdfDoc,
+    invoice: any,
+    theme: PdfTheme,
+    labels: Record<string, string>,
+    money: (value: number) => string,
+    startY: number
+  ): number {
+    const rows: Array<[string, string, boolean?]> = [[labels.subtotal, money(invoice.subtotal)]];
+    if (invoice.discountAmount > 0) {
+      rows.push([labels.discount, `-${money(invoice.discountAmount)}`]);
+    }
+    if (invoice.taxSummary?.length) {
+      invoice.taxSummary.forEach((line: any) => {
+        rows.push([`${line.name} (${line.rate}%)`, money(line.taxAmount)]);
+      });
+    } else if (invoice.taxAmount > 0) {
+      rows.push([labels.tax, money(invoice.taxAmount)]);
+    }
+    if (invoice.shippingCost > 0) {
+      rows.push([labels.shipping, money(invoice.shippingCost)]);
+    }
+    rows.push([labels.total, money(invoice.total), true]);
+    if (invoice.totalCredited > 0) {
+      rows.push([labels.credited, `-${money(invoice.totalCredited)}`]);
+    }
+    if (invoice.totalPaid > 0) {
+      rows.push([labels.amountPaid, `-${money(invoice.totalPaid)}`]);
+    }
+    if (invoice.totalPaid > 0 || invoice.totalCredited > 0) {
+      rows.push([labels.balanceDue, money(invoice.remainingBalance), true]);
+    }
+
+    return this.drawTotalRows(doc, rows, theme, startY);
+  }
+
+  // Draw right-aligned label/amount rows; returns the y position below them
+  private drawTotalRows(
+    doc: PdfDoc,
+    rows: Array<[string, string, boolean?]>,
+    theme: PdfTheme,
+    startY: number
+  ): number {
+    const right = doc.page.width - PAGE_MARGIN;
+    const labelX = right - 230;
+    let y = this.ensureSpace(doc, startY, rows.length * 18 + 10);
+
+    rows.forEach(([label, value, emphasis]) => {
+      doc
+        .fillColor(emphasis ? theme.primaryColor : theme.textColor)
+        .font(emphasis ? theme.boldFont : theme.font)
+        .fontSize(emphasis ? 11 : 10);
+      doc.text(label, labelX, y, { width: 110 });
+      doc.text(value, labelX + 110, y, { width: 120, align: 'right' });
+      y += 18;
+    });
+
+    return y;
+  }
+
+  // Draw the per-rate tax breakdown; returns the y position below it
+  private drawTaxSummary(
+    doc: PdfDoc,
+    taxSummary: any[],
+    theme: PdfTheme,
+    labels: Record<string, string>,
+    money: (value: number) => string,
+    startY: number
+  ): number {
+    if (taxSummary.length === 0) {
+      return startY;
+    }
+
+    const right = doc.page.width - PAGE_MARGIN;
+    const columns = [
+      { label: labels.tax, x: PAGE_MARGIN, width: 200, align: 'left' as const },
+      { label: labels.rate, x: PAGE_MARGIN + 200, width: 70, align: 'right' as const },
+      { label: labels.taxableAmount, x: PAGE_MARGIN + 270, width: 120, align: 'right' as const },
+      {
+        label: labels.amount,
+        x: PAGE_MARGIN + 390,
+        width: right - PAGE_MARGIN - 390,
+        align: 'right' as const
+      }
+    ];
+
+    let y = this.ensureSpace(doc, startY, (taxSummary.length + 2) * 16 + 10);
+
+    doc.fillColor(theme.primaryColor).font(theme.boldFont).fontSize(10);
+    doc.text(labels.taxSummary, PAGE_MARGIN, y);
+    y += 16;
+
+    doc.font(theme.boldFont).fontSize(8);
+    columns.forEach(column => {
+      doc.text(column.label, column.x, y, { width: column.width, align: column.align });
+    });
+    y += 14;
+
+    doc.fillColor(theme.textColor).font(theme.font).fontSize(9);
+    taxSummary.forEach(line => {
+      const values = [
+        line.jurisdiction ? `${line.name} (${line.jurisdiction})` : line.name,
+        `${line.rate}%`,
+        money(line.taxableAmount),
+        money(line.taxAmount)
+      ];
+      columns.forEach((column, index) => {
+        doc.text(values[index], column.x, y, { width: column.width, align: column.align });
+      });
+      y += 16;
+    });
+
+    return y;
+  }
+
+  // Draw a detachable payment stub at the bottom of the last page
+  private drawPaymentStub(
+    doc: PdfDoc,
+    invoice: any,
+    theme: PdfTheme,
+    labels: Record<string, string>,
+    money: (value: number) => string,
+    date: (value: Date | string) => string,
+    client: any,
+    currentY: number
+  ): void {
+    const stubHeight = 130;
+    const right = doc.page.width - PAGE_MARGIN;
+    let top = doc.page.height - PAGE_MARGIN - stubHeight;
+
+    if (currentY + 20 > top) {
+      doc.addPage();
+      top = doc.page.height - PAGE_MARGIN - stubHeight;
+    }
+
+    doc
+      .moveTo(PAGE_MARGIN, top)
+      .lineTo(right, top)
+      .dash(4, { space: 4 })
+      .lineWidth(0.75)
+      .strokeColor(theme.mutedColor)
+      .stroke()
+      .undash();
+
+    doc.fillColor(theme.mutedColor).font(theme.font).fontSize(8);
+    doc.text(labels.detach, PAGE_MARGIN, top + 6, {
+      width: right - PAGE_MARGIN,
+      align: 'center'
     });
 
-    // TODO: Implement batch processing
-    throw ApiErrors.serviceUnavailable('Batch PDF generation is not yet implemented');
+    doc.fillColor(theme.primaryColor).font(theme.boldFont).fontSize(12);
+    doc.text(labels.paymentStub, PAGE_MARGIN, top + 26);
+
+    const balance = invoice.remainingBalance ?? invoice.total;
+    const rows: Array<[string, string]> = [
+      [labels.invoiceNumber, invoice.number],
+      [labels.billTo, client?.name || ''],
+      [labels.dueDate, date(invoice.dueDate)],
+      [labels.balanceDue, money(balance)]
+    ];
+
+    rows.forEach(([label, value], index) => {
+      const rowY = top + 48 + index * 16;
+      doc.fillColor(theme.mutedColor).font(theme.font).fontSize(9).text(label, PAGE_MARGIN, rowY);
+      doc
+        .fillColor(theme.textColor)
+        .font(theme.boldFont)
+        .fontSize(10)
+        .text(value, PAGE_MARGIN + 110, rowY);
+    });
+
+    const boxX = right - 180;
+    doc.fillColor(theme.mutedColor).font(theme.font).fontSize(9);
+    doc.text(labels.amountEnclosed, boxX, top + 48);
+    doc
+      .rect(boxX, top + 62, 180, 28)
+      .lineWidth(0.75)
+      .strokeColor(theme.textColor)
+      .stroke();
+  }
+
+  // Draw a diagonal watermark on every page
+  private drawWatermark(doc: PdfDoc, text: string, theme: PdfTheme): void {
+    const range = doc.bufferedPageRange();
+
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      const centerX = doc.page.width / 2;
+      const centerY = doc.page.height / 2;
+
+      doc.save();
+      doc.rotate(-45, { origin: [centerX, centerY] });
+      doc
+        .fillColor(theme.mutedColor)
+        .fillOpacity(0.12)
+        .font(theme.boldFont)
+        .fontSize(90)
+        .text(text.toUpperCase(), centerX - 300, centerY - 45, {
+          width: 600,
+          align: 'center',
+          lineBreak: false
+        });
+      doc.restore();
+    }
+  }
+
+  // Draw "Page x / y" footers on every page
+  private drawPageNumbers(doc: PdfDoc, theme: PdfTheme, labels: Record<string, string>): void {
+    const range = doc.bufferedPageRange();
+    if (range.count < 2) {
+      return;
+    }
+
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+
+      // Writing inside the bottom margin would otherwise trigger an automatic page break
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc
+        .fillColor(theme.mutedColor)
+        .fillOpacity(1)
+        .font(theme.font)
+        .fontSize(8)
+        .text(
+          `${labels.page} ${i + 1} / ${range.count}`,
+          PAGE_MARGIN,
+          doc.page.height - PAGE_MARGIN + 15,
+          { width: doc.page.width - PAGE_MARGIN * 2, align: 'center', lineBreak: false }
+        );
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+
+  // Start a new page when the remaining space is too small
+  private ensureSpace(doc: PdfDoc, y: number, needed: number): number {
+    if (y + needed > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+      return PAGE_MARGIN;
+    }
+    return y;
+  }
+
+  private contentWidth(doc: PdfDoc): number {
+    return doc.page.width - PAGE_MARGIN * 2;
+  }
+
+  private resolveLanguage(language?: string): string {
+    const code = (language || 'en').toLowerCase().split(/[-_]/)[0];
+    return LABELS[code] ? code : 'en';
+  }
+
+  private formatMoney(value: number, currency: string, language: string): string {
+    try {
+      return new Intl.NumberFormat(LOCALES[language], { style: 'currency', currency }).format(
+        value || 0
+      );
+    } catch {
+      return `${currency} ${(value || 0).toFixed(getCurrencyPrecision(currency))}`;
+    }
+  }
+
+  private formatDate(value: Date | string, language: string): string {
+    const date = value instanceof Date ? value : new Date(value);
+    return new Intl.DateTimeFormat(LOCALES[language], {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC'
+    }).format(date);
+  }
+
+  private getInvoiceId(invoiceData: any): string | undefined {
+    const id = invoiceData?.id || invoiceData?._id;
+    return id ? id.toString() : undefined;
+  }
+
+  private sanitizeFilename(name: string): string {
+    return String(name || 'invoice').replace(/[^a-zA-Z0-9._-]/g, '_');
+  }
+
+  // Convert CSS-like margin strings (pt, px, cm, mm, in) to PDF points
+  private parseMargin(margin?: Record<string, string>) {
+    const toPoints = (value?: string): number => {
+      if (!value) return PAGE_MARGIN;
+      const match = /^([\d.]+)\s*(pt|px|cm|mm|in)?$/.exec(value.trim());
+      if (!match) return PAGE_MARGIN;
+      const amount = parseFloat(match[1]);
+      switch (match[2]) {
+        case 'cm':
+          return amount * 28.3465;
+        case 'mm':
+          return amount * 2.83465;
+        case 'in':
+          return amount * 72;
+        case 'px':
+          return amount * 0.75;
+        default:
+          return amount;
+      }
+    };
+
+    return {
+      top: toPoints(margin?.top),
+      right: toPoints(margin?.right),
+      bottom: toPoints(margin?.bottom),
+      left: toPoints(margin?.left)
+    };
+  }
+
+  // Reduce HTML to a list of text blocks
+  private htmlToBlocks(
+    html: string
+  ): Array<{ type: 'heading' | 'paragraph' | 'listItem'; text: string; level?: number }> {
+    const decode = (text: string) =>
+      text
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'");
+
+    const normalized = html
+      .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(td|th)>/gi, '\t')
+      .replace(/<h([1-6])[^>]*>/gi, '\u0000H$1')
+      .replace(/<li[^>]*>/gi, '\u0000L')
+      .replace(/<\/(p|div|h[1-6]|li|tr|table|ul|ol|section)>/gi, '\u0000P')
+      .replace(/<[^>]+>/g, '');
+
+    return normalized
+      .split('\u0000')
+      .map((segment, index) => {
+        // Every segment except the first starts with its block marker
+        if (index === 0) {
+          return { type: 'paragraph' as const, text: segment };
+        }
+        if (segment[0] === 'H') {
+          return { type: 'heading' as const, level: Number(segment[1]), text: segment.slice(2) };
+        }
+        if (segment[0] === 'L') {
+          return { type: 'listItem' as const, text: segment.slice(1) };
+        }
+        return { type: 'paragraph' as const, text: segment.slice(1) };
+      })
+      .map(block => ({
+        ...block,
+        text: decode(block.text)
+          .replace(/[ \t]+\n/g, '\n')
+          .replace(/[ \t]{2,}/g, '  ')
+          .trim()
+      }))
+      .filter(block => block.text.length > 0);
   }
 }
 
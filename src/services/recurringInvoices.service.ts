@@ -0,0 +1,514 @@
+import { Types } from 'mongoose';
+
+import logger from '../config/logger.js';
+import { Client } from '../models/Client.js';
+import { Invoice } from '../models/Invoice.js';
+import { RecurringInvoice } from '../models/RecurringInvoice.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import { parsePagination, createPaginatedResponse } from '../utils/pagination.js';
+import { fillPlaceholders, getPeriod, getPeriodPlaceholders } from '../utils/recurrence.js';
+
+import clientsService from './clients.service.js';
+import invoicesService from './invoices.service.js';
+import organizationsService from './organizations.service.js';
+import taxRatesService from './taxRates.service.js';
+import webhooksService from './webhooks.service.js';
+
+import type { IInvoice } from '../models/Invoice.js';
+import type { IRecurringInvoice, IRecurringInvoiceRun } from '../models/RecurringInvoice.js';
+import type { OrganizationScope } from '../utils/organizationScope.js';
+import type { RecurrencePeriod } from '../utils/recurrence.js';
+import type {
+  CreateRecurringInvoiceInput,
+  RecurringInvoiceQueryInput,
+  UpdateRecurringInvoiceInput,
+  UpdateRecurringInvoiceStatusInput
+} from '../validators/recurringInvoice.schema.js';
+
+// Milliseconds in a day
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Consecutive failed runs after which a profile is paused
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+// Missed occurrences generated for one profile in a single run
+const MAX_OCCURRENCES_PER_RUN = 12;
+
+// Summary of a generator run
+export interface RecurringRunResult {
+  due: number;
+  generated: number;
+  sent: number;
+  failed: number;
+}
+
+class RecurringInvoicesService {
+  // Ensure the client exists and belongs to the organization
+  private async assertClientOwnership(scope: OrganizationScope, clientId: string): Promise<void> {
+    const client = await Client.exists({
+      _id: new Types.ObjectId(clientId),
+      organizationId: new Types.ObjectId(scope.organizationId)
+    });
+
+    if (!client) {
+      throw ApiErrors.notFound('Client', clientId);
+    }
+  }
+
+  // Load a recurring invoice document of the organization
+  private async findOwnedRecurringInvoice(
+    scope: OrganizationScope,
+    recurringInvoiceId: string
+  ): Promise<IRecurringInvoice> {
+    const recurringInvoice = await RecurringInvoice.findOne({
+      _id: new Types.ObjectId(recurringInvoiceId),
+      organizationId: new Types.ObjectId(scope.organizationId)
+    });
+
+    if (!recurringInvoice) {
+      throw ApiErrors.notFound('Recurring invoice', recurringInvoiceId);
+    }
+
+    return recurringInvoice;
+  }
+
+  // Create the draft invoice for one occurrence, or return it if an earlier run already did
+  private async createOccurrenceInvoice(
+    profile: IRecurringInvoice,
+    period: RecurrencePeriod
+  ): Promise<IInvoice> {
+    const existing = await Invoice.findOne({
+      recurringInvoiceId: profile._id,
+      issueDate: period.start
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const userId = profile.userId.toString();
+    const client = await Client.findOne({
+      _id: profile.clientId,
+      organizationId: profile.organizationId
+    }).select('paymentTerms');
+    if (!client) {
+      throw ApiErrors.notFound('Client', profile.clientId.toString());
+    }
+
+    const { template } = profile;
+    const values = getPeriodPlaceholders(period);
+    const fill = (text?: string) => (text ? fillPlaceholders(text, values) : text);
+
+    // Taxes are resolved again so catalogue changes apply to future invoices
+    const items = await taxRatesService.resolveItemTaxes(
+      userId,
+      template.items.map(item => ({
+        description: fill(item.description)!,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        taxRate: item.taxRate,
+        taxRateIds: item.taxes.map(tax => tax.taxRateId.toString()),
+        discount: item.discount,
+        category: item.category,
+        unit: item.unit
+      }))
+    );
+
+    const paymentTermsDays = template.paymentTermsDays ?? client.paymentTerms;
+    const invoice = await Invoice.create({
+      userId: profile.userId,
+      organizationId: profile.organizationId,
+      clientId: profile.clientId,
+      recurringInvoiceId: profile._id,
+      issueDate: period.start,
+      dueDate: new Date(period.start.getTime() + paymentTermsDays * DAY_MS),
+      status: 'draft',
+      statusHistory: [
+        {
+          to: 'draft',
+          reason: `Generated from recurring invoice ${profile.name}`,
+          timestamp: new Date()
+        }
+      ],
+      items,
+      currency: template.currency,
+      rounding: template.rounding,
+      taxRate: template.taxRate,
+      discountType: template.discountType,
+      discountValue: template.discountValue,
+      shippingCost: template.shippingCost,
+      notes: fill(template.notes),
+      terms: fill(template.terms),
+      tags: template.tags
+    });
+
+    await clientsService.updateClientFinancials(profile.clientId.toString());
+    await webhooksService.dispatch('invoice.created', invoice, { invoice: invoice.toJSON() });
+
+    return invoice;
+  }
+
+  // Generate the next occurrence of a profile and record the run
+  private async generateOccurrence(
+    profile: IRecurringInvoice,
+    now: Date,
+    result: RecurringRunResult
+  ): Promise<boolean> {
+    const userId = profile.userId.toString();
+    const period = getPeriod(profile.schedule, profile.startDate, profile.occurrenceIndex);
+    const run: IRecurringInvoiceRun = {
+      scheduledFor: period.start,
+      periodStart: period.start,
+      periodEnd: period.end,
+      runAt: now,
+      status: 'success',
+      sent: false
+    };
+
+    try {
+      const invoice = await this.createOccurrenceInvoice(profile, period);
+      const invoiceId = (invoice._id as Types.ObjectId).toString();
+
+      run.invoiceId = invoice._id as Types.ObjectId;
+      run.invoiceNumber = invoice.number;
+      profile.occurrenceIndex += 1;
+      profile.occurrenceCount += 1;
+      profile.failureCount = 0;
+      result.generated++;
+
+      if (profile.autoSend.enabled && invoice.status === 'draft') {
+        const { autoSend } = profile;
+        const values = getPeriodPlaceholders(period);
+        const client = await Client.findById(profile.clientId).select('email');
+
+        // A failed email leaves the draft in place; it can still be sent by hand
+        try {
+          const scope = await organizationsService.getDocumentScope(invoice);
+          await invoicesService.sendInvoice(scope, invoiceId, {
+            to: autoSend.to.length > 0 ? autoSend.to : [client!.email],
+            cc: autoSend.cc,
+            subject: autoSend.subject && fillPlaceholders(autoSend.subject, values),
+            message: autoSend.message && fillPlaceholders(autoSend.message, values),
+            sendReminder: autoSend.sendReminder
+          });
+          run.sent = true;
+          result.sent++;
+        } catch (error) {
+          run.error = `Invoice not sent: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+      }
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : 'Unknown error';
+      profile.failureCount += 1;
+      result.failed++;
+
+      if (profile.failureCount >= MAX_CONSECUTIVE_FAILURES) {
+        profile.status = 'paused';
+      }
+
+      logger.error({
+        msg: 'Failed to generate recurring invoice',
+        recurringInvoiceId: (profile._id as Types.ObjectId).toString(),
+        organizationId: profile.organizationId.toString(),
+        userId,
+        scheduledFor: period.start,
+        error: run.error
+      });
+    }
+
+    profile.recordRun(run);
+    await profile.save();
+
+    return run.status === 'success';
+  }
+
+  // Create a new recurring invoice
+  async createRecurringInvoice(
+    scope: OrganizationScope,
+    recurringData: CreateRecurringInvoiceInput
+  ): Promise<IRecurringInvoice> {
+    try {
+      await this.assertClientOwnership(scope, recurringData.clientId);
+
+      const recurringInvoice = await RecurringInvoice.create({
+        ...recurringData,
+        userId: new Types.ObjectId(scope.ownerId),
+        organizationId: new Types.ObjectId(scope.organizationId),
+        clientId: new Types.ObjectId(recurringData.clientId),
+        template: {
+          ...recurringData.template,
+          items: await taxRatesService.resolveItemTaxes(scope.ownerId, recurringData.template.items)
+        }
+      });
+
+      logger.info({
+        msg: 'Recurring invoice created successfully',
+        recurringInvoiceId: (recurringInvoice._id as Types.ObjectId).toString(),
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        clientId: recurringData.clientId,
+        frequency: recurringData.schedule.frequency
+      });
+
+      return recurringInvoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to create recurring invoice',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        clientId: recurringData.clientId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Get recurring invoices with pagination and filtering
+  async getRecurringInvoices(scope: OrganizationScope, query: RecurringInvoiceQueryInput) {
+    try {
+      const pagination = parsePagination(query);
+      const filter: any = { organizationId: new Types.ObjectId(scope.organizationId) };
+
+      if (query.clientId) {
+        filter.clientId = new Types.ObjectId(query.clientId);
+      }
+      if (query.status) {
+        filter.status = query.status;
+      }
+
+      const [recurringInvoices, total] = await Promise.all([
+        RecurringInvoice.find(filter)
+          .select('-runs')
+          .populate('clientId', 'name email company')
+          .sort({ createdAt: -1 })
+          .skip(pagination.skip)
+          .limit(pagination.limit)
+          .lean(),
+        RecurringInvoice.countDocuments(filter)
+      ]);
+
+      return createPaginatedResponse(recurringInvoices, total, pagination);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get recurring invoices',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Get recurring invoice by ID, with its run history
+  async getRecurringInvoiceById(
+    scope: OrganizationScope,
+    recurringInvoiceId: string
+  ): Promise<IRecurringInvoice> {
+    try {
+      const recurringInvoice = await RecurringInvoice.findOne({
+        _id: new Types.ObjectId(recurringInvoiceId),
+        organizationId: new Types.ObjectId(scope.organizationId)
+      }).populate('clientId', 'name email company');
+
+      if (!recurringInvoice) {
+        throw ApiErrors.notFound('Recurring invoice', recurringInvoiceId);
+      }
+
+      return recurringInvoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get recurring invoice by ID',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        recurringInvoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Update recurring invoice; changes apply to invoices generated from now on
+  async updateRecurringInvoice(
+    scope: OrganizationScope,
+    recurringInvoiceId: string,
+    updateData: UpdateRecurringInvoiceInput
+  ): Promise<IRecurringInvoice> {
+    try {
+      const recurringInvoice = await this.findOwnedRecurringInvoice(scope, recurringInvoiceId);
+      const { endDate, maxOccurrences, template, ...fields } = updateData;
+
+      recurringInvoice.set(fields);
+      if (endDate !== undefined) {
+        recurringInvoice.endDate = endDate === null ? undefined : new Date(endDate);
+      }
+      if (maxOccurrences !== undefined) {
+        recurringInvoice.maxOccurrences = maxOccurrences ?? undefined;
+      }
+      if (template) {
+        recurringInvoice.set('template', {
+          ...template,
+          items: await taxRatesService.resolveItemTaxes(scope.ownerId, template.items)
+        });
+      }
+
+      // A new schedule starts over from its first occurrence that is not in the past
+      if (updateData.schedule || updateData.startDate) {
+        recurringInvoice.occurrenceIndex = 0;
+        recurringInvoice.skipMissedOccurrences();
+      }
+
+      if (recurringInvoice.endDate && recurringInvoice.endDate < recurringInvoice.startDate) {
+        throw ApiErrors.badRequest('End date must be on or after start date', {
+          details: [{ field: 'endDate', message: 'End date must be on or after start date' }]
+        });
+      }
+
+      await recurringInvoice.save();
+
+      logger.info({
+        msg: 'Recurring invoice updated successfully',
+        recurringInvoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        updatedFields: Object.keys(updateData)
+      });
+
+      return recurringInvoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to update recurring invoice',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        recurringInvoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Delete recurring invoice; invoices it generated are kept
+  async deleteRecurringInvoice(
+    scope: OrganizationScope,
+    recurringInvoiceId: string
+  ): Promise<void> {
+    try {
+      const recurringInvoice = await RecurringInvoice.findOneAndDelete({
+        _id: new Types.ObjectId(recurringInvoiceId),
+        organizationId: new Types.ObjectId(scope.organizationId)
+      });
+
+      if (!recurringInvoice) {
+        throw ApiErrors.notFound('Recurring invoice', recurringInvoiceId);
+      }
+
+      logger.info({
+        msg: 'Recurring invoice deleted successfully',
+        recurringInvoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to delete recurring invoice',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        recurringInvoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Pause or resume a recurring invoice; resuming skips the occurrences missed meanwhile
+  async updateRecurringInvoiceStatus(
+    scope: OrganizationScope,
+    recurringInvoiceId: string,
+    statusData: UpdateRecurringInvoiceStatusInput
+  ): Promise<IRecurringInvoice> {
+    try {
+      const recurringInvoice = await this.findOwnedRecurringInvoice(scope, recurringInvoiceId);
+
+      if (recurringInvoice.status === 'completed') {
+        throw ApiErrors.conflict('Recurring invoice has completed its schedule', {
+          code: 'RECURRING_INVOICE_COMPLETED'
+        });
+      }
+
+      if (statusData.status === 'active' && recurringInvoice.status === 'paused') {
+        recurringInvoice.status = 'active';
+        recurringInvoice.failureCount = 0;
+        recurringInvoice.skipMissedOccurrences();
+        recurringInvoice.scheduleNextRun();
+      } else {
+        recurringInvoice.status = statusData.status;
+      }
+
+      await recurringInvoice.save();
+
+      logger.info({
+        msg: 'Recurring invoice status updated successfully',
+        recurringInvoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        status: recurringInvoice.status
+      });
+
+      return recurringInvoice;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to update recurring invoice status',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        recurringInvoiceId,
+        status: statusData.status,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Generate the invoices of every active profile that has come due
+  async generateDueInvoices(now: Date = new Date()): Promise<RecurringRunResult> {
+    const result: RecurringRunResult = { due: 0, generated: 0, sent: 0, failed: 0 };
+
+    try {
+      // Matches the { status, nextRunAt } index
+      const profiles = await RecurringInvoice.find({
+        status: 'active',
+        nextRunAt: { $lte: now }
+      });
+
+      result.due = profiles.length;
+
+      for (const profile of profiles) {
+        // Catch up on occurrences missed while the generator was not running
+        for (let i = 0; i < MAX_OCCURRENCES_PER_RUN; i++) {
+          if (profile.status !== 'active' || !profile.nextRunAt || profile.nextRunAt > now) {
+            break;
+          }
+          if (!(await this.generateOccurrence(profile, now, result))) {
+            break;
+          }
+        }
+      }
+
+      if (result.generated > 0 || result.failed > 0) {
+        logger.info({
+          msg: 'Recurring invoices generated',
+          ...result
+        });
+      }
+
+      return result;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to generate recurring invoices',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const recurringInvoicesService = new RecurringInvoicesService();
+export default recurringInvoicesService;
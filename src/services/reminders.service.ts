@@ -0,0 +1,231 @@
+import {
+  APP_URL,
+  REMINDER_DAYS_BEFORE_DUE,
+  REMINDER_ON_DUE_DATE,
+  REMINDER_DAYS_AFTER_DUE,
+  REMINDER_MAX_PER_INVOICE
+} from '../config/env.js';
+import logger from '../config/logger.js';
+import { Invoice } from '../models/Invoice.js';
+import { User } from '../models/User.js';
+
+import mailService from './mail.service.js';
+import webhooksService from './webhooks.service.js';
+
+import type { IInvoice } from '../models/Invoice.js';
+import type { IUser } from '../models/User.js';
+import type { Types } from 'mongoose';
+
+// Milliseconds in a day
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that still expect a payment
+const OPEN_STATUSES = ['sent', 'viewed', 'overdue'];
+
+// Reminder cadence relative to the due date
+export interface ReminderCadence {
+  daysBeforeDue: number;
+  onDueDate: boolean;
+  daysAfterDue: number[];
+  maxPerInvoice: number;
+}
+
+// Summary of a reminder run
+export interface ReminderRunResult {
+  candidates: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+// Cadence configured through the environment
+const DEFAULT_CADENCE: ReminderCadence = {
+  daysBeforeDue: REMINDER_DAYS_BEFORE_DUE,
+  onDueDate: REMINDER_ON_DUE_DATE,
+  daysAfterDue: REMINDER_DAYS_AFTER_DUE,
+  maxPerInvoice: REMINDER_MAX_PER_INVOICE
+};
+
+class RemindersService {
+  // Reminder dates for an invoice, oldest first
+  private getReminderDates(invoice: IInvoice, cadence: ReminderCadence): Date[] {
+    const offsets: number[] = [];
+
+    if (cadence.daysBeforeDue > 0) {
+      offsets.push(-cadence.daysBeforeDue);
+    }
+    if (cadence.onDueDate) {
+      offsets.push(0);
+    }
+
+    // An interval chosen when the invoice was sent replaces the default follow-ups
+    const intervalDays = invoice.reminders?.intervalDays;
+    if (intervalDays) {
+      for (let i = 1; i <= cadence.maxPerInvoice; i++) {
+        offsets.push(i * intervalDays);
+      }
+    } else {
+      offsets.push(...cadence.daysAfterDue);
+    }
+
+    return [...new Set(offsets)]
+      .sort((a, b) => a - b)
+      .map(offset => new Date(invoice.dueDate.getTime() + offset * DAY_MS));
+  }
+
+  // Email a reminder to the invoice recipients
+  private async sendReminder(invoice: IInvoice, user: IUser, now: Date): Promise<void> {
+    const client = invoice.clientId as any;
+    const lastDelivery = invoice.deliveries.filter(delivery => delivery.status !== 'failed').at(-1);
+    const recipients = lastDelivery?.to.length ? lastDelivery.to : [client?.email];
+    const daysOverdue = Math.floor((now.getTime() - invoice.dueDate.getTime()) / DAY_MS);
+
+    for (const recipient of recipients.filter(Boolean)) {
+      await mailService.sendInvoiceReminderEmail(recipient, {
+        clientName: client?.name || recipient,
+        invoiceNumber: invoice.number,
+        amount: invoice.remainingBalance,
+        currency: invoice.currency,
+        dueDate: invoice.dueDate.toISOString().split('T')[0],
+        invoiceUrl: `${APP_URL}/invoices/${(invoice._id as Types.ObjectId).toString()}`,
+        companyName: user.name,
+        daysOverdue: daysOverdue > 0 ? daysOverdue : undefined
+      });
+    }
+  }
+
+  // Flag every unpaid invoice past its due date as overdue
+  async markOverdueInvoices(now: Date = new Date()): Promise<number> {
+    try {
+      // Matches the { status, dueDate } index. The ids are collected first so webhooks
+      // can be told which invoices changed.
+      const filter = { status: { $in: ['sent', 'viewed'] }, dueDate: { $lt: now } };
+      const dueIds = (await Invoice.find(filter).select('_id')).map(invoice => invoice._id);
+      if (dueIds.length === 0) {
+        return 0;
+      }
+
+      // The pipeline update reads the previous status so the change is recorded in the
+      // history like any other transition
+      const result = await Invoice.updateMany({ _id: { $in: dueIds }, ...filter }, [
+        {
+          $set: {
+            status: 'overdue',
+            statusHistory: {
+              $concatArrays: [
+                { $ifNull: ['$statusHistory', []] },
+                [{ from: '$status', to: 'overdue', reason: 'Past due date', timestamp: now }]
+              ]
+            }
+          }
+        }
+      ]);
+
+      if (result.modifiedCount > 0) {
+        logger.info({
+          msg: 'Invoices marked as overdue',
+          count: result.modifiedCount
+        });
+
+        const overdue = await Invoice.find({ _id: { $in: dueIds }, status: 'overdue' });
+        for (const invoice of overdue) {
+          await webhooksService.dispatch('invoice.overdue', invoice, { invoice: invoice.toJSON() });
+        }
+      }
+
+      return result.modifiedCount;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to mark overdue invoices',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Send the payment reminders that have come due since the last run
+  async sendInvoiceReminders(
+    now: Date = new Date(),
+    cadence: ReminderCadence = DEFAULT_CADENCE
+  ): Promise<ReminderRunResult> {
+    const result: ReminderRunResult = { candidates: 0, sent: 0, skipped: 0, failed: 0 };
+
+    try {
+      const invoices = await Invoice.find({
+        status: { $in: OPEN_STATUSES },
+        dueDate: { $lte: new Date(now.getTime() + cadence.daysBeforeDue * DAY_MS) },
+        'reminders.enabled': { $ne: false }
+      }).populate('clientId', 'name email');
+
+      result.candidates = invoices.length;
+      if (invoices.length === 0) {
+        return result;
+      }
+
+      const users = await User.find({
+        _id: { $in: [...new Set(invoices.map(invoice => invoice.userId.toString()))] }
+      }).select('name email isActive preferences');
+      const usersById = new Map<string, IUser>(users.map(user => [user._id.toString(), user]));
+
+      for (const invoice of invoices) {
+        const user = usersById.get(invoice.userId.toString());
+        if (
+          !user ||
+          !user.isActive ||
+          user.preferences?.notifications?.invoiceReminders === false ||
+          (invoice.reminders?.sentCount || 0) >= cadence.maxPerInvoice
+        ) {
+          result.skipped++;
+          continue;
+        }
+
+        const dates = this.getReminderDates(invoice, cadence);
+        const lastReminderAt = [...dates].reverse().find(date => date <= now);
+        const nextReminderAt = dates.find(date => date > now);
+
+        // Never remind twice for the same date, nor for dates before the invoice went out
+        const floor = invoice.reminders?.lastSentAt || invoice.sentAt || invoice.createdAt;
+        if (!lastReminderAt || lastReminderAt <= floor) {
+          result.skipped++;
+          continue;
+        }
+
+        try {
+          await this.sendReminder(invoice, user, now);
+
+          await Invoice.updateOne(
+            { _id: invoice._id },
+            {
+              $set: {
+                'reminders.enabled': true,
+                'reminders.lastSentAt': now,
+                'reminders.nextReminderAt': nextReminderAt || null
+              },
+              $inc: { 'reminders.sentCount': 1 }
+            }
+          );
+
+          result.sent++;
+        } catch (error) {
+          result.failed++;
+          logger.error({
+            msg: 'Failed to send invoice reminder',
+            invoiceId: (invoice._id as Types.ObjectId).toString(),
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      return result;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to send invoice reminders',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const remindersService = new RemindersService();
+export default remindersService;
@@ -0,0 +1,263 @@
+import { Types } from 'mongoose';
+
+import logger from '../config/logger.js';
+import { Membership } from '../models/Membership.js';
+import { DEFAULT_ROLES, isBuiltInRole, OWNER_ROLE, PERMISSIONS, Role } from '../models/Role.js';
+import { ApiErrors } from '../utils/ApiError.js';
+
+import type { ActiveOrganization } from './organizations.service.js';
+import type { Permission } from '../models/Role.js';
+import type { CreateRoleInput, UpdateRoleInput } from '../validators/organization.schema.js';
+
+// Role of an organization as listed to its members
+export interface OrganizationRoleSummary {
+  key: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  builtIn: boolean;
+  editable: boolean;
+}
+
+class RolesService {
+  private toSummary(
+    key: string,
+    role: { name: string; description?: string; permissions: Permission[] }
+  ): OrganizationRoleSummary {
+    return {
+      key,
+      name: role.name,
+      description: role.description,
+      permissions: role.permissions,
+      builtIn: isBuiltInRole(key),
+      editable: key !== OWNER_ROLE
+    };
+  }
+
+  // Ensure the member may edit the roles of the organization
+  private assertCanManage(organization: ActiveOrganization): void {
+    if (!organization.permissions.includes('roles:manage')) {
+      throw ApiErrors.forbidden('Missing permission: roles:manage', {
+        code: 'PERMISSION_DENIED'
+      });
+    }
+  }
+
+  // Permissions a role grants in an organization; unknown roles grant none
+  async getPermissions(organizationId: string, roleKey: string): Promise<Permission[]> {
+    if (roleKey === OWNER_ROLE) {
+      return [...PERMISSIONS];
+    }
+
+    const role = await Role.findOne({
+      organizationId: new Types.ObjectId(organizationId),
+      key: roleKey
+    }).lean();
+
+    if (role) {
+      return role.permissions;
+    }
+    return isBuiltInRole(roleKey) ? DEFAULT_ROLES[roleKey].permissions : [];
+  }
+
+  // Ensure a role exists and can be given to a member
+  async assertAssignable(organizationId: string, roleKey: string): Promise<void> {
+    if (roleKey === OWNER_ROLE) {
+      throw ApiErrors.badRequest('The owner role cannot be assigned', {
+        code: 'INVALID_ROLE'
+      });
+    }
+
+    const exists =
+      isBuiltInRole(roleKey) ||
+      (await Role.exists({ organizationId: new Types.ObjectId(organizationId), key: roleKey }));
+
+    if (!exists) {
+      throw ApiErrors.badRequest(`Unknown role: ${roleKey}`, { code: 'INVALID_ROLE' });
+    }
+  }
+
+  // List the built-in roles, as edited by the organization, followed by its custom roles
+  async listRoles(organization: ActiveOrganization): Promise<OrganizationRoleSummary[]> {
+    try {
+      const stored = await Role.find({ organizationId: new Types.ObjectId(organization.id) })
+        .sort({ name: 1 })
+        .lean();
+
+      const builtIn = Object.entries(DEFAULT_ROLES).map(([key, definition]) => {
+        const edited = key === OWNER_ROLE ? undefined : stored.find(role => role.key === key);
+        return this.toSummary(key, edited ?? definition);
+      });
+      const custom = stored
+        .filter(role => !isBuiltInRole(role.key))
+        .map(role => this.toSummary(role.key, role));
+
+      return [...builtIn, ...custom];
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to list organization roles',
+        organizationId: organization.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Create a custom role
+  async createRole(
+    organization: ActiveOrganization,
+    userId: string,
+    roleData: CreateRoleInput
+  ): Promise<OrganizationRoleSummary> {
+    try {
+      this.assertCanManage(organization);
+
+      const organizationId = new Types.ObjectId(organization.id);
+      if (
+        isBuiltInRole(roleData.key) ||
+        (await Role.exists({ organizationId, key: roleData.key }))
+      ) {
+        throw ApiErrors.conflict(`Role ${roleData.key} already exists`, { code: 'ROLE_EXISTS' });
+      }
+
+      const role = await Role.create({
+        ...roleData,
+        organizationId,
+        createdBy: new Types.ObjectId(userId)
+      });
+
+      logger.info({
+        msg: 'Organization role created successfully',
+        organizationId: organization.id,
+        userId,
+        role: role.key
+      });
+
+      return this.toSummary(role.key, role);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to create organization role',
+        organizationId: organization.id,
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Change a role; editing a built-in role stores the organization's own copy of it
+  async updateRole(
+    organization: ActiveOrganization,
+    userId: string,
+    roleKey: string,
+    updateData: UpdateRoleInput
+  ): Promise<OrganizationRoleSummary> {
+    try {
+      this.assertCanManage(organization);
+
+      if (roleKey === OWNER_ROLE) {
+        throw ApiErrors.badRequest('The owner role cannot be changed', {
+          code: 'OWNER_ROLE_LOCKED'
+        });
+      }
+
+      const organizationId = new Types.ObjectId(organization.id);
+      const definition = isBuiltInRole(roleKey) ? DEFAULT_ROLES[roleKey] : undefined;
+
+      const role = await Role.findOneAndUpdate(
+        { organizationId, key: roleKey },
+        {
+          $set: { ...updateData, updatedBy: new Types.ObjectId(userId) },
+          ...(definition && {
+            $setOnInsert: {
+              ...(updateData.name === undefined && { name: definition.name }),
+              ...(updateData.description === undefined && {
+                description: definition.description
+              }),
+              ...(updateData.permissions === undefined && {
+                permissions: definition.permissions
+              })
+            }
+          })
+        },
+        { new: true, upsert: !!definition, runValidators: true }
+      );
+
+      if (!role) {
+        throw ApiErrors.notFound('Role', roleKey);
+      }
+
+      logger.info({
+        msg: 'Organization role updated successfully',
+        organizationId: organization.id,
+        userId,
+        role: roleKey,
+        updatedFields: Object.keys(updateData)
+      });
+
+      return this.toSummary(role.key, role);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to update organization role',
+        organizationId: organization.id,
+        userId,
+        role: roleKey,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Delete a custom role that no member or invitation uses
+  async deleteRole(
+    organization: ActiveOrganization,
+    userId: string,
+    roleKey: string
+  ): Promise<void> {
+    try {
+      this.assertCanManage(organization);
+
+      if (isBuiltInRole(roleKey)) {
+        throw ApiErrors.badRequest('Built-in roles cannot be deleted', {
+          code: 'BUILT_IN_ROLE'
+        });
+      }
+
+      const organizationId = new Types.ObjectId(organization.id);
+      const inUse = await Membership.exists({
+        organizationId,
+        role: roleKey,
+        status: { $ne: 'revoked' }
+      });
+      if (inUse) {
+        throw ApiErrors.conflict('Role is assigned to members or invitations', {
+          code: 'ROLE_IN_USE'
+        });
+      }
+
+      const result = await Role.deleteOne({ organizationId, key: roleKey });
+      if (result.deletedCount === 0) {
+        throw ApiErrors.notFound('Role', roleKey);
+      }
+
+      logger.info({
+        msg: 'Organization role deleted successfully',
+        organizationId: organization.id,
+        userId,
+        role: roleKey
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to delete organization role',
+        organizationId: organization.id,
+        userId,
+        role: roleKey,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const rolesService = new RolesService();
+export default rolesService;
@@ -0,0 +1,147 @@
+import { randomBytes } from 'crypto';
+import { hostname } from 'os';
+
+import logger from '../config/logger.js';
+import { JobLock } from '../models/JobLock.js';
+
+// Background job definition
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  // How long a run may hold the lock before another instance can take over
+  leaseMs?: number;
+  handler: () => Promise<unknown>;
+}
+
+// Outcome of a single job run
+export interface JobRunResult {
+  name: string;
+  ran: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+class SchedulerService {
+  private readonly instanceId = `${hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+  private readonly jobs = new Map<string, ScheduledJob>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly running = new Set<string>();
+
+  // Register a job; it starts ticking on the next start()
+  register(job: ScheduledJob): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job ${job.name} is already registered`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  // Start the interval timers for all registered jobs
+  start(): void {
+    for (const job of this.jobs.values()) {
+      if (this.timers.has(job.name)) {
+        continue;
+      }
+
+      const tick = () => {
+        void this.runJob(job.name);
+      };
+
+      // Timers must not keep the process alive during shutdown
+      const timer = setInterval(tick, job.intervalMs);
+      timer.unref();
+      this.timers.set(job.name, timer);
+
+      setImmediate(tick);
+    }
+
+    logger.info({
+      msg: 'Scheduler started',
+      instanceId: this.instanceId,
+      jobs: [...this.jobs.keys()]
+    });
+  }
+
+  // Stop all timers; runs in progress finish on their own
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearInterval(timer);
+    }
+    this.timers.clear();
+
+    logger.info({ msg: 'Scheduler stopped', instanceId: this.instanceId });
+  }
+
+  // Run a job now if no other instance holds its lock
+  async runJob(name: string): Promise<JobRunResult> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Job ${name} is not registered`);
+    }
+
+    // Skip overlapping runs inside this process
+    if (this.running.has(name)) {
+      return { name, ran: false };
+    }
+
+    this.running.add(name);
+    const startedAt = Date.now();
+
+    try {
+      const acquired = await JobLock.acquire(name, this.instanceId, job.leaseMs || job.intervalMs);
+      if (!acquired) {
+        return { name, ran: false };
+      }
+
+      let error: string | undefined;
+      let result: unknown;
+
+      try {
+        result = await job.handler();
+
+        logger.info({
+          msg: 'Scheduled job completed',
+          job: name,
+          durationMs: Date.now() - startedAt,
+          result
+        });
+      } catch (jobError) {
+        error = jobError instanceof Error ? jobError.message : 'Unknown error';
+
+        logger.error({
+          msg: 'Scheduled job failed',
+          job: name,
+          durationMs: Date.now() - startedAt,
+          error
+        });
+      }
+
+      // Keep the lock until the next slot so other instances skip this interval.
+      // The slack lets our own next tick through even if the timer fires a little early.
+      const slackMs = Math.min(job.intervalMs / 10, 5000);
+      await JobLock.release(
+        name,
+        this.instanceId,
+        new Date(startedAt + job.intervalMs - slackMs),
+        error
+      );
+
+      return { name, ran: true, result, error };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to run scheduled job',
+        job: name,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return {
+        name,
+        ran: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      this.running.delete(name);
+    }
+  }
+}
+
+export const schedulerService = new SchedulerService();
+export default schedulerService;
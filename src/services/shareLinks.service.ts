@@ -0,0 +1,499 @@
+import { createHmac, randomBytes } from 'crypto';
+
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+
+import { APP_URL, JWT_SECRET, SHARE_LINK_SECRET } from '../config/env.js';
+import logger from '../config/logger.js';
+import { Invoice } from '../models/Invoice.js';
+import { SHARE_LINK_VIEW_LIMIT, ShareLink } from '../models/ShareLink.js';
+import { User } from '../models/User.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import { getCurrencyPrecision } from '../utils/money.js';
+import { escapeHtml } from '../utils/sanitize.js';
+
+import invoicesService from './invoices.service.js';
+import organizationsService from './organizations.service.js';
+import webhooksService from './webhooks.service.js';
+
+import type { PdfGenerationResult } from './pdf.service.js';
+import type { IAddress, IClient } from '../models/Client.js';
+import type { IInvoice } from '../models/Invoice.js';
+import type { IShareLink } from '../models/ShareLink.js';
+import type { OrganizationScope } from '../utils/organizationScope.js';
+import type {
+  CreateShareLinkInput,
+  SharedInvoicePdfQueryInput
+} from '../validators/shareLink.schema.js';
+import type { Secret } from 'jsonwebtoken';
+
+// Audience claim that keeps share tokens apart from any other signed token
+const SHARE_LINK_AUDIENCE = 'invoice-share';
+
+// Share tokens never verify as session tokens, even when no dedicated secret is set
+const SHARE_LINK_KEY: Secret =
+  SHARE_LINK_SECRET || createHmac('sha256', JWT_SECRET).update('invoice-share-links').digest('hex');
+
+// Invoices a client can be shown; drafts are not issued yet
+const SHAREABLE_STATUSES = ['sent', 'viewed', 'overdue', 'paid'];
+
+// Milliseconds in a day
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Visitor details recorded when a link is opened
+export interface ShareLinkVisitor {
+  ip?: string;
+  userAgent?: string;
+}
+
+// Newly created link; the token is only returned here
+export interface CreatedShareLink {
+  shareLink: IShareLink;
+  token: string;
+  url: string;
+}
+
+// Invoice as shown to the client: no payments, history or internal fields
+export interface PublicInvoiceView {
+  number: string;
+  status: string;
+  issueDate: Date;
+  dueDate: Date;
+  currency: string;
+  issuer: { name?: string; email?: string };
+  client: { name?: string; company?: string; billingAddress?: IAddress };
+  items: {
+    description: string;
+    quantity: number;
+    unit?: string;
+    unitPrice: number;
+    discount: number;
+    subtotal: number;
+    taxAmount: number;
+    total: number;
+  }[];
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  taxSummary: { name: string; rate: number; taxableAmount: number; taxAmount: number }[];
+  shippingCost: number;
+  total: number;
+  totalPaid: number;
+  totalCredited: number;
+  remainingBalance: number;
+  notes?: string;
+  terms?: string;
+  pdfUrl: string;
+}
+
+class ShareLinksService {
+  // Public URL of a share token
+  private getShareUrl(token: string): string {
+    return `${APP_URL}/api/v1/public/invoices/${token}`;
+  }
+
+  // Resolve a token to its live link and invoice
+  private async resolveToken(
+    token: string
+  ): Promise<{ link: IShareLink; invoice: IInvoice; client: IClient }> {
+    let payload: jwt.JwtPayload;
+    try {
+      payload = jwt.verify(token, SHARE_LINK_KEY, {
+        audience: SHARE_LINK_AUDIENCE
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw ApiErrors.custom(410, 'Share link has expired', 'SHARE_LINK_EXPIRED');
+      }
+      throw ApiErrors.notFound('Share link');
+    }
+
+    const link = await ShareLink.findOne({ tokenId: payload.jti });
+    if (!link || link.invoiceId.toString() !== payload.sub) {
+      throw ApiErrors.notFound('Share link');
+    }
+    if (link.revokedAt) {
+      throw ApiErrors.custom(410, 'Share link has been revoked', 'SHARE_LINK_REVOKED');
+    }
+
+    const invoice = await Invoice.findOne({ _id: link.invoiceId });
+    if (!invoice) {
+      throw ApiErrors.notFound('Share link');
+    }
+    if (invoice.status === 'cancelled') {
+      throw ApiErrors.custom(410, 'Shared invoice has been cancelled', 'SHARED_INVOICE_CANCELLED');
+    }
+
+    const { clientId: client } = await invoice.populate<{ clientId: IClient }>(
+      'clientId',
+      'name company billingAddress'
+    );
+
+    return { link, invoice, client };
+  }
+
+  // Record an open; the first open of a link marks the invoice as viewed
+  private async recordView(
+    link: IShareLink,
+    invoice: IInvoice,
+    visitor: ShareLinkVisitor
+  ): Promise<void> {
+    const now = new Date();
+    const previous = await ShareLink.findOneAndUpdate(
+      { _id: link._id },
+      {
+        $inc: { viewCount: 1 },
+        $min: { firstViewedAt: now },
+        $set: { lastViewedAt: now },
+        $push: {
+          views: {
+            $each: [{ ip: visitor.ip, userAgent: visitor.userAgent?.slice(0, 500), viewedAt: now }],
+            $slice: -SHARE_LINK_VIEW_LIMIT
+          }
+        }
+      }
+    );
+
+    if (previous && previous.viewCount === 0) {
+      const previousStatus = invoice.status;
+      invoice.markAsViewed();
+      await invoice.save();
+      await webhooksService.dispatchInvoiceStatus(invoice, previousStatus);
+
+      logger.info({
+        msg: 'Shared invoice opened for the first time',
+        shareLinkId: (link._id as Types.ObjectId).toString(),
+        invoiceId: link.invoiceId.toString(),
+        ip: visitor.ip,
+        userAgent: visitor.userAgent
+      });
+    }
+  }
+
+  // Ensure an invoice belongs to the organization
+  private async assertInvoiceInScope(scope: OrganizationScope, invoiceId: string): Promise<void> {
+    const invoice = await Invoice.exists({
+      _id: new Types.ObjectId(invoiceId),
+      organizationId: new Types.ObjectId(scope.organizationId)
+    });
+    if (!invoice) {
+      throw ApiErrors.notFound('Invoice', invoiceId);
+    }
+  }
+
+  // Create a signed link to the public view of an invoice
+  async createShareLink(
+    scope: OrganizationScope,
+    invoiceId: string,
+    linkData: CreateShareLinkInput
+  ): Promise<CreatedShareLink> {
+    try {
+      const invoice = await Invoice.findOne({
+        _id: new Types.ObjectId(invoiceId),
+        organizationId: new Types.ObjectId(scope.organizationId)
+      }).select('status');
+
+      if (!invoice) {
+        throw ApiErrors.notFound('Invoice', invoiceId);
+      }
+      if (!SHAREABLE_STATUSES.includes(invoice.status)) {
+        throw ApiErrors.conflict(`A ${invoice.status} invoice cannot be shared`, {
+          code: 'INVOICE_NOT_SHAREABLE'
+        });
+      }
+
+      // Stored under the owner, who is shown as the issuer of the shared invoice
+      const shareLink = await ShareLink.create({
+        userId: new Types.ObjectId(scope.ownerId),
+        invoiceId: invoice._id,
+        tokenId: randomBytes(16).toString('hex'),
+        expiresAt: new Date(Date.now() + linkData.expiresInDays * DAY_MS),
+        createdBy: new Types.ObjectId(scope.userId)
+      });
+
+      const token = jwt.sign({}, SHARE_LINK_KEY, {
+        audience: SHARE_LINK_AUDIENCE,
+        subject: invoiceId,
+        jwtid: shareLink.tokenId,
+        expiresIn: linkData.expiresInDays * 24 * 60 * 60
+      });
+
+      logger.info({
+        msg: 'Share link created successfully',
+        shareLinkId: (shareLink._id as Types.ObjectId).toString(),
+        invoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        expiresAt: shareLink.expiresAt
+      });
+
+      return { shareLink, token, url: this.getShareUrl(token) };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to create share link',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // List the links of an invoice that can still be opened
+  async getShareLinks(scope: OrganizationScope, invoiceId: string): Promise<IShareLink[]> {
+    try {
+      await this.assertInvoiceInScope(scope, invoiceId);
+
+      return await ShareLink.find({
+        invoiceId: new Types.ObjectId(invoiceId),
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() }
+      }).sort({ createdAt: -1 });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get share links',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Revoke a link; later opens are refused
+  async revokeShareLink(
+    scope: OrganizationScope,
+    invoiceId: string,
+    linkId: string
+  ): Promise<IShareLink> {
+    try {
+      await this.assertInvoiceInScope(scope, invoiceId);
+
+      const shareLink = await ShareLink.findOne({
+        _id: new Types.ObjectId(linkId),
+        invoiceId: new Types.ObjectId(invoiceId)
+      });
+
+      if (!shareLink) {
+        throw ApiErrors.notFound('Share link', linkId);
+      }
+
+      if (!shareLink.revokedAt) {
+        shareLink.revokedAt = new Date();
+        shareLink.revokedBy = new Types.ObjectId(scope.userId);
+        await shareLink.save();
+      }
+
+      logger.info({
+        msg: 'Share link revoked successfully',
+        shareLinkId: linkId,
+        invoiceId,
+        organizationId: scope.organizationId,
+        userId: scope.userId
+      });
+
+      return shareLink;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to revoke share link',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        invoiceId,
+        shareLinkId: linkId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Open the public view of a shared invoice
+  async getSharedInvoice(token: string, visitor: ShareLinkVisitor): Promise<PublicInvoiceView> {
+    try {
+      const { link, invoice, client } = await this.resolveToken(token);
+      await this.recordView(link, invoice, visitor);
+
+      const issuer = await User.findById(link.userId).select('name email');
+
+      return {
+        number: invoice.number,
+        status: invoice.status,
+        issueDate: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        currency: invoice.currency,
+        issuer: { name: issuer?.name, email: issuer?.email },
+        client: {
+          name: client?.name,
+          company: client?.company,
+          billingAddress: client?.billingAddress
+        },
+        items: invoice.items.map(item => ({
+          description: item.description,
+          quantity: item.quantity,
+          unit: item.unit,
+          unitPrice: item.unitPrice,
+          discount: item.discount,
+          subtotal: item.subtotal,
+          taxAmount: item.taxAmount,
+          total: item.total
+        })),
+        subtotal: invoice.subtotal,
+        discountAmount: invoice.discountAmount,
+        taxAmount: invoice.taxAmount,
+        taxSummary: invoice.taxSummary.map(line => ({
+          name: line.name,
+          rate: line.rate,
+          taxableAmount: line.taxableAmount,
+          taxAmount: line.taxAmount
+        })),
+        shippingCost: invoice.shippingCost,
+        total: invoice.total,
+        totalPaid: invoice.totalPaid,
+        totalCredited: invoice.totalCredited,
+        remainingBalance: invoice.remainingBalance,
+        notes: invoice.notes,
+        terms: invoice.terms,
+        pdfUrl: `${this.getShareUrl(token)}/pdf`
+      };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to open shared invoice',
+        ip: visitor.ip,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Render the PDF of a shared invoice
+  async renderSharedInvoicePdf(
+    token: string,
+    visitor: ShareLinkVisitor,
+    options: SharedInvoicePdfQueryInput = {}
+  ): Promise<PdfGenerationResult> {
+    try {
+      const { link, invoice } = await this.resolveToken(token);
+      await this.recordView(link, invoice, visitor);
+
+      return await invoicesService.renderInvoicePdf(
+        await organizationsService.getDocumentScope(invoice),
+        link.invoiceId.toString(),
+        { language: options.language }
+      );
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to render shared invoice PDF',
+        ip: visitor.ip,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Render the public view as a standalone HTML page
+  renderSharedInvoiceHtml(view: PublicInvoiceView): string {
+    const text = (value?: string | number) => escapeHtml(String(value ?? ''));
+    const money = (value: number) => {
+      try {
+        return text(
+          new Intl.NumberFormat('en-US', { style: 'currency', currency: view.currency }).format(
+            value || 0
+          )
+        );
+      } catch {
+        return text(
+          `${view.currency} ${(value || 0).toFixed(getCurrencyPrecision(view.currency))}`
+        );
+      }
+    };
+    const date = (value: Date) => text(new Date(value).toISOString().split('T')[0]);
+
+    const address = view.client.billingAddress;
+    const clientLines = [
+      view.client.company,
+      view.client.name,
+      address?.street,
+      [address?.postalCode, address?.city].filter(Boolean).join(' '),
+      address?.country
+    ].filter(Boolean);
+
+    const rows = view.items
+      .map(
+        item => `<tr>
+          <td>${text(item.description)}</td>
+          <td class="num">${text(item.quantity)}${item.unit ? ` ${text(item.unit)}` : ''}</td>
+          <td class="num">${money(item.unitPrice)}</td>
+          <td class="num">${money(item.total)}</td>
+        </tr>`
+      )
+      .join('');
+
+    const totals: [string, number][] = [['Subtotal', view.subtotal]];
+    if (view.discountAmount > 0) totals.push(['Discount', -view.discountAmount]);
+    totals.push(['Tax', view.taxAmount]);
+    if (view.shippingCost > 0) totals.push(['Shipping', view.shippingCost]);
+    totals.push(['Total', view.total]);
+    if (view.totalCredited > 0) totals.push(['Credited', -view.totalCredited]);
+    if (view.totalPaid > 0) totals.push(['Paid', -view.totalPaid]);
+    totals.push(['Balance due', view.remainingBalance]);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>Invoice ${text(view.number)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #1f2937; max-width: 800px; margin: 40px auto; padding: 0 20px; }
+    header { display: flex; justify-content: space-between; align-items: flex-start; }
+    h1 { margin: 0 0 4px; font-size: 28px; }
+    .muted { color: #6b7280; }
+    .status { text-transform: uppercase; font-size: 12px; letter-spacing: 0.05em; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    th, td { padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+    .num { text-align: right; white-space: nowrap; }
+    .totals td { border: none; padding: 4px 8px; }
+    .totals tr:last-child td { font-weight: bold; border-top: 2px solid #1f2937; }
+    a.button { display: inline-block; margin-top: 24px; padding: 10px 16px; background: #1f2937; color: #fff; text-decoration: none; border-radius: 4px; }
+  </style>
+</head>
+<body>
+  <header>
+    <div>
+      <h1>Invoice ${text(view.number)}</h1>
+      <div class="status muted">${text(view.status)}</div>
+    </div>
+    <div class="num">
+      <strong>${text(view.issuer.name)}</strong><br>
+      <span class="muted">${text(view.issuer.email)}</span>
+    </div>
+  </header>
+  <p>
+    <span class="muted">Bill to</span><br>
+    ${clientLines.map(line => text(line)).join('<br>')}
+  </p>
+  <p>
+    <span class="muted">Issue date</span> ${date(view.issueDate)}<br>
+    <span class="muted">Due date</span> ${date(view.dueDate)}
+  </p>
+  <table>
+    <thead>
+      <tr><th>Description</th><th class="num">Quantity</th><th class="num">Unit price</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${rows}</tbody>
+  </table>
+  <table class="totals">
+    ${totals.map(([label, value]) => `<tr><td class="num">${label}</td><td class="num">${money(value)}</td></tr>`).join('')}
+  </table>
+  ${view.notes ? `<h3>Notes</h3><p>${text(view.notes)}</p>` : ''}
+  ${view.terms ? `<h3>Terms</h3><p>${text(view.terms)}</p>` : ''}
+  <a class="button" href="${text(view.pdfUrl)}">Download PDF</a>
+</body>
+</html>`;
+  }
+}
+
+export const shareLinksService = new ShareLinksService();
+export default shareLinksService;
@@ -0,0 +1,270 @@
+import { Types } from 'mongoose';
+
+import logger from '../config/logger.js';
+import { Invoice } from '../models/Invoice.js';
+import { TaxRate } from '../models/TaxRate.js';
+import { ApiErrors } from '../utils/ApiError.js';
+
+import type { IInvoiceItemTax } from '../models/Invoice.js';
+import type { ITaxRate } from '../models/TaxRate.js';
+import type { InvoiceItemInput } from '../validators/invoice.schema.js';
+import type {
+  CreateTaxRateInput,
+  UpdateTaxRateInput,
+  TaxRateQueryInput
+} from '../validators/taxRate.schema.js';
+
+// Escape user input before using it in a regular expression
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+class TaxRatesService {
+  // Ensure a tax rate name is not already used by the user
+  private async assertNameAvailable(
+    userId: string,
+    name: string,
+    excludeTaxRateId?: string
+  ): Promise<void> {
+    const filter: any = {
+      userId: new Types.ObjectId(userId),
+      name
+    };
+
+    if (excludeTaxRateId) {
+      filter._id = { $ne: new Types.ObjectId(excludeTaxRateId) };
+    }
+
+    const existingTaxRate = await TaxRate.exists(filter);
+    if (existingTaxRate) {
+      throw ApiErrors.conflict('Tax rate with this name already exists');
+    }
+  }
+
+  // Create a tax rate in the user's catalogue
+  async createTaxRate(userId: string, taxRateData: CreateTaxRateInput): Promise<ITaxRate> {
+    try {
+      await this.assertNameAvailable(userId, taxRateData.name);
+
+      const taxRate = await TaxRate.create({
+        ...taxRateData,
+        userId: new Types.ObjectId(userId)
+      });
+
+      logger.info({
+        msg: 'Tax rate created successfully',
+        taxRateId: (taxRate._id as Types.ObjectId).toString(),
+        userId,
+        name: taxRate.name,
+        rate: taxRate.rate
+      });
+
+      return taxRate;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to create tax rate',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // List the user's tax rates
+  async getTaxRates(userId: string, query: TaxRateQueryInput): Promise<ITaxRate[]> {
+    try {
+      const filter: any = { userId: new Types.ObjectId(userId) };
+
+      if (!query.includeArchived) {
+        filter.isArchived = false;
+      }
+      if (query.jurisdiction) {
+        filter.jurisdiction = query.jurisdiction;
+      }
+      if (query.search) {
+        filter.name = { $regex: escapeRegex(query.search), $options: 'i' };
+      }
+
+      return await TaxRate.find(filter).sort({ jurisdiction: 1, name: 1 });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get tax rates',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Get a single tax rate
+  async getTaxRateById(userId: string, taxRateId: string): Promise<ITaxRate> {
+    try {
+      const taxRate = await TaxRate.findOne({
+        _id: new Types.ObjectId(taxRateId),
+        userId: new Types.ObjectId(userId)
+      });
+
+      if (!taxRate) {
+        throw ApiErrors.notFound('Tax rate', taxRateId);
+      }
+
+      return taxRate;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get tax rate',
+        userId,
+        taxRateId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Update a tax rate; invoices keep the values they were created with
+  async updateTaxRate(
+    userId: string,
+    taxRateId: string,
+    updateData: UpdateTaxRateInput
+  ): Promise<ITaxRate> {
+    try {
+      if (updateData.name) {
+        await this.assertNameAvailable(userId, updateData.name, taxRateId);
+      }
+
+      const taxRate = await TaxRate.findOneAndUpdate(
+        {
+          _id: new Types.ObjectId(taxRateId),
+          userId: new Types.ObjectId(userId)
+        },
+        { $set: updateData },
+        { new: true, runValidators: true }
+      );
+
+      if (!taxRate) {
+        throw ApiErrors.notFound('Tax rate', taxRateId);
+      }
+
+      logger.info({
+        msg: 'Tax rate updated successfully',
+        taxRateId,
+        userId,
+        updatedFields: Object.keys(updateData)
+      });
+
+      return taxRate;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to update tax rate',
+        userId,
+        taxRateId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Delete a tax rate that no invoice uses; used rates can only be archived
+  async deleteTaxRate(userId: string, taxRateId: string): Promise<void> {
+    try {
+      const inUse = await Invoice.exists({
+        userId: new Types.ObjectId(userId),
+        'items.taxes.taxRateId': new Types.ObjectId(taxRateId)
+      });
+
+      if (inUse) {
+        throw ApiErrors.conflict('Tax rate is used by invoices; archive it instead', {
+          code: 'TAX_RATE_IN_USE'
+        });
+      }
+
+      const taxRate = await TaxRate.findOneAndDelete({
+        _id: new Types.ObjectId(taxRateId),
+        userId: new Types.ObjectId(userId)
+      });
+
+      if (!taxRate) {
+        throw ApiErrors.notFound('Tax rate', taxRateId);
+      }
+
+      logger.info({
+        msg: 'Tax rate deleted successfully',
+        taxRateId,
+        userId,
+        name: taxRate.name
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to delete tax rate',
+        userId,
+        taxRateId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Snapshot catalogue rates for invoice lines, keyed by tax rate ID
+  async resolveTaxes(userId: string, taxRateIds: string[]): Promise<Map<string, IInvoiceItemTax>> {
+    const ids = [...new Set(taxRateIds)];
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const taxRates = await TaxRate.find({
+      _id: { $in: ids.map(id => new Types.ObjectId(id)) },
+      userId: new Types.ObjectId(userId),
+      isArchived: false
+    }).lean();
+
+    const found = new Set(taxRates.map(taxRate => taxRate._id.toString()));
+    const missing = ids.filter(id => !found.has(id));
+    if (missing.length > 0) {
+      throw ApiErrors.badRequest('Unknown or archived tax rate', {
+        code: 'INVALID_TAX_RATE',
+        details: missing.map(id => ({ field: 'taxRateIds', message: `Tax rate ${id} not found` }))
+      });
+    }
+
+    return new Map(
+      taxRates.map(taxRate => [
+        taxRate._id.toString(),
+        {
+          taxRateId: taxRate._id,
+          name: taxRate.name,
+          rate: taxRate.rate,
+          jurisdiction: taxRate.jurisdiction,
+          compound: taxRate.compound,
+          inclusive: taxRate.inclusive
+        }
+      ])
+    );
+  }
+
+  // Replace catalogue tax IDs on items with snapshots of the rates
+  async resolveItemTaxes(userId: string, items: InvoiceItemInput[]) {
+    const taxes = await this.resolveTaxes(
+      userId,
+      items.flatMap(item => item.taxRateIds)
+    );
+
+    return items.map(({ taxRateIds, ...item }, index) => {
+      const itemTaxes = taxRateIds.map(id => taxes.get(id)!);
+
+      // A price either includes its taxes or it does not
+      if (new Set(itemTaxes.map(tax => tax.inclusive)).size > 1) {
+        throw ApiErrors.badRequest('Item mixes tax-inclusive and tax-exclusive rates', {
+          code: 'INVALID_TAX_RATE',
+          details: [
+            {
+              field: `items.${index}.taxRateIds`,
+              message: 'All taxes on an item must be inclusive or all exclusive'
+            }
+          ]
+        });
+      }
+
+      return { ...item, taxes: itemTaxes };
+    });
+  }
+}
+
+export const taxRatesService = new TaxRatesService();
+export default taxRatesService;
@@ -0,0 +1,338 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from 'crypto';
+
+import jwt from 'jsonwebtoken';
+
+import { JWT_SECRET, TWO_FACTOR_ENCRYPTION_KEY, TWO_FACTOR_ISSUER } from '../config/env.js';
+import logger from '../config/logger.js';
+import { User } from '../models/User.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from '../utils/totp.js';
+
+import type { IUser } from '../models/User.js';
+import type { Secret } from 'jsonwebtoken';
+
+// Enrolment details shown to the user once
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauthUri: string;
+}
+
+// Issued instead of tokens when a password login still needs a second factor
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: string;
+}
+
+// How a two-factor check was passed
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+// Number of recovery codes issued at a time
+const RECOVERY_CODE_COUNT = 10;
+
+// Login challenges must be completed within this time
+const CHALLENGE_EXPIRES_IN = '5m';
+
+// AES-256-GCM key for TOTP secrets at rest
+const ENCRYPTION_KEY = TWO_FACTOR_ENCRYPTION_KEY
+  ? createHash('sha256').update(TWO_FACTOR_ENCRYPTION_KEY).digest()
+  : createHmac('sha256', JWT_SECRET).update('two-factor-secrets').digest();
+
+// Challenge tokens never verify as access tokens
+const CHALLENGE_KEY: Secret = createHmac('sha256', JWT_SECRET)
+  .update('two-factor-challenges')
+  .digest('hex');
+
+// Encrypt a secret as iv.tag.ciphertext
+const encryptSecret = (secret: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+};
+
+const decryptSecret = (encrypted: string): string => {
+  const [iv, tag, ciphertext] = encrypted.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+// Recovery codes are compared without case, spaces or dashes
+const hashRecoveryCode = (code: string): string =>
+  createHash('sha256')
+    .update(code.toLowerCase().replace(/[^a-z0-9]/g, ''))
+    .digest('hex');
+
+class TwoFactorService {
+  // Load a user with the two-factor fields that are not selected by default
+  private async findUser(userId: string): Promise<IUser> {
+    const user = await User.findOne({ _id: userId, isActive: true }).select(
+      '+password +twoFactor.secret +twoFactor.pendingSecret +twoFactor.lastUsedStep +twoFactor.recoveryCodes'
+    );
+
+    if (!user) {
+      throw ApiErrors.notFound('User', userId);
+    }
+    return user;
+  }
+
+  // New plain recovery codes and their hashes
+  private generateRecoveryCodes(): { codes: string[]; hashes: { hash: string }[] } {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+
+    return { codes, hashes: codes.map(code => ({ hash: hashRecoveryCode(code) })) };
+  }
+
+  // Accept a TOTP code once; the step is claimed atomically so a code cannot be replayed
+  private async consumeTotp(user: IUser, code: string): Promise<boolean> {
+    if (!user.twoFactor.secret) {
+      return false;
+    }
+
+    const step = verifyTotp(decryptSecret(user.twoFactor.secret), code);
+    if (step === null) {
+      return false;
+    }
+
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { 'twoFactor.lastUsedStep': { $exists: false } },
+          { 'twoFactor.lastUsedStep': { $lt: step } }
+        ]
+      },
+      { $set: { 'twoFactor.lastUsedStep': step } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  // Mark an unused recovery code as used
+  private async consumeRecoveryCode(user: IUser, code: string): Promise<boolean> {
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        'twoFactor.recoveryCodes': {
+          $elemMatch: { hash: hashRecoveryCode(code), usedAt: { $exists: false } }
+        }
+      },
+      { $set: { 'twoFactor.recoveryCodes.$.usedAt': new Date() } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  // Check a TOTP or recovery code for a user with two-factor authentication enabled
+  private async checkCode(user: IUser, code: string): Promise<TwoFactorMethod> {
+    const isTotp = /^\d{6}$/.test(code.replace(/\s/g, ''));
+    const accepted = isTotp
+      ? await this.consumeTotp(user, code)
+      : await this.consumeRecoveryCode(user, code);
+
+    if (!accepted) {
+      throw ApiErrors.unauthorized('Invalid two-factor code', {
+        code: 'INVALID_TWO_FACTOR_CODE'
+      });
+    }
+    return isTotp ? 'totp' : 'recovery_code';
+  }
+
+  // Start enrolment with a new secret that is confirmed by the first code
+  async startEnrolment(userId: string): Promise<TwoFactorEnrolment> {
+    try {
+      const user = await this.findUser(userId);
+
+      if (user.twoFactor.enabled) {
+        throw ApiErrors.conflict('Two-factor authentication is already enabled', {
+          code: 'TWO_FACTOR_ALREADY_ENABLED'
+        });
+      }
+
+      const secret = generateTotpSecret();
+      user.twoFactor.pendingSecret = encryptSecret(secret);
+      await user.save();
+
+      logger.info({ msg: 'Two-factor enrolment started successfully', userId });
+
+      return {
+        secret,
+        otpauthUri: buildOtpAuthUri({ secret, accountName: user.email, issuer: TWO_FACTOR_ISSUER })
+      };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to start two-factor enrolment',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Confirm enrolment with a code from the authenticator app
+  async enable(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    try {
+      const user = await this.findUser(userId);
+
+      if (user.twoFactor.enabled) {
+        throw ApiErrors.conflict('Two-factor authentication is already enabled', {
+          code: 'TWO_FACTOR_ALREADY_ENABLED'
+        });
+      }
+      if (!user.twoFactor.pendingSecret) {
+        throw ApiErrors.badRequest('Start two-factor enrolment first', {
+          code: 'TWO_FACTOR_NOT_ENROLLED'
+        });
+      }
+
+      const step = verifyTotp(decryptSecret(user.twoFactor.pendingSecret), code);
+      if (step === null) {
+        throw ApiErrors.unauthorized('Invalid two-factor code', {
+          code: 'INVALID_TWO_FACTOR_CODE'
+        });
+      }
+
+      const { codes, hashes } = this.generateRecoveryCodes();
+      user.twoFactor.enabled = true;
+      user.twoFactor.enabledAt = new Date();
+      user.twoFactor.secret = user.twoFactor.pendingSecret;
+      user.twoFactor.pendingSecret = undefined;
+      user.twoFactor.lastUsedStep = step;
+      user.twoFactor.recoveryCodes = hashes;
+      await user.save();
+
+      logger.info({ msg: 'Two-factor authentication enabled successfully', userId });
+
+      return { recoveryCodes: codes };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to enable two-factor authentication',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Turn two-factor authentication off; needs the password and a current code
+  async disable(userId: string, password: string, code: string): Promise<void> {
+    try {
+      const user = await this.findUser(userId);
+
+      if (!user.twoFactor.enabled) {
+        throw ApiErrors.conflict('Two-factor authentication is not enabled', {
+          code: 'TWO_FACTOR_NOT_ENABLED'
+        });
+      }
+      if (!(await user.comparePassword(password))) {
+        throw ApiErrors.badRequest('Password is incorrect', { code: 'INVALID_PASSWORD' });
+      }
+
+      await this.checkCode(user, code);
+
+      await User.updateOne(
+        { _id: user._id },
+        {
+          $set: { 'twoFactor.enabled': false, 'twoFactor.recoveryCodes': [] },
+          $unset: {
+            'twoFactor.enabledAt': 1,
+            'twoFactor.secret': 1,
+            'twoFactor.pendingSecret': 1,
+            'twoFactor.lastUsedStep': 1
+          }
+        }
+      );
+
+      logger.info({ msg: 'Two-factor authentication disabled successfully', userId });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to disable two-factor authentication',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Replace all recovery codes after checking a current code
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string
+  ): Promise<{ recoveryCodes: string[] }> {
+    try {
+      const user = await this.findUser(userId);
+
+      if (!user.twoFactor.enabled) {
+        throw ApiErrors.conflict('Two-factor authentication is not enabled', {
+          code: 'TWO_FACTOR_NOT_ENABLED'
+        });
+      }
+
+      await this.checkCode(user, code);
+
+      const { codes, hashes } = this.generateRecoveryCodes();
+      await User.updateOne({ _id: user._id }, { $set: { 'twoFactor.recoveryCodes': hashes } });
+
+      logger.info({ msg: 'Recovery codes regenerated successfully', userId });
+
+      return { recoveryCodes: codes };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to regenerate recovery codes',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Check a code for a sensitive action; passes when two-factor authentication is off
+  async verifyCode(userId: string, code?: string): Promise<TwoFactorMethod | null> {
+    const user = await this.findUser(userId);
+
+    if (!user.twoFactor.enabled) {
+      return null;
+    }
+    if (!code) {
+      throw ApiErrors.forbidden('A two-factor code is required for this action', {
+        code: 'TWO_FACTOR_REQUIRED'
+      });
+    }
+
+    const method = await this.checkCode(user, code);
+
+    logger.info({ msg: 'Two-factor code verified', userId, method });
+    return method;
+  }
+
+  // Short-lived token that stands for a correct password until the second factor is given
+  createChallenge(userId: string): TwoFactorChallenge {
+    const challengeToken = jwt.sign({ id: userId, purpose: 'two_factor' }, CHALLENGE_KEY, {
+      expiresIn: CHALLENGE_EXPIRES_IN
+    });
+
+    return { twoFactorRequired: true, challengeToken, expiresIn: CHALLENGE_EXPIRES_IN };
+  }
+
+  // User ID of a valid challenge token
+  verifyChallenge(challengeToken: string): string {
+    try {
+      const payload = jwt.verify(challengeToken, CHALLENGE_KEY) as { id: string; purpose: string };
+      if (payload.purpose !== 'two_factor') {
+        throw new Error('Unexpected token purpose');
+      }
+      return payload.id;
+    } catch {
+      throw ApiErrors.unauthorized('Invalid or expired two-factor challenge', {
+        code: 'INVALID_TWO_FACTOR_CHALLENGE'
+      });
+    }
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
+export default twoFactorService;
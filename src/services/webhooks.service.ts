@@ -0,0 +1,703 @@
+import { randomBytes } from 'crypto';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+
+import { Types } from 'mongoose';
+
+import {
+  WEBHOOK_DISABLE_AFTER_FAILURES,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_SECONDS,
+  WEBHOOK_TIMEOUT_MS,
+  isTest
+} from '../config/env.js';
+import logger from '../config/logger.js';
+import { Webhook } from '../models/Webhook.js';
+import { WebhookDelivery } from '../models/WebhookDelivery.js';
+import { ApiErrors } from '../utils/ApiError.js';
+import { parsePagination, createPaginatedResponse } from '../utils/pagination.js';
+import { isForbiddenAddress, resolveHost } from '../utils/publicAddress.js';
+import { createSignatureHeader } from '../utils/webhookSignature.js';
+
+import organizationsService from './organizations.service.js';
+
+import type { IInvoice } from '../models/Invoice.js';
+import type { IWebhook, WebhookEvent } from '../models/Webhook.js';
+import type { IWebhookAttempt, IWebhookDelivery } from '../models/WebhookDelivery.js';
+import type { OrganizationScope } from '../utils/organizationScope.js';
+import type {
+  CreateWebhookInput,
+  UpdateWebhookInput,
+  WebhookDeliveryQueryInput
+} from '../validators/webhook.schema.js';
+import type { LookupAddress } from 'dns';
+import type { OutgoingHttpHeaders } from 'http';
+
+// Deliveries picked up by one job run, and how many are sent at once
+const DELIVERY_BATCH_SIZE = 50;
+const DELIVERY_CONCURRENCY = 10;
+
+// Characters of a response body kept in the delivery log
+const RESPONSE_BODY_LIMIT = 1000;
+
+// Invoice statuses that have an event of their own
+const INVOICE_STATUS_EVENTS: Partial<Record<IInvoice['status'], WebhookEvent>> = {
+  sent: 'invoice.sent',
+  viewed: 'invoice.viewed',
+  overdue: 'invoice.overdue',
+  paid: 'invoice.paid'
+};
+
+// Record a webhook event is raised for; its organization receives the event
+export interface WebhookEventSource {
+  userId: Types.ObjectId;
+  organizationId?: Types.ObjectId;
+}
+
+// Newly created webhook or rotated secret; the secret is only returned here
+export interface WebhookWithSecret {
+  webhook: IWebhook;
+  secret: string;
+}
+
+// Outcome of a delivery job run
+export interface WebhookDeliveryRunResult {
+  succeeded: number;
+  retrying: number;
+  failed: number;
+}
+
+// Response of a webhook endpoint
+interface EndpointResponse {
+  status: number;
+  body: string;
+}
+
+// Post a body to a URL, connecting only to the given addresses so a changed DNS answer
+// cannot send the request elsewhere. Redirects are not followed: a redirect is not a
+// delivery, and receivers must answer at the subscribed URL.
+const postToAddresses = (
+  url: URL,
+  addresses: LookupAddress[],
+  headers: OutgoingHttpHeaders,
+  body: string
+): Promise<EndpointResponse> =>
+  new Promise((resolve, reject) => {
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+    const request = send(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: (_hostname, options, callback) =>
+          options.all
+            ? callback(null, addresses)
+            : callback(null, addresses[0].address, addresses[0].family),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      },
+      response => {
+        let responseBody = '';
+        const finish = () =>
+          resolve({
+            status: response.statusCode ?? 0,
+            body: responseBody.slice(0, RESPONSE_BODY_LIMIT)
+          });
+
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          if (responseBody.length < RESPONSE_BODY_LIMIT) {
+            responseBody += chunk;
+          }
+        });
+        response.on('end', finish);
+        response.on('error', finish);
+      }
+    );
+
+    request.on('error', reject);
+    request.end(body);
+  });
+
+const generateSecret = (): string => `whsec_${randomBytes(24).toString('hex')}`;
+
+// Wait before the attempt after `attemptCount` failed ones: the base delay, doubled each time
+const getRetryDelayMs = (attemptCount: number): number =>
+  WEBHOOK_RETRY_BASE_SECONDS * 1000 * 2 ** (attemptCount - 1);
+
+class WebhooksService {
+  private async findOwnedWebhook(
+    scope: OrganizationScope,
+    webhookId: string,
+    withSecret = false
+  ): Promise<IWebhook> {
+    const query = Webhook.findOne({
+      _id: new Types.ObjectId(webhookId),
+      organizationId: new Types.ObjectId(scope.organizationId)
+    });
+    const webhook = withSecret ? await query.select('+secret') : await query;
+
+    if (!webhook) {
+      throw ApiErrors.notFound('Webhook', webhookId);
+    }
+    return webhook;
+  }
+
+  // Deliveries carry invoice and client data, so endpoints must use TLS, and they must
+  // resolve to public addresses so members cannot reach the internal network. Returns the
+  // checked addresses; each attempt resolves the host again and connects to those only.
+  private async assertDeliverableUrl(url: string): Promise<LookupAddress[]> {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'https:' && !isTest()) {
+      throw ApiErrors.badRequest('Webhook URL must use https', { code: 'WEBHOOK_URL_INSECURE' });
+    }
+
+    let addresses: LookupAddress[];
+    try {
+      addresses = await resolveHost(hostname);
+    } catch {
+      throw ApiErrors.badRequest('Webhook URL host could not be resolved', {
+        code: 'WEBHOOK_URL_UNRESOLVED'
+      });
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isForbiddenAddress(address))) {
+      throw ApiErrors.badRequest('Webhook URL must resolve to a public address', {
+        code: 'WEBHOOK_URL_FORBIDDEN'
+      });
+    }
+
+    return addresses;
+  }
+
+  // Post a delivery to its webhook once
+  private async send(webhook: IWebhook, delivery: IWebhookDelivery): Promise<IWebhookAttempt> {
+    const body = JSON.stringify(delivery.payload);
+    const attemptedAt = new Date();
+
+    try {
+      const addresses = await this.assertDeliverableUrl(webhook.url);
+      const response = await postToAddresses(
+        new URL(webhook.url),
+        addresses,
+        {
+          'Content-Type': 'application/json',
+          'User-Agent': 'InvoLuck-Webhooks/1.0',
+          'X-InvoLuck-Event': delivery.event,
+          'X-InvoLuck-Delivery': (delivery._id as Types.ObjectId).toString(),
+          'X-InvoLuck-Signature': createSignatureHeader(body, webhook.secret)
+        },
+        body
+      );
+
+      return {
+        attemptedAt,
+        responseStatus: response.status,
+        responseBody: response.body || undefined,
+        durationMs: Date.now() - attemptedAt.getTime()
+      };
+    } catch (error) {
+      return {
+        attemptedAt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - attemptedAt.getTime()
+      };
+    }
+  }
+
+  // Count a delivery that failed every attempt; enough of them in a row disable the webhook
+  private async recordFailedDelivery(webhookId: Types.ObjectId, now: Date): Promise<void> {
+    const webhook = await Webhook.findOneAndUpdate(
+      { _id: webhookId },
+      { $inc: { consecutiveFailures: 1 }, $set: { lastDeliveryAt: now } },
+      { new: true }
+    );
+
+    if (
+      webhook &&
+      webhook.active &&
+      webhook.consecutiveFailures >= WEBHOOK_DISABLE_AFTER_FAILURES
+    ) {
+      await Webhook.updateOne(
+        { _id: webhookId, active: true },
+        {
+          $set: {
+            active: false,
+            disabledAt: now,
+            disabledReason: `${webhook.consecutiveFailures} deliveries in a row failed`
+          }
+        }
+      );
+
+      logger.warn({
+        msg: 'Webhook disabled after repeated failures',
+        webhookId: webhookId.toString(),
+        organizationId: webhook.organizationId.toString(),
+        consecutiveFailures: webhook.consecutiveFailures
+      });
+    }
+  }
+
+  // Claim a due delivery and make one attempt; returns null when it is not due or taken
+  private async attemptDelivery(
+    deliveryId: Types.ObjectId,
+    now: Date = new Date()
+  ): Promise<IWebhookDelivery | null> {
+    // Moving nextAttemptAt past the request timeout keeps other runs off this delivery
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { _id: deliveryId, status: 'pending', nextAttemptAt: { $lte: now } },
+      { $set: { nextAttemptAt: new Date(now.getTime() + WEBHOOK_TIMEOUT_MS * 2) } },
+      { new: true }
+    );
+    if (!delivery) {
+      return null;
+    }
+
+    const webhook = await Webhook.findById(delivery.webhookId).select('+secret');
+    if (!webhook || !webhook.active) {
+      delivery.status = 'failed';
+      delivery.completedAt = now;
+      delivery.nextAttemptAt = undefined;
+      delivery.attempts.push({
+        attemptedAt: now,
+        error: webhook ? 'Webhook is disabled' : 'Webhook was deleted',
+        durationMs: 0
+      });
+      await delivery.save();
+      return delivery;
+    }
+
+    const attempt = await this.send(webhook, delivery);
+    const succeeded =
+      attempt.responseStatus !== undefined &&
+      attempt.responseStatus >= 200 &&
+      attempt.responseStatus < 300;
+
+    delivery.attempts.push(attempt);
+    delivery.attemptCount += 1;
+    delivery.responseStatus = attempt.responseStatus;
+
+    if (succeeded) {
+      delivery.status = 'succeeded';
+      delivery.completedAt = new Date();
+      delivery.nextAttemptAt = undefined;
+
+      await Webhook.updateOne(
+        { _id: webhook._id },
+        {
+          $set: {
+            consecutiveFailures: 0,
+            lastDeliveryAt: attempt.attemptedAt,
+            lastSuccessAt: attempt.attemptedAt
+          }
+        }
+      );
+    } else if (delivery.attemptCount >= WEBHOOK_MAX_ATTEMPTS) {
+      delivery.status = 'failed';
+      delivery.completedAt = new Date();
+      delivery.nextAttemptAt = undefined;
+
+      await this.recordFailedDelivery(webhook._id as Types.ObjectId, attempt.attemptedAt);
+    } else {
+      delivery.nextAttemptAt = new Date(Date.now() + getRetryDelayMs(delivery.attemptCount));
+
+      await Webhook.updateOne(
+        { _id: webhook._id },
+        { $set: { lastDeliveryAt: attempt.attemptedAt } }
+      );
+    }
+
+    await delivery.save();
+
+    logger.info({
+      msg: 'Webhook delivery attempted',
+      deliveryId: deliveryId.toString(),
+      webhookId: (webhook._id as Types.ObjectId).toString(),
+      event: delivery.event,
+      attempt: delivery.attemptCount,
+      responseStatus: attempt.responseStatus,
+      error: attempt.error,
+      status: delivery.status
+    });
+
+    return delivery;
+  }
+
+  // Subscribe a URL to events of the organization
+  async createWebhook(
+    scope: OrganizationScope,
+    webhookData: CreateWebhookInput
+  ): Promise<WebhookWithSecret> {
+    try {
+      await this.assertDeliverableUrl(webhookData.url);
+
+      const secret = generateSecret();
+      const webhook = await Webhook.create({
+        ...webhookData,
+        userId: new Types.ObjectId(scope.ownerId),
+        organizationId: new Types.ObjectId(scope.organizationId),
+        secret,
+        createdBy: new Types.ObjectId(scope.userId)
+      });
+
+      logger.info({
+        msg: 'Webhook created successfully',
+        webhookId: (webhook._id as Types.ObjectId).toString(),
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        events: webhook.events
+      });
+
+      return { webhook, secret };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to create webhook',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // List the webhooks of the organization, newest first
+  async getWebhooks(scope: OrganizationScope): Promise<IWebhook[]> {
+    try {
+      return await Webhook.find({
+        organizationId: new Types.ObjectId(scope.organizationId)
+      }).sort({ createdAt: -1 });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get webhooks',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Get a webhook of the organization
+  async getWebhookById(scope: OrganizationScope, webhookId: string): Promise<IWebhook> {
+    try {
+      return await this.findOwnedWebhook(scope, webhookId);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get webhook',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        webhookId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Update a webhook; re-enabling it resets its failure count
+  async updateWebhook(
+    scope: OrganizationScope,
+    webhookId: string,
+    updateData: UpdateWebhookInput
+  ): Promise<IWebhook> {
+    try {
+      const webhook = await this.findOwnedWebhook(scope, webhookId);
+      const { active, ...fields } = updateData;
+
+      if (fields.url) {
+        await this.assertDeliverableUrl(fields.url);
+      }
+
+      webhook.set(fields);
+      if (active === true && !webhook.active) {
+        webhook.active = true;
+        webhook.consecutiveFailures = 0;
+        webhook.disabledAt = undefined;
+        webhook.disabledReason = undefined;
+      } else if (active === false && webhook.active) {
+        webhook.active = false;
+        webhook.disabledAt = new Date();
+        webhook.disabledReason = 'Disabled by a member';
+      }
+      webhook.updatedBy = new Types.ObjectId(scope.userId);
+      await webhook.save();
+
+      logger.info({
+        msg: 'Webhook updated successfully',
+        webhookId,
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        active: webhook.active
+      });
+
+      return webhook;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to update webhook',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        webhookId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Replace the signing secret; deliveries are signed with the new one from now on
+  async rotateSecret(scope: OrganizationScope, webhookId: string): Promise<WebhookWithSecret> {
+    try {
+      const webhook = await this.findOwnedWebhook(scope, webhookId, true);
+      const secret = generateSecret();
+
+      webhook.secret = secret;
+      webhook.updatedBy = new Types.ObjectId(scope.userId);
+      await webhook.save();
+
+      logger.info({
+        msg: 'Webhook secret rotated successfully',
+        webhookId,
+        organizationId: scope.organizationId,
+        userId: scope.userId
+      });
+
+      return { webhook, secret };
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to rotate webhook secret',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        webhookId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Delete a webhook and its delivery log
+  async deleteWebhook(scope: OrganizationScope, webhookId: string): Promise<void> {
+    try {
+      const webhook = await this.findOwnedWebhook(scope, webhookId);
+
+      await WebhookDelivery.deleteMany({ webhookId: webhook._id });
+      await webhook.deleteOne();
+
+      logger.info({
+        msg: 'Webhook deleted successfully',
+        webhookId,
+        organizationId: scope.organizationId,
+        userId: scope.userId
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to delete webhook',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        webhookId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // List the deliveries of a webhook, newest first
+  async getDeliveries(
+    scope: OrganizationScope,
+    webhookId: string,
+    query: WebhookDeliveryQueryInput
+  ) {
+    try {
+      const webhook = await this.findOwnedWebhook(scope, webhookId);
+      const pagination = parsePagination(query);
+      const filter: Record<string, unknown> = { webhookId: webhook._id };
+
+      if (query.status) {
+        filter.status = query.status;
+      }
+      if (query.event) {
+        filter.event = query.event;
+      }
+
+      const [deliveries, total] = await Promise.all([
+        WebhookDelivery.find(filter)
+          .sort({ createdAt: -1 })
+          .skip(pagination.skip)
+          .limit(pagination.limit),
+        WebhookDelivery.countDocuments(filter)
+      ]);
+
+      return createPaginatedResponse(deliveries, total, pagination);
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to get webhook deliveries',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        webhookId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Send an event again as a new delivery, attempted right away and retried like any other
+  async redeliver(
+    scope: OrganizationScope,
+    webhookId: string,
+    deliveryId: string
+  ): Promise<IWebhookDelivery> {
+    try {
+      const webhook = await this.findOwnedWebhook(scope, webhookId);
+      if (!webhook.active) {
+        throw ApiErrors.conflict('Webhook is disabled; enable it before redelivering', {
+          code: 'WEBHOOK_DISABLED'
+        });
+      }
+
+      const original = await WebhookDelivery.findOne({
+        _id: new Types.ObjectId(deliveryId),
+        webhookId: webhook._id
+      });
+      if (!original) {
+        throw ApiErrors.notFound('Webhook delivery', deliveryId);
+      }
+
+      const delivery = await WebhookDelivery.create({
+        webhookId: webhook._id,
+        organizationId: webhook.organizationId,
+        event: original.event,
+        eventId: original.eventId,
+        payload: original.payload,
+        nextAttemptAt: new Date(),
+        redeliveryOf: original._id
+      });
+
+      const attempted = await this.attemptDelivery(delivery._id as Types.ObjectId);
+
+      logger.info({
+        msg: 'Webhook delivery redelivered successfully',
+        webhookId,
+        deliveryId,
+        redeliveryId: (delivery._id as Types.ObjectId).toString(),
+        organizationId: scope.organizationId,
+        userId: scope.userId
+      });
+
+      return attempted ?? delivery;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to redeliver webhook delivery',
+        organizationId: scope.organizationId,
+        userId: scope.userId,
+        webhookId,
+        deliveryId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Queue an event for every active webhook of the record's organization that subscribes
+  // to it. Failures are logged but never undo the change that raised the event.
+  async dispatch(
+    event: WebhookEvent,
+    source: WebhookEventSource,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const { organizationId } = await organizationsService.getDocumentScope(source);
+      const webhooks = await Webhook.find({
+        organizationId: new Types.ObjectId(organizationId),
+        active: true,
+        events: event
+      }).select('_id');
+
+      if (webhooks.length === 0) {
+        return;
+      }
+
+      const now = new Date();
+      const payload = {
+        id: `evt_${randomBytes(12).toString('hex')}`,
+        type: event,
+        createdAt: now.toISOString(),
+        organizationId,
+        data
+      };
+
+      await WebhookDelivery.insertMany(
+        webhooks.map(webhook => ({
+          webhookId: webhook._id,
+          organizationId: new Types.ObjectId(organizationId),
+          event,
+          eventId: payload.id,
+          payload,
+          nextAttemptAt: now
+        }))
+      );
+
+      logger.debug({
+        msg: 'Webhook event queued',
+        event,
+        eventId: payload.id,
+        organizationId,
+        webhooks: webhooks.length
+      });
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to queue webhook event',
+        event,
+        userId: source.userId.toString(),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Raise the event of an invoice's new status, if it changed to one that has an event
+  async dispatchInvoiceStatus(
+    invoice: IInvoice,
+    previousStatus: IInvoice['status']
+  ): Promise<void> {
+    const event = INVOICE_STATUS_EVENTS[invoice.status];
+
+    if (event && invoice.status !== previousStatus) {
+      await this.dispatch(event, invoice, { invoice: invoice.toJSON() });
+    }
+  }
+
+  // Attempt every delivery that is due, a few at a time
+  async deliverDueWebhooks(now: Date = new Date()): Promise<WebhookDeliveryRunResult> {
+    try {
+      const result: WebhookDeliveryRunResult = { succeeded: 0, retrying: 0, failed: 0 };
+      const due = await WebhookDelivery.find({ status: 'pending', nextAttemptAt: { $lte: now } })
+        .sort({ nextAttemptAt: 1 })
+        .limit(DELIVERY_BATCH_SIZE)
+        .select('_id');
+
+      for (let i = 0; i < due.length; i += DELIVERY_CONCURRENCY) {
+        const deliveries = await Promise.all(
+          due
+            .slice(i, i + DELIVERY_CONCURRENCY)
+            .map(delivery => this.attemptDelivery(delivery._id as Types.ObjectId, now))
+        );
+
+        for (const delivery of deliveries) {
+          if (delivery?.status === 'succeeded') {
+            result.succeeded++;
+          } else if (delivery?.status === 'failed') {
+            result.failed++;
+          } else if (delivery) {
+            result.retrying++;
+          }
+        }
+      }
+
+      return result;
+    } catch (error) {
+      logger.error({
+        msg: 'Failed to deliver webhooks',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const webhooksService = new WebhooksService();
+export default webhooksService;
@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+
+import request from 'supertest';
+
+import { LOGIN_MAX_FAILED_ATTEMPTS } from '../config/env.js';
+import { User } from '../models/User.js';
+
+import { getApp, testUtils, TEST_CONFIG } from './setup.js';
+
+describe('Account Lockout', () => {
+  let app: any;
+  let userId: string;
+  let email: string;
+
+  const authUrl = `${TEST_CONFIG.baseURL}/auth`;
+  const adminUrl = `${TEST_CONFIG.baseURL}/admin`;
+  const password = 'Password123!';
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    email = testUtils.randomEmail();
+    const { user } = await testUtils.createAuthenticatedUser({
+      name: 'Lockout Test User',
+      email,
+      password,
+      role: 'user'
+    });
+    userId = user._id.toString();
+  });
+
+  // Put the account one failure away from the lock, past any progressive delay
+  const nearlyLock = () =>
+    User.updateOne(
+      { _id: userId },
+      {
+        failedLoginAttempts: LOGIN_MAX_FAILED_ATTEMPTS - 1,
+        lastFailedLoginAt: new Date(Date.now() - 60 * 1000)
+      }
+    );
+
+  // Lock the account with a known unlock token
+  const lockWithToken = async () => {
+    const token = crypto.randomBytes(32).toString('hex');
+    await User.updateOne(
+      { _id: userId },
+      {
+        failedLoginAttempts: LOGIN_MAX_FAILED_ATTEMPTS,
+        lastFailedLoginAt: new Date(),
+        lockedUntil: new Date(Date.now() + 15 * 60 * 1000),
+        unlockToken: crypto.createHash('sha256').update(token).digest('hex'),
+        unlockTokenExpires: new Date(Date.now() + 60 * 60 * 1000)
+      }
+    );
+    return token;
+  };
+
+  describe('POST /api/v1/auth/login', () => {
+    it('should lock the account once the failure limit is reached', async () => {
+      await nearlyLock();
+
+      const failed = await request(app)
+        .post(`${authUrl}/login`)
+        .send({ email, password: 'WrongPassword123!' });
+      if (failed.status === 429) {
+        console.warn('Rate limit hit during login - skipping');
+        return;
+      }
+
+      expect(failed.status).toBe(423);
+      expect(failed.body.error.code).toBe('ACCOUNT_LOCKED');
+      expect(failed.body.error.retryAfter).toBeGreaterThan(0);
+      expect(failed.headers['retry-after']).toBe(String(failed.body.error.retryAfter));
+
+      const user = await User.findById(userId).select('+unlockToken');
+      expect(user!.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+      expect(user!.unlockToken).toEqual(expect.any(String));
+
+      const correct = await request(app).post(`${authUrl}/login`).send({ email, password });
+      if (correct.status !== 429) {
+        expect(correct.status).toBe(423);
+        expect(correct.body.error.code).toBe('ACCOUNT_LOCKED');
+      }
+    });
+
+    it('should delay attempts after repeated failures', async () => {
+      await User.updateOne(
+        { _id: userId },
+        { failedLoginAttempts: 4, lastFailedLoginAt: new Date() }
+      );
+
+      const response = await request(app).post(`${authUrl}/login`).send({ email, password });
+      if (response.body.error?.code === 'AUTH_RATE_LIMIT_EXCEEDED') {
+        console.warn('Rate limit hit during login - skipping');
+        return;
+      }
+
+      expect(response.status).toBe(429);
+      expect(response.body.error.code).toBe('LOGIN_THROTTLED');
+      expect(response.body.error.retryAfter).toBeGreaterThan(0);
+      expect(response.headers['retry-after']).toBe(String(response.body.error.retryAfter));
+    });
+
+    it('should reset the counters after a successful login', async () => {
+      await User.updateOne(
+        { _id: userId },
+        { failedLoginAttempts: 2, lastFailedLoginAt: new Date(Date.now() - 60 * 1000) }
+      );
+
+      const response = await request(app).post(`${authUrl}/login`).send({ email, password });
+      if (response.status === 429) {
+        console.warn('Rate limit hit during login - skipping');
+        return;
+      }
+
+      expect(response.status).toBe(200);
+
+      const user = await User.findById(userId);
+      expect(user!.failedLoginAttempts).toBe(0);
+      expect(user!.lastFailedLoginAt).toBeUndefined();
+    });
+  });
+
+  describe('GET /api/v1/auth/unlock/:token', () => {
+    it('should unlock the account with the emailed link', async () => {
+      const token = await lockWithToken();
+
+      const response = await request(app).get(`${authUrl}/unlock/${token}`);
+      if (response.status === 429) {
+        console.warn('Rate limit hit during unlock - skipping');
+        return;
+      }
+
+      expect(response.status).toBe(200);
+
+      const user = await User.findById(userId);
+      expect(user!.failedLoginAttempts).toBe(0);
+      expect(user!.lockedUntil).toBeUndefined();
+
+      const reused = await request(app).get(`${authUrl}/unlock/${token}`);
+      if (reused.status !== 429) {
+        expect(reused.status).toBe(400);
+        expect(reused.body.error.code).toBe('INVALID_UNLOCK_TOKEN');
+      }
+    });
+  });
+
+  describe('Admin account locks', () => {
+    let adminToken: string;
+
+    beforeEach(async () => {
+      const { token } = await testUtils.createAuthenticatedUser({
+        name: 'Admin User',
+        email: testUtils.randomEmail(),
+        password,
+        role: 'admin'
+      });
+      adminToken = token;
+    });
+
+    it('should list locked accounts', async () => {
+      await lockWithToken();
+
+      const response = await request(app)
+        .get(`${adminUrl}/account-locks`)
+        .set(testUtils.getAuthHeader(adminToken))
+        .expect(200);
+
+      expect(response.body.data).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            userId,
+            email,
+            failedLoginAttempts: LOGIN_MAX_FAILED_ATTEMPTS,
+            locked: true
+          })
+        ])
+      );
+      expect(response.body.pagination).toBeDefined();
+    });
+
+    it('should clear a lock', async () => {
+      await lockWithToken();
+
+      const response = await request(app)
+        .delete(`${adminUrl}/account-locks/${userId}`)
+        .set(testUtils.getAuthHeader(adminToken))
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ userId, failedLoginAttempts: 0, locked: false });
+    });
+
+    it('should not allow regular users', async () => {
+      const { token } = await testUtils.createAuthenticatedUser({
+        name: 'Regular User',
+        email: testUtils.randomEmail(),
+        password,
+        role: 'user'
+      });
+
+      const response = await request(app)
+        .get(`${adminUrl}/account-locks`)
+        .set(testUtils.getAuthHeader(token))
+        .expect(403);
+
+      expect(response.body.error.code).toBe('FORBIDDEN');
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import request from 'supertest';
+
+import { User } from '../models/User.js';
+
+import { getApp, testUtils, TEST_CONFIG } from './setup.js';
+
+describe('Admin User Management', () => {
+  let app: any;
+  let adminToken: string;
+  let adminId: string;
+  let userToken: string;
+  let userId: string;
+  let email: string;
+
+  const adminUrl = `${TEST_CONFIG.baseURL}/admin`;
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    const admin = await testUtils.createAuthenticatedUser({
+      name: 'Admin User',
+      email: testUtils.randomEmail(),
+      password: 'Password123!',
+      role: 'admin'
+    });
+    adminToken = admin.token;
+    adminId = admin.user._id.toString();
+
+    email = testUtils.randomEmail();
+    const user = await testUtils.createAuthenticatedUser({
+      name: 'Managed User',
+      email,
+      password: 'Password123!',
+      role: 'user'
+    });
+    userToken = user.token;
+    userId = user.user._id.toString();
+  });
+
+  describe('GET /api/v1/admin/users', () => {
+    it('should search users and include usage counts', async () => {
+      await testUtils.createTestClient(userId);
+
+      const response = await request(app)
+        .get(`${adminUrl}/users`)
+        .query({ search: email, isActive: 'true' })
+        .set(testUtils.getAuthHeader(adminToken))
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({
+        id: userId,
+        email,
+        role: 'user',
+        usage: expect.objectContaining({ clients: 1, invoices: 0 })
+      });
+      expect(response.body.pagination.total).toBe(1);
+    });
+
+    it('should be refused to regular users', async () => {
+      const response = await request(app)
+        .get(`${adminUrl}/users`)
+        .set(testUtils.getAuthHeader(userToken))
+        .expect(403);
+
+      expect(response.body.error.code).toBe('FORBIDDEN');
+    });
+  });
+
+  describe('PATCH /api/v1/admin/users/:id/role', () => {
+    it('should change the role and record it in the audit trail', async () => {
+      const response = await request(app)
+        .patch(`${adminUrl}/users/${userId}/role`)
+        .set(testUtils.getAuthHeader(adminToken))
+        .send({ role: 'admin' })
+        .expect(200);
+      expect(response.body.data.role).toBe('admin');
+
+      const audit = await request(app)
+        .get(`${adminUrl}/audit-logs`)
+        .query({ targetUserId: userId })
+        .set(testUtils.getAuthHeader(adminToken))
+        .expect(200);
+
+      expect(audit.body.data).toHaveLength(1);
+      expect(audit.body.data[0]).toMatchObject({
+        action: 'user.role_changed',
+        targetEmail: email,
+        details: { from: 'user', to: 'admin' }
+      });
+      expect(audit.body.data[0].actorId._id).toBe(adminId);
+    });
+
+    it('should not let admins change their own role', async () => {
+      const response = await request(app)
+        .patch(`${adminUrl}/users/${adminId}/role`)
+        .set(testUtils.getAuthHeader(adminToken))
+        .send({ role: 'user' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('CANNOT_MODIFY_SELF');
+    });
+  });
+
+  describe('Account status', () => {
+    it('should sign out a deactivated user and let them back after reactivation', async () => {
+      await request(app)
+        .post(`${adminUrl}/users/${userId}/deactivate`)
+        .set(testUtils.getAuthHeader(adminToken))
+        .expect(200);
+
+      await request(app)
+        .get(`${TEST_CONFIG.baseURL}/auth/profile`)
+        .set(testUtils.getAuthHeader(userToken))
+        .expect(401);
+
+      const response = await request(app)
+        .post(`${adminUrl}/users/${userId}/reactivate`)
+        .set(testUtils.getAuthHeader(adminToken))
+        .expect(200);
+      expect(response.body.data.isActive).toBe(true);
+
+      const again = await request(app)
+        .post(`${adminUrl}/users/${userId}/reactivate`)
+        .set(testUtils.getAuthHeader(adminToken))
+        .expect(409);
+      expect(again.body.error.code).toBe('USER_ALREADY_ACTIVE');
+    });
+
+    it('should invalidate access tokens on force logout', async () => {
+      await request(app)
+        .post(`${adminUrl}/users/${userId}/logout`)
+        .set(testUtils.getAuthHeader(adminToken))
+        .expect(204);
+
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/clients`)
+        .set(testUtils.getAuthHeader(userToken))
+        .expect(401);
+
+      expect(response.body.error.code).toBe('TOKEN_REVOKED');
+    });
+
+    it('should verify the email address', async () => {
+      await User.updateOne({ _id: userId }, { isEmailVerified: false });
+
+      const response = await request(app)
+        .post(`${adminUrl}/users/${userId}/verify-email`)
+        .set(testUtils.getAuthHeader(adminToken))
+        .expect(200);
+
+      expect(response.body.data.isEmailVerified).toBe(true);
+    });
+  });
+
+  describe('DELETE /api/v1/admin/users/:id', () => {
+    it('should delete the account and keep an audit entry', async () => {
+      await request(app)
+        .delete(`${adminUrl}/users/${userId}`)
+        .set(testUtils.getAuthHeader(adminToken))
+        .expect(204);
+
+      await request(app)
+        .get(`${adminUrl}/users/${userId}`)
+        .set(testUtils.getAuthHeader(adminToken))
+        .expect(404);
+
+      const audit = await request(app)
+        .get(`${adminUrl}/audit-logs`)
+        .query({ action: 'user.deleted' })
+        .set(testUtils.getAuthHeader(adminToken))
+        .expect(200);
+      expect(audit.body.data[0]).toMatchObject({ targetUserId: userId, targetEmail: email });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import request from 'supertest';
+
+import { getApp, testUtils, TEST_CONFIG, TEST_CLIENT_DATA } from './setup.js';
+
+describe('API Keys Endpoints', () => {
+  let app: any;
+  let authToken: string;
+  let userId: string;
+
+  const apiKeysUrl = `${TEST_CONFIG.baseURL}/api-keys`;
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    const { user, token } = await testUtils.createAuthenticatedUser();
+    authToken = token;
+    userId = user._id.toString();
+  });
+
+  const createApiKey = (body: Record<string, any>) =>
+    request(app).post(apiKeysUrl).set(testUtils.getAuthHeader(authToken)).send(body);
+
+  describe('POST /api/v1/api-keys', () => {
+    it('should return the key once and store only its prefix', async () => {
+      const response = await createApiKey({ name: 'ERP sync', scopes: ['*:write'] }).expect(201);
+
+      const { apiKey, key } = response.body.data;
+      expect(key).toMatch(/^ilk_/);
+      expect(apiKey.prefix).toBe(key.slice(0, 12));
+      expect(apiKey.keyHash).toBeUndefined();
+
+      const list = await request(app)
+        .get(apiKeysUrl)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(list.body.data).toHaveLength(1);
+      expect(list.body.data[0].name).toBe('ERP sync');
+    });
+
+    it('should reject unknown scopes', async () => {
+      const response = await createApiKey({ name: 'Broken', scopes: ['users:write'] }).expect(422);
+
+      testUtils.assertValidationError(response, 'scopes');
+    });
+  });
+
+  describe('Authenticating with an API key', () => {
+    it('should act as the owner of the key without a token', async () => {
+      await testUtils.createTestClient(userId);
+      const { key } = (await createApiKey({ name: 'ERP sync', scopes: ['clients:read'] })).body
+        .data;
+
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/clients`)
+        .set('x-api-key', key)
+        .expect(200);
+      expect(response.body.data).toHaveLength(1);
+
+      const [stored] = (await request(app).get(apiKeysUrl).set(testUtils.getAuthHeader(authToken)))
+        .body.data;
+      expect(stored.lastUsedAt).toBeDefined();
+    });
+
+    it('should refuse writes and other resources outside the scopes', async () => {
+      const { key } = (await createApiKey({ name: 'Reporting', scopes: ['clients:read'] })).body
+        .data;
+
+      const write = await request(app)
+        .post(`${TEST_CONFIG.baseURL}/clients`)
+        .set('x-api-key', key)
+        .send(TEST_CLIENT_DATA)
+        .expect(403);
+      expect(write.body.error.code).toBe('API_KEY_SCOPE_DENIED');
+
+      await request(app).get(`${TEST_CONFIG.baseURL}/invoices`).set('x-api-key', key).expect(403);
+      await request(app)
+        .get(`${TEST_CONFIG.baseURL}/auth/profile`)
+        .set('x-api-key', key)
+        .expect(403);
+    });
+
+    it('should refuse revoked and unknown keys', async () => {
+      const { apiKey, key } = (await createApiKey({ name: 'Old', scopes: ['*:read'] })).body.data;
+
+      await request(app)
+        .delete(`${apiKeysUrl}/${apiKey._id}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(204);
+
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices`)
+        .set('x-api-key', key)
+        .expect(401);
+      expect(response.body.error.code).toBe('INVALID_API_KEY');
+
+      await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices`)
+        .set('x-api-key', 'ilk_not-a-key')
+        .expect(401);
+    });
+
+    it('should refuse requests from addresses outside the allowlist', async () => {
+      const { key } = (
+        await createApiKey({ name: 'Office', scopes: ['*:read'], allowedIps: ['10.0.0.0/8'] })
+      ).body.data;
+
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices`)
+        .set('x-api-key', key)
+        .expect(403);
+      expect(response.body.error.code).toBe('API_KEY_IP_NOT_ALLOWED');
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import request from 'supertest';
+
+import { getApp, testUtils, TEST_CONFIG, TEST_INVOICE_DATA } from './setup.js';
+
+describe('Bank Statements Endpoints', () => {
+  let app: any;
+  let authToken: string;
+  let userId: string;
+  let clientId: string;
+
+  const bankStatementsUrl = `${TEST_CONFIG.baseURL}/bank-statements`;
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    const { user, token } = await testUtils.createAuthenticatedUser();
+    authToken = token;
+    userId = user._id.toString();
+
+    const client = await testUtils.createTestClient(userId);
+    clientId = client._id.toString();
+  });
+
+  const createSentInvoice = () =>
+    testUtils.createTestInvoice(userId, clientId, { ...TEST_INVOICE_DATA, status: 'sent' });
+
+  // OFX 1.x statement with one payment from the test client and one bank fee
+  const ofxStatement = (amount: number, memo: string) => `OFXHEADER:100
+DATA:OFXSGML
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20261001120000
+<TRNAMT>${amount.toFixed(2)}
+<FITID>2026100101
+<NAME>Test Company Ltd
+<MEMO>${memo}
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20261002
+<TRNAMT>-20.00
+<FITID>2026100202
+<NAME>Bank fee
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+  const importStatement = (body: Record<string, any>) =>
+    request(app)
+      .post(`${bankStatementsUrl}/import`)
+      .set(testUtils.getAuthHeader(authToken))
+      .send(body);
+
+  const getTransactions = () =>
+    request(app)
+      .get(`${bankStatementsUrl}/transactions`)
+      .set(testUtils.getAuthHeader(authToken))
+      .expect(200);
+
+  describe('POST /api/v1/bank-statements/import', () => {
+    it('should import credits and suggest the invoice named in the payment', async () => {
+      const invoice = await createSentInvoice();
+
+      const response = await importStatement({
+        format: 'ofx',
+        content: ofxStatement(invoice.total, `Invoice ${invoice.number}`)
+      }).expect(201);
+
+      expect(response.body.data).toMatchObject({
+        transactions: 2,
+        imported: 1,
+        debits: 1,
+        suggested: 1
+      });
+
+      const transactions = await getTransactions();
+      expect(transactions.body.data[0]).toMatchObject({
+        status: 'suggested',
+        amount: invoice.total
+      });
+      expect(transactions.body.data[0].suggestions[0]).toMatchObject({
+        invoiceId: invoice._id.toString(),
+        reasons: expect.arrayContaining(['number', 'amount', 'client_name'])
+      });
+      expect(transactions.body.data[0].suggestions[0].confidence).toBeGreaterThan(0.9);
+    });
+
+    it('should skip transactions already imported from an overlapping statement', async () => {
+      const content = ofxStatement(100, 'Deposit');
+      await importStatement({ format: 'ofx', content }).expect(201);
+
+      const response = await importStatement({ format: 'ofx', content }).expect(201);
+
+      expect(response.body.data).toMatchObject({ imported: 0, duplicates: 1 });
+    });
+
+    it('should read CAMT.053 entries', async () => {
+      const content = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+<Ntry><Amt Ccy="USD">75.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><BookgDt><Dt>2026-10-03</Dt></BookgDt>
+<AcctSvcrRef>CAMT-1</AcctSvcrRef><NtryDtls><TxDtls><RltdPties><Dbtr><Nm>Someone Else</Nm></Dbtr></RltdPties>
+<RmtInf><Ustrd>Donation</Ustrd></RmtInf></TxDtls></NtryDtls></Ntry>
+</Stmt></BkToCstmrStmt></Document>`;
+
+      const response = await importStatement({ format: 'camt053', content }).expect(201);
+      expect(response.body.data.imported).toBe(1);
+
+      const transactions = await getTransactions();
+      expect(transactions.body.data[0]).toMatchObject({
+        externalId: 'CAMT-1',
+        amount: 75,
+        currency: 'USD',
+        counterparty: 'Someone Else',
+        status: 'unmatched'
+      });
+    });
+
+    it('should keep every decimal of OFX and CAMT.053 amounts', async () => {
+      const content = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+<Ntry><Amt Ccy="KWD">1234.567</Amt><CdtDbtInd>CRDT</CdtDbtInd><BookgDt><Dt>2026-10-03</Dt></BookgDt>
+<AcctSvcrRef>CAMT-KWD</AcctSvcrRef></Ntry>
+</Stmt></BkToCstmrStmt></Document>`;
+
+      await importStatement({ format: 'camt053', content }).expect(201);
+      await importStatement({
+        format: 'ofx',
+        content: ofxStatement(100, 'Deposit').replace('<TRNAMT>100.00', '<TRNAMT>0.125')
+      }).expect(201);
+
+      const transactions = await getTransactions();
+      expect(transactions.body.data.map((transaction: any) => transaction.amount).sort()).toEqual([
+        0.125, 1234.567
+      ]);
+    });
+
+    it('should reject a file without transactions', async () => {
+      const response = await importStatement({ format: 'csv', content: 'nothing here' }).expect(
+        400
+      );
+      expect(response.body.error.code).toBe('EMPTY_STATEMENT');
+    });
+  });
+
+  describe('POST /api/v1/bank-statements/transactions/:id/confirm', () => {
+    it('should record the payment and keep an audit trail', async () => {
+      const invoice = await createSentInvoice();
+      await importStatement({
+        format: 'ofx',
+        content: ofxStatement(invoice.total, `Invoice ${invoice.number}`)
+      }).expect(201);
+      const [transaction] = (await getTransactions()).body.data;
+
+      const response = await request(app)
+        .post(`${bankStatementsUrl}/transactions/${transaction._id}/confirm`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({})
+        .expect(200);
+
+      expect(response.body.data.status).toBe('matched');
+      expect(response.body.data.match.invoiceId).toBe(invoice._id.toString());
+      expect(response.body.data.history.map((entry: any) => entry.action)).toEqual([
+        'imported',
+        'suggested',
+        'confirmed'
+      ]);
+
+      const paid = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices/${invoice._id}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(paid.body.data.status).toBe('paid');
+      expect(paid.body.data.payments[0].method).toBe('bank_transfer');
+
+      const again = await request(app)
+        .post(`${bankStatementsUrl}/transactions/${transaction._id}/confirm`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({})
+        .expect(409);
+      expect(again.body.error.code).toBe('TRANSACTION_ALREADY_MATCHED');
+    });
+
+    it('should require an invoice when nothing was suggested', async () => {
+      await importStatement({ format: 'ofx', content: ofxStatement(12.34, 'Deposit') }).expect(201);
+      const [transaction] = (await getTransactions()).body.data;
+
+      const response = await request(app)
+        .post(`${bankStatementsUrl}/transactions/${transaction._id}/confirm`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({})
+        .expect(400);
+      expect(response.body.error.code).toBe('INVOICE_REQUIRED');
+    });
+  });
+
+  describe('POST /api/v1/bank-statements/transactions/:id/ignore', () => {
+    it('should ignore a transaction and reopen it', async () => {
+      await importStatement({ format: 'ofx', content: ofxStatement(12.34, 'Deposit') }).expect(201);
+      const [transaction] = (await getTransactions()).body.data;
+
+      const ignored = await request(app)
+        .post(`${bankStatementsUrl}/transactions/${transaction._id}/ignore`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ reason: 'Owner deposit' })
+        .expect(200);
+      expect(ignored.body.data.status).toBe('ignored');
+
+      const reopened = await request(app)
+        .post(`${bankStatementsUrl}/transactions/${transaction._id}/reopen`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(reopened.body.data.status).toBe('unmatched');
+      expect(reopened.body.data.history.map((entry: any) => entry.action)).toEqual([
+        'imported',
+        'ignored',
+        'reopened'
+      ]);
+    });
+  });
+});
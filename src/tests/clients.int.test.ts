@@ -14,7 +14,7 @@ describe('Clients Endpoints', () => {
   beforeEach(async () => {
     const { user, token } = await testUtils.createAuthenticatedUser();
     authToken = token;
-    userId = (user as any)._id.toString();
+    userId = user._id.toString();
   });
 
   describe('POST /api/v1/clients', () => {
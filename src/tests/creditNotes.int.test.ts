@@ -0,0 +1,145 @@
+import request from 'supertest';
+
+import { getApp, testUtils, TEST_CONFIG, TEST_INVOICE_DATA } from './setup.js';
+
+describe('Credit Notes Endpoints', () => {
+  let app: any;
+  let authToken: string;
+  let userId: string;
+  let clientId: string;
+
+  const creditNotesUrl = `${TEST_CONFIG.baseURL}/credit-notes`;
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    const { user, token } = await testUtils.createAuthenticatedUser();
+    authToken = token;
+    userId = user._id.toString();
+
+    const client = await testUtils.createTestClient(userId);
+    clientId = client._id.toString();
+  });
+
+  const createSentInvoice = () =>
+    testUtils.createTestInvoice(userId, clientId, { ...TEST_INVOICE_DATA, status: 'sent' });
+
+  const createCreditNote = (body: Record<string, any>) =>
+    request(app)
+      .post(creditNotesUrl)
+      .set(testUtils.getAuthHeader(authToken))
+      .send({ reason: 'Returned goods', ...body });
+
+  describe('POST /api/v1/credit-notes', () => {
+    it('should credit part of an invoice line and reduce the client balance', async () => {
+      const invoice = await createSentInvoice();
+      const invoiceId = invoice._id.toString();
+
+      const response = await createCreditNote({
+        invoiceId,
+        items: [{ invoiceItemIndex: 0, quantity: 1 }]
+      }).expect(201);
+
+      expect(response.body.data).toMatchObject({
+        invoiceId,
+        invoiceNumber: invoice.number,
+        number: expect.stringMatching(/^CN-\d{4}-\d{4}$/),
+        status: 'issued',
+        subtotal: 100,
+        taxAmount: 10,
+        total: 110
+      });
+
+      const updated = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices/${invoiceId}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(updated.body.data.totalCredited).toBe(110);
+      expect(updated.body.data.remainingBalance).toBe(invoice.total - 110);
+      expect(updated.body.data.credits[0].number).toBe(response.body.data.number);
+
+      const { Client } = await import('../models/Client.js');
+      const client = await Client.findById(clientId);
+      expect(client!.totalCredited).toBe(110);
+      expect(client!.outstandingBalance).toBe(invoice.total - 110);
+    });
+
+    it('should not credit more than was invoiced', async () => {
+      const invoice = await createSentInvoice();
+      const invoiceId = invoice._id.toString();
+
+      const quantity = await createCreditNote({
+        invoiceId,
+        items: [{ invoiceItemIndex: 0, quantity: 3 }]
+      }).expect(400);
+
+      expect(quantity.body.error.code).toBe('CREDIT_EXCEEDS_QUANTITY');
+
+      const amount = await createCreditNote({
+        invoiceId,
+        items: [{ description: 'Price adjustment', amount: invoice.total + 1 }]
+      }).expect(400);
+
+      expect(amount.body.error.code).toBe('CREDIT_EXCEEDS_INVOICE');
+    });
+
+    it('should only credit issued invoices', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+
+      const response = await createCreditNote({
+        invoiceId: invoice._id.toString(),
+        items: [{ description: 'Adjustment', amount: 10 }]
+      }).expect(400);
+
+      expect(response.body.error.code).toBe('INVOICE_NOT_CREDITABLE');
+    });
+  });
+
+  describe('POST /api/v1/credit-notes/:id/void', () => {
+    it('should restore the invoice balance', async () => {
+      const invoice = await createSentInvoice();
+      const invoiceId = invoice._id.toString();
+
+      const creditNote = await createCreditNote({
+        invoiceId,
+        items: [{ description: 'Adjustment', amount: 25 }]
+      }).expect(201);
+
+      const response = await request(app)
+        .post(`${creditNotesUrl}/${creditNote.body.data._id}/void`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ reason: 'Issued in error' })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ status: 'void', voidReason: 'Issued in error' });
+
+      const updated = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices/${invoiceId}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(updated.body.data.totalCredited).toBe(0);
+      expect(updated.body.data.remainingBalance).toBe(invoice.total);
+    });
+  });
+
+  describe('GET /api/v1/credit-notes/:id/pdf', () => {
+    it('should render the credit note as PDF', async () => {
+      const invoice = await createSentInvoice();
+      const creditNote = await createCreditNote({
+        invoiceId: invoice._id.toString(),
+        items: [{ invoiceItemIndex: 1 }]
+      }).expect(201);
+
+      const response = await request(app)
+        .get(`${creditNotesUrl}/${creditNote.body.data._id}/pdf`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('application/pdf');
+    });
+  });
+});
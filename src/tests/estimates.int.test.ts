@@ -0,0 +1,159 @@
+import request from 'supertest';
+
+import { getApp, testUtils, TEST_CONFIG } from './setup.js';
+
+describe('Estimates Endpoints', () => {
+  let app: any;
+  let authToken: string;
+  let userId: string;
+  let clientId: string;
+
+  const estimatesUrl = `${TEST_CONFIG.baseURL}/estimates`;
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    const { user, token } = await testUtils.createAuthenticatedUser();
+    authToken = token;
+    userId = user._id.toString();
+
+    const client = await testUtils.createTestClient(userId);
+    clientId = client._id.toString();
+  });
+
+  const createEstimate = (body: Record<string, any> = {}) =>
+    request(app)
+      .post(estimatesUrl)
+      .set(testUtils.getAuthHeader(authToken))
+      .send({
+        clientId,
+        expiryDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
+        currency: 'EUR',
+        items: [
+          { description: 'Design work', quantity: 2, unitPrice: 100, taxRate: 0, discount: 0 },
+          { description: 'Hosting', quantity: 1, unitPrice: 50, taxRate: 0, discount: 0 }
+        ],
+        discountType: 'fixed',
+        discountValue: 25,
+        ...body
+      });
+
+  const setStatus = (estimateId: string, status: string) =>
+    request(app)
+      .patch(`${estimatesUrl}/${estimateId}/status`)
+      .set(testUtils.getAuthHeader(authToken))
+      .send({ status });
+
+  describe('POST /api/v1/estimates', () => {
+    it('should number the estimate from the quote series and price it like an invoice', async () => {
+      const response = await createEstimate().expect(201);
+
+      expect(response.body.data).toMatchObject({
+        number: expect.stringMatching(/^QUO-\d{4}-\d{4}$/),
+        status: 'draft',
+        subtotal: 250,
+        discountAmount: 25,
+        total: 225
+      });
+    });
+
+    it('should reject an expiry date before the issue date', async () => {
+      const response = await createEstimate({
+        issueDate: new Date().toISOString(),
+        expiryDate: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+      }).expect(422);
+
+      testUtils.assertValidationError(response, 'expiryDate');
+    });
+  });
+
+  describe('PATCH /api/v1/estimates/:id/status', () => {
+    it('should follow the estimate status transitions', async () => {
+      const estimate = await createEstimate().expect(201);
+      const estimateId = estimate.body.data._id;
+
+      const sent = await setStatus(estimateId, 'sent').expect(200);
+      expect(sent.body.data.sentAt).toBeDefined();
+
+      const declined = await setStatus(estimateId, 'declined').expect(200);
+      expect(declined.body.data.statusHistory.map((change: any) => change.to)).toEqual([
+        'draft',
+        'sent',
+        'declined'
+      ]);
+
+      const response = await setStatus(estimateId, 'accepted').expect(409);
+      expect(response.body.error.code).toBe('INVALID_STATUS_TRANSITION');
+    });
+
+    it('should lock priced fields once sent', async () => {
+      const estimate = await createEstimate().expect(201);
+      const estimateId = estimate.body.data._id;
+      await setStatus(estimateId, 'sent').expect(200);
+
+      const response = await request(app)
+        .patch(`${estimatesUrl}/${estimateId}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ discountValue: 0 })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('ESTIMATE_NOT_EDITABLE');
+    });
+  });
+
+  describe('POST /api/v1/estimates/:id/convert', () => {
+    it('should create a draft invoice linked to the estimate', async () => {
+      const estimate = await createEstimate().expect(201);
+      const estimateId = estimate.body.data._id;
+
+      const response = await request(app)
+        .post(`${estimatesUrl}/${estimateId}/convert`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({})
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({
+        status: 'draft',
+        estimateId,
+        currency: 'EUR',
+        total: 225
+      });
+      expect(response.body.data.clientId.toString()).toBe(clientId);
+      expect(response.body.data.items).toHaveLength(2);
+
+      const converted = await request(app)
+        .get(`${estimatesUrl}/${estimateId}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(converted.body.data).toMatchObject({
+        status: 'accepted',
+        invoiceId: response.body.data._id
+      });
+
+      const again = await request(app)
+        .post(`${estimatesUrl}/${estimateId}/convert`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({})
+        .expect(409);
+
+      expect(again.body.error.code).toBe('ESTIMATE_CONVERTED');
+    });
+
+    it('should not convert a declined estimate', async () => {
+      const estimate = await createEstimate().expect(201);
+      const estimateId = estimate.body.data._id;
+      await setStatus(estimateId, 'declined').expect(200);
+
+      const response = await request(app)
+        .post(`${estimatesUrl}/${estimateId}/convert`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({})
+        .expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_STATUS_TRANSITION');
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import request from 'supertest';
+
+import { getApp, testUtils, TEST_CONFIG, TEST_INVOICE_DATA } from './setup.js';
+
+const ECB_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time="2024-01-02">
+      <Cube currency="USD" rate="1.1"/>
+      <Cube currency="GBP" rate="0.88"/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+describe('Exchange Rates Endpoints', () => {
+  let app: any;
+  let authToken: string;
+  let userId: string;
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    const { user, token } = await testUtils.createAuthenticatedUser();
+    authToken = token;
+    userId = user._id.toString();
+  });
+
+  const importRates = (body: Record<string, any>) =>
+    request(app)
+      .post(`${TEST_CONFIG.baseURL}/exchange-rates/import`)
+      .set(testUtils.getAuthHeader(authToken))
+      .send(body);
+
+  describe('POST /api/v1/exchange-rates/import', () => {
+    it('should import ECB reference rates from XML', async () => {
+      const response = await importRates({ format: 'xml', content: ECB_XML }).expect(200);
+
+      expect(response.body.data).toMatchObject({
+        base: 'EUR',
+        imported: 2,
+        currencies: ['GBP', 'USD']
+      });
+    });
+
+    it('should import ECB reference rates from CSV', async () => {
+      const response = await importRates({
+        format: 'csv',
+        content: 'Date, USD, JPY, BGN, \n2024-01-02, 1.1, 160, N/A, \n'
+      }).expect(200);
+
+      expect(response.body.data.imported).toBe(2);
+    });
+
+    it('should reject files without rates', async () => {
+      const response = await importRates({ format: 'xml', content: '<Cube></Cube>' }).expect(400);
+
+      expect(response.body.error.code).toBe('BAD_REQUEST');
+    });
+  });
+
+  describe('GET /api/v1/exchange-rates/convert', () => {
+    it('should convert through the shared base currency', async () => {
+      await importRates({ format: 'xml', content: ECB_XML }).expect(200);
+
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/exchange-rates/convert?from=USD&to=GBP&amount=110`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(response.body.data.result).toBe(88);
+    });
+
+    it('should return not found without a usable rate', async () => {
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/exchange-rates/convert?from=USD&to=CHF`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(404);
+
+      testUtils.assertNotFoundError(response);
+    });
+  });
+
+  describe('Reporting currency', () => {
+    it('should report invoice stats in the preferred currency with a breakdown', async () => {
+      await request(app)
+        .put(`${TEST_CONFIG.baseURL}/exchange-rates`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ base: 'EUR', quote: 'USD', rate: 2, date: '2024-01-01' })
+        .expect(200);
+
+      const client = await testUtils.createTestClient(userId);
+      await testUtils.createTestInvoice(userId, client._id.toString(), {
+        ...TEST_INVOICE_DATA,
+        number: 'INV-EUR',
+        currency: 'EUR',
+        items: [{ description: 'Work', quantity: 1, unitPrice: 100, taxRate: 0, discount: 0 }],
+        taxRate: 0,
+        shippingCost: 0
+      });
+      await testUtils.createTestInvoice(userId, client._id.toString(), {
+        ...TEST_INVOICE_DATA,
+        number: 'INV-USD',
+        items: [{ description: 'Work', quantity: 1, unitPrice: 100, taxRate: 0, discount: 0 }],
+        taxRate: 0,
+        shippingCost: 0
+      });
+
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices/stats`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        currency: 'USD',
+        totalInvoices: 2,
+        averageInvoiceValue: 150,
+        missingRates: []
+      });
+      expect(response.body.data.byCurrency).toEqual([
+        expect.objectContaining({ currency: 'EUR', totalInvoiced: 100, rate: 2 }),
+        expect.objectContaining({ currency: 'USD', totalInvoiced: 100, rate: 1 })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,658 @@
+import request from 'supertest';
+
+import { getApp, testUtils, TEST_CONFIG, TEST_INVOICE_DATA } from './setup.js';
+
+describe('Invoices Endpoints', () => {
+  let app: any;
+  let authToken: string;
+  let userId: string;
+  let clientId: string;
+
+  const buildInvoicePayload = (overrides: Record<string, any> = {}) => ({
+    clientId,
+    issueDate: new Date().toISOString(),
+    dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+    currency: 'USD',
+    items: [{ description: 'Consulting', quantity: 2, unitPrice: 100 }],
+    ...overrides
+  });
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    const { user, token } = await testUtils.createAuthenticatedUser();
+    authToken = token;
+    userId = user._id.toString();
+
+    const client = await testUtils.createTestClient(userId);
+    clientId = client._id.toString();
+  });
+
+  describe('POST /api/v1/invoices', () => {
+    it('should create an invoice with calculated totals', async () => {
+      const response = await request(app)
+        .post(`${TEST_CONFIG.baseURL}/invoices`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send(buildInvoicePayload({ taxRate: 10 }))
+        .expect(201);
+
+      testUtils.assertApiResponse(response, 201);
+
+      expect(response.body.data).toMatchObject({
+        _id: expect.any(String),
+        userId,
+        clientId,
+        number: expect.stringMatching(/^INV-\d{4}-\d{4}$/),
+        status: 'draft',
+        subtotal: 200,
+        taxAmount: 20,
+        total: 220,
+        remainingBalance: 220
+      });
+    });
+
+    it('should round each line to the precision of the currency', async () => {
+      const response = await request(app)
+        .post(`${TEST_CONFIG.baseURL}/invoices`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send(
+          buildInvoicePayload({
+            currency: 'JPY',
+            taxRate: 8,
+            items: [
+              { description: 'Licence', quantity: 3, unitPrice: 333.5 },
+              { description: 'Support', quantity: 1, unitPrice: 0.5 }
+            ]
+          })
+        )
+        .expect(201);
+
+      expect(response.body.data.items.map((item: any) => item.subtotal)).toEqual([1001, 1]);
+      expect(response.body.data).toMatchObject({
+        precision: 0,
+        subtotal: 1002,
+        taxAmount: 80,
+        total: 1082,
+        minorUnits: { subtotal: 1002, taxAmount: 80, total: 1082 }
+      });
+    });
+
+    it('should reject a client that belongs to another user', async () => {
+      const { user: otherUser } = await testUtils.createAuthenticatedUser({
+        name: 'Other User',
+        email: 'other@example.com',
+        password: 'Password123!',
+        role: 'user'
+      });
+      const otherClient = await testUtils.createTestClient(otherUser._id.toString());
+
+      const response = await request(app)
+        .post(`${TEST_CONFIG.baseURL}/invoices`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send(buildInvoicePayload({ clientId: otherClient._id.toString() }))
+        .expect(404);
+
+      testUtils.assertNotFoundError(response);
+    });
+
+    it('should return conflict for a duplicate invoice number', async () => {
+      await testUtils.createTestInvoice(userId, clientId);
+
+      const response = await request(app)
+        .post(`${TEST_CONFIG.baseURL}/invoices`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send(buildInvoicePayload({ number: TEST_INVOICE_DATA.number }))
+        .expect(409);
+
+      expect(response.body.error.code).toBe('CONFLICT');
+    });
+  });
+
+  describe('GET /api/v1/invoices', () => {
+    beforeEach(async () => {
+      await testUtils.createTestInvoice(userId, clientId, {
+        ...TEST_INVOICE_DATA,
+        number: 'INV-A'
+      });
+      await testUtils.createTestInvoice(userId, clientId, {
+        ...TEST_INVOICE_DATA,
+        number: 'INV-B',
+        currency: 'EUR',
+        status: 'sent'
+      });
+    });
+
+    it('should return paginated invoices for the user', async () => {
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      testUtils.assertApiResponse(response, 200);
+      testUtils.assertPaginationResponse(response);
+      expect(response.body.data).toHaveLength(2);
+    });
+
+    it('should filter invoices by status and currency', async () => {
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices?status=sent&currency=eur`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].number).toBe('INV-B');
+    });
+
+    it('should search invoices by number', async () => {
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices?search=INV-A`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].number).toBe('INV-A');
+    });
+  });
+
+  describe('PATCH /api/v1/invoices/:id', () => {
+    it('should recalculate totals when items change', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+
+      const response = await request(app)
+        .patch(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({
+          items: [{ description: 'Updated', quantity: 1, unitPrice: 50 }],
+          taxRate: 0,
+          shippingCost: 0
+        })
+        .expect(200);
+
+      expect(response.body.data.total).toBe(50);
+    });
+  });
+
+  describe('Invoice status transitions', () => {
+    it('should record each transition with its actor', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+
+      const response = await request(app)
+        .patch(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}/status`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ status: 'sent' })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('sent');
+      expect(response.body.data.statusHistory).toEqual([
+        expect.objectContaining({ to: 'draft' }),
+        expect.objectContaining({
+          from: 'draft',
+          to: 'sent',
+          actor: userId,
+          timestamp: expect.any(String)
+        })
+      ]);
+    });
+
+    it('should not mark a draft as paid', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+
+      const response = await request(app)
+        .patch(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}/status`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ status: 'paid' })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_STATUS_TRANSITION');
+      const { Invoice } = await import('../models/Invoice.js');
+      expect((await Invoice.findById(invoice._id))!.status).toBe('draft');
+    });
+
+    it('should reject moving a paid invoice back to draft', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId, {
+        ...TEST_INVOICE_DATA,
+        status: 'sent'
+      });
+
+      await request(app)
+        .patch(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}/status`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ status: 'paid', paidDate: new Date().toISOString() })
+        .expect(200);
+
+      const response = await request(app)
+        .patch(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ status: 'draft' })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_STATUS_TRANSITION');
+    });
+
+    it('should only allow safe fields to change once the invoice is sent', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId, {
+        ...TEST_INVOICE_DATA,
+        status: 'sent'
+      });
+
+      const rejected = await request(app)
+        .patch(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ items: [{ description: 'Changed', quantity: 1, unitPrice: 1 }] })
+        .expect(409);
+
+      expect(rejected.body.error.code).toBe('INVOICE_NOT_EDITABLE');
+
+      const response = await request(app)
+        .patch(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ notes: 'Paid by wire transfer' })
+        .expect(200);
+
+      expect(response.body.data.notes).toBe('Paid by wire transfer');
+    });
+  });
+
+  describe('DELETE /api/v1/invoices/:id', () => {
+    it('should delete an invoice owned by the user', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+
+      await request(app)
+        .delete(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(204);
+
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(404);
+
+      testUtils.assertNotFoundError(response);
+    });
+  });
+
+  describe('POST /api/v1/invoices/:id/duplicate', () => {
+    it('should create a new draft with a fresh number', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+
+      const response = await request(app)
+        .post(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}/duplicate`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(201);
+
+      expect(response.body.data.status).toBe('draft');
+      expect(response.body.data.number).not.toBe(invoice.number);
+      expect(response.body.data.total).toBe(invoice.total);
+    });
+  });
+
+  describe('GET /api/v1/invoices/:id/pdf', () => {
+    it('should render the invoice as a PDF document', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}/pdf?template=modern`)
+        .set(testUtils.getAuthHeader(authToken))
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('application/pdf');
+      expect(response.headers['content-disposition']).toContain(`${invoice.number}.pdf`);
+      expect((response.body as Buffer).subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('should reject unknown templates', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}/pdf?template=fancy`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(422);
+
+      testUtils.assertValidationError(response, 'template');
+    });
+  });
+
+  describe('POST /api/v1/invoices/:id/send', () => {
+    let transporter: any;
+    let originalSendMail: any;
+    let sentMessages: any[];
+
+    beforeAll(async () => {
+      const { mailTransporter } = await import('../config/mail.js');
+      transporter = mailTransporter;
+      originalSendMail = mailTransporter.sendMail;
+    });
+
+    beforeEach(() => {
+      sentMessages = [];
+      transporter.sendMail = async (options: any) => {
+        sentMessages.push(options);
+        return { messageId: '<invoice-test@involuck.dev>' };
+      };
+    });
+
+    afterAll(() => {
+      transporter.sendMail = originalSendMail;
+    });
+
+    it('should email the PDF, mark the invoice as sent and log the delivery', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+
+      const response = await request(app)
+        .post(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}/send`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({
+          to: ['billing@example.com'],
+          cc: ['accounts@example.com'],
+          message: 'Thanks for your business',
+          sendReminder: true,
+          reminderDays: 3
+        })
+        .expect(200);
+
+      expect(sentMessages).toHaveLength(1);
+      expect(sentMessages[0].cc).toBe('accounts@example.com');
+      expect(sentMessages[0].attachments[0]).toMatchObject({
+        filename: `${invoice.number}.pdf`,
+        contentType: 'application/pdf'
+      });
+
+      expect(response.body.data.status).toBe('sent');
+      expect(response.body.data.deliveries).toHaveLength(1);
+      expect(response.body.data.deliveries[0]).toMatchObject({
+        to: ['billing@example.com'],
+        cc: ['accounts@example.com'],
+        status: 'sent',
+        messageId: '<invoice-test@involuck.dev>'
+      });
+      expect(response.body.data.reminders).toMatchObject({
+        enabled: true,
+        intervalDays: 3
+      });
+    });
+
+    it('should keep the invoice status and log a failed delivery when the email fails', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+      transporter.sendMail = async () => {
+        throw new Error('SMTP unavailable');
+      };
+
+      await request(app)
+        .post(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}/send`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ to: ['billing@example.com'] })
+        .expect(500);
+
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(response.body.data.status).toBe('draft');
+      expect(response.body.data.deliveries).toHaveLength(1);
+      expect(response.body.data.deliveries[0]).toMatchObject({
+        to: ['billing@example.com'],
+        status: 'failed',
+        error: 'SMTP unavailable'
+      });
+    });
+
+    it('should not email an invoice that cannot be sent', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId, {
+        ...TEST_INVOICE_DATA,
+        status: 'cancelled'
+      });
+
+      await request(app)
+        .post(`${TEST_CONFIG.baseURL}/invoices/${invoice._id.toString()}/send`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ to: ['billing@example.com'] })
+        .expect(400);
+
+      expect(sentMessages).toHaveLength(0);
+    });
+  });
+
+  describe('Invoice payments', () => {
+    const paymentsUrl = (invoiceId: string) =>
+      `${TEST_CONFIG.baseURL}/invoices/${invoiceId}/payments`;
+
+    it('should record partial payments and update the client balance', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+      const invoiceId = invoice._id.toString();
+
+      const response = await request(app)
+        .post(paymentsUrl(invoiceId))
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ amount: 100, method: 'bank_transfer', reference: 'TRX-1' })
+        .expect(201);
+
+      expect(response.body.data.status).toBe('draft');
+      expect(response.body.data.totalPaid).toBe(100);
+      expect(response.body.data.remainingBalance).toBe(invoice.total - 100);
+
+      const { Client } = await import('../models/Client.js');
+      const client = await Client.findById(clientId);
+      expect(client!.totalPaid).toBe(100);
+      expect(client!.outstandingBalance).toBe(invoice.total - 100);
+
+      const list = await request(app)
+        .get(paymentsUrl(invoiceId))
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(list.body.data).toHaveLength(1);
+      expect(list.body.data[0]).toMatchObject({ amount: 100, reference: 'TRX-1' });
+    });
+
+    it('should reject payments above the remaining balance', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+
+      const response = await request(app)
+        .post(paymentsUrl(invoice._id.toString()))
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ amount: invoice.total + 1, method: 'cash' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('PAYMENT_EXCEEDS_BALANCE');
+    });
+
+    it('should compare balances exactly', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId, {
+        ...TEST_INVOICE_DATA,
+        items: [
+          { description: 'A', quantity: 1, unitPrice: 0.1, taxRate: 0, discount: 0 },
+          { description: 'B', quantity: 1, unitPrice: 0.2, taxRate: 0, discount: 0 }
+        ],
+        taxRate: 0,
+        shippingCost: 0
+      });
+      const invoiceId = invoice._id.toString();
+
+      const over = await request(app)
+        .post(paymentsUrl(invoiceId))
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ amount: 0.31, method: 'cash' })
+        .expect(400);
+
+      expect(over.body.error.code).toBe('PAYMENT_EXCEEDS_BALANCE');
+
+      const fine = await request(app)
+        .post(paymentsUrl(invoiceId))
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ amount: 0.295, method: 'cash' })
+        .expect(400);
+
+      expect(fine.body.error.code).toBe('INVALID_AMOUNT_PRECISION');
+
+      await request(app)
+        .post(paymentsUrl(invoiceId))
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ amount: 0.1, method: 'cash' })
+        .expect(201);
+
+      const response = await request(app)
+        .post(paymentsUrl(invoiceId))
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ amount: 0.2, method: 'cash' })
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({
+        status: 'paid',
+        totalPaid: 0.3,
+        remainingBalance: 0,
+        minorUnits: { totalPaid: 30, remainingBalance: 0 }
+      });
+    });
+
+    it('should accept amounts down to the smallest unit of the invoice currency', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId, {
+        ...TEST_INVOICE_DATA,
+        currency: 'KWD',
+        items: [{ description: 'A', quantity: 1, unitPrice: 1, taxRate: 0, discount: 0 }],
+        taxRate: 0,
+        shippingCost: 0
+      });
+      const invoiceId = invoice._id.toString();
+
+      const response = await request(app)
+        .post(paymentsUrl(invoiceId))
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ amount: 0.005, method: 'cash' })
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({
+        totalPaid: 0.005,
+        minorUnits: { totalPaid: 5, remainingBalance: 995 }
+      });
+
+      const paymentId = response.body.data.payments[0]._id;
+      const refund = await request(app)
+        .post(`${paymentsUrl(invoiceId)}/${paymentId}/refunds`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ amount: 0.001, reason: 'Rounding' })
+        .expect(201);
+
+      expect(refund.body.data.payments[0].refunds[0].amount).toBe(0.001);
+    });
+
+    it('should revert a paid invoice when a payment is voided', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+      const invoiceId = invoice._id.toString();
+
+      const paid = await request(app)
+        .post(paymentsUrl(invoiceId))
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ amount: invoice.total, method: 'credit_card' })
+        .expect(201);
+
+      expect(paid.body.data.status).toBe('paid');
+      const paymentId = paid.body.data.payments[0]._id;
+
+      const response = await request(app)
+        .delete(`${paymentsUrl(invoiceId)}/${paymentId}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ reason: 'Card charge reversed' })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('draft');
+      expect(response.body.data.totalPaid).toBe(0);
+      expect(response.body.data.remainingBalance).toBe(invoice.total);
+      expect(response.body.data.payments[0]).toMatchObject({
+        voided: true,
+        voidReason: 'Card charge reversed'
+      });
+
+      await request(app)
+        .delete(`${paymentsUrl(invoiceId)}/${paymentId}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ reason: 'Again' })
+        .expect(404);
+    });
+
+    it('should record refunds against a payment', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+      const invoiceId = invoice._id.toString();
+
+      const paid = await request(app)
+        .post(paymentsUrl(invoiceId))
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ amount: invoice.total, method: 'bank_transfer' })
+        .expect(201);
+
+      const paymentId = paid.body.data.payments[0]._id;
+      const refundsUrl = `${paymentsUrl(invoiceId)}/${paymentId}/refunds`;
+
+      const response = await request(app)
+        .post(refundsUrl)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ amount: 50, reason: 'Goodwill refund' })
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({
+        status: 'draft',
+        totalPaid: invoice.total - 50,
+        totalRefunded: 50,
+        remainingBalance: 50
+      });
+      expect(response.body.data.payments[0].refunds[0]).toMatchObject({
+        amount: 50,
+        reason: 'Goodwill refund'
+      });
+
+      const over = await request(app)
+        .post(refundsUrl)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ amount: invoice.total - 49, reason: 'Too much' })
+        .expect(400);
+
+      expect(over.body.error.code).toBe('REFUND_EXCEEDS_PAYMENT');
+
+      const voided = await request(app)
+        .delete(`${paymentsUrl(invoiceId)}/${paymentId}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ reason: 'Reversed' })
+        .expect(409);
+
+      expect(voided.body.error.code).toBe('PAYMENT_HAS_REFUNDS');
+    });
+  });
+
+  describe('GET /api/v1/invoices/stats', () => {
+    it('should aggregate invoice statistics', async () => {
+      await testUtils.createTestInvoice(userId, clientId);
+
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices/stats`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        totalInvoices: 1,
+        draftInvoices: 1
+      });
+    });
+
+    it('should return zero totals when there are no invoices', async () => {
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/invoices/stats`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        totalInvoices: 0,
+        totalRevenue: 0,
+        pendingRevenue: 0,
+        byCurrency: []
+      });
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import request from 'supertest';
+
+import { getApp, testUtils, TEST_CONFIG, TEST_INVOICE_DATA } from './setup.js';
+
+describe('Numbering Endpoints', () => {
+  let app: any;
+  let authToken: string;
+  let userId: string;
+  let clientId: string;
+
+  const year = new Date().getFullYear();
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    const { user, token } = await testUtils.createAuthenticatedUser();
+    authToken = token;
+    userId = user._id.toString();
+
+    const client = await testUtils.createTestClient(userId);
+    clientId = client._id.toString();
+  });
+
+  const createUnnumberedInvoice = () => {
+    const { number: _number, ...invoiceData } = TEST_INVOICE_DATA;
+    return testUtils.createTestInvoice(userId, clientId, invoiceData);
+  };
+
+  describe('GET /api/v1/numbering/:series/next', () => {
+    it('should preview the next number without consuming it', async () => {
+      const first = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/numbering/invoice/next`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      const second = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/numbering/invoice/next`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(first.body.data.nextNumber).toBe(`INV-${year}-0001`);
+      expect(second.body.data.nextNumber).toBe(first.body.data.nextNumber);
+    });
+
+    it('should reject unknown series', async () => {
+      const response = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/numbering/unknown/next`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(422);
+
+      testUtils.assertValidationError(response, 'series');
+    });
+  });
+
+  describe('Invoice number assignment', () => {
+    it('should not reuse numbers after an invoice is deleted', async () => {
+      const first = await createUnnumberedInvoice();
+      await first.deleteOne();
+      const second = await createUnnumberedInvoice();
+
+      expect(first.number).toBe(`INV-${year}-0001`);
+      expect(second.number).toBe(`INV-${year}-0002`);
+    });
+
+    it('should continue after invoices numbered before the sequence existed', async () => {
+      await testUtils.createTestInvoice(userId, clientId, {
+        ...TEST_INVOICE_DATA,
+        number: `INV-${year}-0007`
+      });
+      await testUtils.createTestInvoice(userId, clientId, {
+        ...TEST_INVOICE_DATA,
+        number: `INV-${year - 1}-0042`
+      });
+
+      const preview = await request(app)
+        .get(`${TEST_CONFIG.baseURL}/numbering/invoice/next`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(preview.body.data.nextNumber).toBe(`INV-${year}-0008`);
+
+      const first = await createUnnumberedInvoice();
+      const second = await createUnnumberedInvoice();
+
+      expect(first.number).toBe(`INV-${year}-0008`);
+      expect(second.number).toBe(`INV-${year}-0009`);
+    });
+
+    it('should assign unique numbers to concurrent invoices', async () => {
+      const invoices = await Promise.all(
+        Array.from({ length: 5 }, () => createUnnumberedInvoice())
+      );
+
+      const numbers = new Set(invoices.map(invoice => invoice.number));
+      expect(numbers.size).toBe(5);
+    });
+
+    it('should apply the configured prefix and padding', async () => {
+      await request(app)
+        .patch(`${TEST_CONFIG.baseURL}/numbering/invoice`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ prefix: 'ACME', padding: 6, resetPolicy: 'never', format: '{prefix}/{seq}' })
+        .expect(200);
+
+      const invoice = await createUnnumberedInvoice();
+
+      expect(invoice.number).toBe('ACME/000001');
+    });
+
+    it('should require the year in the format when numbers reset yearly', async () => {
+      const response = await request(app)
+        .patch(`${TEST_CONFIG.baseURL}/numbering/invoice`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ resetPolicy: 'yearly', format: '{prefix}/{seq}' })
+        .expect(422);
+      testUtils.assertValidationError(response, 'format');
+
+      // The default policy is yearly, so a format alone is checked against it
+      const defaultPolicy = await request(app)
+        .patch(`${TEST_CONFIG.baseURL}/numbering/invoice`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ format: '{prefix}/{seq}' })
+        .expect(400);
+      expect(defaultPolicy.body.error.code).toBe('NUMBER_FORMAT_MISSING_YEAR');
+    });
+  });
+});
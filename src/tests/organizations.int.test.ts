@@ -0,0 +1,406 @@
+import request from 'supertest';
+
+import { Client } from '../models/Client.js';
+import { Invoice } from '../models/Invoice.js';
+
+import { getApp, testUtils, TEST_CONFIG, TEST_CLIENT_DATA, TEST_INVOICE_DATA } from './setup.js';
+
+describe('Organization Endpoints', () => {
+  let app: any;
+  let ownerToken: string;
+  let ownerId: string;
+  let memberToken: string;
+  let memberEmail: string;
+  let organizationId: string;
+  let transporter: any;
+  let originalSendMail: any;
+  let sentMessages: any[];
+
+  const organizationsUrl = `${TEST_CONFIG.baseURL}/organizations`;
+  const clientsUrl = `${TEST_CONFIG.baseURL}/clients`;
+
+  beforeAll(async () => {
+    app = getApp();
+
+    const { mailTransporter } = await import('../config/mail.js');
+    transporter = mailTransporter;
+    originalSendMail = mailTransporter.sendMail;
+  });
+
+  beforeEach(async () => {
+    sentMessages = [];
+    transporter.sendMail = async (options: any) => {
+      sentMessages.push(options);
+      return { messageId: '<invitation-test@involuck.dev>' };
+    };
+
+    const owner = await testUtils.createAuthenticatedUser({
+      name: 'Organization Owner',
+      email: testUtils.randomEmail(),
+      password: 'Password123!',
+      role: 'user'
+    });
+    ownerToken = owner.token;
+    ownerId = owner.user._id.toString();
+
+    memberEmail = testUtils.randomEmail();
+    const member = await testUtils.createAuthenticatedUser({
+      name: 'Bookkeeper',
+      email: memberEmail,
+      password: 'Password123!',
+      role: 'user'
+    });
+    memberToken = member.token;
+
+    const response = await request(app)
+      .post(organizationsUrl)
+      .set(testUtils.getAuthHeader(ownerToken))
+      .send({ name: 'Acme Studio' })
+      .expect(201);
+    organizationId = response.body.data.id;
+  });
+
+  afterAll(() => {
+    transporter.sendMail = originalSendMail;
+  });
+
+  // Switch to the organization and return the new access token
+  const switchTo = async (token: string) => {
+    const response = await request(app)
+      .post(`${organizationsUrl}/${organizationId}/switch`)
+      .set(testUtils.getAuthHeader(token))
+      .expect(200);
+    return response.body.data.token as string;
+  };
+
+  // Client stored directly in the organization
+  const createOrganizationClient = () =>
+    Client.create({ ...TEST_CLIENT_DATA, userId: ownerId, organizationId });
+
+  // Invite the member with a role and accept with the emailed token
+  const inviteMember = async (role: string) => {
+    const invitation = await request(app)
+      .post(`${organizationsUrl}/${organizationId}/invitations`)
+      .set(testUtils.getAuthHeader(ownerToken))
+      .send({ email: memberEmail, role })
+      .expect(201);
+
+    const [, token] = sentMessages[sentMessages.length - 1].html.match(/invitations\/([a-f0-9]+)/);
+    await request(app)
+      .post(`${organizationsUrl}/invitations/accept`)
+      .set(testUtils.getAuthHeader(memberToken))
+      .send({ token })
+      .expect(200);
+
+    return invitation.body.data._id as string;
+  };
+
+  describe('GET /api/v1/organizations', () => {
+    it('should list the personal organization and the created one', async () => {
+      const response = await request(app)
+        .get(organizationsUrl)
+        .set(testUtils.getAuthHeader(ownerToken))
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ personal: true, role: 'owner', current: true }),
+          expect.objectContaining({ id: organizationId, name: 'Acme Studio', current: false })
+        ])
+      );
+    });
+  });
+
+  describe('Invitations', () => {
+    it('should let an invited member work with the organization clients', async () => {
+      const ownerOrgToken = await switchTo(ownerToken);
+      await request(app)
+        .post(clientsUrl)
+        .set(testUtils.getAuthHeader(ownerOrgToken))
+        .send(TEST_CLIENT_DATA)
+        .expect(201);
+
+      await inviteMember('accountant');
+      expect(sentMessages[0].to).toBe(memberEmail);
+
+      const memberOrgToken = await switchTo(memberToken);
+      const shared = await request(app)
+        .get(clientsUrl)
+        .set(testUtils.getAuthHeader(memberOrgToken))
+        .expect(200);
+      expect(shared.body.data).toHaveLength(1);
+      expect(shared.body.data[0].email).toBe(TEST_CLIENT_DATA.email);
+
+      // The personal organization stays separate
+      const personal = await request(app)
+        .get(clientsUrl)
+        .set(testUtils.getAuthHeader(memberToken))
+        .expect(200);
+      expect(personal.body.data).toHaveLength(0);
+    });
+
+    it('should refuse an invitation accepted from another account', async () => {
+      await request(app)
+        .post(`${organizationsUrl}/${organizationId}/invitations`)
+        .set(testUtils.getAuthHeader(ownerToken))
+        .send({ email: 'someone-else@example.com', role: 'viewer' })
+        .expect(201);
+
+      const [, token] = sentMessages[0].html.match(/invitations\/([a-f0-9]+)/);
+      const response = await request(app)
+        .post(`${organizationsUrl}/invitations/accept`)
+        .set(testUtils.getAuthHeader(memberToken))
+        .send({ token })
+        .expect(403);
+
+      expect(response.body.error.code).toBe('INVITATION_EMAIL_MISMATCH');
+    });
+  });
+
+  describe('Roles', () => {
+    it('should give viewers read-only access', async () => {
+      await inviteMember('viewer');
+      const viewerToken = await switchTo(memberToken);
+
+      await request(app).get(clientsUrl).set(testUtils.getAuthHeader(viewerToken)).expect(200);
+
+      const response = await request(app)
+        .post(clientsUrl)
+        .set(testUtils.getAuthHeader(viewerToken))
+        .send(TEST_CLIENT_DATA)
+        .expect(403);
+      expect(response.body.error.code).toBe('PERMISSION_DENIED');
+    });
+
+    it('should not let accountants invite members', async () => {
+      await inviteMember('accountant');
+
+      const response = await request(app)
+        .post(`${organizationsUrl}/${organizationId}/invitations`)
+        .set(testUtils.getAuthHeader(memberToken))
+        .send({ email: testUtils.randomEmail(), role: 'viewer' })
+        .expect(403);
+      expect(response.body.error.code).toBe('PERMISSION_DENIED');
+    });
+
+    it('should let accountants record payments but not delete clients', async () => {
+      await inviteMember('accountant');
+      const accountantToken = await switchTo(memberToken);
+
+      const client = await createOrganizationClient();
+      const invoice = await Invoice.create({
+        ...TEST_INVOICE_DATA,
+        userId: ownerId,
+        clientId: client._id,
+        organizationId
+      });
+
+      await request(app)
+        .post(`${TEST_CONFIG.baseURL}/invoices/${invoice._id}/payments`)
+        .set(testUtils.getAuthHeader(accountantToken))
+        .send({ amount: 100, method: 'bank_transfer' })
+        .expect(201);
+
+      const response = await request(app)
+        .delete(`${clientsUrl}/${client._id}`)
+        .set(testUtils.getAuthHeader(accountantToken))
+        .expect(403);
+      expect(response.body.error.code).toBe('PERMISSION_DENIED');
+    });
+  });
+
+  describe('Organization roles', () => {
+    const rolesUrl = () => `${organizationsUrl}/${organizationId}/roles`;
+
+    it('should grant the permissions of a custom role', async () => {
+      await request(app)
+        .post(rolesUrl())
+        .set(testUtils.getAuthHeader(ownerToken))
+        .send({
+          key: 'archivist',
+          name: 'Archivist',
+          permissions: ['clients:read', 'clients:delete']
+        })
+        .expect(201);
+
+      const membershipId = await inviteMember('viewer');
+      await request(app)
+        .patch(`${organizationsUrl}/${organizationId}/members/${membershipId}`)
+        .set(testUtils.getAuthHeader(ownerToken))
+        .send({ role: 'archivist' })
+        .expect(200);
+
+      const archivistToken = await switchTo(memberToken);
+      const client = await createOrganizationClient();
+
+      await request(app)
+        .delete(`${clientsUrl}/${client._id}`)
+        .set(testUtils.getAuthHeader(archivistToken))
+        .expect(204);
+
+      const inUse = await request(app)
+        .delete(`${rolesUrl()}/archivist`)
+        .set(testUtils.getAuthHeader(ownerToken))
+        .expect(409);
+      expect(inUse.body.error.code).toBe('ROLE_IN_USE');
+    });
+
+    it('should apply edits to built-in roles', async () => {
+      await request(app)
+        .patch(`${rolesUrl()}/viewer`)
+        .set(testUtils.getAuthHeader(ownerToken))
+        .send({ permissions: ['invoices:read'] })
+        .expect(200);
+
+      const roles = await request(app)
+        .get(rolesUrl())
+        .set(testUtils.getAuthHeader(ownerToken))
+        .expect(200);
+      expect(roles.body.data).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ key: 'viewer', name: 'Viewer', permissions: ['invoices:read'] })
+        ])
+      );
+
+      await inviteMember('viewer');
+      const viewerToken = await switchTo(memberToken);
+
+      const response = await request(app)
+        .get(clientsUrl)
+        .set(testUtils.getAuthHeader(viewerToken))
+        .expect(403);
+      expect(response.body.error.code).toBe('PERMISSION_DENIED');
+    });
+
+    it('should keep the owner role fixed', async () => {
+      const response = await request(app)
+        .patch(`${rolesUrl()}/owner`)
+        .set(testUtils.getAuthHeader(ownerToken))
+        .send({ permissions: [] })
+        .expect(400);
+      expect(response.body.error.code).toBe('OWNER_ROLE_LOCKED');
+    });
+  });
+
+  describe('Shared modules', () => {
+    const estimatesUrl = `${TEST_CONFIG.baseURL}/estimates`;
+
+    // Sent invoice of an organization client
+    const createOrganizationInvoice = async () => {
+      const client = await createOrganizationClient();
+      return Invoice.create({
+        ...TEST_INVOICE_DATA,
+        userId: ownerId,
+        clientId: client._id,
+        organizationId,
+        status: 'sent'
+      });
+    };
+
+    it('should let a member convert an estimate into an organization invoice', async () => {
+      await inviteMember('accountant');
+      const accountantToken = await switchTo(memberToken);
+      const client = await createOrganizationClient();
+
+      const estimate = await request(app)
+        .post(estimatesUrl)
+        .set(testUtils.getAuthHeader(accountantToken))
+        .send({
+          clientId: client._id.toString(),
+          expiryDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
+          items: [{ description: 'Design work', quantity: 1, unitPrice: 100 }]
+        })
+        .expect(201);
+      expect(estimate.body.data.organizationId).toBe(organizationId);
+
+      const converted = await request(app)
+        .post(`${estimatesUrl}/${estimate.body.data._id}/convert`)
+        .set(testUtils.getAuthHeader(accountantToken))
+        .send({})
+        .expect(201);
+
+      const invoice = await Invoice.findById(converted.body.data._id);
+      expect(invoice!.organizationId.toString()).toBe(organizationId);
+      expect(invoice!.userId.toString()).toBe(ownerId);
+
+      // The owner sees the estimate in the organization, not in their personal one
+      const ownerOrgToken = await switchTo(ownerToken);
+      await request(app)
+        .get(`${estimatesUrl}/${estimate.body.data._id}`)
+        .set(testUtils.getAuthHeader(ownerOrgToken))
+        .expect(200);
+      await request(app)
+        .get(`${estimatesUrl}/${estimate.body.data._id}`)
+        .set(testUtils.getAuthHeader(ownerToken))
+        .expect(404);
+    });
+
+    it('should let a member credit and share an organization invoice', async () => {
+      await inviteMember('accountant');
+      const accountantToken = await switchTo(memberToken);
+      const invoice = await createOrganizationInvoice();
+
+      const creditNote = await request(app)
+        .post(`${TEST_CONFIG.baseURL}/credit-notes`)
+        .set(testUtils.getAuthHeader(accountantToken))
+        .send({
+          invoiceId: invoice._id.toString(),
+          reason: 'Returned goods',
+          items: [{ invoiceItemIndex: 0, quantity: 1 }]
+        })
+        .expect(201);
+      expect(creditNote.body.data.organizationId).toBe(organizationId);
+
+      await request(app)
+        .post(`${TEST_CONFIG.baseURL}/invoices/${invoice._id}/share-links`)
+        .set(testUtils.getAuthHeader(accountantToken))
+        .send({})
+        .expect(201);
+
+      // Outside the organization the invoice cannot be found
+      await request(app)
+        .post(`${TEST_CONFIG.baseURL}/invoices/${invoice._id}/share-links`)
+        .set(testUtils.getAuthHeader(memberToken))
+        .send({})
+        .expect(404);
+    });
+
+    it('should keep viewers from creating estimates', async () => {
+      await inviteMember('viewer');
+      const viewerToken = await switchTo(memberToken);
+      const client = await createOrganizationClient();
+
+      await request(app).get(estimatesUrl).set(testUtils.getAuthHeader(viewerToken)).expect(200);
+
+      const response = await request(app)
+        .post(estimatesUrl)
+        .set(testUtils.getAuthHeader(viewerToken))
+        .send({
+          clientId: client._id.toString(),
+          expiryDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
+          items: [{ description: 'Design work', quantity: 1, unitPrice: 100 }]
+        })
+        .expect(403);
+      expect(response.body.error.code).toBe('PERMISSION_DENIED');
+    });
+  });
+
+  describe('DELETE /api/v1/organizations/:id/members/:memberId', () => {
+    it('should cut off a removed member', async () => {
+      const membershipId = await inviteMember('accountant');
+      const memberOrgToken = await switchTo(memberToken);
+
+      await request(app)
+        .delete(`${organizationsUrl}/${organizationId}/members/${membershipId}`)
+        .set(testUtils.getAuthHeader(ownerToken))
+        .expect(204);
+
+      const response = await request(app)
+        .get(clientsUrl)
+        .set(testUtils.getAuthHeader(memberOrgToken))
+        .expect(403);
+      expect(response.body.error.code).toBe('ORGANIZATION_ACCESS_DENIED');
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+
+import request from 'supertest';
+
+import { PaymentEvent } from '../models/PaymentEvent.js';
+import {
+  FAKE_PAYMENT_WEBHOOK_SECRET,
+  FAKE_SIGNATURE_HEADER,
+  StripePaymentProvider
+} from '../services/paymentProviders/index.js';
+import { createSignatureHeader } from '../utils/webhookSignature.js';
+
+import { getApp, testUtils, TEST_CONFIG, TEST_INVOICE_DATA } from './setup.js';
+
+// Gateway payloads with an {{invoiceId}} placeholder, signed at test time
+const loadFixture = (name: string, invoiceId: string): string =>
+  readFileSync(
+    path.join(process.cwd(), 'src/tests/fixtures/payments', `${name}.json`),
+    'utf8'
+  ).replace(/\{\{invoiceId\}\}/g, invoiceId);
+
+describe('Payments Endpoints', () => {
+  let app: any;
+  let authToken: string;
+  let userId: string;
+  let clientId: string;
+
+  const invoicesUrl = `${TEST_CONFIG.baseURL}/invoices`;
+  const webhookUrl = `${TEST_CONFIG.baseURL}/payments/webhooks/fake`;
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    const { user, token } = await testUtils.createAuthenticatedUser();
+    authToken = token;
+    userId = user._id.toString();
+
+    const client = await testUtils.createTestClient(userId);
+    clientId = client._id.toString();
+  });
+
+  const createSentInvoice = () =>
+    testUtils.createTestInvoice(userId, clientId, { ...TEST_INVOICE_DATA, status: 'sent' });
+
+  const deliverWebhook = (payload: string, secret = FAKE_PAYMENT_WEBHOOK_SECRET) =>
+    request(app)
+      .post(webhookUrl)
+      .set('Content-Type', 'application/json')
+      .set(FAKE_SIGNATURE_HEADER, createSignatureHeader(payload, secret))
+      .send(payload);
+
+  describe('POST /api/v1/invoices/:id/checkout', () => {
+    it('should create a checkout link for the open balance', async () => {
+      const invoice = await createSentInvoice();
+
+      const response = await request(app)
+        .post(`${invoicesUrl}/${invoice._id}/checkout`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ provider: 'fake', successUrl: 'https://example.com/paid' })
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({
+        provider: 'fake',
+        id: expect.stringMatching(/^fake_cs_/),
+        url: expect.stringContaining(`amount=${invoice.minorUnits.remainingBalance}`)
+      });
+    });
+
+    it('should not create a checkout link for a draft invoice', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+
+      const response = await request(app)
+        .post(`${invoicesUrl}/${invoice._id}/checkout`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ provider: 'fake', successUrl: 'https://example.com/paid' })
+        .expect(409);
+      expect(response.body.error.code).toBe('INVOICE_NOT_PAYABLE');
+    });
+  });
+
+  describe('POST /api/v1/payments/webhooks/:provider', () => {
+    it('should record the payment once however often the event is delivered', async () => {
+      const invoice = await createSentInvoice();
+      const payload = loadFixture('fake-payment-succeeded', invoice._id.toString());
+
+      const first = await deliverWebhook(payload).expect(200);
+      expect(first.body.data).toMatchObject({ status: 'processed', duplicate: false });
+
+      const second = await deliverWebhook(payload).expect(200);
+      expect(second.body.data).toMatchObject({ status: 'processed', duplicate: true });
+
+      const payments = await request(app)
+        .get(`${invoicesUrl}/${invoice._id}/payments`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(payments.body.data).toHaveLength(1);
+      expect(payments.body.data[0]).toMatchObject({
+        amount: 100,
+        method: 'credit_card',
+        reference: 'fake_pay_0001'
+      });
+    });
+
+    it('should reject a payload signed with the wrong secret', async () => {
+      const invoice = await createSentInvoice();
+      const payload = loadFixture('fake-payment-succeeded', invoice._id.toString());
+
+      const response = await deliverWebhook(payload, 'whsec_wrong').expect(400);
+      expect(response.body.error.code).toBe('INVALID_WEBHOOK_SIGNATURE');
+    });
+
+    it('should acknowledge but not apply a payment above the balance', async () => {
+      const invoice = await createSentInvoice();
+      const payload = loadFixture('fake-payment-succeeded', invoice._id.toString()).replace(
+        '"amount": 10000',
+        '"amount": 99999900'
+      );
+
+      const response = await deliverWebhook(payload).expect(200);
+      expect(response.body.data.status).toBe('failed');
+    });
+
+    it('should reject a signed body that is not an event', async () => {
+      const response = await deliverWebhook('[]').expect(400);
+      expect(response.body.error.code).toBe('INVALID_WEBHOOK_PAYLOAD');
+      expect(await PaymentEvent.countDocuments()).toBe(0);
+    });
+
+    it('should take over an event left processing after its claim expired', async () => {
+      const invoice = await createSentInvoice();
+      const payload = loadFixture('fake-payment-succeeded', invoice._id.toString());
+      const { id: eventId } = JSON.parse(payload);
+      await PaymentEvent.create({ provider: 'fake', eventId, type: 'payment.succeeded' });
+
+      const fresh = await deliverWebhook(payload).expect(200);
+      expect(fresh.body.data).toMatchObject({ status: 'processing', duplicate: true });
+
+      await PaymentEvent.updateOne(
+        { eventId },
+        { claimedAt: new Date(Date.now() - 10 * 60 * 1000) }
+      );
+
+      const response = await deliverWebhook(payload).expect(200);
+      expect(response.body.data).toMatchObject({ status: 'processed', duplicate: false });
+      const record = await PaymentEvent.findOne({ eventId });
+      expect(record!.attempts).toBe(2);
+    });
+  });
+
+  describe('StripePaymentProvider', () => {
+    const provider = new StripePaymentProvider({
+      webhookSecret: 'whsec_test_fixture',
+      apiUrl: 'https://api.stripe.test',
+      toleranceSeconds: 300
+    });
+
+    it('should read the payment from a signed checkout.session.completed event', () => {
+      const payload = loadFixture('stripe-checkout-session-completed', 'a'.repeat(24));
+
+      const event = provider.verifyWebhook(Buffer.from(payload), {
+        'stripe-signature': createSignatureHeader(payload, 'whsec_test_fixture')
+      });
+
+      expect(event.id).toBe('evt_1QfixtureCheckoutCompleted');
+      expect(event.payment).toMatchObject({
+        invoiceId: 'a'.repeat(24),
+        amountMinor: 10000,
+        currency: 'USD',
+        reference: 'pi_3QfixturePaymentIntent'
+      });
+    });
+
+    it('should reject a signed body that is not JSON', () => {
+      const payload = '{"id": "evt_truncated"';
+
+      expect(() =>
+        provider.verifyWebhook(Buffer.from(payload), {
+          'stripe-signature': createSignatureHeader(payload, 'whsec_test_fixture')
+        })
+      ).toThrow('Webhook body is not a valid event');
+    });
+
+    it('should reject a replayed signature outside the tolerance', () => {
+      const payload = loadFixture('stripe-checkout-session-completed', 'a'.repeat(24));
+      const signedAt = Math.floor(Date.now() / 1000) - 600;
+
+      expect(() =>
+        provider.verifyWebhook(Buffer.from(payload), {
+          'stripe-signature': createSignatureHeader(payload, 'whsec_test_fixture', signedAt)
+        })
+      ).toThrow('Invalid webhook signature');
+    });
+  });
+});
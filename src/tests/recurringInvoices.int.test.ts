@@ -0,0 +1,176 @@
+import request from 'supertest';
+
+import { getApp, testUtils, TEST_CONFIG } from './setup.js';
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December'
+];
+
+describe('Recurring Invoices', () => {
+  let app: any;
+  let authToken: string;
+  let userId: string;
+  let clientId: string;
+
+  const recurringUrl = `${TEST_CONFIG.baseURL}/recurring-invoices`;
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    const { user, token } = await testUtils.createAuthenticatedUser();
+    authToken = token;
+    userId = user._id.toString();
+
+    const client = await testUtils.createTestClient(userId);
+    clientId = client._id.toString();
+  });
+
+  // Monthly profile whose first occurrence is today
+  const createProfile = (body: Record<string, any> = {}) =>
+    request(app)
+      .post(recurringUrl)
+      .set(testUtils.getAuthHeader(authToken))
+      .send({
+        clientId,
+        name: 'Monthly retainer',
+        schedule: { frequency: 'monthly', dayOfMonth: new Date().getUTCDate() },
+        template: {
+          items: [{ description: 'Retainer for {{month}} {{year}}', quantity: 1, unitPrice: 1000 }],
+          paymentTermsDays: 14
+        },
+        ...body
+      });
+
+  const generate = async () => {
+    const { default: recurringInvoicesService } =
+      await import('../services/recurringInvoices.service.js');
+    return recurringInvoicesService.generateDueInvoices(new Date());
+  };
+
+  describe('POST /api/v1/recurring-invoices', () => {
+    it('should schedule the first occurrence', async () => {
+      const response = await createProfile().expect(201);
+      const today = new Date();
+
+      expect(response.body.data).toMatchObject({
+        status: 'active',
+        occurrenceCount: 0,
+        template: { total: 1000 },
+        nextRunAt: new Date(
+          Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate())
+        ).toISOString()
+      });
+    });
+
+    it('should reject a day of month on a weekly schedule', async () => {
+      const response = await createProfile({
+        schedule: { frequency: 'weekly', dayOfMonth: 3 }
+      }).expect(422);
+
+      testUtils.assertValidationError(response, 'dayOfMonth');
+    });
+  });
+
+  describe('recurringInvoicesService.generateDueInvoices', () => {
+    it('should create each due invoice once and record the run', async () => {
+      const profile = await createProfile().expect(201);
+      const profileId = profile.body.data._id;
+
+      const first = await generate();
+      const second = await generate();
+
+      expect(first.generated).toBe(1);
+      expect(second.generated).toBe(0);
+
+      const { Invoice } = await import('../models/Invoice.js');
+      const invoices = await Invoice.find({ recurringInvoiceId: profileId });
+      const month = MONTH_NAMES[new Date().getUTCMonth()];
+
+      expect(invoices).toHaveLength(1);
+      expect(invoices[0].status).toBe('draft');
+      expect(invoices[0].total).toBe(1000);
+      expect(invoices[0].items[0].description).toBe(
+        `Retainer for ${month} ${new Date().getUTCFullYear()}`
+      );
+
+      const updated = await request(app)
+        .get(`${recurringUrl}/${profileId}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(updated.body.data.occurrenceCount).toBe(1);
+      expect(updated.body.data.runs).toHaveLength(1);
+      expect(updated.body.data.runs[0]).toMatchObject({
+        status: 'success',
+        invoiceNumber: invoices[0].number
+      });
+      expect(new Date(updated.body.data.nextRunAt).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should complete after the occurrence count', async () => {
+      const profile = await createProfile({ maxOccurrences: 1 }).expect(201);
+
+      await generate();
+
+      const { RecurringInvoice } = await import('../models/RecurringInvoice.js');
+      const updated = await RecurringInvoice.findById(profile.body.data._id);
+
+      expect(updated!.status).toBe('completed');
+      expect(updated!.nextRunAt).toBeUndefined();
+    });
+
+    it('should skip paused profiles', async () => {
+      const profile = await createProfile().expect(201);
+
+      await request(app)
+        .patch(`${recurringUrl}/${profile.body.data._id}/status`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ status: 'paused' })
+        .expect(200);
+
+      const result = await generate();
+
+      expect(result.due).toBe(0);
+      expect(result.generated).toBe(0);
+    });
+
+    it('should email the invoice when auto-send is on', async () => {
+      const { mailTransporter } = await import('../config/mail.js');
+      const originalSendMail = mailTransporter.sendMail;
+      const sentMessages: any[] = [];
+      (mailTransporter as any).sendMail = async (options: any) => {
+        sentMessages.push(options);
+        return { messageId: '<recurring-test@involuck.dev>' };
+      };
+
+      try {
+        const profile = await createProfile({ autoSend: { enabled: true } }).expect(201);
+
+        const result = await generate();
+
+        expect(result.sent).toBe(1);
+        expect(sentMessages).toHaveLength(1);
+        expect(sentMessages[0].to).toContain('testclient@example.com');
+
+        const { Invoice } = await import('../models/Invoice.js');
+        const invoice = await Invoice.findOne({ recurringInvoiceId: profile.body.data._id });
+        expect(invoice!.status).toBe('sent');
+      } finally {
+        (mailTransporter as any).sendMail = originalSendMail;
+      }
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import request from 'supertest';
+
+import { getApp, testUtils, TEST_CONFIG } from './setup.js';
+
+describe('Refresh Token Endpoints', () => {
+  let app: any;
+  let email: string;
+
+  const authUrl = `${TEST_CONFIG.baseURL}/auth`;
+  const password = 'Password123!';
+  const userAgent = 'InvoLuck Test Agent';
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    email = testUtils.randomEmail();
+    await testUtils.createAuthenticatedUser({
+      name: 'Refresh Test User',
+      email,
+      password,
+      role: 'user'
+    });
+  });
+
+  const login = () =>
+    request(app).post(`${authUrl}/login`).set('User-Agent', userAgent).send({ email, password });
+
+  const refresh = (refreshToken: string, agent = userAgent) =>
+    request(app).post(`${authUrl}/refresh`).set('User-Agent', agent).send({ refreshToken });
+
+  describe('POST /api/v1/auth/login', () => {
+    it('should return an access token and a refresh token cookie', async () => {
+      const response = await login();
+      if (response.status === 429) {
+        console.warn('Rate limit hit during login - skipping');
+        return;
+      }
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        token: expect.any(String),
+        expiresIn: expect.any(String),
+        refreshToken: expect.stringMatching(/^[a-f0-9]{64}$/)
+      });
+      expect(response.headers['set-cookie'][0]).toMatch(/^refreshToken=.+HttpOnly/);
+    });
+  });
+
+  describe('POST /api/v1/auth/refresh', () => {
+    it('should rotate the refresh token', async () => {
+      const loginResponse = await login();
+      if (loginResponse.status === 429) {
+        console.warn('Rate limit hit during login - skipping');
+        return;
+      }
+      const { refreshToken } = loginResponse.body.data;
+
+      const response = await refresh(refreshToken);
+      if (response.status === 429) {
+        console.warn('Rate limit hit during refresh - skipping');
+        return;
+      }
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.token).toEqual(expect.any(String));
+      expect(response.body.data.refreshToken).not.toBe(refreshToken);
+    });
+
+    it('should revoke the token family when a rotated token is reused', async () => {
+      const loginResponse = await login();
+      if (loginResponse.status === 429) {
+        console.warn('Rate limit hit during login - skipping');
+        return;
+      }
+      const { refreshToken } = loginResponse.body.data;
+
+      const rotated = await refresh(refreshToken);
+      if (rotated.status === 429) {
+        console.warn('Rate limit hit during refresh - skipping');
+        return;
+      }
+
+      const reused = await refresh(refreshToken);
+      if (reused.status === 429) {
+        console.warn('Rate limit hit during refresh - skipping');
+        return;
+      }
+      expect(reused.status).toBe(401);
+      expect(reused.body.error.code).toBe('REFRESH_TOKEN_REUSED');
+
+      const descendant = await refresh(rotated.body.data.refreshToken);
+      if (descendant.status !== 429) {
+        expect(descendant.status).toBe(401);
+        expect(descendant.body.error.code).toBe('REFRESH_TOKEN_REUSED');
+      }
+    });
+
+    it('should reject a token presented by another client', async () => {
+      const loginResponse = await login();
+      if (loginResponse.status === 429) {
+        console.warn('Rate limit hit during login - skipping');
+        return;
+      }
+
+      const response = await refresh(loginResponse.body.data.refreshToken, 'Another Agent');
+      if (response.status !== 429) {
+        expect(response.status).toBe(401);
+        expect(response.body.error.code).toBe('REFRESH_TOKEN_MISMATCH');
+      }
+    });
+
+    it('should reject an unknown refresh token', async () => {
+      const response = await refresh('f'.repeat(64));
+      if (response.status !== 429) {
+        expect(response.status).toBe(401);
+        expect(response.body.error.code).toBe('INVALID_REFRESH_TOKEN');
+      }
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { testUtils, TEST_INVOICE_DATA } from './setup.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Background jobs', () => {
+  let userId: string;
+  let clientId: string;
+
+  beforeEach(async () => {
+    const { user } = await testUtils.createAuthenticatedUser();
+    userId = user._id.toString();
+
+    const client = await testUtils.createTestClient(userId);
+    clientId = client._id.toString();
+  });
+
+  // Bypass the save hooks so the invoice keeps the given status and dates
+  const createSentInvoice = async (dueInDays: number, overrides: Record<string, any> = {}) => {
+    const { Invoice } = await import('../models/Invoice.js');
+    const invoice = await testUtils.createTestInvoice(userId, clientId, {
+      ...TEST_INVOICE_DATA,
+      number: `INV-${testUtils.randomString(6)}`
+    });
+
+    await Invoice.updateOne(
+      { _id: invoice._id },
+      {
+        $set: {
+          status: 'sent',
+          sentAt: new Date(Date.now() - 30 * DAY_MS),
+          dueDate: new Date(Date.now() + dueInDays * DAY_MS),
+          ...overrides
+        }
+      }
+    );
+
+    return Invoice.findById(invoice._id);
+  };
+
+  describe('JobLock', () => {
+    it('should let only one owner hold a job lock', async () => {
+      const { JobLock } = await import('../models/JobLock.js');
+
+      expect(await JobLock.acquire('test-job', 'instance-a', 60000)).toBe(true);
+      expect(await JobLock.acquire('test-job', 'instance-b', 60000)).toBe(false);
+
+      await JobLock.release('test-job', 'instance-a', new Date(Date.now() - 1000));
+
+      expect(await JobLock.acquire('test-job', 'instance-b', 60000)).toBe(true);
+    });
+  });
+
+  describe('remindersService.markOverdueInvoices', () => {
+    it('should flag unpaid invoices past their due date', async () => {
+      const { default: remindersService } = await import('../services/reminders.service.js');
+      const pastDue = await createSentInvoice(-2);
+      const notDue = await createSentInvoice(5);
+
+      const count = await remindersService.markOverdueInvoices();
+
+      expect(count).toBe(1);
+
+      const { Invoice } = await import('../models/Invoice.js');
+      expect((await Invoice.findById(pastDue!._id))!.status).toBe('overdue');
+      expect((await Invoice.findById(notDue!._id))!.status).toBe('sent');
+    });
+  });
+
+  describe('remindersService.sendInvoiceReminders', () => {
+    let transporter: any;
+    let originalSendMail: any;
+    let sentMessages: any[];
+
+    const cadence = { daysBeforeDue: 3, onDueDate: true, daysAfterDue: [7], maxPerInvoice: 5 };
+
+    beforeAll(async () => {
+      const { mailTransporter } = await import('../config/mail.js');
+      transporter = mailTransporter;
+      originalSendMail = mailTransporter.sendMail;
+    });
+
+    beforeEach(() => {
+      sentMessages = [];
+      transporter.sendMail = async (options: any) => {
+        sentMessages.push(options);
+        return { messageId: '<reminder-test@involuck.dev>' };
+      };
+    });
+
+    afterAll(() => {
+      transporter.sendMail = originalSendMail;
+    });
+
+    it('should send each reminder of the cadence only once', async () => {
+      const { default: remindersService } = await import('../services/reminders.service.js');
+      await createSentInvoice(2);
+
+      const first = await remindersService.sendInvoiceReminders(new Date(), cadence);
+      const second = await remindersService.sendInvoiceReminders(new Date(), cadence);
+
+      expect(first.sent).toBe(1);
+      expect(second.sent).toBe(0);
+      expect(sentMessages).toHaveLength(1);
+      expect(sentMessages[0].to).toBe('testclient@example.com');
+      expect(sentMessages[0].subject).toContain('Payment Reminder');
+    });
+
+    it('should honour the invoice reminder preference', async () => {
+      const { User } = await import('../models/User.js');
+      const { default: remindersService } = await import('../services/reminders.service.js');
+      await User.updateOne(
+        { _id: userId },
+        { $set: { 'preferences.notifications.invoiceReminders': false } }
+      );
+      await createSentInvoice(-8);
+
+      const result = await remindersService.sendInvoiceReminders(new Date(), cadence);
+
+      expect(result.sent).toBe(0);
+      expect(result.skipped).toBe(1);
+      expect(sentMessages).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import request from 'supertest';
+
+import { User } from '../models/User.js';
+
+import { getApp, testUtils, TEST_CONFIG } from './setup.js';
+
+describe('Session Endpoints', () => {
+  let app: any;
+  let email: string;
+
+  const authUrl = `${TEST_CONFIG.baseURL}/auth`;
+  const password = 'Password123!';
+  const laptop =
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36';
+  const phone =
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    email = testUtils.randomEmail();
+    await testUtils.createAuthenticatedUser({
+      name: 'Session Test User',
+      email,
+      password,
+      role: 'user'
+    });
+  });
+
+  const login = (userAgent: string) =>
+    request(app).post(`${authUrl}/login`).set('User-Agent', userAgent).send({ email, password });
+
+  describe('GET /api/v1/auth/sessions', () => {
+    it('should list each signed-in device and flag the current one', async () => {
+      const laptopLogin = await login(laptop);
+      const phoneLogin = await login(phone);
+      if (laptopLogin.status === 429 || phoneLogin.status === 429) {
+        console.warn('Rate limit hit during login - skipping');
+        return;
+      }
+
+      const response = await request(app)
+        .get(`${authUrl}/sessions`)
+        .set(testUtils.getAuthHeader(phoneLogin.body.data.token))
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            id: laptopLogin.body.data.sessionId,
+            device: 'Chrome on macOS',
+            current: false
+          }),
+          expect.objectContaining({
+            id: phoneLogin.body.data.sessionId,
+            device: 'Safari on iOS',
+            ip: expect.any(String),
+            lastSeenAt: expect.any(String),
+            createdAt: expect.any(String),
+            current: true
+          })
+        ])
+      );
+    });
+  });
+
+  describe('DELETE /api/v1/auth/sessions/:id', () => {
+    it('should sign out a single session', async () => {
+      const laptopLogin = await login(laptop);
+      const phoneLogin = await login(phone);
+      if (laptopLogin.status === 429 || phoneLogin.status === 429) {
+        console.warn('Rate limit hit during login - skipping');
+        return;
+      }
+
+      await request(app)
+        .delete(`${authUrl}/sessions/${laptopLogin.body.data.sessionId}`)
+        .set(testUtils.getAuthHeader(phoneLogin.body.data.token))
+        .expect(204);
+
+      const revoked = await request(app)
+        .get(`${authUrl}/profile`)
+        .set(testUtils.getAuthHeader(laptopLogin.body.data.token))
+        .expect(401);
+      expect(revoked.body.error.code).toBe('SESSION_REVOKED');
+
+      const sessions = await request(app)
+        .get(`${authUrl}/sessions`)
+        .set(testUtils.getAuthHeader(phoneLogin.body.data.token))
+        .expect(200);
+      expect(sessions.body.data.map((session: any) => session.id)).toEqual([
+        phoneLogin.body.data.sessionId
+      ]);
+    });
+
+    it('should return 404 for an unknown session', async () => {
+      const phoneLogin = await login(phone);
+      if (phoneLogin.status === 429) {
+        console.warn('Rate limit hit during login - skipping');
+        return;
+      }
+
+      const response = await request(app)
+        .delete(`${authUrl}/sessions/00000000-0000-4000-8000-000000000000`)
+        .set(testUtils.getAuthHeader(phoneLogin.body.data.token))
+        .expect(404);
+
+      testUtils.assertNotFoundError(response);
+    });
+  });
+
+  describe('New device detection', () => {
+    it('should remember the devices the user signs in from', async () => {
+      const first = await login(laptop);
+      const again = await login(laptop);
+      const second = await login(phone);
+      if ([first, again, second].some(response => response.status === 429)) {
+        console.warn('Rate limit hit during login - skipping');
+        return;
+      }
+
+      const user = await User.findOne({ email }).select('+knownDevices');
+      expect(user!.knownDevices.map(device => device.device)).toEqual(
+        expect.arrayContaining(['Chrome on macOS', 'Safari on iOS'])
+      );
+      expect(user!.knownDevices).toHaveLength(2);
+    });
+  });
+});
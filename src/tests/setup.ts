@@ -2,6 +2,8 @@
 import { MongoMemoryServer } from 'mongodb-memory-server';
 import mongoose from 'mongoose';
 
+import type { InvoiceStatus } from '../models/Invoice.js';
+import type { IUser } from '../models/User.js';
 import type { Express } from 'express';
 
 // Global test variables
@@ -67,7 +69,7 @@ export const TEST_INVOICE_DATA = {
   issueDate: new Date(),
   dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
   currency: 'USD',
-  status: 'draft' as const,
+  status: 'draft' as InvoiceStatus,
   items: [
     {
       description: 'Test Service',
@@ -205,8 +207,10 @@ export const testUtils = {
   },
 
   // Create a test user and return auth token
-  async createAuthenticatedUser(userData = TEST_USERS.user): Promise<{
-    user: any;
+  async createAuthenticatedUser(
+    userData: typeof TEST_USERS.user | typeof TEST_USERS.admin = TEST_USERS.user
+  ): Promise<{
+    user: IUser;
     token: string;
   }> {
     const { User } = await import('../models/User.js');
@@ -223,7 +227,7 @@ export const testUtils = {
       JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
     }
 
-    const token = jwt.sign({ id: (user as any)._id.toString(), email: user.email }, JWT_SECRET, {
+    const token = jwt.sign({ id: user._id.toString(), email: user.email }, JWT_SECRET, {
       expiresIn: '1h'
     });
 
@@ -242,7 +246,7 @@ export const testUtils = {
   async createTestInvoice(
     userId: string,
     clientId: string,
-    invoiceData = TEST_INVOICE_DATA
+    invoiceData: Partial<typeof TEST_INVOICE_DATA> = TEST_INVOICE_DATA
   ): Promise<any> {
     const { Invoice } = await import('../models/Invoice.js');
     const invoice = new Invoice({ userId, clientId, ...invoiceData });
@@ -0,0 +1,158 @@
+import request from 'supertest';
+
+import { getApp, testUtils, TEST_CONFIG, TEST_INVOICE_DATA } from './setup.js';
+
+describe('Share Links Endpoints', () => {
+  let app: any;
+  let authToken: string;
+  let userId: string;
+  let clientId: string;
+
+  const invoicesUrl = `${TEST_CONFIG.baseURL}/invoices`;
+  const publicUrl = `${TEST_CONFIG.baseURL}/public/invoices`;
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    const { user, token } = await testUtils.createAuthenticatedUser();
+    authToken = token;
+    userId = user._id.toString();
+
+    const client = await testUtils.createTestClient(userId);
+    clientId = client._id.toString();
+  });
+
+  const createSentInvoice = () =>
+    testUtils.createTestInvoice(userId, clientId, { ...TEST_INVOICE_DATA, status: 'sent' });
+
+  const createShareLink = (invoiceId: string, body: Record<string, any> = {}) =>
+    request(app)
+      .post(`${invoicesUrl}/${invoiceId}/share-links`)
+      .set(testUtils.getAuthHeader(authToken))
+      .send(body);
+
+  describe('POST /api/v1/invoices/:id/share-links', () => {
+    it('should return a signed token and its public URL', async () => {
+      const invoice = await createSentInvoice();
+
+      const response = await createShareLink(invoice._id.toString(), { expiresInDays: 7 }).expect(
+        201
+      );
+
+      const { shareLink, token, url } = response.body.data;
+      expect(url).toContain(`/api/v1/public/invoices/${token}`);
+      expect(shareLink.tokenId).toBeUndefined();
+      expect(shareLink.viewCount).toBe(0);
+
+      const expiresInDays = (new Date(shareLink.expiresAt).getTime() - Date.now()) / 86400000;
+      expect(Math.round(expiresInDays)).toBe(7);
+    });
+
+    it('should not share a draft invoice', async () => {
+      const invoice = await testUtils.createTestInvoice(userId, clientId);
+
+      const response = await createShareLink(invoice._id.toString()).expect(409);
+      expect(response.body.error.code).toBe('INVOICE_NOT_SHAREABLE');
+    });
+  });
+
+  describe('GET /api/v1/public/invoices/:token', () => {
+    it('should serve the invoice without authentication and mark it viewed on first open', async () => {
+      const invoice = await createSentInvoice();
+      const invoiceId = invoice._id.toString();
+      const { token } = (await createShareLink(invoiceId).expect(201)).body.data;
+
+      const response = await request(app)
+        .get(`${publicUrl}/${token}`)
+        .set('User-Agent', 'share-link-test')
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        number: TEST_INVOICE_DATA.number,
+        client: { name: expect.any(String) },
+        pdfUrl: expect.stringContaining(`/public/invoices/${token}/pdf`)
+      });
+      expect(response.body.data.payments).toBeUndefined();
+
+      const stored = await request(app)
+        .get(`${invoicesUrl}/${invoiceId}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(stored.body.data.status).toBe('viewed');
+
+      const links = await request(app)
+        .get(`${invoicesUrl}/${invoiceId}/share-links`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(links.body.data).toHaveLength(1);
+      expect(links.body.data[0].viewCount).toBe(1);
+      expect(links.body.data[0].views[0].userAgent).toBe('share-link-test');
+    });
+
+    it('should render an HTML page on request', async () => {
+      const invoice = await createSentInvoice();
+      const { token } = (await createShareLink(invoice._id.toString()).expect(201)).body.data;
+
+      const response = await request(app).get(`${publicUrl}/${token}?format=html`).expect(200);
+
+      expect(response.headers['content-type']).toContain('text/html');
+      expect(response.text).toContain(TEST_INVOICE_DATA.number);
+    });
+
+    it('should reject a tampered token', async () => {
+      const invoice = await createSentInvoice();
+      const { token } = (await createShareLink(invoice._id.toString()).expect(201)).body.data;
+
+      const response = await request(app)
+        .get(`${publicUrl}/${token.slice(0, -4)}abcd`)
+        .expect(404);
+      expect(response.body.error.code).toBe('NOT_FOUND');
+    });
+
+    it('should not open a link to a cancelled invoice', async () => {
+      const invoice = await createSentInvoice();
+      const invoiceId = invoice._id.toString();
+      const { shareLink, token } = (await createShareLink(invoiceId).expect(201)).body.data;
+
+      await request(app)
+        .patch(`${invoicesUrl}/${invoiceId}/status`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ status: 'cancelled' })
+        .expect(200);
+
+      const response = await request(app).get(`${publicUrl}/${token}`).expect(410);
+      expect(response.body.error.code).toBe('SHARED_INVOICE_CANCELLED');
+      await request(app).get(`${publicUrl}/${token}/pdf`).expect(410);
+
+      const links = await request(app)
+        .get(`${invoicesUrl}/${invoiceId}/share-links`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(links.body.data[0]).toMatchObject({ _id: shareLink._id, viewCount: 0 });
+    });
+  });
+
+  describe('DELETE /api/v1/invoices/:id/share-links/:linkId', () => {
+    it('should stop a revoked link from opening', async () => {
+      const invoice = await createSentInvoice();
+      const invoiceId = invoice._id.toString();
+      const { shareLink, token } = (await createShareLink(invoiceId).expect(201)).body.data;
+
+      await request(app)
+        .delete(`${invoicesUrl}/${invoiceId}/share-links/${shareLink._id}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(204);
+
+      const response = await request(app).get(`${publicUrl}/${token}`).expect(410);
+      expect(response.body.error.code).toBe('SHARE_LINK_REVOKED');
+
+      const links = await request(app)
+        .get(`${invoicesUrl}/${invoiceId}/share-links`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(links.body.data).toHaveLength(0);
+    });
+  });
+});
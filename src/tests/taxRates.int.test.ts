@@ -0,0 +1,159 @@
+import request from 'supertest';
+
+import { getApp, testUtils, TEST_CONFIG } from './setup.js';
+
+describe('Tax Rates Endpoints', () => {
+  let app: any;
+  let authToken: string;
+  let clientId: string;
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    const { user, token } = await testUtils.createAuthenticatedUser();
+    authToken = token;
+
+    const client = await testUtils.createTestClient(user._id.toString());
+    clientId = client._id.toString();
+  });
+
+  const createTaxRate = (body: Record<string, any>) =>
+    request(app)
+      .post(`${TEST_CONFIG.baseURL}/tax-rates`)
+      .set(testUtils.getAuthHeader(authToken))
+      .send(body);
+
+  const createInvoice = (body: Record<string, any>) =>
+    request(app)
+      .post(`${TEST_CONFIG.baseURL}/invoices`)
+      .set(testUtils.getAuthHeader(authToken))
+      .send({
+        clientId,
+        dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+        ...body
+      });
+
+  describe('POST /api/v1/tax-rates', () => {
+    it('should add a tax rate to the catalogue', async () => {
+      const response = await createTaxRate({
+        name: 'GST',
+        rate: 5,
+        jurisdiction: 'CA'
+      }).expect(201);
+
+      expect(response.body.data).toMatchObject({
+        name: 'GST',
+        rate: 5,
+        jurisdiction: 'CA',
+        compound: false,
+        inclusive: false,
+        isArchived: false
+      });
+    });
+
+    it('should reject a duplicate name', async () => {
+      await createTaxRate({ name: 'VAT', rate: 20 }).expect(201);
+      const response = await createTaxRate({ name: 'VAT', rate: 10 }).expect(409);
+
+      expect(response.body.error.code).toBe('CONFLICT');
+    });
+  });
+
+  describe('Invoices with catalogue taxes', () => {
+    it('should apply compound taxes and summarise them per rate', async () => {
+      const gst = await createTaxRate({ name: 'GST', rate: 5 }).expect(201);
+      const qst = await createTaxRate({ name: 'QST', rate: 9.975, compound: true }).expect(201);
+
+      const response = await createInvoice({
+        items: [
+          {
+            description: 'Consulting',
+            quantity: 1,
+            unitPrice: 100,
+            taxRateIds: [gst.body.data._id, qst.body.data._id]
+          },
+          { description: 'Hosting', quantity: 3, unitPrice: 9.99, taxRateIds: [gst.body.data._id] }
+        ]
+      }).expect(201);
+
+      expect(response.body.data).toMatchObject({
+        subtotal: 129.97,
+        taxAmount: 16.97,
+        total: 146.94
+      });
+      expect(response.body.data.taxSummary).toEqual([
+        expect.objectContaining({ name: 'GST', rate: 5, taxableAmount: 129.97, taxAmount: 6.5 }),
+        expect.objectContaining({
+          name: 'QST',
+          compound: true,
+          taxableAmount: 105,
+          taxAmount: 10.47
+        })
+      ]);
+    });
+
+    it('should split tax-inclusive prices without changing the line total', async () => {
+      const vat = await createTaxRate({ name: 'VAT', rate: 20, inclusive: true }).expect(201);
+
+      const response = await createInvoice({
+        items: [
+          { description: 'Book', quantity: 1, unitPrice: 9.99, taxRateIds: [vat.body.data._id] }
+        ]
+      }).expect(201);
+
+      expect(response.body.data.items[0]).toMatchObject({
+        subtotal: 8.33,
+        taxAmount: 1.66,
+        total: 9.99
+      });
+      expect(response.body.data.total).toBe(9.99);
+    });
+
+    it('should not stack the invoice tax rate on catalogue taxes', async () => {
+      const gst = await createTaxRate({ name: 'GST', rate: 5 }).expect(201);
+
+      const response = await createInvoice({
+        taxRate: 10,
+        items: [
+          { description: 'Work', quantity: 1, unitPrice: 100, taxRateIds: [gst.body.data._id] }
+        ]
+      }).expect(422);
+
+      testUtils.assertValidationError(response, 'taxRate');
+    });
+
+    it('should only delete tax rates that no invoice uses', async () => {
+      const gst = await createTaxRate({ name: 'GST', rate: 5 }).expect(201);
+      const taxRateUrl = `${TEST_CONFIG.baseURL}/tax-rates/${gst.body.data._id}`;
+
+      await createInvoice({
+        items: [
+          { description: 'Work', quantity: 1, unitPrice: 100, taxRateIds: [gst.body.data._id] }
+        ]
+      }).expect(201);
+
+      const response = await request(app)
+        .delete(taxRateUrl)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(409);
+
+      expect(response.body.error.code).toBe('TAX_RATE_IN_USE');
+
+      await request(app)
+        .patch(taxRateUrl)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ isArchived: true })
+        .expect(200);
+
+      const archived = await createInvoice({
+        items: [
+          { description: 'Work', quantity: 1, unitPrice: 100, taxRateIds: [gst.body.data._id] }
+        ]
+      }).expect(400);
+
+      expect(archived.body.error.code).toBe('INVALID_TAX_RATE');
+    });
+  });
+});
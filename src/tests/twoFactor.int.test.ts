@@ -0,0 +1,184 @@
+import request from 'supertest';
+
+import twoFactorService from '../services/twoFactor.service.js';
+import { generateTotp, TOTP_PERIOD_SECONDS } from '../utils/totp.js';
+
+import { getApp, testUtils, TEST_CONFIG } from './setup.js';
+
+describe('Two-Factor Authentication Endpoints', () => {
+  let app: any;
+  let authToken: string;
+  let userId: string;
+  let email: string;
+
+  const authUrl = `${TEST_CONFIG.baseURL}/auth`;
+  const password = 'Password123!';
+
+  // Code for the next time step, which has not been used yet
+  const nextCode = (secret: string) =>
+    generateTotp(secret, Date.now() + TOTP_PERIOD_SECONDS * 1000);
+
+  beforeAll(() => {
+    app = getApp();
+  });
+
+  beforeEach(async () => {
+    email = testUtils.randomEmail();
+    const { user, token } = await testUtils.createAuthenticatedUser({
+      name: 'Two Factor User',
+      email,
+      password,
+      role: 'user'
+    });
+    authToken = token;
+    userId = user._id.toString();
+  });
+
+  // Enrol through the service so the rate-limited endpoints are left for the assertions
+  const enableTwoFactor = async () => {
+    const { secret } = await twoFactorService.startEnrolment(userId);
+    const { recoveryCodes } = await twoFactorService.enable(userId, generateTotp(secret));
+    return { secret, recoveryCodes };
+  };
+
+  describe('POST /api/v1/auth/2fa/setup and /enable', () => {
+    it('should enrol with the first code and return recovery codes', async () => {
+      const setup = await request(app)
+        .post(`${authUrl}/2fa/setup`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+
+      expect(setup.body.data.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(setup.body.data.otpauthUri).toContain(`secret=${setup.body.data.secret}`);
+
+      const enable = await request(app)
+        .post(`${authUrl}/2fa/enable`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ code: generateTotp(setup.body.data.secret) });
+      if (enable.status === 429) {
+        console.warn('Rate limit hit during enrolment - skipping');
+        return;
+      }
+
+      expect(enable.status).toBe(200);
+      expect(enable.body.data.recoveryCodes).toHaveLength(10);
+
+      const profile = await request(app)
+        .get(`${authUrl}/profile`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(profile.body.data.twoFactorEnabled).toBe(true);
+    });
+  });
+
+  describe('POST /api/v1/auth/login/2fa', () => {
+    it('should require the second factor after the password', async () => {
+      const { secret } = await enableTwoFactor();
+
+      const login = await request(app).post(`${authUrl}/login`).send({ email, password });
+      if (login.status === 429) {
+        console.warn('Rate limit hit during login - skipping');
+        return;
+      }
+
+      expect(login.status).toBe(200);
+      expect(login.body.data).toMatchObject({
+        twoFactorRequired: true,
+        challengeToken: expect.any(String)
+      });
+      expect(login.body.data.token).toBeUndefined();
+
+      const code = nextCode(secret);
+      const complete = await request(app)
+        .post(`${authUrl}/login/2fa`)
+        .send({ challengeToken: login.body.data.challengeToken, code });
+      if (complete.status === 429) {
+        console.warn('Rate limit hit during login - skipping');
+        return;
+      }
+
+      expect(complete.status).toBe(200);
+      expect(complete.body.data).toMatchObject({
+        token: expect.any(String),
+        refreshToken: expect.any(String)
+      });
+
+      const replay = await request(app)
+        .post(`${authUrl}/login/2fa`)
+        .send({ challengeToken: login.body.data.challengeToken, code });
+      if (replay.status !== 429) {
+        expect(replay.status).toBe(401);
+        expect(replay.body.error.code).toBe('INVALID_TWO_FACTOR_CODE');
+      }
+    });
+  });
+
+  describe('Sensitive actions', () => {
+    it('should require a fresh code to change the password', async () => {
+      const { recoveryCodes } = await enableTwoFactor();
+      const body = {
+        currentPassword: password,
+        newPassword: 'NewPassword123!',
+        confirmNewPassword: 'NewPassword123!'
+      };
+
+      const missing = await request(app)
+        .post(`${authUrl}/change-password`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send(body);
+      if (missing.status === 429) {
+        console.warn('Rate limit hit during password change - skipping');
+        return;
+      }
+      expect(missing.status).toBe(403);
+      expect(missing.body.error.code).toBe('TWO_FACTOR_REQUIRED');
+
+      const changed = await request(app)
+        .post(`${authUrl}/change-password`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ ...body, twoFactorCode: recoveryCodes[0] });
+      if (changed.status === 429) {
+        console.warn('Rate limit hit during password change - skipping');
+        return;
+      }
+      expect(changed.status).toBe(200);
+
+      const reused = await request(app)
+        .post(`${authUrl}/change-password`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({
+          currentPassword: 'NewPassword123!',
+          newPassword: password,
+          confirmNewPassword: password,
+          twoFactorCode: recoveryCodes[0]
+        });
+      if (reused.status !== 429) {
+        expect(reused.status).toBe(401);
+        expect(reused.body.error.code).toBe('INVALID_TWO_FACTOR_CODE');
+      }
+    });
+  });
+
+  describe('POST /api/v1/auth/2fa/disable', () => {
+    it('should turn two-factor authentication off with the password and a code', async () => {
+      const { secret } = await enableTwoFactor();
+
+      const response = await request(app)
+        .post(`${authUrl}/2fa/disable`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ password, code: nextCode(secret) });
+      if (response.status === 429) {
+        console.warn('Rate limit hit while disabling - skipping');
+        return;
+      }
+
+      expect(response.status).toBe(200);
+
+      const profile = await request(app)
+        .get(`${authUrl}/profile`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(profile.body.data.twoFactorEnabled).toBe(false);
+    });
+  });
+});
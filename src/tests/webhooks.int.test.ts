@@ -0,0 +1,317 @@
+import { createServer } from 'http';
+
+import request from 'supertest';
+
+import { WEBHOOK_DISABLE_AFTER_FAILURES, WEBHOOK_MAX_ATTEMPTS } from '../config/env.js';
+import { Webhook } from '../models/Webhook.js';
+import { WebhookDelivery } from '../models/WebhookDelivery.js';
+import webhooksService from '../services/webhooks.service.js';
+import { hostResolver } from '../utils/publicAddress.js';
+import { verifySignatureHeader } from '../utils/webhookSignature.js';
+
+import { getApp, testUtils, TEST_CONFIG, TEST_CLIENT_DATA, TEST_INVOICE_DATA } from './setup.js';
+
+import type { IncomingHttpHeaders, Server } from 'http';
+import type { AddressInfo } from 'net';
+
+// Request received by the local endpoint
+interface ReceivedDelivery {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhooks Endpoints', () => {
+  let app: any;
+  let authToken: string;
+  let userId: string;
+  let server: Server;
+  let endpointUrl: string;
+  let responseStatus: number;
+  let received: ReceivedDelivery[];
+
+  const webhooksUrl = `${TEST_CONFIG.baseURL}/webhooks`;
+
+  beforeAll(async () => {
+    app = getApp();
+
+    // Local receiver answering with whatever status the test sets
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responseStatus).end('ok');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpointUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    const { user, token } = await testUtils.createAuthenticatedUser();
+    authToken = token;
+    userId = user._id.toString();
+    responseStatus = 200;
+    received = [];
+  });
+
+  const createWebhook = (events: string[] = ['client.created', 'client.updated']) =>
+    request(app)
+      .post(webhooksUrl)
+      .set(testUtils.getAuthHeader(authToken))
+      .send({ url: endpointUrl, events })
+      .expect(201);
+
+  const createClient = () =>
+    request(app)
+      .post(`${TEST_CONFIG.baseURL}/clients`)
+      .set(testUtils.getAuthHeader(authToken))
+      .send(TEST_CLIENT_DATA)
+      .expect(201);
+
+  describe('POST /api/v1/webhooks', () => {
+    it('should return the signing secret only once', async () => {
+      const response = await createWebhook();
+
+      expect(response.body.data.secret).toMatch(/^whsec_/);
+      expect(response.body.data.webhook.secret).toBeUndefined();
+
+      const list = await request(app)
+        .get(webhooksUrl)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(list.body.data).toHaveLength(1);
+      expect(list.body.data[0].secret).toBeUndefined();
+    });
+
+    it('should reject unknown events', async () => {
+      const response = await request(app)
+        .post(webhooksUrl)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ url: endpointUrl, events: ['invoice.deleted'] })
+        .expect(422);
+
+      testUtils.assertValidationError(response, 'events');
+    });
+
+    it('should reject URLs that resolve to private or metadata addresses', async () => {
+      for (const url of ['http://169.254.169.254/latest/meta-data', 'http://10.0.0.1/hooks']) {
+        const response = await request(app)
+          .post(webhooksUrl)
+          .set(testUtils.getAuthHeader(authToken))
+          .send({ url, events: ['client.created'] })
+          .expect(400);
+        expect(response.body.error.code).toBe('WEBHOOK_URL_FORBIDDEN');
+      }
+
+      const { webhook } = (await createWebhook()).body.data;
+      const response = await request(app)
+        .patch(`${webhooksUrl}/${webhook._id}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ url: 'http://[::ffff:a9fe:a9fe]/' })
+        .expect(400);
+      expect(response.body.error.code).toBe('WEBHOOK_URL_FORBIDDEN');
+    });
+  });
+
+  describe('Deliveries', () => {
+    it('should post a signed event and log the response', async () => {
+      const { secret, webhook } = (await createWebhook()).body.data;
+      await createClient();
+
+      const result = await webhooksService.deliverDueWebhooks();
+      expect(result).toEqual({ succeeded: 1, retrying: 0, failed: 0 });
+
+      expect(received).toHaveLength(1);
+      const [delivery] = received;
+      expect(delivery.headers['x-involuck-event']).toBe('client.created');
+      expect(
+        verifySignatureHeader(
+          delivery.body,
+          delivery.headers['x-involuck-signature'] as string,
+          secret,
+          300
+        )
+      ).toBe(true);
+
+      const payload = JSON.parse(delivery.body);
+      expect(payload).toMatchObject({
+        id: expect.stringMatching(/^evt_/),
+        type: 'client.created',
+        data: { client: { email: TEST_CLIENT_DATA.email } }
+      });
+
+      const log = await request(app)
+        .get(`${webhooksUrl}/${webhook._id}/deliveries`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(log.body.data[0]).toMatchObject({
+        status: 'succeeded',
+        responseStatus: 200,
+        attemptCount: 1
+      });
+    });
+
+    it('should raise payment events', async () => {
+      await createWebhook(['payment.recorded', 'invoice.paid']);
+      const client = await testUtils.createTestClient(userId);
+      const invoice = await testUtils.createTestInvoice(userId, client._id.toString(), {
+        ...TEST_INVOICE_DATA,
+        status: 'sent'
+      });
+
+      await request(app)
+        .post(`${TEST_CONFIG.baseURL}/invoices/${invoice._id}/payments`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ amount: invoice.total, method: 'bank_transfer' })
+        .expect(201);
+
+      const deliveries = await WebhookDelivery.find();
+      expect(deliveries.map(delivery => delivery.event).sort()).toEqual([
+        'invoice.paid',
+        'payment.recorded'
+      ]);
+    });
+
+    it('should not post to a URL that no longer resolves to a public address', async () => {
+      const { webhook } = (await createWebhook()).body.data;
+      await createClient();
+      await Webhook.updateOne({ _id: webhook._id }, { url: 'http://169.254.169.254/hooks' });
+
+      const result = await webhooksService.deliverDueWebhooks();
+      expect(result.retrying).toBe(1);
+      expect(received).toHaveLength(0);
+
+      const delivery = await WebhookDelivery.findOne();
+      expect(delivery!.attempts[0].error).toBe('Webhook URL must resolve to a public address');
+    });
+
+    describe('when the host name resolves differently between lookups', () => {
+      const originalLookup = hostResolver.lookup;
+      let answers: string[];
+      let lookups: number;
+
+      beforeEach(() => {
+        lookups = 0;
+        hostResolver.lookup = async () => {
+          const address = answers[Math.min(lookups++, answers.length - 1)];
+          return [{ address, family: 4 }];
+        };
+      });
+
+      afterEach(() => {
+        hostResolver.lookup = originalLookup;
+      });
+
+      const createNamedWebhook = () =>
+        request(app)
+          .post(webhooksUrl)
+          .set(testUtils.getAuthHeader(authToken))
+          .send({
+            url: endpointUrl.replace('127.0.0.1', 'hooks.example.test'),
+            events: ['client.created']
+          })
+          .expect(201);
+
+      it('should check the address resolved at delivery time', async () => {
+        answers = ['127.0.0.1', '169.254.169.254'];
+        await createNamedWebhook();
+        await createClient();
+
+        const result = await webhooksService.deliverDueWebhooks();
+        expect(result.retrying).toBe(1);
+        expect(received).toHaveLength(0);
+
+        const delivery = await WebhookDelivery.findOne();
+        expect(delivery!.attempts[0].error).toBe('Webhook URL must resolve to a public address');
+      });
+
+      it('should connect to the checked address without resolving the host again', async () => {
+        answers = ['127.0.0.1', '127.0.0.1', '169.254.169.254'];
+        await createNamedWebhook();
+        await createClient();
+
+        const result = await webhooksService.deliverDueWebhooks();
+        expect(result.succeeded).toBe(1);
+        expect(received).toHaveLength(1);
+        expect(received[0].headers.host).toMatch(/^hooks\.example\.test:/);
+        expect(lookups).toBe(2);
+      });
+    });
+
+    it('should retry failed attempts with backoff', async () => {
+      responseStatus = 500;
+      await createWebhook();
+      await createClient();
+
+      const result = await webhooksService.deliverDueWebhooks();
+      expect(result.retrying).toBe(1);
+
+      const delivery = await WebhookDelivery.findOne();
+      expect(delivery!.status).toBe('pending');
+      expect(delivery!.responseStatus).toBe(500);
+      expect(delivery!.attempts).toHaveLength(1);
+      expect(delivery!.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now() + 30 * 1000);
+
+      // Not due yet
+      expect((await webhooksService.deliverDueWebhooks()).retrying).toBe(0);
+    });
+
+    it('should disable the webhook after repeated failed deliveries', async () => {
+      responseStatus = 500;
+      const { webhook } = (await createWebhook()).body.data;
+      await createClient();
+
+      await Webhook.updateOne(
+        { _id: webhook._id },
+        { consecutiveFailures: WEBHOOK_DISABLE_AFTER_FAILURES - 1 }
+      );
+      await WebhookDelivery.updateMany({}, { attemptCount: WEBHOOK_MAX_ATTEMPTS - 1 });
+
+      const result = await webhooksService.deliverDueWebhooks();
+      expect(result.failed).toBe(1);
+
+      const disabled = await request(app)
+        .get(`${webhooksUrl}/${webhook._id}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(200);
+      expect(disabled.body.data.active).toBe(false);
+      expect(disabled.body.data.disabledAt).toBeDefined();
+
+      const enabled = await request(app)
+        .patch(`${webhooksUrl}/${webhook._id}`)
+        .set(testUtils.getAuthHeader(authToken))
+        .send({ active: true })
+        .expect(200);
+      expect(enabled.body.data).toMatchObject({ active: true, consecutiveFailures: 0 });
+    });
+  });
+
+  describe('POST /api/v1/webhooks/:id/deliveries/:deliveryId/redeliver', () => {
+    it('should send the same event again right away', async () => {
+      const { webhook } = (await createWebhook()).body.data;
+      await createClient();
+      await webhooksService.deliverDueWebhooks();
+
+      const original = await WebhookDelivery.findOne();
+
+      const response = await request(app)
+        .post(`${webhooksUrl}/${webhook._id}/deliveries/${original!._id}/redeliver`)
+        .set(testUtils.getAuthHeader(authToken))
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({
+        eventId: original!.eventId,
+        redeliveryOf: original!._id.toString(),
+        status: 'succeeded',
+        responseStatus: 200
+      });
+      expect(received).toHaveLength(2);
+      expect(JSON.parse(received[1].body).id).toBe(original!.eventId);
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import type { ActiveOrganization } from '../services/organizations.service.js';
 import type { Types } from 'mongoose';
 
 export interface AuthenticatedUser {
@@ -6,6 +7,13 @@ export interface AuthenticatedUser {
   email: string;
   name?: string;
   role?: string;
+  sessionId?: string;
+  // Set when the request authenticated with an API key instead of a token
+  apiKeyId?: string;
+  // Organization named on the access token; the personal one when unset
+  organizationId?: string;
+  // Set by loadOrganization once membership has been checked
+  organization?: ActiveOrganization;
 }
 
 declare global {
@@ -9,6 +9,8 @@ export class ApiError extends Error {
   public readonly code: string;
   public readonly details: ErrorDetail[] = [];
   public readonly isOperational: boolean;
+  // Seconds the client should wait before retrying, sent as `Retry-After`
+  public retryAfter?: number;
 
   constructor(
     statusCode: number,
@@ -59,7 +61,8 @@ export class ApiError extends Error {
       code: this.code,
       message: this.message,
       details: this.details,
-      statusCode: this.statusCode
+      statusCode: this.statusCode,
+      ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter })
     };
   }
 }
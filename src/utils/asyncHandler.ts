@@ -1,7 +1,8 @@
 import type { Request, Response, NextFunction } from 'express';
 
-type AsyncRequestHandler = (
-  req: Request,
+// `Query` types `req.query` for routes whose query is parsed by `validate({ query })`
+type AsyncRequestHandler<Query = Request['query']> = (
+  req: Request<Request['params'], unknown, Request['body'], Query>,
   res: Response,
   next: NextFunction
 ) => Promise<void | Response>;
@@ -18,9 +19,9 @@ type AsyncRequestHandler = (
  *   res.json({ success: true, data: users });
  * }));
  */
-const asyncHandler = (fn: AsyncRequestHandler) => {
+const asyncHandler = <Query = Request['query']>(fn: AsyncRequestHandler<Query>) => {
   return (req: Request, res: Response, next: NextFunction): void => {
-    Promise.resolve(fn(req, res, next)).catch(next);
+    Promise.resolve(fn(req as Parameters<typeof fn>[0], res, next)).catch(next);
   };
 };
 
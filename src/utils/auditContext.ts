@@ -0,0 +1,10 @@
+import type { AuditContext } from '../services/auditLog.service.js';
+import type { Request } from 'express';
+
+// Admin and client details of a request, for the audit trail
+export const getAuditContext = (req: Request): AuditContext => ({
+  actorId: req.user!.id,
+  ip: req.ip,
+  userAgent: req.get('user-agent'),
+  requestId: String(req.id)
+});
@@ -0,0 +1,238 @@
+// Bank statement parsers. Every format is read into the same transaction shape with
+// signed amounts in major units: credits (money received) are positive, debits negative.
+
+// Supported statement formats
+export const BANK_STATEMENT_FORMATS = ['csv', 'ofx', 'camt053'] as const;
+export type BankStatementFormat = (typeof BANK_STATEMENT_FORMATS)[number];
+
+// A transaction read from a statement file
+export interface StatementTransaction {
+  externalId?: string;
+  date: Date;
+  amount: number;
+  currency?: string;
+  counterparty?: string;
+  reference?: string;
+  description?: string;
+}
+
+// Midnight UTC of a calendar day
+const utcDay = (year: number, month: number, day: number): Date =>
+  new Date(Date.UTC(year, month - 1, day));
+
+// Read YYYY-MM-DD, YYYYMMDD, DD.MM.YYYY or DD/MM/YYYY dates; slashed dates are read as
+// MM/DD/YYYY only when the day-first reading is impossible
+const parseStatementDate = (value = ''): Date => {
+  const text = value.trim();
+
+  let match = text.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (match) {
+    return utcDay(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  match = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})/);
+  if (match) {
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    return second > 12
+      ? utcDay(Number(match[3]), first, second)
+      : utcDay(Number(match[3]), second, first);
+  }
+
+  return new Date(NaN);
+};
+
+// Read a CSV amount such as "1,234.56", "1.234,56", "-100", "(100.00)" or "€ 100,00";
+// the last separator followed by one or two digits is the decimal point
+const parseStatementAmount = (value = ''): number => {
+  const text = value.trim();
+  const negative = /^\(.*\)$/.test(text) || text.includes('-');
+  const digits = text.replace(/[^\d.,]/g, '');
+  const decimal = digits.match(/[.,](\d{1,2})$/);
+
+  const whole = decimal ? digits.slice(0, -decimal[0].length) : digits;
+  const amount = Number(`${whole.replace(/[.,]/g, '')}.${decimal ? decimal[1] : '0'}`);
+
+  return negative ? -amount : amount;
+};
+
+// Read an OFX or CAMT.053 amount, which is always written as "-1234.567"
+const parseDecimalAmount = (value = ''): number => {
+  const text = value.trim();
+  return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : NaN;
+};
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_match, entity: string) => XML_ENTITIES[entity])
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCharCode(Number(code)))
+    .trim();
+
+// Text of the first matching element; `path` lists nested element names
+const xmlText = (source: string, ...path: string[]): string | undefined => {
+  let scope = source;
+  for (const name of path) {
+    const match = scope.match(new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`));
+    if (!match) {
+      return undefined;
+    }
+    scope = match[1];
+  }
+  return decodeXml(scope) || undefined;
+};
+
+// Split a CSV line on the delimiter, honouring double-quoted cells
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+};
+
+// Parse a CSV export with a header row. Columns are recognised by name: a date, either
+// an amount or separate credit and debit columns, and optionally currency, counterparty,
+// reference, description and transaction ID.
+const parseStatementCsv = (content: string): StatementTransaction[] => {
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim());
+
+  if (lines.length < 2) {
+    return [];
+  }
+
+  const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+    lines[0].split(candidate).length > lines[0].split(best).length ? candidate : best
+  );
+  const columns = splitCsvLine(lines[0], delimiter).map(column => column.toLowerCase());
+  const find = (pattern: RegExp): number => columns.findIndex(column => pattern.test(column));
+
+  const dateIndex = find(/date|posted/);
+  const amountIndex = find(/^amount|^betrag|^montant/);
+  const creditIndex = find(/credit|paid in|deposit/);
+  const debitIndex = find(/debit|paid out|withdrawal/);
+
+  if (dateIndex === -1 || (amountIndex === -1 && creditIndex === -1)) {
+    return [];
+  }
+
+  const currencyIndex = find(/^currency|^ccy/);
+  const counterpartyIndex = find(/counterparty|payer|payee|beneficiary|name/);
+  const referenceIndex = find(/reference|^ref|remittance/);
+  const descriptionIndex = find(/description|details|narrative|memo|purpose/);
+  const idIndex = find(/^id$|transaction id|fitid/);
+  const cellAt = (cells: string[], index: number): string | undefined =>
+    index === -1 ? undefined : cells[index] || undefined;
+
+  return lines.slice(1).map(line => {
+    const cells = splitCsvLine(line, delimiter);
+    const amount =
+      amountIndex !== -1
+        ? parseStatementAmount(cells[amountIndex])
+        : Math.abs(parseStatementAmount(cells[creditIndex])) -
+          Math.abs(parseStatementAmount(cells[debitIndex]));
+
+    return {
+      externalId: cellAt(cells, idIndex),
+      date: parseStatementDate(cells[dateIndex]),
+      amount,
+      currency: cellAt(cells, currencyIndex)?.toUpperCase(),
+      counterparty: cellAt(cells, counterpartyIndex),
+      reference: cellAt(cells, referenceIndex),
+      description: cellAt(cells, descriptionIndex)
+    };
+  });
+};
+
+// Parse an OFX statement, either SGML (OFX 1.x, unclosed value tags) or XML (OFX 2.x)
+const parseStatementOfx = (content: string): StatementTransaction[] => {
+  const value = (source: string, tag: string): string | undefined => {
+    const match = source.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? decodeXml(match[1]) || undefined : undefined;
+  };
+  const currency = value(content, 'CURDEF')?.toUpperCase();
+
+  return [...content.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)].map(([, block]) => ({
+    externalId: value(block, 'FITID'),
+    date: parseStatementDate(value(block, 'DTPOSTED')),
+    amount: parseDecimalAmount(value(block, 'TRNAMT')),
+    currency: block.match(/<CURSYM>(\w{3})/i)?.[1].toUpperCase() ?? currency,
+    counterparty: value(block, 'NAME') ?? value(block, 'PAYEEID'),
+    reference: value(block, 'REFNUM') ?? value(block, 'CHECKNUM'),
+    description: value(block, 'MEMO')
+  }));
+};
+
+// Parse an ISO 20022 CAMT.053 bank-to-customer statement, one transaction per entry
+const parseStatementCamt053 = (content: string): StatementTransaction[] =>
+  [...content.matchAll(/<Ntry>([\s\S]*?)<\/Ntry>/g)].map(([, entry]) => {
+    const amount = entry.match(/<Amt\b[^>]*?Ccy="(\w{3})"[^>]*>([^<]+)<\/Amt>/);
+    const debit = xmlText(entry, 'CdtDbtInd') === 'DBIT';
+    const endToEndId = xmlText(entry, 'EndToEndId');
+    const unstructured = [...entry.matchAll(/<Ustrd>([\s\S]*?)<\/Ustrd>/g)]
+      .map(([, text]) => decodeXml(text))
+      .join(' ');
+
+    return {
+      externalId: xmlText(entry, 'AcctSvcrRef') ?? xmlText(entry, 'NtryRef'),
+      date: parseStatementDate(
+        xmlText(entry, 'BookgDt', 'Dt') ??
+          xmlText(entry, 'BookgDt', 'DtTm') ??
+          xmlText(entry, 'ValDt', 'Dt')
+      ),
+      amount: amount ? (debit ? -1 : 1) * parseDecimalAmount(amount[2]) : NaN,
+      currency: amount?.[1].toUpperCase(),
+      counterparty: xmlText(entry, debit ? 'Cdtr' : 'Dbtr', 'Nm'),
+      reference:
+        xmlText(entry, 'CdtrRefInf', 'Ref') ??
+        (endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined),
+      description: unstructured || xmlText(entry, 'AddtlNtryInf')
+    };
+  });
+
+// Parse a statement file; rows without a valid date or amount are dropped
+export const parseBankStatement = (
+  format: BankStatementFormat,
+  content: string
+): StatementTransaction[] => {
+  const parsers: Record<BankStatementFormat, (content: string) => StatementTransaction[]> = {
+    csv: parseStatementCsv,
+    ofx: parseStatementOfx,
+    camt053: parseStatementCamt053
+  };
+
+  return parsers[format](content).filter(
+    transaction => !Number.isNaN(transaction.date.getTime()) && Number.isFinite(transaction.amount)
+  );
+};
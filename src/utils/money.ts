@@ -0,0 +1,194 @@
+// Exact money arithmetic. Amounts are kept as integer minor units (cents, fils, yen)
+// and intermediate results as scaled BigInt decimals, so no binary floating-point
+// error ever reaches a stored amount.
+
+// Rounding applied when a result has more decimals than the currency allows
+export const ROUNDING_MODES = ['half_up', 'half_even'] as const;
+export type RoundingMode = (typeof ROUNDING_MODES)[number];
+
+// Round every line before summing, or only the invoice-level amounts
+export const ROUNDING_STRATEGIES = ['line', 'invoice'] as const;
+export type RoundingStrategy = (typeof ROUNDING_STRATEGIES)[number];
+
+// ISO 4217 minor unit digits for currencies that do not use two decimals
+const CURRENCY_PRECISION: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  UYI: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  CLF: 4,
+  UYW: 4
+};
+
+// Number of decimals a currency is stored and displayed with
+export const getCurrencyPrecision = (currency: string): number =>
+  CURRENCY_PRECISION[currency.toUpperCase()] ?? 2;
+
+// A decimal value of `value / 10^scale`
+export interface Decimal {
+  value: bigint;
+  scale: number;
+}
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+
+// Read a JS number as the decimal it was written as (0.1 is 1/10, not 0.1000000000000000055)
+export const toDecimal = (amount: number): Decimal => {
+  if (!Number.isFinite(amount)) {
+    throw new RangeError(`Invalid amount: ${amount}`);
+  }
+
+  // String() gives the shortest form that round-trips, e.g. "0.1", "1.5e-7" or "1e+21"
+  const match = /^(-)?(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/.exec(String(amount));
+  if (!match) {
+    throw new RangeError(`Invalid amount: ${amount}`);
+  }
+
+  const [, sign, whole, rawFraction = '', exponent = '0'] = match;
+  const fraction = rawFraction.replace(/0+$/, '');
+  let value = BigInt(`${whole}${fraction}`);
+  let scale = fraction.length - Number(exponent);
+  if (scale < 0) {
+    value *= pow10(-scale);
+    scale = 0;
+  }
+
+  return { value: sign ? -value : value, scale };
+};
+
+// Exact sum of two decimals
+export const addDecimal = (a: Decimal, b: Decimal): Decimal => {
+  const scale = Math.max(a.scale, b.scale);
+  return {
+    value: a.value * pow10(scale - a.scale) + b.value * pow10(scale - b.scale),
+    scale
+  };
+};
+
+// Exact difference of two decimals
+export const subtractDecimal = (a: Decimal, b: Decimal): Decimal =>
+  addDecimal(a, { value: -b.value, scale: b.scale });
+
+// Exact product of two decimals
+export const multiplyDecimal = (a: Decimal, b: Decimal): Decimal => ({
+  value: a.value * b.value,
+  scale: a.scale + b.scale
+});
+
+// Apply a percentage exactly, e.g. 12.5% of an amount
+export const percentOf = (amount: Decimal, percent: number): Decimal => {
+  const product = multiplyDecimal(amount, toDecimal(percent));
+  return { value: product.value, scale: product.scale + 2 };
+};
+
+// Quotient of two decimals, rounded half-up at `scale` decimals. Only used where the
+// result is rounded to a currency precision afterwards, so the default keeps ample digits.
+export const divideDecimal = (a: Decimal, b: Decimal, scale = 12): Decimal => {
+  if (b.value === 0n) {
+    throw new RangeError('Division by zero');
+  }
+
+  const numerator = a.value * pow10(b.scale + scale);
+  const denominator = b.value * pow10(a.scale);
+  const negative = numerator < 0n !== denominator < 0n;
+  const n = numerator < 0n ? -numerator : numerator;
+  const d = denominator < 0n ? -denominator : denominator;
+  const quotient = (n * 2n + d) / (d * 2n);
+
+  return { value: negative ? -quotient : quotient, scale };
+};
+
+// Split an amount of minor units in proportion to weights; remainders go to the
+// largest fractions so the parts always add up to the amount
+export const allocateMinorUnits = (amount: bigint, weights: bigint[]): bigint[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0n);
+  if (totalWeight === 0n) {
+    return weights.map((_, index) => (index === 0 ? amount : 0n));
+  }
+
+  const parts = weights.map(weight => (amount * weight) / totalWeight);
+  let remainder = amount - parts.reduce((sum, part) => sum + part, 0n);
+
+  const order = weights
+    .map((weight, index) => ({ index, fraction: (amount * weight) % totalWeight }))
+    .sort((a, b) => (b.fraction > a.fraction ? 1 : b.fraction < a.fraction ? -1 : 0));
+
+  for (const { index } of order) {
+    if (remainder === 0n) {
+      break;
+    }
+    const step = remainder > 0n ? 1n : -1n;
+    parts[index] += step;
+    remainder -= step;
+  }
+
+  return parts;
+};
+
+// Round a decimal to `scale` decimals and return it as an integer of that scale
+export const roundDecimal = (
+  decimal: Decimal,
+  scale: number,
+  mode: RoundingMode = 'half_up'
+): bigint => {
+  if (decimal.scale <= scale) {
+    return decimal.value * pow10(scale - decimal.scale);
+  }
+
+  const divisor = pow10(decimal.scale - scale);
+  const negative = decimal.value < 0n;
+  const magnitude = negative ? -decimal.value : decimal.value;
+  let quotient = magnitude / divisor;
+  const twiceRemainder = (magnitude % divisor) * 2n;
+
+  if (
+    twiceRemainder > divisor ||
+    (twiceRemainder === divisor && (mode === 'half_up' || quotient % 2n === 1n))
+  ) {
+    quotient += 1n;
+  }
+
+  return negative ? -quotient : quotient;
+};
+
+// Convert an amount in major units to integer minor units of a currency
+export const toMinorUnits = (
+  amount: number,
+  currency: string,
+  mode: RoundingMode = 'half_up'
+): number => Number(roundDecimal(toDecimal(amount), getCurrencyPrecision(currency), mode));
+
+// Convert integer minor units back to an amount in major units
+export const fromMinorUnits = (minor: number | bigint, currency: string): number =>
+  Number(minor) / 10 ** getCurrencyPrecision(currency);
+
+// Round an amount in major units to the precision of a currency
+export const roundMoney = (
+  amount: number,
+  currency: string,
+  mode: RoundingMode = 'half_up'
+): number => fromMinorUnits(toMinorUnits(amount, currency, mode), currency);
+
+// Whether an amount has no more decimals than its currency allows
+export const isValidAmount = (amount: number, currency: string): boolean =>
+  toDecimal(amount).scale <= getCurrencyPrecision(currency);
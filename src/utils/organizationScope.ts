@@ -0,0 +1,28 @@
+import { ApiErrors } from './ApiError.js';
+
+import type { Request } from 'express';
+
+// Organization a service call works in, and who is acting
+export interface OrganizationScope {
+  organizationId: string;
+  // Owner of the organization; records are stored under this user so that their
+  // numbering, tax rates and exchange rates apply
+  ownerId: string;
+  // User making the change, recorded as the actor
+  userId: string;
+}
+
+// Scope of a request that went through loadOrganization
+export const getOrganizationScope = (req: Pick<Request, 'user'>): OrganizationScope => {
+  const organization = req.user?.organization;
+
+  if (!req.user || !organization) {
+    throw ApiErrors.unauthorized('Authentication required', { code: 'AUTH_REQUIRED' });
+  }
+
+  return {
+    organizationId: organization.id,
+    ownerId: organization.ownerId,
+    userId: req.user.id
+  };
+};
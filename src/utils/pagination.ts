@@ -1,7 +1,5 @@
 import { z } from 'zod';
 
-import type { Request } from 'express';
-
 // Pagination query schema
 const paginationSchema = z.object({
   page: z.coerce.number().min(1).default(1),
@@ -29,9 +27,9 @@ export interface PaginationMeta {
   hasPrev: boolean;
 }
 
-// Parse pagination parameters from request query
-export const parsePagination = (req: Request): PaginationOptions => {
-  const parsed = paginationSchema.parse(req.query);
+// Parse pagination parameters from a query object
+export const parsePagination = (query: Record<string, unknown>): PaginationOptions => {
+  const parsed = paginationSchema.parse(query);
 
   return {
     page: parsed.page,
@@ -0,0 +1,61 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+import { isTest } from '../config/env.js';
+
+import type { LookupAddress } from 'dns';
+
+// Addresses outbound requests may not reach: private networks, loopback, link-local ranges
+// such as the cloud metadata endpoint 169.254.169.254, and other non-public ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const FORBIDDEN_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3]
+] as const) {
+  FORBIDDEN_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  FORBIDDEN_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Tests deliver to a receiver on the loopback interface
+const TEST_ADDRESSES = new BlockList();
+TEST_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+TEST_ADDRESSES.addAddress('::1', 'ipv6');
+
+// Resolves host names to every address they have; tests replace `lookup` to control the answers
+export const hostResolver = {
+  lookup: (hostname: string): Promise<LookupAddress[]> => lookup(hostname, { all: true })
+};
+
+// Whether an address is outside the public internet
+export const isForbiddenAddress = (address: string): boolean => {
+  const family = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+  if (isTest() && TEST_ADDRESSES.check(address, family)) {
+    return false;
+  }
+  return FORBIDDEN_ADDRESSES.check(address, family);
+};
+
+// Addresses of a URL host; an IP address host is returned as is
+export const resolveHost = async (hostname: string): Promise<LookupAddress[]> => {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const family = isIP(host);
+
+  return family ? [{ address: host, family }] : hostResolver.lookup(host);
+};
@@ -0,0 +1,132 @@
+// Recurrence rules for recurring invoices. Occurrences are computed from the start date
+// and their index rather than from the previous occurrence, so a schedule on day 31
+// lands on the last day of short months without drifting to the 28th afterwards.
+// All dates are UTC calendar days.
+
+// Supported schedule frequencies
+export const RECURRENCE_FREQUENCIES = ['weekly', 'monthly', 'quarterly', 'yearly'] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+// Schedule: every `interval` weeks on `dayOfWeek`, or every `interval` months,
+// quarters or years on `dayOfMonth`. Missing days default to the start date's.
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+}
+
+// Billing period covered by one occurrence, both ends inclusive
+export interface RecurrencePeriod {
+  start: Date;
+  end: Date;
+}
+
+// Milliseconds in a day
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Months between occurrences for month-based frequencies
+const MONTHS_PER_STEP: Record<Exclude<RecurrenceFrequency, 'weekly'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+};
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December'
+];
+
+// Midnight UTC of the given date
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+// Day of a month, clamped to the month length; the month may overflow into later years
+const dayInMonth = (year: number, month: number, day: number): Date => {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(day, daysInMonth)));
+};
+
+const isoDate = (date: Date): string => date.toISOString().split('T')[0];
+
+// Date of the occurrence with the given zero-based index
+export const getOccurrence = (rule: RecurrenceRule, startDate: Date, index: number): Date => {
+  const start = startOfDay(startDate);
+
+  if (rule.frequency === 'weekly') {
+    const dayOfWeek = rule.dayOfWeek ?? start.getUTCDay();
+    const first = start.getTime() + ((dayOfWeek - start.getUTCDay() + 7) % 7) * DAY_MS;
+    return new Date(first + index * rule.interval * 7 * DAY_MS);
+  }
+
+  const day = rule.dayOfMonth ?? start.getUTCDate();
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+
+  // The first occurrence falls in the start month unless that day has already passed
+  const firstMonth = dayInMonth(year, month, day) < start ? month + 1 : month;
+  return dayInMonth(
+    year,
+    firstMonth + index * rule.interval * MONTHS_PER_STEP[rule.frequency],
+    day
+  );
+};
+
+// Period billed by an occurrence: from its date until the day before the next one
+export const getPeriod = (
+  rule: RecurrenceRule,
+  startDate: Date,
+  index: number
+): RecurrencePeriod => ({
+  start: getOccurrence(rule, startDate, index),
+  end: new Date(getOccurrence(rule, startDate, index + 1).getTime() - DAY_MS)
+});
+
+// Human label for a period: "October 2026", "Q4 2026" or "2026" when the period is
+// exactly that calendar unit, otherwise the date range
+export const formatPeriod = (period: RecurrencePeriod): string => {
+  const { start, end } = period;
+  const nextDay = new Date(end.getTime() + DAY_MS);
+  const months =
+    (nextDay.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+    nextDay.getUTCMonth() -
+    start.getUTCMonth();
+
+  if (start.getUTCDate() === 1 && nextDay.getUTCDate() === 1) {
+    if (months === 1) {
+      return `${MONTH_NAMES[start.getUTCMonth()]} ${start.getUTCFullYear()}`;
+    }
+    if (months === 3 && start.getUTCMonth() % 3 === 0) {
+      return `Q${start.getUTCMonth() / 3 + 1} ${start.getUTCFullYear()}`;
+    }
+    if (months === 12 && start.getUTCMonth() === 0) {
+      return `${start.getUTCFullYear()}`;
+    }
+  }
+
+  return `${isoDate(start)} – ${isoDate(end)}`;
+};
+
+// Values for the template placeholders of a period
+export const getPeriodPlaceholders = (period: RecurrencePeriod): Record<string, string> => ({
+  period: formatPeriod(period),
+  periodStart: isoDate(period.start),
+  periodEnd: isoDate(period.end),
+  month: MONTH_NAMES[period.start.getUTCMonth()],
+  quarter: `Q${Math.floor(period.start.getUTCMonth() / 3) + 1}`,
+  year: `${period.start.getUTCFullYear()}`
+});
+
+// Replace {{name}} placeholders; unknown names are left untouched
+export const fillPlaceholders = (text: string, values: Record<string, string>): string =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
@@ -0,0 +1,114 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// RFC 6238 time-based one-time passwords with the defaults authenticator apps expect:
+// HMAC-SHA1, 6 digits and a 30 second time step.
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// RFC 4648 base32 without padding, as used in otpauth URIs
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+// Decode base32, ignoring case, spaces and padding
+export const base32Decode = (encoded: string): Buffer => {
+  const text = encoded.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of text) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// New random 160-bit secret, base32 encoded
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+// Time step a moment falls in
+export const getTotpStep = (now = Date.now()): number =>
+  Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+
+// RFC 4226 HOTP value for a counter
+const generateHotp = (secret: string, counter: number): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 15;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+// Code shown by an authenticator app at a given moment
+export const generateTotp = (secret: string, now = Date.now()): string =>
+  generateHotp(secret, getTotpStep(now));
+
+// Check a code against the current step and `window` steps either side for clock drift.
+// Returns the matching step so callers can refuse a code that was already used.
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  options: { window?: number; now?: number } = {}
+): number | null => {
+  const { window = 1, now = Date.now() } = options;
+  const candidate = Buffer.from(code.replace(/\s/g, ''));
+  const currentStep = getTotpStep(now);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const expected = Buffer.from(generateHotp(secret, currentStep + offset));
+    if (candidate.length === expected.length && timingSafeEqual(candidate, expected)) {
+      return currentStep + offset;
+    }
+  }
+
+  return null;
+};
+
+// Key URI understood by authenticator apps, usually shown as a QR code
+export const buildOtpAuthUri = (options: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+}): string => {
+  const label = encodeURIComponent(`${options.issuer}:${options.accountName}`);
+  const params = new URLSearchParams({
+    secret: options.secret,
+    issuer: options.issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+
+// Browsers in detection order; Edge and Opera also announce Chrome, Chrome also announces Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/PostmanRuntime\//, 'Postman'],
+  [/curl\//, 'curl']
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+// Readable device name such as "Chrome on macOS"
+export const describeUserAgent = (userAgent = ''): string => {
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+  return browser || os || 'Unknown device';
+};
+
+// Stable identifier of a browser or client, used to recognise known devices
+export const fingerprintUserAgent = (userAgent = ''): string =>
+  crypto.createHash('sha256').update(userAgent.trim()).digest('hex');
@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Webhook signatures in the Stripe format: a header of `t=<unix seconds>,v1=<signature>`
+// where the signature is the hex HMAC-SHA256 of `<timestamp>.<raw body>`. Signing the
+// timestamp with the body lets receivers reject replayed deliveries.
+
+// Hex HMAC-SHA256 of a timestamped payload
+export const computeSignature = (
+  payload: string | Buffer,
+  secret: string,
+  timestamp: number
+): string => createHmac('sha256', secret).update(`${timestamp}.`).update(payload).digest('hex');
+
+// Signature header for a payload, signed now unless a timestamp is given
+export const createSignatureHeader = (
+  payload: string | Buffer,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string => `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+
+// Check a signature header against the raw payload. Any `v1` entry may match, so
+// secrets can be rotated while both are in use.
+export const verifySignatureHeader = (
+  payload: string | Buffer,
+  header: string | undefined,
+  secret: string,
+  toleranceSeconds: number,
+  now = Date.now()
+): boolean => {
+  if (!header) {
+    return false;
+  }
+
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value ?? '');
+
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(payload, secret, timestamp), 'hex');
+  return signatures.some(signature => {
+    const received = Buffer.from(signature, 'hex');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  });
+};
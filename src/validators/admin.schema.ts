@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+import { AUDIT_ACTIONS } from '../models/AuditLog.js';
+
+// Account lock query schema
+export const accountLockQuerySchema = z.object({
+  // Locked accounts, or every account with failed attempts since its last login
+  status: z.enum(['locked', 'failing']).default('locked'),
+
+  // Pagination
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(10)
+});
+
+// Query string flag ("true" / "false") parsed into a boolean
+const booleanQueryFlag = z
+  .enum(['true', 'false'])
+  .transform(value => value === 'true')
+  .optional();
+
+const objectId = (message: string) => z.string().regex(/^[a-fA-F0-9]{24}$/, message);
+
+// Admin user list query schema
+export const adminUserQuerySchema = z.object({
+  // Matches name or email
+  search: z.string().trim().max(100, 'Search term must not exceed 100 characters').optional(),
+  role: z.enum(['user', 'admin']).optional(),
+  isActive: booleanQueryFlag,
+  isEmailVerified: booleanQueryFlag,
+
+  // Pagination
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(10)
+});
+
+// Update user role schema
+export const updateUserRoleSchema = z.object({
+  role: z.enum(['user', 'admin'])
+});
+
+// Audit log query schema
+export const auditLogQuerySchema = z.object({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actorId: objectId('Invalid actor ID format').optional(),
+  targetUserId: objectId('Invalid user ID format').optional(),
+
+  // Pagination
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(10)
+});
+
+// Export types for TypeScript
+export type AccountLockQueryInput = z.infer<typeof accountLockQuerySchema>;
+export type AdminUserQueryInput = z.infer<typeof adminUserQuerySchema>;
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>;
+export type AuditLogQueryInput = z.infer<typeof auditLogQuerySchema>;
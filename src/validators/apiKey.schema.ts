@@ -0,0 +1,57 @@
+import { isIP } from 'net';
+
+import { z } from 'zod';
+
+import { API_KEY_SCOPES } from '../models/ApiKey.js';
+
+import type { ApiKeyScope } from '../models/ApiKey.js';
+
+// IP address, or CIDR range such as 203.0.113.0/24
+const allowedIpSchema = z
+  .string()
+  .trim()
+  .refine(
+    value => {
+      const [network, prefix, ...rest] = value.split('/');
+      const family = isIP(network);
+
+      if (!family || rest.length > 0) {
+        return false;
+      }
+      if (prefix === undefined) {
+        return true;
+      }
+      return /^\d+$/.test(prefix) && Number(prefix) <= (family === 6 ? 128 : 32);
+    },
+    { message: 'Invalid IP address or CIDR range' }
+  );
+
+// Create API key schema
+export const createApiKeySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'API key name is required')
+    .max(100, 'API key name cannot exceed 100 characters'),
+
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES as [ApiKeyScope, ...ApiKeyScope[]]))
+    .min(1, 'At least one scope is required'),
+
+  organizationId: z
+    .string()
+    .regex(/^[a-fA-F0-9]{24}$/, 'Invalid organization ID format')
+    .optional(),
+
+  expiresAt: z
+    .string()
+    .datetime('Invalid expiry date format')
+    .transform(value => new Date(value))
+    .refine(date => date > new Date(), { message: 'Expiry date must be in the future' })
+    .optional(),
+
+  allowedIps: z.array(allowedIpSchema).max(20, 'At most 20 IP entries are allowed').default([])
+});
+
+// Export types for TypeScript
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
@@ -72,16 +72,18 @@ export const changePasswordSchema = z
         /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
         'Password must contain at least one lowercase letter, one uppercase letter, and one number'
       ),
-    confirmNewPassword: z.string()
+    confirmNewPassword: z.string(),
+    // Required when two-factor authentication is enabled
+    twoFactorCode: z.string().trim().min(1).max(20).optional()
   })
   .refine(d => d.newPassword === d.confirmNewPassword, {
     message: 'Passwords do not match',
     path: ['confirmNewPassword']
   });
 
-// Refresh token
+// Refresh token (read from the refreshToken cookie when omitted)
 export const refreshTokenSchema = z.object({
-  refreshToken: z.string().min(1, 'Refresh token is required')
+  refreshToken: z.string().min(1, 'Refresh token is required').optional()
 });
 
 // Update profile
@@ -109,6 +111,40 @@ export const resendVerificationSchema = z.object({
   email: z.string().email('Invalid email format').toLowerCase().trim()
 });
 
+// TOTP or recovery code
+const twoFactorCode = z
+  .string()
+  .trim()
+  .min(6, 'Two-factor code is required')
+  .max(20, 'Two-factor code is too long');
+
+// Second step of a login with two-factor authentication
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: twoFactorCode
+});
+
+// Confirm enrolment or regenerate recovery codes
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCode
+});
+
+// Disable two-factor authentication
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: twoFactorCode
+});
+
+// Sensitive actions without a body schema of their own
+export const twoFactorConfirmationSchema = z.object({
+  twoFactorCode: z.string().trim().min(1).max(20).optional()
+});
+
+// Session ID parameter
+export const sessionParamsSchema = z.object({
+  id: z.string().uuid('Invalid session ID')
+});
+
 // Types
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
@@ -120,3 +156,5 @@ export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
 export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
 export type ResendVerificationInput = z.infer<typeof resendVerificationSchema>;
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>;
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorSchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+// Import bank statement schema
+export const importBankStatementSchema = z.object({
+  format: z.enum(['csv', 'ofx', 'camt053']),
+
+  content: z
+    .string()
+    .min(1, 'File content is required')
+    .max(5 * 1024 * 1024, 'File content must not exceed 5MB'),
+
+  // Used for transactions without a currency; defaults to the user's currency
+  currency: z
+    .string()
+    .length(3, 'Currency must be a 3-letter code (e.g., USD)')
+    .toUpperCase()
+    .optional()
+});
+
+// Bank transaction query filters schema
+export const bankTransactionQuerySchema = z.object({
+  status: z.enum(['unmatched', 'suggested', 'matched', 'ignored']).optional(),
+
+  importId: z.string().uuid('Invalid import ID format').optional(),
+
+  // Pagination
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(10)
+});
+
+// Confirm match schema; without an invoice the best suggestion is confirmed
+export const confirmBankMatchSchema = z.object({
+  invoiceId: z
+    .string()
+    .regex(/^[a-fA-F0-9]{24}$/, 'Invalid invoice ID format')
+    .optional(),
+
+  notes: z.string().max(500, 'Notes must not exceed 500 characters').optional()
+});
+
+// Ignore transaction schema
+export const ignoreBankTransactionSchema = z.object({
+  reason: z.string().max(500, 'Reason must not exceed 500 characters').optional()
+});
+
+// Export types for TypeScript
+export type ImportBankStatementInput = z.infer<typeof importBankStatementSchema>;
+export type BankTransactionQueryInput = z.infer<typeof bankTransactionQuerySchema>;
+export type ConfirmBankMatchInput = z.infer<typeof confirmBankMatchSchema>;
+export type IgnoreBankTransactionInput = z.infer<typeof ignoreBankTransactionSchema>;
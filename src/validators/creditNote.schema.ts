@@ -0,0 +1,100 @@
+import { z } from 'zod';
+
+// Credit note line: part of an invoice line, or a free amount
+const creditNoteItemSchema = z
+  .object({
+    invoiceItemIndex: z.number().int().min(0, 'Invoice item index must be non-negative').optional(),
+
+    quantity: z
+      .number()
+      .positive('Quantity must be positive')
+      .max(999999.99, 'Quantity too large')
+      .optional(),
+
+    description: z
+      .string()
+      .min(1, 'Item description is required')
+      .max(500, 'Description must not exceed 500 characters')
+      .trim()
+      .optional(),
+
+    amount: z
+      .number()
+      .positive('Amount must be positive')
+      .max(99999999.99, 'Amount is too large')
+      .optional()
+  })
+  .refine(
+    data =>
+      data.invoiceItemIndex !== undefined
+        ? data.amount === undefined
+        : data.amount !== undefined && data.quantity === undefined,
+    {
+      message: 'Credit either an invoice line (invoiceItemIndex) or a free amount, not both',
+      path: ['invoiceItemIndex']
+    }
+  );
+
+// Create credit note schema
+export const createCreditNoteSchema = z.object({
+  invoiceId: z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid invoice ID format'),
+
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'A reason is required to issue a credit note')
+    .max(500, 'Reason must not exceed 500 characters'),
+
+  issueDate: z.string().datetime('Invalid issue date format').optional(),
+
+  items: z
+    .array(creditNoteItemSchema)
+    .min(1, 'At least one item is required')
+    .max(100, 'Maximum 100 items allowed'),
+
+  notes: z.string().max(1000, 'Notes must not exceed 1000 characters').trim().optional()
+});
+
+// Void credit note schema
+export const voidCreditNoteSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'A reason is required to void a credit note')
+    .max(500, 'Reason must not exceed 500 characters')
+});
+
+// Credit note query filters schema
+export const creditNoteQuerySchema = z.object({
+  invoiceId: z
+    .string()
+    .regex(/^[a-fA-F0-9]{24}$/, 'Invalid invoice ID format')
+    .optional(),
+
+  clientId: z
+    .string()
+    .regex(/^[a-fA-F0-9]{24}$/, 'Invalid client ID format')
+    .optional(),
+
+  status: z.enum(['issued', 'void']).optional(),
+
+  // Pagination
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(10)
+});
+
+// Credit note PDF rendering options schema
+export const creditNotePdfQuerySchema = z.object({
+  language: z.string().min(2).max(5, 'Language code must not exceed 5 characters').optional(),
+
+  download: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional()
+});
+
+// Export types for TypeScript
+export type CreateCreditNoteInput = z.infer<typeof createCreditNoteSchema>;
+export type VoidCreditNoteInput = z.infer<typeof voidCreditNoteSchema>;
+export type CreditNoteQueryInput = z.infer<typeof creditNoteQuerySchema>;
+export type CreditNotePdfQueryInput = z.infer<typeof creditNotePdfQuerySchema>;
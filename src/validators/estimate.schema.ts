@@ -0,0 +1,164 @@
+import { z } from 'zod';
+
+import { invoiceItemSchema, singleTaxModelMessage, usesSingleTaxModel } from './invoice.schema.js';
+
+// Estimates share the invoice item and discount model
+const estimateFields = {
+  number: z
+    .string()
+    .min(1, 'Estimate number is required')
+    .max(50, 'Estimate number must not exceed 50 characters')
+    .trim(),
+
+  items: z
+    .array(invoiceItemSchema)
+    .min(1, 'At least one item is required')
+    .max(100, 'Maximum 100 items allowed'),
+
+  notes: z.string().max(1000, 'Notes must not exceed 1000 characters').optional(),
+
+  terms: z.string().max(1000, 'Terms must not exceed 1000 characters').optional(),
+
+  taxRate: z
+    .number()
+    .min(0, 'Tax rate must be non-negative')
+    .max(100, 'Tax rate cannot exceed 100%'),
+
+  discountType: z.enum(['percentage', 'fixed']),
+
+  discountValue: z.number().min(0, 'Discount value must be non-negative'),
+
+  shippingCost: z.number().min(0, 'Shipping cost must be non-negative'),
+
+  tags: z.array(z.string().max(50)).max(10, 'Maximum 10 tags allowed'),
+
+  metadata: z.record(z.any())
+};
+
+// Create estimate schema
+export const createEstimateSchema = z
+  .object({
+    clientId: z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid client ID format'),
+
+    number: estimateFields.number.optional(), // Can be auto-generated
+
+    issueDate: z
+      .string()
+      .datetime('Invalid issue date format')
+      .or(z.date())
+      .default(() => new Date().toISOString()),
+
+    expiryDate: z.string().datetime('Invalid expiry date format').or(z.date()),
+
+    items: estimateFields.items,
+
+    notes: estimateFields.notes,
+
+    terms: estimateFields.terms,
+
+    currency: z
+      .string()
+      .length(3, 'Currency must be a 3-letter code (e.g., USD)')
+      .toUpperCase()
+      .default('USD'),
+
+    // Later statuses are reached through the status transitions
+    status: z.enum(['draft', 'sent']).default('draft'),
+
+    taxRate: estimateFields.taxRate.default(0),
+
+    discountType: estimateFields.discountType.default('percentage'),
+
+    discountValue: estimateFields.discountValue.default(0),
+
+    shippingCost: estimateFields.shippingCost.default(0),
+
+    tags: estimateFields.tags.default([]),
+
+    metadata: estimateFields.metadata.optional()
+  })
+  .refine(data => new Date(data.expiryDate) >= new Date(data.issueDate), {
+    message: 'Expiry date must be on or after issue date',
+    path: ['expiryDate']
+  })
+  .refine(usesSingleTaxModel, singleTaxModelMessage);
+
+// Update estimate schema
+export const updateEstimateSchema = z
+  .object({
+    number: estimateFields.number.optional(),
+
+    issueDate: z.string().datetime('Invalid issue date format').or(z.date()).optional(),
+
+    expiryDate: z.string().datetime('Invalid expiry date format').or(z.date()).optional(),
+
+    items: estimateFields.items.optional(),
+
+    notes: estimateFields.notes,
+
+    terms: estimateFields.terms,
+
+    currency: z
+      .string()
+      .length(3, 'Currency must be a 3-letter code (e.g., USD)')
+      .toUpperCase()
+      .optional(),
+
+    taxRate: estimateFields.taxRate.optional(),
+
+    discountType: estimateFields.discountType.optional(),
+
+    discountValue: estimateFields.discountValue.optional(),
+
+    shippingCost: estimateFields.shippingCost.optional(),
+
+    tags: estimateFields.tags.optional(),
+
+    metadata: estimateFields.metadata.optional()
+  })
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update'
+  })
+  .refine(usesSingleTaxModel, singleTaxModelMessage);
+
+// Estimate status update schema
+export const updateEstimateStatusSchema = z.object({
+  status: z.enum(['sent', 'accepted', 'declined', 'expired']),
+
+  reason: z.string().max(500, 'Reason must not exceed 500 characters').trim().optional()
+});
+
+// Convert estimate schema
+export const convertEstimateSchema = z.object({
+  issueDate: z.string().datetime('Invalid issue date format').optional(),
+
+  // Defaults to the client's payment terms
+  dueDate: z.string().datetime('Invalid due date format').optional()
+});
+
+// Estimate query filters schema
+export const estimateQuerySchema = z.object({
+  search: z.string().max(100, 'Search term must not exceed 100 characters').trim().optional(),
+
+  clientId: z
+    .string()
+    .regex(/^[a-fA-F0-9]{24}$/, 'Invalid client ID format')
+    .optional(),
+
+  status: z.enum(['draft', 'sent', 'accepted', 'declined', 'expired']).optional(),
+
+  // Pagination
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(10),
+  sort: z
+    .enum(['number', 'issueDate', 'expiryDate', 'amount', 'status', 'createdAt'])
+    .default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc')
+});
+
+// Export types for TypeScript
+export type CreateEstimateInput = z.infer<typeof createEstimateSchema>;
+export type UpdateEstimateInput = z.infer<typeof updateEstimateSchema>;
+export type UpdateEstimateStatusInput = z.infer<typeof updateEstimateStatusSchema>;
+export type ConvertEstimateInput = z.infer<typeof convertEstimateSchema>;
+export type EstimateQueryInput = z.infer<typeof estimateQuerySchema>;
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+// ISO 4217 currency code
+const currencyCode = z
+  .string()
+  .length(3, 'Currency must be a 3-letter code')
+  .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter code')
+  .toUpperCase();
+
+// Calendar day, either YYYY-MM-DD or a full ISO datetime
+const rateDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}(T.*)?$/, 'Date must be in YYYY-MM-DD format')
+  .refine(value => !Number.isNaN(Date.parse(value)), { message: 'Invalid date' });
+
+// Set exchange rate schema
+export const setExchangeRateSchema = z
+  .object({
+    base: currencyCode,
+    quote: currencyCode,
+    rate: z.number().positive('Rate must be positive').max(1000000, 'Rate is too large'),
+    date: rateDate.optional()
+  })
+  .refine(data => data.base !== data.quote, {
+    message: 'Base and quote currencies must differ',
+    path: ['quote']
+  });
+
+// Import exchange rates schema
+export const importExchangeRatesSchema = z.object({
+  format: z.enum(['xml', 'csv']),
+  content: z
+    .string()
+    .min(1, 'File content is required')
+    .max(5 * 1024 * 1024, 'File content must not exceed 5MB'),
+  // ECB reference rates are quoted against the euro
+  base: currencyCode.default('EUR')
+});
+
+// Exchange rate query filters schema
+export const exchangeRateQuerySchema = z.object({
+  base: currencyCode.optional(),
+  quote: currencyCode.optional(),
+  from: rateDate.optional(),
+  to: rateDate.optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20)
+});
+
+// Currency conversion query schema
+export const convertCurrencyQuerySchema = z.object({
+  from: currencyCode,
+  to: currencyCode,
+  amount: z.coerce.number().min(0, 'Amount must be non-negative').default(1),
+  date: rateDate.optional()
+});
+
+// Export types for TypeScript
+export type SetExchangeRateInput = z.infer<typeof setExchangeRateSchema>;
+export type ImportExchangeRatesInput = z.infer<typeof importExchangeRatesSchema>;
+export type ExchangeRateQueryInput = z.infer<typeof exchangeRateQuerySchema>;
+export type ConvertCurrencyQueryInput = z.infer<typeof convertCurrencyQuerySchema>;
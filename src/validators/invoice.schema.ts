@@ -1,38 +1,58 @@
 import { z } from 'zod';
 
-export const invoiceItemSchema = z.object({
-  description: z
-    .string()
-    .min(1, 'Item description is required')
-    .max(500, 'Description must not exceed 500 characters')
-    .trim(),
+export const invoiceItemSchema = z
+  .object({
+    description: z
+      .string()
+      .min(1, 'Item description is required')
+      .max(500, 'Description must not exceed 500 characters')
+      .trim(),
 
-  quantity: z
-    .number()
-    .min(0.01, 'Quantity must be greater than 0')
-    .max(999999.99, 'Quantity too large'),
+    quantity: z
+      .number()
+      .min(0.01, 'Quantity must be greater than 0')
+      .max(999999.99, 'Quantity too large'),
 
-  unitPrice: z
-    .number()
-    .min(0, 'Unit price must be non-negative')
-    .max(999999.99, 'Unit price too large'),
+    unitPrice: z
+      .number()
+      .min(0, 'Unit price must be non-negative')
+      .max(999999.99, 'Unit price too large'),
 
-  taxRate: z
-    .number()
-    .min(0, 'Tax rate must be non-negative')
-    .max(100, 'Tax rate cannot exceed 100%')
-    .default(0),
+    taxRate: z
+      .number()
+      .min(0, 'Tax rate must be non-negative')
+      .max(100, 'Tax rate cannot exceed 100%')
+      .default(0),
 
-  discount: z
-    .number()
-    .min(0, 'Discount must be non-negative')
-    .max(100, 'Discount cannot exceed 100%')
-    .default(0),
+    // Rates from the user's tax catalogue
+    taxRateIds: z
+      .array(z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid tax rate ID format'))
+      .max(5, 'Maximum 5 taxes per item')
+      .default([]),
 
-  category: z.string().max(50, 'Category must not exceed 50 characters').trim().optional(),
+    discount: z
+      .number()
+      .min(0, 'Discount must be non-negative')
+      .max(100, 'Discount cannot exceed 100%')
+      .default(0),
 
-  unit: z.string().max(20, 'Unit must not exceed 20 characters').trim().optional()
-});
+    category: z.string().max(50, 'Category must not exceed 50 characters').trim().optional(),
+
+    unit: z.string().max(20, 'Unit must not exceed 20 characters').trim().optional()
+  })
+  .refine(data => data.taxRate === 0 || data.taxRateIds.length === 0, {
+    message: 'Use either a tax rate or catalogue taxes on an item',
+    path: ['taxRateIds']
+  });
+
+// Catalogue taxes replace the invoice-level tax rate so the two cannot stack
+export const usesSingleTaxModel = (data: { taxRate?: number; items?: InvoiceItemInput[] }) =>
+  !data.taxRate || !data.items?.some(item => item.taxRateIds.length > 0);
+
+export const singleTaxModelMessage = {
+  message: 'Invoice tax rate cannot be combined with catalogue taxes on items',
+  path: ['taxRate']
+};
 
 // Payment terms schema
 export const paymentTermsSchema = z.object({
@@ -88,7 +108,8 @@ export const createInvoiceSchema = z
       .toUpperCase()
       .default('USD'),
 
-    status: z.enum(['draft', 'sent', 'viewed', 'paid', 'overdue', 'cancelled']).default('draft'),
+    // Later statuses are reached through the status transitions
+    status: z.enum(['draft', 'sent']).default('draft'),
 
     taxRate: z
       .number()
@@ -118,7 +139,8 @@ export const createInvoiceSchema = z
       message: 'Due date must be on or after issue date',
       path: ['dueDate']
     }
-  );
+  )
+  .refine(usesSingleTaxModel, singleTaxModelMessage);
 
 // Update invoice schema
 export const updateInvoiceSchema = z
@@ -172,7 +194,8 @@ export const updateInvoiceSchema = z
   })
   .refine(data => Object.keys(data).length > 0, {
     message: 'At least one field must be provided for update'
-  });
+  })
+  .refine(usesSingleTaxModel, singleTaxModelMessage);
 
 // Invoice status update schema
 export const updateInvoiceStatusSchema = z
@@ -257,6 +280,55 @@ export const invoiceParamsSchema = z.object({
   id: z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid invoice ID format')
 });
 
+// Invoice payment parameters schema
+export const invoicePaymentParamsSchema = z.object({
+  id: z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid invoice ID format'),
+  paymentId: z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid payment ID format')
+});
+
+// Record payment schema
+export const recordPaymentSchema = z.object({
+  amount: z
+    .number()
+    .positive('Payment amount must be positive')
+    .max(99999999.99, 'Payment amount is too large'),
+
+  date: z.string().datetime('Invalid payment date format').or(z.date()).optional(),
+
+  method: z.enum(['cash', 'check', 'credit_card', 'bank_transfer', 'paypal', 'other']),
+
+  reference: z.string().max(100, 'Payment reference must not exceed 100 characters').optional(),
+
+  notes: z.string().max(500, 'Payment notes must not exceed 500 characters').optional()
+});
+
+// Void payment schema
+export const voidPaymentSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'A reason is required to void a payment')
+    .max(500, 'Reason must not exceed 500 characters')
+});
+
+// Record refund schema
+export const recordRefundSchema = z.object({
+  amount: z
+    .number()
+    .positive('Refund amount must be positive')
+    .max(99999999.99, 'Refund amount is too large'),
+
+  date: z.string().datetime('Invalid refund date format').or(z.date()).optional(),
+
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'A reason is required to record a refund')
+    .max(500, 'Reason must not exceed 500 characters'),
+
+  reference: z.string().max(100, 'Refund reference must not exceed 100 characters').optional()
+});
+
 // Send invoice schema
 export const sendInvoiceSchema = z.object({
   to: z
@@ -278,6 +350,27 @@ export const sendInvoiceSchema = z.object({
   reminderDays: z.number().min(1).max(30).optional()
 });
 
+// Query string flag ("true" / "false") parsed into a boolean
+const booleanQueryFlag = z
+  .enum(['true', 'false'])
+  .transform(value => value === 'true')
+  .optional();
+
+// Invoice PDF rendering options schema
+export const invoicePdfQuerySchema = z.object({
+  template: z.enum(['standard', 'modern', 'minimal']).default('standard'),
+
+  language: z.string().min(2).max(5, 'Language code must not exceed 5 characters').optional(),
+
+  currency: z.string().length(3, 'Currency must be a 3-letter code').toUpperCase().optional(),
+
+  includePaymentStub: booleanQueryFlag,
+
+  watermark: z.string().max(30, 'Watermark must not exceed 30 characters').trim().optional(),
+
+  download: booleanQueryFlag
+});
+
 // Invoice analytics filters schema
 export const invoiceAnalyticsSchema = z.object({
   period: z.enum(['week', 'month', 'quarter', 'year', 'custom']).default('month'),
@@ -304,5 +397,10 @@ export type UpdateInvoiceInput = z.infer<typeof updateInvoiceSchema>;
 export type UpdateInvoiceStatusInput = z.infer<typeof updateInvoiceStatusSchema>;
 export type InvoiceQueryInput = z.infer<typeof invoiceQuerySchema>;
 export type InvoiceParamsInput = z.infer<typeof invoiceParamsSchema>;
+export type InvoicePaymentParamsInput = z.infer<typeof invoicePaymentParamsSchema>;
+export type RecordPaymentInput = z.infer<typeof recordPaymentSchema>;
+export type VoidPaymentInput = z.infer<typeof voidPaymentSchema>;
+export type RecordRefundInput = z.infer<typeof recordRefundSchema>;
 export type SendInvoiceInput = z.infer<typeof sendInvoiceSchema>;
+export type InvoicePdfQueryInput = z.infer<typeof invoicePdfQuerySchema>;
 export type InvoiceAnalyticsInput = z.infer<typeof invoiceAnalyticsSchema>;
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+import { NUMBER_SERIES } from '../models/NumberSequence.js';
+
+// Number series parameter schema
+export const numberSeriesParamsSchema = z.object({
+  series: z.enum(NUMBER_SERIES)
+});
+
+// Update number sequence schema
+export const updateNumberSequenceSchema = z
+  .object({
+    prefix: z
+      .string()
+      .min(1, 'Prefix is required')
+      .max(20, 'Prefix must not exceed 20 characters')
+      .regex(/^[A-Za-z0-9_/-]+$/, 'Prefix may only contain letters, numbers, "-", "_" and "/"')
+      .trim()
+      .optional(),
+
+    format: z
+      .string()
+      .max(50, 'Format must not exceed 50 characters')
+      .refine(format => format.includes('{seq}'), {
+        message: 'Format must contain the {seq} placeholder'
+      })
+      .optional(),
+
+    padding: z
+      .number()
+      .int('Padding must be an integer')
+      .min(1, 'Padding must be at least 1')
+      .max(10, 'Padding cannot exceed 10')
+      .optional(),
+
+    resetPolicy: z.enum(['yearly', 'never']).optional()
+  })
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update'
+  })
+  .refine(data => data.resetPolicy !== 'yearly' || !data.format || data.format.includes('{year}'), {
+    message: 'Format must contain the {year} placeholder when numbers reset yearly',
+    path: ['format']
+  });
+
+// Export types for TypeScript
+export type NumberSeriesParamsInput = z.infer<typeof numberSeriesParamsSchema>;
+export type UpdateNumberSequenceInput = z.infer<typeof updateNumberSequenceSchema>;
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+
+import { OWNER_ROLE, PERMISSIONS } from '../models/Role.js';
+
+// Create organization schema
+export const createOrganizationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Organization name is required')
+    .max(100, 'Organization name cannot exceed 100 characters')
+});
+
+// Key of a built-in or custom role; ownership cannot be assigned
+const roleKeySchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(
+    /^[a-z][a-z0-9_-]*$/,
+    'Role key must start with a letter and contain only a-z, 0-9, - and _'
+  )
+  .max(50, 'Role key cannot exceed 50 characters')
+  .refine(key => key !== OWNER_ROLE, { message: 'The owner role cannot be assigned' });
+
+// Invite member schema
+export const inviteMemberSchema = z.object({
+  email: z.string().email('Invalid email format').toLowerCase(),
+  role: roleKeySchema
+});
+
+// Update member schema
+export const updateMemberSchema = z.object({
+  role: roleKeySchema
+});
+
+// Create role schema
+export const createRoleSchema = z.object({
+  key: roleKeySchema,
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Role name is required')
+    .max(50, 'Role name cannot exceed 50 characters'),
+  description: z.string().trim().max(200, 'Description cannot exceed 200 characters').optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).default([])
+});
+
+// Update role schema (the key cannot change)
+export const updateRoleSchema = createRoleSchema
+  .omit({ key: true })
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update'
+  });
+
+// Accept invitation schema
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required')
+});
+
+// Organization member route params schema
+export const organizationMemberParamsSchema = z.object({
+  id: z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid organization ID format'),
+  memberId: z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid member ID format')
+});
+
+// Organization role route params schema
+export const organizationRoleParamsSchema = z.object({
+  id: z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid organization ID format'),
+  key: z.string().trim().toLowerCase().max(50, 'Role key cannot exceed 50 characters')
+});
+
+// Export types for TypeScript
+export type CreateOrganizationInput = z.infer<typeof createOrganizationSchema>;
+export type InviteMemberInput = z.infer<typeof inviteMemberSchema>;
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>;
+export type UpdateMemberInput = z.infer<typeof updateMemberSchema>;
+export type CreateRoleInput = z.infer<typeof createRoleSchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
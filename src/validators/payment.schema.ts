@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+import { PAYMENT_PROVIDERS } from '../services/paymentProviders/types.js';
+
+// Create checkout link schema; the provider defaults to PAYMENT_PROVIDER
+export const createCheckoutSchema = z.object({
+  provider: z.enum(PAYMENT_PROVIDERS).optional(),
+
+  successUrl: z.string().url('Invalid success URL'),
+
+  // Defaults to the success URL
+  cancelUrl: z.string().url('Invalid cancel URL').optional()
+});
+
+// Payment webhook route params schema
+export const paymentWebhookParamsSchema = z.object({
+  provider: z.enum(PAYMENT_PROVIDERS)
+});
+
+// Export types for TypeScript
+export type CreateCheckoutInput = z.infer<typeof createCheckoutSchema>;
+export type PaymentWebhookParamsInput = z.infer<typeof paymentWebhookParamsSchema>;
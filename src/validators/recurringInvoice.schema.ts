@@ -0,0 +1,183 @@
+import { z } from 'zod';
+
+import { invoiceItemSchema, singleTaxModelMessage, usesSingleTaxModel } from './invoice.schema.js';
+
+// Recurrence rule schema
+const scheduleSchema = z
+  .object({
+    frequency: z.enum(['weekly', 'monthly', 'quarterly', 'yearly']),
+
+    interval: z
+      .number()
+      .int()
+      .min(1, 'Interval must be at least 1')
+      .max(12, 'Interval cannot exceed 12')
+      .default(1),
+
+    // 0 is Sunday; weekly schedules only
+    dayOfWeek: z.number().int().min(0).max(6, 'Day of week must be between 0 and 6').optional(),
+
+    // Clamped to the last day of shorter months; monthly, quarterly and yearly schedules only
+    dayOfMonth: z.number().int().min(1).max(31, 'Day of month must be between 1 and 31').optional()
+  })
+  .refine(data => data.frequency === 'weekly' || data.dayOfWeek === undefined, {
+    message: 'Day of week only applies to weekly schedules',
+    path: ['dayOfWeek']
+  })
+  .refine(data => data.frequency !== 'weekly' || data.dayOfMonth === undefined, {
+    message: 'Day of month does not apply to weekly schedules',
+    path: ['dayOfMonth']
+  });
+
+// Template invoice schema; item descriptions, notes and terms may use {{period}} placeholders
+const templateSchema = z
+  .object({
+    items: z
+      .array(invoiceItemSchema)
+      .min(1, 'At least one item is required')
+      .max(100, 'Maximum 100 items allowed'),
+
+    currency: z
+      .string()
+      .length(3, 'Currency must be a 3-letter code (e.g., USD)')
+      .toUpperCase()
+      .default('USD'),
+
+    taxRate: z
+      .number()
+      .min(0, 'Tax rate must be non-negative')
+      .max(100, 'Tax rate cannot exceed 100%')
+      .default(0),
+
+    discountType: z.enum(['percentage', 'fixed']).default('percentage'),
+
+    discountValue: z.number().min(0, 'Discount value must be non-negative').default(0),
+
+    shippingCost: z.number().min(0, 'Shipping cost must be non-negative').default(0),
+
+    // Defaults to the client's payment terms
+    paymentTermsDays: z
+      .number()
+      .int()
+      .min(0)
+      .max(365, 'Payment terms cannot exceed 365 days')
+      .optional(),
+
+    notes: z.string().max(1000, 'Notes must not exceed 1000 characters').optional(),
+
+    terms: z.string().max(1000, 'Terms must not exceed 1000 characters').optional(),
+
+    tags: z.array(z.string().max(50)).max(10, 'Maximum 10 tags allowed').default([])
+  })
+  .refine(usesSingleTaxModel, singleTaxModelMessage);
+
+// Auto-send settings schema
+const autoSendSchema = z.object({
+  enabled: z.boolean().default(false),
+
+  // Defaults to the client email
+  to: z.array(z.string().email()).max(10, 'Maximum 10 recipients allowed').default([]),
+
+  cc: z.array(z.string().email()).max(5, 'Maximum 5 CC recipients allowed').default([]),
+
+  subject: z.string().max(200, 'Subject must not exceed 200 characters').optional(),
+
+  message: z.string().max(2000, 'Message must not exceed 2000 characters').optional(),
+
+  sendReminder: z.boolean().default(false)
+});
+
+// Create recurring invoice schema
+export const createRecurringInvoiceSchema = z
+  .object({
+    clientId: z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid client ID format'),
+
+    name: z
+      .string()
+      .min(1, 'Name is required')
+      .max(100, 'Name must not exceed 100 characters')
+      .trim(),
+
+    schedule: scheduleSchema,
+
+    startDate: z
+      .string()
+      .datetime('Invalid start date format')
+      .or(z.date())
+      .default(() => new Date().toISOString()),
+
+    endDate: z.string().datetime('Invalid end date format').or(z.date()).optional(),
+
+    maxOccurrences: z
+      .number()
+      .int()
+      .min(1, 'Occurrence count must be at least 1')
+      .max(1000, 'Occurrence count cannot exceed 1000')
+      .optional(),
+
+    template: templateSchema,
+
+    autoSend: autoSendSchema.optional()
+  })
+  .refine(data => !data.endDate || new Date(data.endDate) >= new Date(data.startDate), {
+    message: 'End date must be on or after start date',
+    path: ['endDate']
+  });
+
+// Update recurring invoice schema; a new schedule or start date restarts from today
+export const updateRecurringInvoiceSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'Name is required')
+      .max(100, 'Name must not exceed 100 characters')
+      .trim()
+      .optional(),
+
+    schedule: scheduleSchema.optional(),
+
+    startDate: z.string().datetime('Invalid start date format').or(z.date()).optional(),
+
+    // null removes the limit
+    endDate: z.string().datetime('Invalid end date format').or(z.date()).nullable().optional(),
+
+    maxOccurrences: z
+      .number()
+      .int()
+      .min(1, 'Occurrence count must be at least 1')
+      .max(1000, 'Occurrence count cannot exceed 1000')
+      .nullable()
+      .optional(),
+
+    template: templateSchema.optional(),
+
+    autoSend: autoSendSchema.optional()
+  })
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update'
+  });
+
+// Pause or resume a recurring invoice
+export const updateRecurringInvoiceStatusSchema = z.object({
+  status: z.enum(['active', 'paused'])
+});
+
+// Recurring invoice query filters schema
+export const recurringInvoiceQuerySchema = z.object({
+  clientId: z
+    .string()
+    .regex(/^[a-fA-F0-9]{24}$/, 'Invalid client ID format')
+    .optional(),
+
+  status: z.enum(['active', 'paused', 'completed']).optional(),
+
+  // Pagination
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(10)
+});
+
+// Export types for TypeScript
+export type CreateRecurringInvoiceInput = z.infer<typeof createRecurringInvoiceSchema>;
+export type UpdateRecurringInvoiceInput = z.infer<typeof updateRecurringInvoiceSchema>;
+export type UpdateRecurringInvoiceStatusInput = z.infer<typeof updateRecurringInvoiceStatusSchema>;
+export type RecurringInvoiceQueryInput = z.infer<typeof recurringInvoiceQuerySchema>;
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+// Create share link schema
+export const createShareLinkSchema = z.object({
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1, 'Link must be valid for at least 1 day')
+    .max(365, 'Link cannot be valid for more than 365 days')
+    .default(30)
+});
+
+// Share link route params schema
+export const shareLinkParamsSchema = z.object({
+  id: z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid invoice ID format'),
+  linkId: z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid share link ID format')
+});
+
+// Public share token params schema
+export const shareTokenParamsSchema = z.object({
+  token: z.string().min(20, 'Invalid share token').max(2048, 'Invalid share token')
+});
+
+// Public invoice view options schema; without a format the Accept header decides
+export const sharedInvoiceQuerySchema = z.object({
+  format: z.enum(['json', 'html']).optional()
+});
+
+// Public invoice PDF options schema
+export const sharedInvoicePdfQuerySchema = z.object({
+  language: z.string().min(2).max(5, 'Language code must not exceed 5 characters').optional(),
+
+  download: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional()
+});
+
+// Export types for TypeScript
+export type CreateShareLinkInput = z.infer<typeof createShareLinkSchema>;
+export type ShareLinkParamsInput = z.infer<typeof shareLinkParamsSchema>;
+export type SharedInvoiceQueryInput = z.infer<typeof sharedInvoiceQuerySchema>;
+export type SharedInvoicePdfQueryInput = z.infer<typeof sharedInvoicePdfQuerySchema>;
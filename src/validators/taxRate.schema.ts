@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+// Create tax rate schema
+export const createTaxRateSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Tax rate name is required')
+    .max(50, 'Tax rate name must not exceed 50 characters')
+    .trim(),
+
+  rate: z.number().min(0, 'Rate must be non-negative').max(100, 'Rate cannot exceed 100%'),
+
+  jurisdiction: z
+    .string()
+    .max(100, 'Jurisdiction must not exceed 100 characters')
+    .trim()
+    .optional(),
+
+  description: z.string().max(200, 'Description must not exceed 200 characters').trim().optional(),
+
+  compound: z.boolean().default(false),
+
+  inclusive: z.boolean().default(false)
+});
+
+// Update tax rate schema
+export const updateTaxRateSchema = createTaxRateSchema
+  .partial()
+  .extend({
+    isArchived: z.boolean().optional()
+  })
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update'
+  });
+
+// Tax rate query filters schema
+export const taxRateQuerySchema = z.object({
+  search: z.string().max(100, 'Search term must not exceed 100 characters').trim().optional(),
+
+  jurisdiction: z
+    .string()
+    .max(100, 'Jurisdiction must not exceed 100 characters')
+    .trim()
+    .optional(),
+
+  includeArchived: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform(value => value === 'true')
+});
+
+// Export types for TypeScript
+export type CreateTaxRateInput = z.infer<typeof createTaxRateSchema>;
+export type UpdateTaxRateInput = z.infer<typeof updateTaxRateSchema>;
+export type TaxRateQueryInput = z.infer<typeof taxRateQuerySchema>;
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+import { WEBHOOK_EVENTS } from '../models/Webhook.js';
+import { WEBHOOK_DELIVERY_STATUSES } from '../models/WebhookDelivery.js';
+
+// Endpoint deliveries are posted to
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url('Invalid webhook URL')
+  .max(2048, 'Webhook URL cannot exceed 2048 characters')
+  .refine(url => /^https?:\/\//i.test(url), { message: 'Webhook URL must use http or https' });
+
+// Subscribed events; duplicates are dropped
+const webhookEventsSchema = z
+  .array(z.enum(WEBHOOK_EVENTS))
+  .min(1, 'At least one event is required')
+  .transform(events => [...new Set(events)]);
+
+// Create webhook schema
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().trim().max(200, 'Description cannot exceed 200 characters').optional(),
+  events: webhookEventsSchema
+});
+
+// Update webhook schema; setting `active` to true re-enables a disabled webhook
+export const updateWebhookSchema = createWebhookSchema
+  .extend({ active: z.boolean() })
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update'
+  });
+
+// Webhook delivery route params schema
+export const webhookDeliveryParamsSchema = z.object({
+  id: z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid webhook ID format'),
+  deliveryId: z.string().regex(/^[a-fA-F0-9]{24}$/, 'Invalid delivery ID format')
+});
+
+// Webhook delivery log query schema
+export const webhookDeliveryQuerySchema = z.object({
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  event: z.enum(WEBHOOK_EVENTS).optional(),
+
+  // Pagination
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(10)
+});
+
+// Export types for TypeScript
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
+export type WebhookDeliveryParamsInput = z.infer<typeof webhookDeliveryParamsSchema>;
+export type WebhookDeliveryQueryInput = z.infer<typeof webhookDeliveryQuerySchema>;